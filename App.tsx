@@ -1,125 +1,64 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import AnnotationControls from './components/AnnotationControls';
+import BuildConfigControls from './components/BuildConfigControls';
+import CodeSymbolHits from './components/CodeSymbolHits';
+import DetailPanel from './components/DetailPanel';
+import DiffControls, { type CompareSettings } from './components/DiffControls';
+import ExportControls from './components/ExportControls';
+import HistoryControls from './components/HistoryControls';
+import IncludeGraphView from './components/IncludeGraphView';
+import KconfigHits from './components/KconfigHits';
+import KconfigSymbolPanel from './components/KconfigSymbolPanel';
 import KernelVisualizer from './components/KernelVisualizer';
-import { kernelData } from './data/kernelData';
-import { GithubIcon, SearchIcon, CollapseIcon, InfoIcon, FolderIcon, FileIcon, TuxIcon } from './components/Icons';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import OfflineStatus from './components/OfflineStatus';
+import SearchHits from './components/SearchHits';
+import SourceView from './components/SourceView';
+import SunburstView from './components/SunburstView';
+import TourList from './components/TourList';
+import TourPlayer from './components/TourPlayer';
+import TranslationReport from './components/TranslationReport';
+import TreemapView from './components/TreemapView';
+import ViewSwitcher, { type TreeViewMode } from './components/ViewSwitcher';
+import VisitedNodes from './components/VisitedNodes';
+import { useAnnotations } from './hooks/useAnnotations';
+import { useBuildConfig } from './hooks/useBuildConfig';
+import { useCodeSymbols } from './hooks/useCodeSymbols';
+import { useExpansionState } from './hooks/useExpansionState';
+import { useHistory } from './hooks/useHistory';
+import { useIncludes } from './hooks/useIncludes';
+import { useKconfig } from './hooks/useKconfig';
+import { useKernelTree } from './hooks/useKernelTree';
+import { useLocale } from './hooks/useLocale';
+import { useMaintainers } from './hooks/useMaintainers';
+import { useOfflineStatus } from './hooks/useOfflineStatus';
+import { useTours } from './hooks/useTours';
+import { CURRENT_VERSION, useTreeDiff } from './hooks/useTreeDiff';
+import { useUrlState, type SearchMode } from './hooks/useUrlState';
+import { useVisitedNodes } from './hooks/useVisitedNodes';
+import { buildSearchIndex, buildTreeFromIndex, findNodePath, isDirectoryNode, pruneIndex, pruneTree, searchTree } from './utils/treeUtils';
+import { formatFieldTerm, isEmptyQuery, parseQuery, type QueryField } from './utils/query';
+import { searchKconfig } from './utils/kconfig';
+import { heatLevel, sortByActivity } from './utils/history';
+import { isOtherArch, nodeBuildState } from './utils/kernelConfig';
+import { searchCodeSymbols } from './utils/codeSymbols';
+import type { Tour } from './utils/tours';
+import { findMissingTranslations, localizeIndex, localizeTree } from './utils/locales';
+import { formatString, type UiStringKey } from './utils/uiStrings';
+import { filterChangedNodes } from './utils/treeDiff';
+import { splitPath, toCanonicalPath, toRelativePath } from './utils/nodePath';
+import { detectLanguage } from './utils/nodeMetadata';
+import { annotationOf } from './utils/annotations';
+import { GithubIcon, SearchIcon, CollapseIcon, ExpandIcon, LocateIcon, TuxIcon, BackIcon, ForwardIcon } from './components/Icons';
 import type { KernelNode } from './types';
-import HighlightText from './components/HighlightText';
 
-/**
- * Recursively filters a tree of KernelNode objects based on a search term.
- * A node is kept if its name, summary, or description matches the term, or if any of its descendants match.
- * @param {KernelNode} node - The current node in the tree to filter.
- * @param {string} term - The search term to filter by.
- * @returns {KernelNode | null} The filtered node, or null if no part of the subtree matches.
- */
-const filterTree = (node: KernelNode, term: string): KernelNode | null => {
-    const lowerCaseTerm = term.toLowerCase().trim();
-    if (lowerCaseTerm === '') {
-      return node;
-    }
-  
-    const filteredChildren = node.children
-      ?.map(child => filterTree(child, lowerCaseTerm))
-      .filter((child): child is KernelNode => child !== null);
-  
-    const isMatch =
-      node.name.toLowerCase().includes(lowerCaseTerm) ||
-      node.summary.toLowerCase().includes(lowerCaseTerm) ||
-      node.description.toLowerCase().includes(lowerCaseTerm);
-  
-    if (isMatch || (filteredChildren && filteredChildren.length > 0)) {
-      return { ...node, children: filteredChildren };
-    }
-  
-    return null;
-  };
+/** The choices offered by the "expand to depth" menu, as numbers of levels below the root. */
+const EXPAND_DEPTHS = [1, 2, 3, 4, 5];
 
-/**
- * Finds the path from the root to a target node.
- * @param {KernelNode} root - The root of the tree to search in.
- * @param {KernelNode} targetNode - The node to find the path for.
- * @returns {KernelNode[]} An array of nodes representing the path, or an empty array if not found.
- */
-const findNodePath = (root: KernelNode, targetNode: KernelNode): KernelNode[] => {
-    const path: KernelNode[] = [];
-  
-    function search(node: KernelNode): boolean {
-      path.push(node);
-      if (node === targetNode) {
-        return true;
-      }
-      if (node.children) {
-        for (const child of node.children) {
-          if (search(child)) {
-            return true;
-          }
-        }
-      }
-      path.pop();
-      return false;
-    }
-  
-    search(root);
-    return path;
+const SEARCH_MODE_LABELS: Record<SearchMode, UiStringKey> = {
+  tree: 'searchModeTree',
+  symbols: 'searchModeSymbols',
 };
-  
-
-interface DetailPanelProps {
-  node: KernelNode | null;
-  path: KernelNode[];
-  onNodeSelect: (node: KernelNode) => void;
-  searchTerm: string;
-}
-
-/**
- * A component that displays the detailed description of a selected kernel node.
- * If no node is selected, it shows a placeholder message.
- * @param {DetailPanelProps} props - The component props.
- * @param {KernelNode | null} props.node - The currently selected node, or null.
- * @param {KernelNode[]} props.path - The path from the root to the selected node.
- * @param {(node: KernelNode) => void} props.onNodeSelect - Callback to select a node, used for breadcrumbs.
- * @param {string} props.searchTerm - The current search term for highlighting.
- * @returns {React.ReactElement} The rendered detail panel component.
- */
-const DetailPanel: React.FC<DetailPanelProps> = ({ node, path, onNodeSelect, searchTerm }) => {
-  if (!node) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full text-center text-slate-500 sticky top-6">
-        <InfoIcon className="w-12 h-12 mb-4 text-slate-400" />
-        <h3 className="text-lg font-semibold text-slate-700">View Details</h3>
-        <p className="mt-1 text-sm">Select an item to see its description.</p>
-      </div>
-    );
-  }
-
-  const isDirectory = node.children && node.children.length > 0;
-  const IconComponent = isDirectory ? FolderIcon : FileIcon;
-
-  return (
-    <div className="h-full sticky top-6">
-        <div className="mb-4 text-sm text-slate-500 flex flex-wrap items-center" aria-label="Breadcrumb">
-            {path.map((p, index) => (
-            <React.Fragment key={p.name + index}>
-                <button onClick={() => onNodeSelect(p)} className="hover:text-cyan-600 hover:underline">
-                    {p.name.replace(/\/$/, '') || 'linux'}
-                </button>
-                {index < path.length - 1 && <span className="mx-1">/</span>}
-            </React.Fragment>
-            ))}
-      </div>
-      <div className="flex items-start gap-3 mb-4">
-        <IconComponent className={`w-8 h-8 flex-shrink-0 ${isDirectory ? 'text-cyan-500' : 'text-slate-400'}`} />
-        <h2 className="text-2xl font-bold text-slate-900 break-all">
-            <HighlightText text={node.name} highlight={searchTerm} as="span" />
-        </h2>
-      </div>
-      <div className="text-slate-600 text-base leading-relaxed prose">
-        <HighlightText text={node.description} highlight={searchTerm} />
-      </div>
-    </div>
-  );
-};
-
 
 /**
  * The main application component for the Linux Kernel Visualizer.
@@ -128,54 +67,494 @@ const DetailPanel: React.FC<DetailPanelProps> = ({ node, path, onNodeSelect, sea
  * @returns {React.ReactElement} The rendered application component.
  */
 const App: React.FC = () => {
-    const [searchTerm, setSearchTerm] = useState('');
-    const [visualizerKey, setVisualizerKey] = useState(0);
-    const [selectedNode, setSelectedNode] = useState<KernelNode | null>(null);
-    const [selectedNodePath, setSelectedNodePath] = useState<KernelNode[]>([]);
-
-    const filteredData = useMemo(() => {
-        if (!searchTerm) {
-            return kernelData;
+    const [urlState, setUrlState, navigation] = useUrlState();
+    const visited = useVisitedNodes();
+    const [revealRequest, setRevealRequest] = useState(0);
+    // A link to lines of a file opens its source.
+    const [view, setView] = useState<TreeViewMode>(() => (urlState.lines ? 'source' : 'tree'));
+    const [compare, setCompare] = useState<CompareSettings | null>(null);
+    const [showNotes, setShowNotes] = useState(false);
+    const notes = useAnnotations();
+    const [showTours, setShowTours] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+    const [showTranslations, setShowTranslations] = useState(false);
+    const [showBuild, setShowBuild] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [heatmap, setHeatmap] = useState(false);
+    const [activitySort, setActivitySort] = useState(false);
+    const build = useBuildConfig();
+    const locale = useLocale();
+    const offline = useOfflineStatus();
+    const { strings } = locale;
+    const [tourState, setTourState] = useState<{ tour: Tour; step: number } | null>(null);
+    const tours = useTours(showTours);
+    const symbolSearch = urlState.mode === 'symbols';
+    // In symbol mode the search box looks up definitions and leaves the tree unfiltered.
+    const searchTerm = symbolSearch ? '' : urlState.query;
+    const symbolQuery = useMemo(() => (symbolSearch ? parseQuery(urlState.query) : null), [symbolSearch, urlState.query]);
+    const query = useMemo(() => parseQuery(searchTerm), [searchTerm]);
+    const searchActive = !isEmptyQuery(query);
+    const chartView = view === 'sunburst' || view === 'treemap';
+    const { root: loadedRoot, rootError, childStatus, loadChildren, searchIndex: loadedIndex, searchIndexError, retrySearchIndex } = useKernelTree(
+        searchActive || chartView || compare !== null || showTranslations || showBuild,
+    );
+    // Summaries and descriptions are shown and searched in the chosen language; comparisons use the text as written.
+    const root = useMemo(() => (loadedRoot ? localizeTree(loadedRoot, locale.texts) : null), [loadedRoot, locale.texts]);
+    const searchIndex = useMemo(() => (loadedIndex ? localizeIndex(loadedIndex, locale.texts) : null), [loadedIndex, locale.texts]);
+    const expansion = useExpansionState(searchActive || (compare?.changedOnly ?? false));
+    const { reveal, setExpanded } = expansion;
+
+    // The charts and the comparison need the whole tree at once, so they use the index rather than loading every chunk.
+    const fullTree = useMemo(
+        () => (root && searchIndex && chartView ? buildTreeFromIndex(root, searchIndex) : null),
+        [root, searchIndex, chartView],
+    );
+    const currentTree = useMemo(
+        () => (loadedRoot && loadedIndex && compare ? buildTreeFromIndex(loadedRoot, loadedIndex) : null),
+        [loadedRoot, loadedIndex, compare],
+    );
+    const treeDiff = useTreeDiff(compare !== null, compare?.before ?? null, compare?.after ?? null, currentTree);
+    const diff = compare ? treeDiff.diff : null;
+    const diffTree = useMemo(() => (diff ? localizeTree(diff.tree, locale.texts) : null), [diff, locale.texts]);
+
+    // While comparing, the merged tree of both versions (complete, so it needs no index) replaces the loaded tree.
+    const displayRoot = useMemo(
+        () => (diff && diffTree ? (compare?.changedOnly ? filterChangedNodes(diffTree, diff.entries) : diffTree) : root),
+        [diff, diffTree, compare?.changedOnly, root],
+    );
+    const displayIndex = useMemo(
+        () => (diff ? (displayRoot ? buildSearchIndex(displayRoot) : null) : searchIndex),
+        [diff, displayRoot, searchIndex],
+    );
+
+    // Pick the newest snapshot and the current tree when the comparison is first opened.
+    const defaultBefore = treeDiff.versions.length > 1 ? treeDiff.versions[treeDiff.versions.length - 2] : null;
+    useEffect(() => {
+        if (compare && compare.before === null && compare.after === CURRENT_VERSION && defaultBefore) {
+            setCompare({ ...compare, before: defaultBefore });
         }
-        return filterTree(kernelData, searchTerm);
-    }, [searchTerm]);
+    }, [compare, defaultBefore]);
+
+    // The selection lives in the URL as a path relative to the root; nodes are looked up by
+    // their canonical path, so the selection survives filtering and lazy loading.
+    const selectionRoot = diffTree ?? root;
+    const requestedPath = selectionRoot && urlState.path !== null ? toCanonicalPath(selectionRoot.name, urlState.path) : null;
+    const selectedNodePath = useMemo(
+        () => (selectionRoot && requestedPath ? findNodePath(selectionRoot, requestedPath, diff ? null : searchIndex) : []),
+        [selectionRoot, requestedPath, diff, searchIndex],
+    );
+    const isResolved = requestedPath !== null && selectedNodePath.length === splitPath(requestedPath).length;
+    // The path stops at a loaded directory or a file, so the rest of it does not exist.
+    const lastResolved = selectedNodePath[selectedNodePath.length - 1];
+    const isMissing = requestedPath !== null && !isResolved && lastResolved !== undefined && !lastResolved.lazyChildren;
+    const selectedNode = isResolved ? selectedNodePath[selectedNodePath.length - 1] : null;
+    const selectedPath = isResolved ? selectedNodePath.map(n => n.name).join('') : requestedPath;
+    const maintainers = useMaintainers(
+        selectedNode !== null || query.clauses.some(clause => clause.field === 'maintainer' || clause.field === 'list'),
+    );
+    const kconfig = useKconfig(selectedNode !== null || searchActive || urlState.symbol !== null || build.config !== null);
+    const includes = useIncludes(selectedNode !== null || view === 'includes');
+    const history = useHistory(selectedNode !== null || showHistory || heatmap || activitySort);
+    const codeSymbols = useCodeSymbols(
+        (selectedNode !== null && !isDirectoryNode(selectedNode)) || (symbolQuery !== null && !isEmptyQuery(symbolQuery)),
+    );
+
+    // Normalize hand-typed links, e.g. `#/kernel/sched` becomes `#/kernel/sched/`.
+    useEffect(() => {
+        if (isResolved && selectedPath !== requestedPath) {
+            setUrlState({ ...urlState, path: toRelativePath(selectedPath!) }, { replace: true });
+        }
+    }, [isResolved, selectedPath, requestedPath, urlState, setUrlState]);
+
+    const { visit } = visited;
+    useEffect(() => {
+        if (isResolved && selectedPath === requestedPath) {
+            visit(toRelativePath(selectedPath));
+        }
+    }, [isResolved, selectedPath, requestedPath, visit]);
+
+    // Alt+Left and Alt+Right step through the selections, except where they move the caret by words.
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            if (!event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+                return;
+            }
+            if (event.key === 'ArrowLeft' && navigation.canGoBack) {
+                event.preventDefault();
+                navigation.back();
+            } else if (event.key === 'ArrowRight' && navigation.canGoForward) {
+                event.preventDefault();
+                navigation.forward();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [navigation]);
+
+    // A node found only in the search index lacks its metadata; load its directories one level at a time.
+    useEffect(() => {
+        const index = selectedNodePath.findIndex((node, i) => node.lazyChildren && i < selectedNodePath.length - 1);
+        if (index < 0) {
+            return;
+        }
+        const directory = selectedNodePath.slice(0, index + 1).map(n => n.name).join('');
+        if (!childStatus[directory]) {
+            loadChildren(directory);
+        }
+    }, [selectedNodePath, childStatus, loadChildren]);
+
+    // Keep the selected node visible by expanding its ancestors.
+    useEffect(() => {
+        if (selectedPath) {
+            reveal(selectedPath);
+        }
+    }, [selectedPath, reveal]);
+
+    // A tour stop that is a directory is shown open, once the search its step cleared is gone.
+    const tourStep = tourState ? tourState.tour.steps[tourState.step] : null;
+    useEffect(() => {
+        if (root && tourStep && tourStep.path.endsWith('/') && !searchActive) {
+            setExpanded([{ path: toCanonicalPath(root.name, tourStep.path), depth: splitPath(tourStep.path).length }], true);
+        }
+    }, [root, tourStep, searchActive, setExpanded]);
+
+    // How the loaded `.config` builds each node, once the Makefile data is there to tell.
+    const buildConfig = build.config;
+    const buildDecisionOf = useMemo(
+        () => (buildConfig && kconfig ? (relativePath: string) => nodeBuildState(relativePath, buildConfig, kconfig) : null),
+        [buildConfig, kconfig],
+    );
+    const buildStateOf = useMemo(
+        () => (buildDecisionOf ? (relativePath: string) => buildDecisionOf(relativePath).state : undefined),
+        [buildDecisionOf],
+    );
+    // Other architectures are greyed out or left out; with "built only", so is whatever the configuration does not build
+    // and whatever no Makefile reaches.
+    const focusArch = build.arch;
+    const hiddenArch = focusArch && build.archMode === 'hide' ? focusArch : null;
+    const keepPath = useMemo(() => {
+        const dropUnbuilt = build.builtOnly ? buildStateOf : undefined;
+        if (!hiddenArch && !dropUnbuilt) {
+            return null;
+        }
+        return (relativePath: string) => {
+            if (hiddenArch && isOtherArch(relativePath, hiddenArch)) {
+                return false;
+            }
+            const state = dropUnbuilt?.(relativePath);
+            return state !== 'off' && state !== null;
+        };
+    }, [hiddenArch, build.builtOnly, buildStateOf]);
+    const isDimmed = useMemo(() => {
+        const dimmedArch = focusArch && build.archMode === 'dim' ? focusArch : null;
+        if (!dimmedArch && !buildStateOf) {
+            return undefined;
+        }
+        return (relativePath: string) =>
+            (dimmedArch !== null && isOtherArch(relativePath, dimmedArch)) || buildStateOf?.(relativePath) === 'off';
+    }, [focusArch, build.archMode, buildStateOf]);
+    const visibleRoot = useMemo(
+        () => (displayRoot && keepPath ? pruneTree(displayRoot, keepPath) : displayRoot),
+        [displayRoot, keepPath],
+    );
+    const visibleIndex = useMemo(
+        () => (displayIndex && keepPath ? pruneIndex(displayIndex, keepPath) : displayIndex),
+        [displayIndex, keepPath],
+    );
+    const visibleFullTree = useMemo(
+        () => (fullTree && keepPath ? pruneTree(fullTree, keepPath) : fullTree),
+        [fullTree, keepPath],
+    );
+    const archChoices = useMemo(() => {
+        const entries = loadedIndex?.entries ?? (loadedRoot ? buildSearchIndex(loadedRoot).entries : []);
+        return entries
+            .map(([path]) => path.match(/^arch\/([^/]+)\/$/)?.[1])
+            .filter((name): name is string => name !== undefined)
+            .sort();
+    }, [loadedIndex, loadedRoot]);
+
+    // Until the full index arrives, search the part of the tree that is already loaded.
+    const { tree: searchedData, hits } = useMemo(() => {
+        if (!visibleRoot || !searchActive) {
+            return { tree: visibleRoot, hits: [] };
+        }
+        return searchTree(visibleRoot, visibleIndex ?? buildSearchIndex(visibleRoot), query, { maintainers, annotations: notes.annotations });
+    }, [visibleRoot, visibleIndex, searchActive, query, maintainers, notes.annotations]);
+
+    // The history colors rows and charts by their number of commits, and can list the busiest nodes first.
+    const activityHistory = history && history.data.head !== null ? history : null;
+    const filteredData = useMemo(
+        () => (searchedData && activitySort && activityHistory ? sortByActivity(searchedData, activityHistory) : searchedData),
+        [searchedData, activitySort, activityHistory],
+    );
+    const heatOf = useMemo(
+        () => (heatmap && activityHistory ? (relativePath: string) => heatLevel(activityHistory, relativePath) : undefined),
+        [heatmap, activityHistory],
+    );
+
+    const missingTranslations = useMemo(
+        () => (showTranslations && loadedRoot && loadedIndex ? findMissingTranslations(loadedRoot, loadedIndex, locale.ownTexts) : null),
+        [showTranslations, loadedRoot, loadedIndex, locale.ownTexts],
+    );
+
+    const chartData = !chartView || searchActive || diff ? filteredData : visibleFullTree ?? filteredData;
+
+    const kconfigHits = useMemo(
+        () => (kconfig && searchActive ? searchKconfig(kconfig, query) : []),
+        [kconfig, searchActive, query],
+    );
+
+    const codeSymbolHits = useMemo(
+        () => (codeSymbols && symbolQuery ? searchCodeSymbols(codeSymbols, symbolQuery) : null),
+        [codeSymbols, symbolQuery],
+    );
+
+    const matchedPaths = useMemo(
+        () => (displayRoot && searchActive ? new Set(hits.map(hit => toCanonicalPath(displayRoot.name, hit.path))) : null),
+        [displayRoot, searchActive, hits],
+    );
+
+    const selectedBuild = buildConfig && selectedPath
+        ? { config: buildConfig, decision: buildDecisionOf?.(toRelativePath(selectedPath)) ?? null }
+        : null;
+
+    const selectedDiff = diff && compare?.before && compare.after && selectedPath
+        ? diff.entries.get(toRelativePath(selectedPath))
+        : undefined;
 
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setSearchTerm(e.target.value);
-        setSelectedNode(null);
-        setSelectedNodePath([]);
+        setUrlState({ ...urlState, query: e.target.value });
     };
     
-    const handleNodeSelect = useCallback((node: KernelNode) => {
-        setSelectedNode(node);
-        const path = findNodePath(kernelData, node);
-        setSelectedNodePath(path);
-      }, []);
-
-    const handleCollapseAll = () => {
-        setSearchTerm('');
-        setSelectedNode(null);
-        setSelectedNodePath([]);
-        setVisualizerKey(prevKey => prevKey + 1);
+    const handleNodeSelect = useCallback((_node: KernelNode, path: string) => {
+        setUrlState({ ...urlState, path: toRelativePath(path), symbol: null, lines: null });
+      }, [urlState, setUrlState]);
+
+    const handleSymbolSelect = useCallback((name: string) => {
+        setUrlState({ ...urlState, symbol: name });
+    }, [urlState, setUrlState]);
+
+    const handleSymbolClose = () => {
+        setUrlState({ ...urlState, symbol: null });
+    };
+
+    const handlePathSelect = (relativePath: string) => {
+        setUrlState({ ...urlState, path: relativePath, symbol: null, lines: null });
+    };
+
+    const handleSearchModeChange = (mode: SearchMode) => {
+        setUrlState({ ...urlState, mode });
+    };
+
+    // Selects a file and shows its source at a line, e.g. a definition found by a symbol search.
+    const handleLocationSelect = (relativePath: string, line: number) => {
+        setUrlState({ ...urlState, path: relativePath, symbol: null, lines: { start: line, end: line } });
+        setView('source');
+    };
+
+    const handleFieldSearch = useCallback((field: QueryField, value: string) => {
+        setUrlState({ ...urlState, query: formatFieldTerm(field, value) });
+    }, [urlState, setUrlState]);
+
+    // Selects a tour's step in the tree view, clearing any search that could hide it.
+    const handleTourStep = (tour: Tour, step: number) => {
+        setTourState({ tour, step });
+        setUrlState({ ...urlState, path: tour.steps[step].path, query: '', symbol: null, lines: null });
+        setView('tree');
+    };
+
+    const handleOpenTour = (file: File) => {
+        tours.openFile(file)
+            .then(tour => handleTourStep(tour, 0))
+            .catch(() => {
+                // The hook reports the error in the list.
+            });
+    };
+
+    const handleRevealSelected = () => {
+        if (selectedPath) {
+            reveal(selectedPath);
+            setRevealRequest(prev => prev + 1);
+        }
+    };
+
+    const handleDepthChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        expansion.expandToDepth(Number(e.target.value));
+    };
+
+    const handleCompareToggle = () => {
+        setCompare(prev => (prev ? null : { before: null, after: CURRENT_VERSION, changedOnly: false }));
     };
 
+    const handleOpenSnapshot = (file: File) => {
+        treeDiff.openFile(file)
+            .then(version => setCompare(prev => (prev ? { ...prev, before: version } : prev)))
+            .catch(() => {
+                // The hook reports the error next to the controls.
+            });
+    };
+
+    let treeContent: React.ReactNode;
+    if (rootError) {
+        treeContent = (
+            <div className="text-center text-red-600 py-8">
+                <p className="text-lg">{strings.loadError}</p>
+                <p className="text-sm mt-2">{rootError}</p>
+            </div>
+        );
+    } else if (!root) {
+        treeContent = <div className="text-center text-slate-500 py-8" role="status">{strings.loading}</div>;
+    } else if (compare && !diff) {
+        treeContent = (
+            <div className="text-center text-slate-500 py-8" role="status">
+                {compare.before && compare.after ? strings.loadingVersions : strings.chooseVersions}
+            </div>
+        );
+    } else if (diff && !displayRoot) {
+        treeContent = <div className="text-center text-slate-500 py-8">{strings.versionsIdentical}</div>;
+    } else if (filteredData) {
+        treeContent = (
+            <>
+                {searchIndexError && (searchActive || chartView) && (
+                    <p className="mb-4 text-sm text-red-600">
+                        {strings.searchIndexError}{' '}
+                        <button onClick={retrySearchIndex} className="underline hover:text-red-800">
+                            {strings.retry}
+                        </button>
+                    </p>
+                )}
+                {searchActive && (
+                    <SearchHits
+                        hits={hits}
+                        rootName={filteredData.name}
+                        selectedPath={selectedPath}
+                        onNodeSelect={handleNodeSelect}
+                        searchTerm={searchTerm}
+                    />
+                )}
+                {view === 'sunburst' && chartData && (
+                    <SunburstView
+                        data={chartData}
+                        selectedPath={selectedPath}
+                        onNodeSelect={handleNodeSelect}
+                        matchedPaths={matchedPaths}
+                        heatOf={heatOf}
+                    />
+                )}
+                {view === 'treemap' && chartData && (
+                    <TreemapView
+                        data={chartData}
+                        selectedPath={selectedPath}
+                        onNodeSelect={handleNodeSelect}
+                        matchedPaths={matchedPaths}
+                        heatOf={heatOf}
+                    />
+                )}
+                {view === 'includes' && (
+                    <IncludeGraphView
+                        index={includes}
+                        selectedPath={selectedPath !== null ? toRelativePath(selectedPath) : null}
+                        onPathSelect={handlePathSelect}
+                    />
+                )}
+                {view === 'source' && (
+                    selectedNode && selectedPath && !isDirectoryNode(selectedNode) ? (
+                        <SourceView
+                            key={selectedPath}
+                            relativePath={toRelativePath(selectedPath)}
+                            language={selectedNode.language ?? detectLanguage(selectedNode.name)}
+                            lines={urlState.lines}
+                            onLinesChange={lines => setUrlState({ ...urlState, lines })}
+                        />
+                    ) : (
+                        <p className="text-center text-slate-500 py-8">{strings.selectFileForSource}</p>
+                    )
+                )}
+                {view === 'tree' && (
+                    <KernelVisualizer 
+                        data={filteredData} 
+                        searchActive={searchActive}
+                        selectedPath={selectedPath}
+                        revealRequest={revealRequest}
+                        isExpanded={expansion.isExpanded}
+                        onToggle={expansion.toggle}
+                        onSetExpanded={expansion.setExpanded}
+                        onNodeSelect={handleNodeSelect}
+                        searchTerm={searchTerm}
+                        childStatus={childStatus}
+                        onLoadChildren={loadChildren}
+                        diffEntries={diff?.entries}
+                        annotations={notes.annotations}
+                        buildStateOf={buildStateOf}
+                        isDimmed={isDimmed}
+                        heatOf={heatOf}
+                    />
+                )}
+            </>
+        );
+    } else {
+        treeContent = (
+            <div className="text-center text-slate-500 py-8">
+                <p className="text-lg">{formatString(strings.noResults, { query: searchTerm })}</p>
+                <p className="text-sm mt-2">{strings.noResultsHint}</p>
+            </div>
+        );
+    }
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-800 font-sans p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
         <header className="text-center mb-8 md:mb-12">
+            <div className="flex flex-wrap justify-end items-center gap-x-4 gap-y-2 mb-2">
+                <OfflineStatus status={offline} strings={strings} />
+                <LanguageSwitcher locale={locale.locale} choices={locale.choices} label={strings.language} onChange={locale.setLocale} />
+            </div>
             <div className="flex justify-center items-center gap-4 mb-2">
                  <TuxIcon className="h-12 w-12 text-slate-900" />
                  <h1 className="text-4xl sm:text-5xl font-bold text-slate-900 tracking-tight">
-                    Linux Kernel Visualizer v0.1
+                    {strings.title}
                  </h1>
             </div>
           <p className="text-slate-600 max-w-2xl mx-auto mt-4 text-lg">
-            An interactive visualization of the Linux kernel's directory structure. Click on any directory to expand or collapse its contents.
+            {strings.subtitle}
           </p>
         </header>
 
         <main className="bg-white border border-slate-200 rounded-lg shadow-xl shadow-cyan-500/5 overflow-hidden">
             <div className="flex items-center gap-2 p-4 sm:p-6 border-b border-slate-200">
+                <div className="inline-flex flex-shrink-0 gap-1">
+                    <button
+                        onClick={navigation.back}
+                        disabled={!navigation.canGoBack}
+                        className="bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-2 py-2 text-slate-600 hover:text-slate-800 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                        aria-label={strings.back}
+                        title={strings.back}
+                    >
+                        <BackIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                        onClick={navigation.forward}
+                        disabled={!navigation.canGoForward}
+                        className="bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-2 py-2 text-slate-600 hover:text-slate-800 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                        aria-label={strings.forward}
+                        title={strings.forward}
+                    >
+                        <ForwardIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="inline-flex flex-shrink-0 rounded-md border border-slate-300 overflow-hidden text-sm" role="group" aria-label={strings.searchIn}>
+                    {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => handleSearchModeChange(mode)}
+                            aria-pressed={urlState.mode === mode}
+                            className={`px-3 py-2 transition-colors ${urlState.mode === mode ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {strings[SEARCH_MODE_LABELS[mode]]}
+                        </button>
+                    ))}
+                </div>
                 <div className="relative flex-grow">
                     <span className="absolute inset-y-0 left-0 flex items-center pl-3" aria-hidden="true">
                         <SearchIcon className="w-5 h-5 text-slate-400" />
@@ -183,54 +562,260 @@ const App: React.FC = () => {
                     <input
                         type="search"
                         id="kernel-search"
-                        placeholder="Search files and descriptions..."
-                        value={searchTerm}
+                        placeholder={symbolSearch ? strings.symbolSearchPlaceholder : strings.searchPlaceholder}
+                        value={urlState.query}
                         onChange={handleSearchChange}
                         className="w-full bg-slate-100 border border-slate-300 rounded-md py-2 pl-10 pr-4 text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
-                        aria-label="Search kernel tree"
+                        aria-label={strings.searchLabel}
                     />
                 </div>
-                <button
-                    onClick={handleCollapseAll}
-                    className="flex items-center gap-2 bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-3 py-2 text-slate-600 hover:text-slate-800 transition-colors"
-                    aria-label="Collapse all directories"
-                    title="Collapse All"
-                >
-                    <CollapseIcon className="w-5 h-5" />
-                    <span className="hidden sm:inline text-sm font-medium">Collapse All</span>
-                </button>
+                {view === 'tree' && (
+                    <>
+                        <button
+                            onClick={expansion.expandAll}
+                            className="flex items-center gap-2 bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-3 py-2 text-slate-600 hover:text-slate-800 transition-colors"
+                            aria-label={strings.expandAllLabel}
+                            title={strings.expandAll}
+                        >
+                            <ExpandIcon className="w-5 h-5" />
+                            <span className="hidden lg:inline text-sm font-medium">{strings.expandAll}</span>
+                        </button>
+                        <button
+                            onClick={expansion.collapseAll}
+                            className="flex items-center gap-2 bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-3 py-2 text-slate-600 hover:text-slate-800 transition-colors"
+                            aria-label={strings.collapseAllLabel}
+                            title={strings.collapseAll}
+                        >
+                            <CollapseIcon className="w-5 h-5" />
+                            <span className="hidden lg:inline text-sm font-medium">{strings.collapseAll}</span>
+                        </button>
+                        <select
+                            value=""
+                            onChange={handleDepthChange}
+                            className="bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-2 py-2 text-sm text-slate-600 transition-colors"
+                            aria-label={strings.depthLabel}
+                            title={strings.depthLabel}
+                        >
+                            <option value="" disabled>{strings.depth}</option>
+                            {EXPAND_DEPTHS.map(depth => (
+                                <option key={depth} value={depth}>{formatString(depth === 1 ? strings.depthLevel : strings.depthLevels, { count: depth })}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleRevealSelected}
+                            disabled={!selectedPath}
+                            className="flex items-center gap-2 bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-3 py-2 text-slate-600 hover:text-slate-800 transition-colors disabled:opacity-50 disabled:pointer-events-none"
+                            aria-label={strings.revealSelectedLabel}
+                            title={strings.revealSelected}
+                        >
+                            <LocateIcon className="w-5 h-5" />
+                        </button>
+                    </>
+                )}
             </div>
             <div className="grid grid-cols-1 md:grid-cols-3 min-h-[60vh]">
                 <div className="md:col-span-2 p-4 sm:p-6 md:border-r border-b md:border-b-0 border-slate-200 overflow-auto">
-                    {filteredData ? (
-                        <KernelVisualizer 
-                            key={visualizerKey} 
-                            data={filteredData} 
-                            searchActive={searchTerm.length > 0}
-                            selectedNode={selectedNode}
-                            onNodeSelect={handleNodeSelect}
+                    <div className="mb-4 flex flex-wrap items-center gap-2">
+                        <ViewSwitcher view={view} onChange={setView} />
+                        <button
+                            onClick={handleCompareToggle}
+                            aria-pressed={compare !== null}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${compare ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {strings.compareVersions}
+                        </button>
+                        <button
+                            onClick={() => setShowNotes(prev => !prev)}
+                            aria-pressed={showNotes}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${showNotes ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {notes.conflicts.length > 0 ? formatString(strings.notesToResolve, { count: notes.conflicts.length }) : strings.notes}
+                        </button>
+                        <button
+                            onClick={() => setShowTours(prev => !prev)}
+                            aria-pressed={showTours}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${showTours ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {strings.tours}
+                        </button>
+                        <button
+                            onClick={() => setShowExport(prev => !prev)}
+                            aria-pressed={showExport}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${showExport ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {strings.export}
+                        </button>
+                        <button
+                            onClick={() => setShowTranslations(prev => !prev)}
+                            aria-pressed={showTranslations}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${showTranslations ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {strings.translations}
+                        </button>
+                        <button
+                            onClick={() => setShowBuild(prev => !prev)}
+                            aria-pressed={showBuild}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${showBuild ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {focusArch ? formatString(strings.buildConfigArch, { arch: focusArch }) : strings.buildConfig}
+                        </button>
+                        <button
+                            onClick={() => setShowHistory(prev => !prev)}
+                            aria-pressed={showHistory}
+                            className={`rounded-md border border-slate-300 px-3 py-2 text-sm transition-colors ${showHistory ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                        >
+                            {strings.history}
+                        </button>
+                    </div>
+                    {compare && (
+                        <DiffControls
+                            versions={treeDiff.versions}
+                            settings={compare}
+                            diff={diff}
+                            loading={treeDiff.loading}
+                            error={treeDiff.error}
+                            listError={treeDiff.listError}
+                            onChange={setCompare}
+                            onRetryList={treeDiff.retryList}
+                            onOpenFile={handleOpenSnapshot}
+                        />
+                    )}
+                    {showNotes && (
+                        <AnnotationControls
+                            annotations={notes.annotations}
+                            conflicts={notes.conflicts}
+                            selectedPath={selectedPath !== null ? toRelativePath(selectedPath) : null}
+                            onExport={notes.exportFile}
+                            onImport={notes.importFile}
+                            onResolve={notes.resolveConflicts}
+                            onPathSelect={handlePathSelect}
+                        />
+                    )}
+                    {showTours && (
+                        <TourList
+                            tours={tours.tours}
+                            error={tours.error}
+                            onRetry={tours.retryList}
+                            activeTourId={tourState?.tour.id ?? null}
+                            onStart={tour => handleTourStep(tour, 0)}
+                            onOpenFile={handleOpenTour}
+                        />
+                    )}
+                    {showExport && (
+                        <ExportControls
+                            data={filteredData}
+                            isExpanded={expansion.isExpanded}
+                            selectedPath={selectedPath}
+                        />
+                    )}
+                    {showTranslations && (
+                        <TranslationReport
+                            localeName={locale.choices.find(choice => choice.locale === locale.locale)?.name ?? locale.locale}
+                            isTextLocale={locale.locale === locale.textLocale}
+                            nodes={loadedIndex ? loadedIndex.entries.length + 1 : null}
+                            missing={missingTranslations}
+                            missingStrings={locale.missingStrings}
+                            error={locale.error}
+                            selectedPath={selectedPath !== null ? toRelativePath(selectedPath) : null}
+                            onPathSelect={handlePathSelect}
+                        />
+                    )}
+                    {showBuild && (
+                        <BuildConfigControls
+                            settings={build}
+                            archChoices={archChoices}
+                            gatesLoaded={kconfig !== null}
+                        />
+                    )}
+                    {showHistory && (
+                        <HistoryControls
+                            index={history}
+                            heatmap={heatmap}
+                            sortByActivity={activitySort}
+                            onHeatmapChange={setHeatmap}
+                            onSortChange={setActivitySort}
+                        />
+                    )}
+                    {symbolQuery && !isEmptyQuery(symbolQuery) && (
+                        <CodeSymbolHits
+                            hits={codeSymbolHits}
+                            selectedPath={selectedPath !== null ? toRelativePath(selectedPath) : null}
+                            onLocationSelect={handleLocationSelect}
+                            searchTerm={urlState.query}
+                        />
+                    )}
+                    {kconfigHits.length > 0 && (
+                        <KconfigHits
+                            hits={kconfigHits}
+                            selectedSymbol={urlState.symbol}
+                            onSymbolSelect={handleSymbolSelect}
                             searchTerm={searchTerm}
                         />
-                    ) : (
-                        <div className="text-center text-slate-500 py-8">
-                            <p className="text-lg">No results found for "{searchTerm}"</p>
-                            <p className="text-sm mt-2">Try a different search term.</p>
-                        </div>
                     )}
+                    {treeContent}
                 </div>
                 <div className="md:col-span-1 p-4 sm:p-6 bg-slate-50/50">
-                    <DetailPanel 
-                        node={selectedNode} 
-                        path={selectedNodePath} 
-                        onNodeSelect={handleNodeSelect}
-                        searchTerm={searchTerm}
-                    />
+                    {root && (
+                        <VisitedNodes
+                            pinned={visited.pinned}
+                            recent={visited.recent}
+                            rootName={root.name}
+                            selectedPath={selectedPath !== null ? toRelativePath(selectedPath) : null}
+                            onPathSelect={handlePathSelect}
+                            onUnpin={visited.togglePin}
+                            onClearRecent={visited.clearRecent}
+                        />
+                    )}
+                    {tourState && (
+                        <TourPlayer
+                            tour={tourState.tour}
+                            step={tourState.step}
+                            missing={isMissing && urlState.path === tourState.tour.steps[tourState.step].path}
+                            onStep={step => handleTourStep(tourState.tour, step)}
+                            onClose={() => setTourState(null)}
+                        />
+                    )}
+                    {urlState.symbol && kconfig ? (
+                        <KconfigSymbolPanel
+                            index={kconfig}
+                            name={urlState.symbol}
+                            onSymbolSelect={handleSymbolSelect}
+                            onPathSelect={handlePathSelect}
+                            onClose={handleSymbolClose}
+                        />
+                    ) : (
+                        <DetailPanel 
+                            node={selectedNode} 
+                            path={selectedNodePath} 
+                            maintainers={maintainers}
+                            kconfig={kconfig}
+                            includes={includes}
+                            codeSymbols={codeSymbols}
+                            history={history}
+                            diff={selectedDiff ? { entry: selectedDiff, before: compare!.before!, after: compare!.after! } : null}
+                            build={selectedBuild}
+                            annotation={selectedPath !== null ? annotationOf(notes.annotations, toRelativePath(selectedPath)) : undefined}
+                            isPinned={selectedPath !== null && visited.pinned.includes(toRelativePath(selectedPath))}
+                            onAnnotationSave={(note, tags) => notes.setAnnotation(toRelativePath(selectedPath!), note, tags)}
+                            onTogglePin={() => visited.togglePin(toRelativePath(selectedPath!))}
+                            onCopyLink={() => navigator.clipboard?.writeText(window.location.href)}
+                            onNodeSelect={handleNodeSelect}
+                            onPathSelect={handlePathSelect}
+                            onShowIncludeGraph={() => setView('includes')}
+                            onShowSource={() => setView('source')}
+                            onLineSelect={line => handleLocationSelect(toRelativePath(selectedPath!), line)}
+                            onFieldSearch={handleFieldSearch}
+                            onSymbolSelect={handleSymbolSelect}
+                            searchTerm={searchTerm}
+                            strings={strings}
+                        />
+                    )}
                 </div>
             </div>
         </main>
         
         <footer className="text-center mt-8 text-slate-500">
-            <p>Built with React, TypeScript, and Tailwind CSS.</p>
+            <p>{strings.footerBuiltWith}</p>
              <a 
                 href="https://github.com/torvalds/linux" 
                 target="_blank" 
@@ -238,7 +823,7 @@ const App: React.FC = () => {
                 className="inline-flex items-center gap-2 hover:text-cyan-500 transition-colors mt-2"
             >
                 <GithubIcon className="w-5 h-5" />
-                <span>View original source on GitHub</span>
+                <span>{strings.footerSource}</span>
             </a>
         </footer>
       </div>
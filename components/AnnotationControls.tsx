@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { AnnotationConflict, AnnotationMap, ConflictResolution } from '../utils/annotations';
+
+interface AnnotationControlsProps {
+  annotations: AnnotationMap;
+  conflicts: AnnotationConflict[];
+  selectedPath: string | null;
+  onExport: () => void;
+  onImport: (file: File) => Promise<string>;
+  onResolve: (resolution: ConflictResolution, paths?: string[]) => void;
+  onPathSelect: (relativePath: string) => void;
+}
+
+/** The choices offered for each conflict, and for all of them at once. */
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  current: 'Keep mine',
+  incoming: 'Take theirs',
+  both: 'Keep both',
+};
+
+/**
+ * The notes toolbar: export and import of the annotations, the conflicts left by the last
+ * import, and the list of annotated nodes.
+ * @param {AnnotationControlsProps} props - The component props.
+ * @param {AnnotationMap} props.annotations - The annotations by relative path.
+ * @param {AnnotationConflict[]} props.conflicts - The nodes whose imported notes differ from the current ones, until resolved.
+ * @param {string | null} props.selectedPath - The selected node's relative path, highlighted in the list.
+ * @param {() => void} props.onExport - Callback to download the annotations.
+ * @param {(file: File) => Promise<string>} props.onImport - Callback to merge a file; resolves to a summary.
+ * @param {(resolution: ConflictResolution, paths?: string[]) => void} props.onResolve - Callback to settle conflicts; all of them without paths.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select an annotated node.
+ * @returns {React.ReactElement} The rendered toolbar.
+ */
+const AnnotationControls: React.FC<AnnotationControlsProps> = ({ annotations, conflicts, selectedPath, onExport, onImport, onResolve, onPathSelect }) => {
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const paths = Object.keys(annotations).sort();
+
+  const handleFile = (file: File) => {
+    onImport(file)
+      .then(text => setMessage({ text, error: false }))
+      .catch((err: Error) => setMessage({ text: err.message, error: true }));
+  };
+
+  const renderResolutions = (paths?: string[]) =>
+    (Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+      <button key={resolution} onClick={() => onResolve(resolution, paths)} className="text-cyan-700 hover:underline">
+        {RESOLUTION_LABELS[resolution]}
+      </button>
+    ));
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="Notes">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <span className="text-slate-500">{paths.length} annotated {paths.length === 1 ? 'node' : 'nodes'}</span>
+        <button onClick={onExport} disabled={paths.length === 0} className="text-cyan-700 hover:underline disabled:text-slate-400 disabled:no-underline">
+          Export…
+        </button>
+        <label className="cursor-pointer text-cyan-700 hover:underline">
+          Import…
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) {
+                handleFile(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {message && <p className={message.error ? 'text-red-600' : 'text-slate-600'} role="status">{message.text}</p>}
+      {conflicts.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="font-medium text-amber-800">
+              {conflicts.length} {conflicts.length === 1 ? 'node has' : 'nodes have'} a different note in the imported file
+            </span>
+            {conflicts.length > 1 && <span className="flex gap-3 text-xs">All: {renderResolutions()}</span>}
+          </div>
+          <ul className="space-y-2">
+            {conflicts.map(conflict => (
+              <li key={conflict.path} className="rounded border border-amber-200 bg-white p-2">
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <button onClick={() => onPathSelect(conflict.path)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+                    {conflict.path}
+                  </button>
+                  <span className="flex gap-3 text-xs">{renderResolutions([conflict.path])}</span>
+                </div>
+                <div className="mt-1 grid grid-cols-2 gap-2 text-xs">
+                  {(['current', 'incoming'] as const).map(side => (
+                    <div key={side}>
+                      <p className="text-slate-500">{side === 'current' ? 'Mine' : 'Theirs'}, {new Date(conflict[side].updated).toLocaleDateString()}</p>
+                      <pre className="mt-0.5 max-h-32 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-1.5 font-mono text-slate-700">{conflict[side].note}</pre>
+                    </div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {paths.length > 0 && (
+        <ul className="max-h-40 overflow-auto space-y-0.5" aria-label="Annotated nodes">
+          {paths.map(path => (
+            <li key={path} className="flex items-baseline gap-2">
+              <button
+                onClick={() => onPathSelect(path)}
+                className={`font-mono text-left break-all hover:underline ${path === selectedPath ? 'text-cyan-900 font-semibold' : 'text-cyan-700'}`}
+              >
+                {path}
+              </button>
+              {annotations[path].tags.length > 0 && <span className="text-xs text-slate-500">{annotations[path].tags.join(', ')}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default AnnotationControls;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { Annotation } from '../utils/annotations';
+import { DetailSection } from './NodeMetadata';
+import MarkdownText from './MarkdownText';
+
+interface AnnotationEditorProps {
+  annotation: Annotation | undefined;
+  onSave: (note: string, tags: string[]) => void;
+  onTagSelect?: (tag: string) => void;
+}
+
+/**
+ * The selected node's notes section of the detail panel: the user's note, rendered from
+ * Markdown, and tags, with an editor to change them. Saving an empty note with no tags
+ * deletes the annotation. The parent keys it by path, so switching nodes discards an
+ * unsaved edit.
+ * @param {AnnotationEditorProps} props - The component props.
+ * @param {Annotation | undefined} props.annotation - The node's annotation, if it has one.
+ * @param {(note: string, tags: string[]) => void} props.onSave - Callback with the edited note and tags.
+ * @param {(tag: string) => void} [props.onTagSelect] - Callback when a tag is clicked, e.g. to search for it; without it, tags are plain text.
+ * @returns {React.ReactElement} The rendered section.
+ */
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ annotation, onSave, onTagSelect }) => {
+  const [editing, setEditing] = useState(false);
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState('');
+
+  const startEditing = () => {
+    setNote(annotation?.note ?? '');
+    setTags(annotation?.tags.join(', ') ?? '');
+    setEditing(true);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave(note, tags.split(','));
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <DetailSection title="Notes">
+        <form onSubmit={handleSubmit} className="space-y-2 text-sm">
+          <textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={6}
+            autoFocus
+            placeholder="Write a note… (Markdown: **bold**, `code`, - lists, [links](https://…))"
+            className="w-full rounded-md border border-slate-300 bg-white p-2 font-mono text-xs text-slate-800 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+            aria-label="Note"
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={e => setTags(e.target.value)}
+            placeholder="Tags, separated by commas"
+            className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-slate-800 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+            aria-label="Tags"
+          />
+          <div className="flex gap-2">
+            <button type="submit" className="rounded-md bg-cyan-600 px-3 py-1 text-white hover:bg-cyan-700">Save</button>
+            <button type="button" onClick={() => setEditing(false)} className="rounded-md border border-slate-300 px-3 py-1 text-slate-600 hover:bg-slate-100">
+              Cancel
+            </button>
+            {annotation && (
+              <button type="button" onClick={() => { onSave('', []); setEditing(false); }} className="ml-auto text-red-600 hover:underline">
+                Delete
+              </button>
+            )}
+          </div>
+        </form>
+      </DetailSection>
+    );
+  }
+
+  if (!annotation) {
+    return (
+      <DetailSection title="Notes">
+        <button onClick={startEditing} className="text-sm text-cyan-700 hover:underline">Add a note or tags</button>
+      </DetailSection>
+    );
+  }
+
+  return (
+    <DetailSection title="Notes">
+      {annotation.note.trim() !== '' && <MarkdownText source={annotation.note} />}
+      {annotation.tags.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-2">
+          {annotation.tags.map(tag => (
+            <li key={tag}>
+              {onTagSelect ? (
+                <button
+                  onClick={() => onTagSelect(tag)}
+                  className="rounded-full bg-amber-50 border border-amber-200 px-2.5 py-0.5 text-xs text-amber-800 hover:bg-amber-100 transition-colors"
+                  title={`Search for tag:${tag}`}
+                >
+                  {tag}
+                </button>
+              ) : (
+                <span className="rounded-full bg-amber-50 border border-amber-200 px-2.5 py-0.5 text-xs text-amber-800">{tag}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-2 flex items-center gap-3 text-xs text-slate-500">
+        <span>Edited {new Date(annotation.updated).toLocaleString()}</span>
+        <button onClick={startEditing} className="text-cyan-700 hover:underline">Edit</button>
+      </div>
+    </DetailSection>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,124 @@
+import React from 'react';
+import type { ArchMode, BuildConfigControls as BuildConfigSettings } from '../hooks/useBuildConfig';
+import type { BuildState } from '../utils/kernelConfig';
+
+/** The label, the menuconfig-like mark and the colors of each state, shared by the tree rows and the detail panel. */
+export const BUILD_STATE_STYLES: Record<BuildState, { label: string; mark: string; badge: string }> = {
+  builtin: { label: 'Built in', mark: 'y', badge: 'bg-emerald-100 text-emerald-800' },
+  module: { label: 'Module', mark: 'm', badge: 'bg-amber-100 text-amber-800' },
+  off: { label: 'Not built', mark: 'n', badge: 'bg-slate-200 text-slate-600' },
+};
+
+const ARCH_MODE_LABELS: Record<ArchMode, string> = {
+  dim: 'Dim the others',
+  hide: 'Hide the others',
+};
+
+interface BuildConfigControlsProps {
+  settings: BuildConfigSettings;
+  archChoices: string[];
+  /** Whether the Makefile data that decides each node's state has been loaded. */
+  gatesLoaded: boolean;
+}
+
+/**
+ * The build configuration toolbar: the architecture to focus on and whether the others are
+ * dimmed or hidden, a button to open a `.config`, and once one is loaded, the "built only"
+ * filter and the legend of the marks on the tree's rows.
+ * @param {BuildConfigControlsProps} props - The component props.
+ * @param {BuildConfigSettings} props.settings - The settings and operations from `useBuildConfig`.
+ * @param {string[]} props.archChoices - The directories under `arch/`, by name without the slash.
+ * @param {boolean} props.gatesLoaded - Whether the Makefile data has been loaded.
+ * @returns {React.ReactElement} The rendered toolbar.
+ */
+const BuildConfigControls: React.FC<BuildConfigControlsProps> = ({ settings, archChoices, gatesLoaded }) => {
+  const { arch, archMode, builtOnly, config } = settings;
+  const choices = arch && !archChoices.includes(arch) ? [...archChoices, arch] : archChoices;
+  const values = config ? Object.values(config.values) : [];
+  const builtIn = values.filter(value => value === 'y').length;
+  const modules = values.filter(value => value === 'm').length;
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="Build configuration">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label className="inline-flex items-center gap-1.5">
+          <span className="text-slate-500">Architecture</span>
+          <select
+            value={arch ?? ''}
+            onChange={e => settings.setArch(e.target.value || null)}
+            className="bg-white border border-slate-300 rounded-md px-2 py-1 text-slate-700"
+          >
+            <option value="">All</option>
+            {choices.map(choice => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        </label>
+        {(Object.keys(ARCH_MODE_LABELS) as ArchMode[]).map(mode => (
+          <label key={mode} className="inline-flex items-center gap-1.5 text-slate-600">
+            <input
+              type="radio"
+              name="arch-mode"
+              checked={archMode === mode}
+              disabled={!arch}
+              onChange={() => settings.setArchMode(mode)}
+            />
+            {ARCH_MODE_LABELS[mode]}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label className="cursor-pointer text-cyan-700 hover:underline">
+          Open .config…
+          <input
+            type="file"
+            className="sr-only"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) {
+                settings.openFile(file).catch(() => {
+                  // The hook reports the error below.
+                });
+              }
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {config && (
+          <>
+            <label className="inline-flex items-center gap-1.5 text-slate-600">
+              <input
+                type="checkbox"
+                checked={builtOnly}
+                onChange={e => settings.setBuiltOnly(e.target.checked)}
+              />
+              Only what it builds
+            </label>
+            <button onClick={settings.clearConfig} className="text-cyan-700 hover:underline">
+              Close
+            </button>
+          </>
+        )}
+      </div>
+      {settings.error && <p className="text-red-600" role="status">{settings.error}</p>}
+      {config && (
+        <p className="text-slate-500">
+          <span className="font-mono">{config.name}</span>
+          {config.arch ? ` for ${config.arch}` : ', architecture unknown'}: {builtIn} symbols built in, {modules} as modules
+        </p>
+      )}
+      {config && !gatesLoaded && <p className="text-slate-500" role="status">Loading the Makefile data…</p>}
+      {config && gatesLoaded && (
+        <ul className="flex flex-wrap gap-2" aria-label="Legend">
+          {(Object.keys(BUILD_STATE_STYLES) as BuildState[]).map(state => (
+            <li key={state} className={`rounded px-1.5 py-0.5 text-xs font-medium ${BUILD_STATE_STYLES[state].badge}`}>
+              <span className="font-mono">{BUILD_STATE_STYLES[state].mark}</span> {BUILD_STATE_STYLES[state].label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default BuildConfigControls;
@@ -0,0 +1,72 @@
+import React from 'react';
+import type { BuildDecision, KernelConfig } from '../utils/kernelConfig';
+import { BUILD_STATE_STYLES } from './BuildConfigControls';
+import { SymbolButton } from './KconfigInfo';
+import { DetailSection } from './NodeMetadata';
+
+interface BuildStateInfoProps {
+  config: KernelConfig;
+  decision: BuildDecision | null;
+  relativePath: string;
+  onPathSelect: (relativePath: string) => void;
+  onSymbolSelect: (name: string) => void;
+}
+
+/**
+ * Shows in the detail panel whether the loaded `.config` builds the node, and what decides it:
+ * the config symbol gating the node or one of its directories with the symbol's value, or the
+ * architecture the configuration is for. Nodes no Makefile reaches get no state.
+ * @param {BuildStateInfoProps} props - The component props.
+ * @param {KernelConfig} props.config - The loaded configuration.
+ * @param {BuildDecision | null} props.decision - The node's state, or null while the Makefile data loads.
+ * @param {string} props.relativePath - The node's path relative to the root.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select the gated directory.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open the deciding symbol's page.
+ * @returns {React.ReactElement} The rendered section.
+ */
+const BuildStateInfo: React.FC<BuildStateInfoProps> = ({ config, decision, relativePath, onPathSelect, onSymbolSelect }) => {
+  if (!decision) {
+    return (
+      <DetailSection title={`In ${config.name}`}>
+        <p className="text-sm text-slate-500" role="status">Loading the Makefile data…</p>
+      </DetailSection>
+    );
+  }
+  if (decision.state === null) {
+    return (
+      <DetailSection title={`In ${config.name}`}>
+        <p className="text-sm text-slate-500">No Makefile builds this, so the configuration does not decide it.</p>
+      </DetailSection>
+    );
+  }
+  const style = BUILD_STATE_STYLES[decision.state];
+  const gatePath = decision.path !== null && decision.path !== relativePath ? decision.path : null;
+
+  return (
+    <DetailSection title={`In ${config.name}`}>
+      <p className="text-sm flex flex-wrap items-baseline gap-x-2 gap-y-1">
+        <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${style.badge}`}>{style.label}</span>
+        {decision.symbol ? (
+          <span className="text-slate-600">
+            <SymbolButton name={decision.symbol} onSelect={onSymbolSelect} />
+            {config.values[decision.symbol] ? `=${config.values[decision.symbol]}` : ' is not set'}
+          </span>
+        ) : decision.path ? (
+          <span className="text-slate-600">the configuration is for {config.arch}</span>
+        ) : (
+          <span className="text-slate-500">not gated by any config symbol</span>
+        )}
+      </p>
+      {gatePath && (
+        <p className="mt-1 text-xs text-slate-500">
+          Decided for{' '}
+          <button onClick={() => onPathSelect(gatePath)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+            {gatePath}
+          </button>
+        </p>
+      )}
+    </DetailSection>
+  );
+};
+
+export default BuildStateInfo;
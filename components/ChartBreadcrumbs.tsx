@@ -0,0 +1,38 @@
+import React from 'react';
+import type { KernelNode } from '../types';
+
+interface ChartBreadcrumbsProps {
+  chain: KernelNode[];
+  onZoom: (path: string) => void;
+}
+
+/**
+ * The path of the directory a chart is zoomed into, with a button per ancestor to zoom back out.
+ * @param {ChartBreadcrumbsProps} props - The component props.
+ * @param {KernelNode[]} props.chain - The nodes from the root down to the zoomed directory.
+ * @param {(path: string) => void} props.onZoom - Callback to zoom to a canonical path.
+ * @returns {React.ReactElement} The rendered breadcrumbs.
+ */
+const ChartBreadcrumbs: React.FC<ChartBreadcrumbsProps> = ({ chain, onZoom }) => (
+  <nav className="mb-2 text-sm text-slate-500 flex flex-wrap items-center font-mono" aria-label="Zoom level">
+    {chain.map((node, index) => {
+      const path = chain.slice(0, index + 1).map(n => n.name).join('');
+      const isCurrent = index === chain.length - 1;
+      return (
+        <React.Fragment key={path}>
+          <button
+            onClick={() => onZoom(path)}
+            disabled={isCurrent}
+            className={isCurrent ? 'text-slate-800 font-medium' : 'hover:text-cyan-600 hover:underline'}
+            aria-current={isCurrent ? 'location' : undefined}
+          >
+            {node.name.replace(/\/$/, '')}
+          </button>
+          {!isCurrent && <span className="mx-1">/</span>}
+        </React.Fragment>
+      );
+    })}
+  </nav>
+);
+
+export default ChartBreadcrumbs;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { CODE_SYMBOL_KIND_LABELS, type CodeSymbolHit } from '../utils/codeSymbols';
+import HighlightText from './HighlightText';
+
+interface CodeSymbolHitsProps {
+  hits: CodeSymbolHit[] | null;
+  selectedPath: string | null;
+  onLocationSelect: (relativePath: string, line: number) => void;
+  searchTerm: string;
+}
+
+/** How many hits are listed before "Show more". */
+const PAGE_SIZE = 25;
+
+/**
+ * The definitions matching a symbol search, with their file and line. Choosing one selects
+ * the file and opens its source at the definition.
+ * @param {CodeSymbolHitsProps} props - The component props.
+ * @param {CodeSymbolHit[] | null} props.hits - The ranked definitions, best first, or null while the index loads.
+ * @param {string | null} props.selectedPath - The selected node's path relative to the root, if any.
+ * @param {(relativePath: string, line: number) => void} props.onLocationSelect - Callback to open a definition.
+ * @param {string} props.searchTerm - The current search query for highlighting.
+ * @returns {React.ReactElement} The rendered list.
+ */
+const CodeSymbolHits: React.FC<CodeSymbolHitsProps> = ({ hits, selectedPath, onLocationSelect, searchTerm }) => {
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-slate-50" aria-label="Definitions">
+      <h3 className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 border-b border-slate-200">
+        Definitions{' '}
+        {hits && <span className="font-normal normal-case">({hits.length.toLocaleString()} {hits.length === 1 ? 'match' : 'matches'})</span>}
+      </h3>
+      {!hits && <p className="px-3 py-2 text-sm text-slate-500" role="status">Loading the symbol index…</p>}
+      {hits?.length === 0 && <p className="px-3 py-2 text-sm text-slate-500">No function, struct, system call or export matches "{searchTerm}".</p>}
+      {hits && hits.length > 0 && (
+        <ol className="max-h-96 overflow-auto">
+          {hits.slice(0, limit).map(hit => (
+            <li key={`${hit.path}:${hit.line}:${hit.name}`}>
+              <button
+                onClick={() => onLocationSelect(hit.path, hit.line)}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${selectedPath === hit.path ? 'bg-cyan-100' : 'hover:bg-slate-100'}`}
+              >
+                <span className="font-mono font-medium text-slate-800 whitespace-nowrap">
+                  <HighlightText text={hit.name} highlight={searchTerm} as="span" />
+                </span>
+                <span className="text-xs text-slate-500 whitespace-nowrap">{CODE_SYMBOL_KIND_LABELS[hit.kind]}</span>
+                {hit.exported && hit.exported !== hit.kind && (
+                  <span className="text-[10px] font-semibold uppercase rounded px-1.5 py-0.5 bg-emerald-100 text-emerald-800 whitespace-nowrap">
+                    {hit.exported === 'export_gpl' ? 'GPL export' : 'Exported'}
+                  </span>
+                )}
+                <span className="ml-auto font-mono text-xs text-slate-400 truncate">{hit.path}:{hit.line}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      {hits && hits.length > limit && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="px-3 py-1.5 text-xs text-slate-500 hover:text-cyan-600 hover:underline">
+          Show more
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default CodeSymbolHits;
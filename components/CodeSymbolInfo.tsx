@@ -0,0 +1,44 @@
+import React from 'react';
+import { fileExports, type CodeSymbolIndex } from '../utils/codeSymbols';
+import { DetailSection } from './NodeMetadata';
+
+interface CodeSymbolInfoProps {
+  index: CodeSymbolIndex | null;
+  relativePath: string;
+  onLineSelect: (line: number) => void;
+}
+
+/**
+ * Lists the symbols a file exports with `EXPORT_SYMBOL` or `EXPORT_SYMBOL_GPL`, each opening
+ * the file's source at its export line. Nothing is shown while the index loads or for files
+ * that export nothing.
+ * @param {CodeSymbolInfoProps} props - The component props.
+ * @param {CodeSymbolIndex | null} props.index - The symbol index, or null while loading.
+ * @param {string} props.relativePath - The file's path relative to the root.
+ * @param {(line: number) => void} props.onLineSelect - Callback to show a line of the file's source.
+ * @returns {React.ReactElement | null} The rendered section.
+ */
+const CodeSymbolInfo: React.FC<CodeSymbolInfoProps> = ({ index, relativePath, onLineSelect }) => {
+  const exports = index ? fileExports(index, relativePath) : [];
+  if (exports.length === 0) {
+    return null;
+  }
+
+  return (
+    <DetailSection title={`Exported symbols (${exports.length.toLocaleString()})`}>
+      <ul className="space-y-1 text-sm max-h-80 overflow-auto">
+        {exports.map(symbol => (
+          <li key={`${symbol.name}:${symbol.line}`} className="flex items-center gap-2">
+            <button onClick={() => onLineSelect(symbol.line)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+              {symbol.name}
+            </button>
+            {symbol.kind === 'export_gpl' && <span className="text-[10px] font-semibold uppercase rounded px-1.5 py-0.5 bg-slate-200 text-slate-600">GPL</span>}
+            <span className="ml-auto text-xs text-slate-400">line {symbol.line}</span>
+          </li>
+        ))}
+      </ul>
+    </DetailSection>
+  );
+};
+
+export default CodeSymbolInfo;
@@ -0,0 +1,171 @@
+import React from 'react';
+import AnnotationEditor from './AnnotationEditor';
+import BuildStateInfo from './BuildStateInfo';
+import CodeSymbolInfo from './CodeSymbolInfo';
+import DiffDetails from './DiffDetails';
+import HighlightText from './HighlightText';
+import HistoryInfo from './HistoryInfo';
+import IncludeInfo from './IncludeInfo';
+import KconfigInfo from './KconfigInfo';
+import MaintainerInfo from './MaintainerInfo';
+import NodeMetadata from './NodeMetadata';
+import { FileIcon, FolderIcon, InfoIcon } from './Icons';
+import type { KernelNode } from '../types';
+import type { Annotation } from '../utils/annotations';
+import type { CodeSymbolIndex } from '../utils/codeSymbols';
+import type { HistoryIndex } from '../utils/history';
+import type { IncludeIndex } from '../utils/includeGraph';
+import type { KconfigIndex } from '../utils/kconfig';
+import type { BuildDecision, KernelConfig } from '../utils/kernelConfig';
+import type { MaintainerSection } from '../utils/maintainers';
+import type { QueryField } from '../utils/query';
+import type { DiffEntry } from '../utils/treeDiff';
+import type { UiStrings } from '../utils/uiStrings';
+import { toRelativePath } from '../utils/nodePath';
+import { isDirectoryNode } from '../utils/treeUtils';
+
+interface DetailPanelProps {
+  node: KernelNode | null;
+  path: KernelNode[];
+  maintainers: MaintainerSection[] | null;
+  kconfig?: KconfigIndex | null;
+  includes?: IncludeIndex | null;
+  codeSymbols?: CodeSymbolIndex | null;
+  history?: HistoryIndex | null;
+  diff?: { entry: DiffEntry; before: string; after: string } | null;
+  build?: { config: KernelConfig; decision: BuildDecision | null } | null;
+  annotation?: Annotation;
+  isPinned?: boolean;
+  onAnnotationSave?: (note: string, tags: string[]) => void;
+  onTogglePin?: () => void;
+  onCopyLink?: () => void;
+  onNodeSelect: (node: KernelNode, path: string) => void;
+  onPathSelect: (relativePath: string) => void;
+  onShowIncludeGraph?: () => void;
+  onShowSource?: () => void;
+  onLineSelect?: (line: number) => void;
+  onFieldSearch?: (field: QueryField, value: string) => void;
+  onSymbolSelect?: (name: string) => void;
+  searchTerm: string;
+  strings: UiStrings;
+}
+
+/**
+ * A component that displays the detailed description and metadata of a selected kernel node.
+ * If no node is selected, it shows a placeholder message. Sections whose data or callback is
+ * left out are not shown, so an embed can show just the node, its metadata and maintainers.
+ * @param {DetailPanelProps} props - The component props.
+ * @param {KernelNode | null} props.node - The currently selected node, or null.
+ * @param {KernelNode[]} props.path - The path from the root to the selected node.
+ * @param {MaintainerSection[] | null} props.maintainers - The MAINTAINERS sections, or null while loading.
+ * @param {KconfigIndex | null} [props.kconfig] - The Kconfig symbols, or null while loading.
+ * @param {IncludeIndex | null} [props.includes] - The `#include` graph, or null while loading.
+ * @param {CodeSymbolIndex | null} [props.codeSymbols] - The index of code symbols, or null while loading.
+ * @param {HistoryIndex | null} [props.history] - The git history, or null while loading.
+ * @param {{ entry: DiffEntry, before: string, after: string } | null} [props.diff] - When two versions are compared, the node's entry and the versions.
+ * @param {{ config: KernelConfig, decision: BuildDecision | null } | null} [props.build] - When a `.config` is loaded, the configuration and how it builds the node.
+ * @param {Annotation} [props.annotation] - The user's note and tags on the node, if any.
+ * @param {boolean} [props.isPinned=false] - Whether the node is pinned to the sidebar.
+ * @param {(note: string, tags: string[]) => void} [props.onAnnotationSave] - Callback to save the node's note and tags; without it, there are no notes.
+ * @param {() => void} [props.onTogglePin] - Callback to pin or unpin the node; without it, there is no pin button.
+ * @param {() => void} [props.onCopyLink] - Callback to copy a link to the node; without it, there is no copy button.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - Callback to select a node, used for breadcrumbs and related paths.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select a node by its relative path, used for included files.
+ * @param {() => void} [props.onShowIncludeGraph] - Callback to switch to the include graph view.
+ * @param {() => void} [props.onShowSource] - Callback to switch to the source view.
+ * @param {(line: number) => void} [props.onLineSelect] - Callback to show a line of the selected file's source, e.g. where a symbol is exported.
+ * @param {(field: QueryField, value: string) => void} [props.onFieldSearch] - Callback to search one field, e.g. when a tag or maintainer is clicked.
+ * @param {(name: string) => void} [props.onSymbolSelect] - Callback to open a Kconfig symbol's page; without it, the Kconfig and build sections are left out.
+ * @param {string} props.searchTerm - The current search term for highlighting.
+ * @param {UiStrings} props.strings - The interface strings in the active language.
+ * @returns {React.ReactElement} The rendered detail panel component.
+ */
+const DetailPanel: React.FC<DetailPanelProps> = ({ node, path, maintainers, kconfig, includes, codeSymbols, history, diff, build, annotation, isPinned = false, onAnnotationSave, onTogglePin, onCopyLink, onNodeSelect, onPathSelect, onShowIncludeGraph, onShowSource, onLineSelect, onFieldSearch, onSymbolSelect, searchTerm, strings }) => {
+  if (!node) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center text-slate-500 sticky top-6">
+        <InfoIcon className="w-12 h-12 mb-4 text-slate-400" />
+        <h3 className="text-lg font-semibold text-slate-700">{strings.detailsTitle}</h3>
+        <p className="mt-1 text-sm">{strings.detailsHint}</p>
+      </div>
+    );
+  }
+
+  const isDirectory = isDirectoryNode(node);
+  const IconComponent = isDirectory ? FolderIcon : FileIcon;
+  const canonicalPath = path.map(p => p.name).join('');
+  const searchTag = onFieldSearch && ((tag: string) => onFieldSearch('tag', tag));
+
+  return (
+    <div className="h-full sticky top-6">
+        <div className="mb-4 text-sm text-slate-500 flex flex-wrap items-center" aria-label="Breadcrumb">
+            {path.map((p, index) => (
+            <React.Fragment key={p.name + index}>
+                <button onClick={() => onNodeSelect(p, path.slice(0, index + 1).map(n => n.name).join(''))} className="hover:text-cyan-600 hover:underline">
+                    {p.name.replace(/\/$/, '') || 'linux'}
+                </button>
+                {index < path.length - 1 && <span className="mx-1">/</span>}
+            </React.Fragment>
+            ))}
+      </div>
+      <div className="flex items-start gap-3 mb-4">
+        <IconComponent className={`w-8 h-8 flex-shrink-0 ${isDirectory ? 'text-cyan-500' : 'text-slate-400'}`} />
+        <h2 className="text-2xl font-bold text-slate-900 break-all">
+            <HighlightText text={node.name} highlight={searchTerm} as="span" />
+        </h2>
+      </div>
+      <div className="flex items-center gap-2 mb-4 text-xs text-slate-500">
+        <code className="font-mono break-all">{canonicalPath}</code>
+        {onCopyLink && (
+            <button
+                onClick={onCopyLink}
+                className="flex-shrink-0 border border-slate-300 rounded px-2 py-0.5 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                title={strings.copyLinkTitle}
+            >
+                {strings.copyLink}
+            </button>
+        )}
+        {onTogglePin && (
+            <button
+                onClick={onTogglePin}
+                aria-pressed={isPinned}
+                className={`flex-shrink-0 border border-slate-300 rounded px-2 py-0.5 transition-colors ${isPinned ? 'bg-cyan-600 text-white' : 'hover:bg-slate-100 hover:text-slate-700'}`}
+                title={strings.pinTitle}
+            >
+                {isPinned ? strings.unpin : strings.pin}
+            </button>
+        )}
+        {!isDirectory && onShowSource && (
+            <button
+                onClick={onShowSource}
+                className="flex-shrink-0 border border-slate-300 rounded px-2 py-0.5 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+            >
+                {strings.viewSource}
+            </button>
+        )}
+      </div>
+      <div className="text-slate-600 text-base leading-relaxed prose">
+        <HighlightText text={node.description} highlight={searchTerm} />
+      </div>
+      {diff && <DiffDetails entry={diff.entry} relativePath={toRelativePath(canonicalPath)} before={diff.before} after={diff.after} />}
+      {onAnnotationSave && <AnnotationEditor key={canonicalPath} annotation={annotation} onSave={onAnnotationSave} onTagSelect={searchTag} />}
+      <NodeMetadata node={node} rootName={path[0].name} onNodeSelect={onNodeSelect} onTagSelect={searchTag} />
+      {build && onSymbolSelect && (
+        <BuildStateInfo
+          config={build.config}
+          decision={build.decision}
+          relativePath={toRelativePath(canonicalPath)}
+          onPathSelect={onPathSelect}
+          onSymbolSelect={onSymbolSelect}
+        />
+      )}
+      {onSymbolSelect && <KconfigInfo index={kconfig ?? null} relativePath={toRelativePath(canonicalPath)} onSymbolSelect={onSymbolSelect} />}
+      {!isDirectory && onLineSelect && <CodeSymbolInfo index={codeSymbols ?? null} relativePath={toRelativePath(canonicalPath)} onLineSelect={onLineSelect} />}
+      <IncludeInfo index={includes ?? null} relativePath={toRelativePath(canonicalPath)} onPathSelect={onPathSelect} onShowGraph={onShowIncludeGraph} />
+      <HistoryInfo index={history ?? null} relativePath={toRelativePath(canonicalPath)} />
+      <MaintainerInfo sections={maintainers} relativePath={toRelativePath(canonicalPath)} onFilter={onFieldSearch} />
+    </div>
+  );
+};
+
+export default DetailPanel;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { CURRENT_VERSION, OPENED_VERSION_PREFIX } from '../hooks/useTreeDiff';
+import type { DiffStatus, TreeDiff } from '../utils/treeDiff';
+
+/** A status other than `unchanged`, which is drawn without any marking. */
+export type ChangeStatus = Exclude<DiffStatus, 'unchanged'>;
+
+/** The label and colors of each status, shared by the tree rows and the detail panel. */
+export const DIFF_STATUS_STYLES: Record<ChangeStatus, { label: string; badge: string; text: string }> = {
+  added: { label: 'Added', badge: 'bg-emerald-100 text-emerald-800', text: 'text-emerald-700' },
+  removed: { label: 'Removed', badge: 'bg-red-100 text-red-800', text: 'text-red-700 line-through' },
+  moved: { label: 'Moved', badge: 'bg-violet-100 text-violet-800', text: 'text-violet-700' },
+  changed: { label: 'Changed', badge: 'bg-amber-100 text-amber-800', text: 'text-amber-700' },
+};
+
+/**
+ * The name a version is shown under; an opened file is shown under its file name.
+ * @param {string} version - The version, e.g. `v6.1`, `opened:v5.10` or `CURRENT_VERSION`.
+ * @returns {string} The label.
+ */
+export const versionLabel = (version: string): string => {
+  if (version === CURRENT_VERSION) {
+    return 'Current tree';
+  }
+  return version.startsWith(OPENED_VERSION_PREFIX) ? version.slice(OPENED_VERSION_PREFIX.length) : version;
+};
+
+/**
+ * The two versions being compared and how the tree is filtered.
+ */
+export interface CompareSettings {
+  before: string | null;
+  after: string | null;
+  /** Show only the nodes that differ, and their ancestors. */
+  changedOnly: boolean;
+}
+
+interface DiffControlsProps {
+  versions: string[];
+  settings: CompareSettings;
+  diff: TreeDiff | null;
+  loading: boolean;
+  error: string | null;
+  listError: string | null;
+  onChange: (settings: CompareSettings) => void;
+  onOpenFile: (file: File) => void;
+  onRetryList: () => void;
+}
+
+/**
+ * The toolbar of the comparison: a choice of the older and newer version, a button to open a
+ * snapshot from disk, the "changed only" filter, and the number of nodes with each status,
+ * which doubles as the legend of the tree's colors.
+ * @param {DiffControlsProps} props - The component props.
+ * @param {string[]} props.versions - The versions that can be compared.
+ * @param {CompareSettings} props.settings - The current choice.
+ * @param {TreeDiff | null} props.diff - The comparison, once both versions are loaded.
+ * @param {boolean} props.loading - Whether a version is being fetched.
+ * @param {string | null} props.error - The error message if a version could not be loaded.
+ * @param {string | null} props.listError - The error message if the list of snapshots could not be loaded.
+ * @param {(settings: CompareSettings) => void} props.onChange - Callback when the choice changes.
+ * @param {(file: File) => void} props.onOpenFile - Callback when a snapshot file is chosen.
+ * @param {() => void} props.onRetryList - Callback to fetch the list of snapshots again.
+ * @returns {React.ReactElement} The rendered toolbar.
+ */
+const DiffControls: React.FC<DiffControlsProps> = ({ versions, settings, diff, loading, error, listError, onChange, onOpenFile, onRetryList }) => {
+  const renderSelect = (key: 'before' | 'after', label: string) => (
+    <label className="inline-flex items-center gap-1.5">
+      <span className="text-slate-500">{label}</span>
+      <select
+        value={settings[key] ?? ''}
+        onChange={e => onChange({ ...settings, [key]: e.target.value || null })}
+        className="bg-white border border-slate-300 rounded-md px-2 py-1 text-slate-700"
+      >
+        <option value="">Choose…</option>
+        {versions.map(version => (
+          <option key={version} value={version}>{versionLabel(version)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="Compare versions">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        {renderSelect('before', 'From')}
+        {renderSelect('after', 'to')}
+        <label className="cursor-pointer text-cyan-700 hover:underline">
+          Open snapshot…
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) {
+                onOpenFile(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <label className="inline-flex items-center gap-1.5 text-slate-600">
+          <input
+            type="checkbox"
+            checked={settings.changedOnly}
+            onChange={e => onChange({ ...settings, changedOnly: e.target.checked })}
+          />
+          Changed only
+        </label>
+      </div>
+      {listError && (
+        <p className="text-red-600">
+          Could not load the list of snapshots: {listError}{' '}
+          <button onClick={onRetryList} className="underline hover:text-red-800">Retry</button>
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+      {loading && <p className="text-slate-500" role="status">Loading snapshot…</p>}
+      {diff && (
+        <ul className="flex flex-wrap gap-2" aria-label="Differences">
+          {(Object.keys(DIFF_STATUS_STYLES) as ChangeStatus[]).map(status => (
+            <li key={status} className={`rounded px-1.5 py-0.5 text-xs font-medium ${DIFF_STATUS_STYLES[status].badge}`}>
+              {DIFF_STATUS_STYLES[status].label}: {diff.counts[status]}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default DiffControls;
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { KernelNode } from '../types';
+import { isRename, type DiffEntry } from '../utils/treeDiff';
+import { DIFF_STATUS_STYLES, versionLabel } from './DiffControls';
+import { DetailSection } from './NodeMetadata';
+
+interface DiffDetailsProps {
+  entry: DiffEntry;
+  relativePath: string;
+  before: string;
+  after: string;
+}
+
+interface VersionColumnProps {
+  version: string;
+  node: KernelNode | undefined;
+  missing: string;
+}
+
+/**
+ * One side of the comparison: the node's summary and description in one version.
+ * @param {VersionColumnProps} props - The component props.
+ * @param {string} props.version - The version.
+ * @param {KernelNode | undefined} props.node - The node in that version, if it exists there.
+ * @param {string} props.missing - What to say if it does not.
+ * @returns {React.ReactElement} The rendered column.
+ */
+const VersionColumn: React.FC<VersionColumnProps> = ({ version, node, missing }) => (
+  <div className="min-w-0">
+    <p className="text-xs font-semibold text-slate-500 mb-1">{versionLabel(version)}</p>
+    {node ? (
+      <>
+        <p className="text-sm font-medium text-slate-800 break-words">{node.summary}</p>
+        <p className="mt-1 text-sm text-slate-600 leading-relaxed break-words">{node.description}</p>
+      </>
+    ) : (
+      <p className="text-sm italic text-slate-400">{missing}</p>
+    )}
+  </div>
+);
+
+/**
+ * Shows how the selected node differs between the two compared versions: its status, where it
+ * moved from, and its text in both versions side by side. Nothing is shown for unchanged nodes.
+ * @param {DiffDetailsProps} props - The component props.
+ * @param {DiffEntry} props.entry - The node's entry in the comparison.
+ * @param {string} props.relativePath - The node's path relative to the root.
+ * @param {string} props.before - The older version.
+ * @param {string} props.after - The newer version.
+ * @returns {React.ReactElement | null} The rendered section.
+ */
+const DiffDetails: React.FC<DiffDetailsProps> = ({ entry, relativePath, before, after }) => {
+  if (entry.status === 'unchanged') {
+    return null;
+  }
+  const style = DIFF_STATUS_STYLES[entry.status];
+  const renamed = isRename(relativePath, entry);
+
+  return (
+    <DetailSection title={`Changes from ${versionLabel(before)} to ${versionLabel(after)}`}>
+      <p className="text-sm mb-3 flex flex-wrap items-baseline gap-x-2">
+        <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${style.badge}`}>{renamed ? 'Renamed' : style.label}</span>
+        {entry.from && (
+          <span className="text-slate-600">
+            {entry.status === 'removed' ? 'was ' : 'from '}
+            <code className="font-mono break-all">{entry.from}</code>
+          </span>
+        )}
+        {entry.status === 'moved' && !entry.textChanged && <span className="text-slate-500">text unchanged</span>}
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <VersionColumn version={before} node={entry.before} missing="Not present" />
+        <VersionColumn version={after} node={entry.after} missing="Removed" />
+      </div>
+    </DetailSection>
+  );
+};
+
+export default DiffDetails;
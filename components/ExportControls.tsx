@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { KernelNode } from '../types';
+import { downloadBlob, rasterizeSvg } from '../utils/download';
+import {
+  EXPORT_FORMATS,
+  collectExportRows,
+  rowsToTree,
+  toDot,
+  toMarkdownOutline,
+  toSvg,
+  type ExportFormat,
+} from '../utils/exportTree';
+
+interface ExportControlsProps {
+  data: KernelNode | null;
+  isExpanded: (path: string, depth: number) => boolean;
+  selectedPath: string | null;
+}
+
+/**
+ * The export toolbar: downloads the tree as shown in the tree view, with the search filter and
+ * the expanded directories, or only the subtree of the selected node, in one of several formats.
+ * @param {ExportControlsProps} props - The component props.
+ * @param {KernelNode | null} props.data - The tree being shown, with the search filter applied.
+ * @param {(path: string, depth: number) => boolean} props.isExpanded - Whether a directory is expanded in the tree view.
+ * @param {string | null} props.selectedPath - The selected node's canonical path, the root of a subtree export.
+ * @returns {React.ReactElement} The rendered toolbar.
+ */
+const ExportControls: React.FC<ExportControlsProps> = ({ data, isExpanded, selectedPath }) => {
+  const [subtreeOnly, setSubtreeOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const subtreePath = subtreeOnly ? selectedPath : null;
+  const subtreeName = selectedPath?.match(/[^/]+\/?$/)?.[0] ?? null;
+
+  const handleExport = (format: ExportFormat) => {
+    setError(null);
+    const rows = data ? collectExportRows(data, isExpanded, subtreePath) : [];
+    if (rows.length === 0) {
+      setError(subtreePath ? 'The selected node is not in the tree being shown.' : 'There is nothing to export.');
+      return;
+    }
+    const { extension, type } = EXPORT_FORMATS[format];
+    const fileName = `${rows[0].node.name.replace(/\/$/, '')}-tree.${extension}`;
+    if (format === 'png') {
+      const { svg, width, height } = toSvg(rows);
+      rasterizeSvg(svg, width, height)
+        .then(blob => downloadBlob(blob, fileName))
+        .catch((err: Error) => setError(`Could not export PNG: ${err.message}`));
+      return;
+    }
+    const text = format === 'markdown' ? toMarkdownOutline(rows)
+      : format === 'json' ? `${JSON.stringify(rowsToTree(rows), null, 2)}\n`
+        : format === 'dot' ? toDot(rows)
+          : toSvg(rows).svg;
+    downloadBlob(new Blob([text], { type }), fileName);
+  };
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="Export">
+      <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <legend className="sr-only">What to export</legend>
+        <label className="flex items-center gap-1.5 text-slate-600">
+          <input type="radio" name="export-scope" checked={!subtreeOnly} onChange={() => setSubtreeOnly(false)} />
+          The visible tree
+        </label>
+        <label className={`flex items-center gap-1.5 ${selectedPath ? 'text-slate-600' : 'text-slate-400'}`}>
+          <input type="radio" name="export-scope" checked={subtreeOnly} disabled={!selectedPath} onChange={() => setSubtreeOnly(true)} />
+          {subtreeName ? <>The subtree of <span className="font-mono">{subtreeName}</span></> : 'The selected subtree'}
+        </label>
+      </fieldset>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="text-slate-500">Download as</span>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+          <button key={format} onClick={() => handleExport(format)} className="text-cyan-700 hover:underline">
+            {EXPORT_FORMATS[format].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">Only the directories expanded in the tree view, and the nodes matching the search, are exported.</p>
+      {error && <p className="text-red-600" role="status">{error}</p>}
+    </section>
+  );
+};
+
+export default ExportControls;
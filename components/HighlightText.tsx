@@ -1,4 +1,5 @@
 import React from 'react';
+import { getHighlightPatterns } from '../utils/query';
 
 interface HighlightTextProps {
   text: string;
@@ -7,40 +8,80 @@ interface HighlightTextProps {
 }
 
 /**
- * A component that highlights occurrences of a substring within a text.
- * It's case-insensitive and wraps matches in a styled element.
- * It can render the output as block-level paragraphs or inline spans.
- * @param {HighlightTextProps} props - The component props.
- * @param {string} props.text - The text to display.
- * @param {string} props.highlight - The substring to highlight within the text.
- * @param {'p' | 'span'} [props.as='p'] - The element to use for wrapping. 'p' for paragraphs (handles newlines), 'span' for inline text.
- * @returns {React.ReactElement} The text with highlighted parts.
+ * Finds the ranges of text matched by any of the patterns, merged where they overlap.
+ * @param {string} text - The text to search.
+ * @param {RegExp[]} patterns - Global expressions to match.
+ * @returns {[number, number][]} Sorted, non-overlapping `[start, end)` ranges.
  */
-const HighlightText: React.FC<HighlightTextProps> = ({ text, highlight, as = 'p' }) => {
-  if (!highlight.trim()) {
-    if (as === 'p') {
-      return <>{text.split('\n').map((line, i) => <p key={i}>{line}</p>)}</>;
+const findRanges = (text: string, patterns: RegExp[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const pattern of patterns) {
+    pattern.lastIndex = 0;
+    for (const match of text.matchAll(pattern)) {
+      if (match[0].length > 0) {
+        ranges.push([match.index!, match.index! + match[0].length]);
+      }
     }
-    return <>{text}</>;
   }
+  ranges.sort((a, b) => a[0] - b[0]);
 
-  const regex = new RegExp(`(${highlight.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-  
-  const highlightPart = (part: string, index: number) => 
-    regex.test(part) ? (
-      <strong key={index} className="bg-yellow-200 font-bold">
-        {part}
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Splits a line into plain and highlighted parts.
+ * @param {string} line - The line of text.
+ * @param {RegExp[]} patterns - Global expressions to highlight.
+ * @returns {React.ReactNode[]} The rendered parts.
+ */
+const renderLine = (line: string, patterns: RegExp[]): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  findRanges(line, patterns).forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(<React.Fragment key={`t${index}`}>{line.slice(position, start)}</React.Fragment>);
+    }
+    parts.push(
+      <strong key={`h${index}`} className="bg-yellow-200 font-bold">
+        {line.slice(start, end)}
       </strong>
-    ) : (
-      <React.Fragment key={index}>{part}</React.Fragment>
     );
+    position = end;
+  });
+  if (position < line.length) {
+    parts.push(<React.Fragment key="rest">{line.slice(position)}</React.Fragment>);
+  }
+  return parts;
+};
+
+/**
+ * A component that highlights the matches of a search query within a text.
+ * Every positive term of the query is highlighted: plain terms and phrases case-insensitively,
+ * regular expressions as typed. It can render the output as block-level paragraphs or inline spans.
+ * @param {HighlightTextProps} props - The component props.
+ * @param {string} props.text - The text to display.
+ * @param {string} props.highlight - The search query whose matches are highlighted.
+ * @param {'p' | 'span'} [props.as='p'] - The element to use for wrapping. 'p' for paragraphs (handles newlines), 'span' for inline text.
+ * @returns {React.ReactElement} The text with highlighted parts.
+ */
+const HighlightText: React.FC<HighlightTextProps> = ({ text, highlight, as = 'p' }) => {
+  const patterns = highlight.trim() ? getHighlightPatterns(highlight) : [];
 
   if (as === 'p') {
     return (
       <>
         {text.split('\n').map((line, i) => (
           <p key={i}>
-            {line.split(regex).map(highlightPart)}
+            {patterns.length > 0 ? renderLine(line, patterns) : line}
           </p>
         ))}
       </>
@@ -48,11 +89,7 @@ const HighlightText: React.FC<HighlightTextProps> = ({ text, highlight, as = 'p'
   }
 
   // as 'span'
-  return (
-    <>
-      {text.split(regex).map(highlightPart)}
-    </>
-  );
+  return <>{patterns.length > 0 ? renderLine(text, patterns) : text}</>;
 };
 
 export default HighlightText;
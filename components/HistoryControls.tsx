@@ -0,0 +1,71 @@
+import React from 'react';
+import { HEAT_COLORS, type HistoryIndex } from '../utils/history';
+import { formatDate } from './HistoryInfo';
+
+interface HistoryControlsProps {
+  index: HistoryIndex | null;
+  heatmap: boolean;
+  sortByActivity: boolean;
+  onHeatmapChange: (heatmap: boolean) => void;
+  onSortChange: (sortByActivity: boolean) => void;
+}
+
+/**
+ * The history toolbar: turns the heatmap on and off and sorts the tree by activity, with the
+ * scanned window and the legend of the colors. Says how to scan a repository if none was.
+ * @param {HistoryControlsProps} props - The component props.
+ * @param {HistoryIndex | null} props.index - The history index, or null while loading.
+ * @param {boolean} props.heatmap - Whether rows and charts are colored by their number of commits.
+ * @param {boolean} props.sortByActivity - Whether the busiest nodes are listed first.
+ * @param {(heatmap: boolean) => void} props.onHeatmapChange - Callback when the heatmap is turned on or off.
+ * @param {(sortByActivity: boolean) => void} props.onSortChange - Callback when the order changes.
+ * @returns {React.ReactElement} The rendered toolbar.
+ */
+const HistoryControls: React.FC<HistoryControlsProps> = ({ index, heatmap, sortByActivity, onHeatmapChange, onSortChange }) => {
+  if (!index) {
+    return (
+      <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm" aria-label="History">
+        <p className="text-slate-500" role="status">Loading the history…</p>
+      </section>
+    );
+  }
+  const { head, since, until } = index.data;
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="History">
+      {head === null ? (
+        <p className="text-slate-500">
+          No git history has been read. Run <code className="font-mono">npm run scan-history -- &lt;kernel-repository&gt;</code>, then <code className="font-mono">npm run build-chunks</code>.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <label className="inline-flex items-center gap-1.5 text-slate-600">
+              <input type="checkbox" checked={heatmap} onChange={e => onHeatmapChange(e.target.checked)} />
+              Heatmap
+            </label>
+            <label className="inline-flex items-center gap-1.5 text-slate-600">
+              <input type="checkbox" checked={sortByActivity} onChange={e => onSortChange(e.target.checked)} />
+              Busiest first
+            </label>
+            <span className="text-slate-500">
+              {(index.data.nodes['']?.commits ?? 0).toLocaleString()} commits from {formatDate(since)} to {formatDate(until)} at{' '}
+              <code className="font-mono">{head.slice(0, 12)}</code>
+            </span>
+          </div>
+          {heatmap && (
+            <p className="flex items-center gap-1 text-xs text-slate-500" aria-label="Legend">
+              No commits
+              {HEAT_COLORS.map(color => (
+                <span key={color} className="inline-block w-5 h-3 rounded-sm border border-slate-300" style={{ backgroundColor: color }} />
+              ))}
+              Most commits at that depth
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default HistoryControls;
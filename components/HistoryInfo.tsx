@@ -0,0 +1,81 @@
+import React from 'react';
+import type { HistoryIndex } from '../utils/history';
+import { DetailSection } from './NodeMetadata';
+
+interface HistoryInfoProps {
+  index: HistoryIndex | null;
+  relativePath: string;
+}
+
+/**
+ * Formats an ISO date as a short local date.
+ * @param {string} date - The ISO 8601 date.
+ * @returns {string} E.g. `3/14/2024`, depending on the locale.
+ */
+export const formatDate = (date: string): string => new Date(date).toLocaleDateString();
+
+/**
+ * Shows a node's git history in the detail panel: its commits in the scanned window, when it
+ * last changed, its most frequent authors and the subjects of its newest commits. Nothing is
+ * shown while the history loads, if none was scanned, or if the node is not in it.
+ * @param {HistoryInfoProps} props - The component props.
+ * @param {HistoryIndex | null} props.index - The history index, or null while loading.
+ * @param {string} props.relativePath - The node's path relative to the root.
+ * @returns {React.ReactElement | null} The rendered section.
+ */
+const HistoryInfo: React.FC<HistoryInfoProps> = ({ index, relativePath }) => {
+  const history = index?.data.nodes[relativePath];
+  if (!index || !history) {
+    return null;
+  }
+  const { since, until, commits } = index.data;
+
+  return (
+    <DetailSection title="History">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-slate-500">Commits</dt>
+        <dd className="text-slate-800">
+          {history.commits.toLocaleString()}{' '}
+          <span className="text-xs text-slate-500">from {formatDate(since)} to {formatDate(until)}</span>
+        </dd>
+        {history.lastModified && (
+          <>
+            <dt className="text-slate-500">Last changed</dt>
+            <dd className="text-slate-800">{formatDate(history.lastModified)}</dd>
+          </>
+        )}
+        {history.authors.length > 0 && (
+          <>
+            <dt className="text-slate-500">Top authors</dt>
+            <dd>
+              <ul className="space-y-0.5">
+                {history.authors.map(([author, count]) => (
+                  <li key={author} className="text-slate-800">
+                    {author} <span className="text-xs text-slate-500">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </dd>
+          </>
+        )}
+      </dl>
+      {history.recent.length > 0 && (
+        <ul className="mt-3 space-y-1.5 text-sm" aria-label="Recent commits">
+          {history.recent.map(commitIndex => {
+            const commit = commits[commitIndex];
+            return (
+              <li key={commit.hash}>
+                <span className="block text-slate-800 break-words">{commit.subject}</span>
+                <span className="text-xs text-slate-500">
+                  <code className="font-mono">{commit.hash}</code> · {commit.author} · {formatDate(commit.date)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </DetailSection>
+  );
+};
+
+export default HistoryInfo;
@@ -76,6 +76,51 @@ export const CollapseIcon: React.FC<IconProps> = ({ className }) => (
     </svg>
 );
 
+/**
+ * Renders an expand icon (arrows pointing up and down).
+ * @param {IconProps} props - The component props.
+ * @returns {React.ReactElement} The rendered SVG icon.
+ */
+export const ExpandIcon: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="m7 15 5 5 5-5M7 9l5-5 5 5"/>
+    </svg>
+);
+
+/**
+ * Renders a locate/crosshair icon.
+ * @param {IconProps} props - The component props.
+ * @returns {React.ReactElement} The rendered SVG icon.
+ */
+export const LocateIcon: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <circle cx="12" cy="12" r="7"/>
+        <path d="M2 12h3M19 12h3M12 2v3M12 19v3"/>
+    </svg>
+);
+
+/**
+ * Renders a left arrow icon, for going back.
+ * @param {IconProps} props - The component props.
+ * @returns {React.ReactElement} The rendered SVG icon.
+ */
+export const BackIcon: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M19 12H5M12 19l-7-7 7-7"/>
+    </svg>
+);
+
+/**
+ * Renders a right arrow icon, for going forward.
+ * @param {IconProps} props - The component props.
+ * @returns {React.ReactElement} The rendered SVG icon.
+ */
+export const ForwardIcon: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M5 12h14M12 5l7 7-7 7"/>
+    </svg>
+);
+
 /**
  * Renders an information icon.
  * @param {IconProps} props - The component props.
@@ -89,6 +134,19 @@ export const InfoIcon: React.FC<IconProps> = ({ className }) => (
     </svg>
 );
 
+/**
+ * Renders a note icon, marking annotated nodes.
+ * @param {IconProps} props - The component props.
+ * @returns {React.ReactElement} The rendered SVG icon.
+ */
+export const NoteIcon: React.FC<IconProps> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M15.5 3H5a2 2 0 0 0-2 2v14c0 1.1.9 2 2 2h14a2 2 0 0 0 2-2V8.5L15.5 3Z"></path>
+        <path d="M15 3v6h6"></path>
+        <path d="M7 13h8M7 17h5"></path>
+    </svg>
+);
+
 /**
  * Renders the Tux (Linux penguin) icon.
  * @param {IconProps} props - The component props.
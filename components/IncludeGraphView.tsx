@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import {
+  includeNeighborhood,
+  type IncludeDirection,
+  type IncludeGraphNode,
+  type IncludeIndex,
+} from '../utils/includeGraph';
+
+interface IncludeGraphViewProps {
+  index: IncludeIndex | null;
+  selectedPath: string | null;
+  onPathSelect: (relativePath: string) => void;
+}
+
+/** The depths offered by the depth menu. */
+const DEPTHS = [1, 2, 3, 4];
+
+const DIRECTION_LABELS: Record<IncludeDirection, string> = {
+  both: 'Both ways',
+  includedBy: 'Included by',
+  includes: 'Includes',
+};
+
+/** The layout of the drawing, in pixels: one column per layer. */
+const COLUMN_WIDTH = 200;
+const BOX_WIDTH = 172;
+const BOX_HEIGHT = 22;
+const ROW_GAP = 6;
+const PADDING = 8;
+
+/** How many nodes are drawn per column before the rest are summarized. */
+const MAX_PER_COLUMN = 24;
+
+/** The longest label drawn in a box; longer paths keep their end and are shown in full on hover. */
+const MAX_LABEL = 26;
+
+/**
+ * The label of a node: a file's name, or a directory's path (shortened from the start).
+ * @param {IncludeGraphNode} node - The node.
+ * @returns {string} The label.
+ */
+const nodeLabel = (node: IncludeGraphNode): string => {
+  const label = node.path.endsWith('/') || node.path === '' ? node.path || '/' : node.path.slice(node.path.lastIndexOf('/') + 1);
+  return label.length > MAX_LABEL ? `…${label.slice(label.length - MAX_LABEL + 1)}` : label;
+};
+
+/**
+ * Draws the `#include` graph around the selected file or directory, in columns: the files that
+ * include it on the left, those it includes on the right, one column per `#include` step.
+ * The depth, the directions followed and whether files are merged into their directories can be
+ * changed; with merging, a question like "what pulls in `sched.h`?" is answered per directory.
+ * Clicking a node selects it, which centers the graph on it.
+ * @param {IncludeGraphViewProps} props - The component props.
+ * @param {IncludeIndex | null} props.index - The include index, or null while loading.
+ * @param {string | null} props.selectedPath - The selected node's path relative to the root, if any.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select a node.
+ * @returns {React.ReactElement} The rendered view.
+ */
+const IncludeGraphView: React.FC<IncludeGraphViewProps> = ({ index, selectedPath, onPathSelect }) => {
+  const [depth, setDepth] = useState(1);
+  const [direction, setDirection] = useState<IncludeDirection>('both');
+  const [collapse, setCollapse] = useState(false);
+
+  const graph = useMemo(
+    () => (index && selectedPath !== null ? includeNeighborhood(index, selectedPath, { depth, direction, collapse }) : null),
+    [index, selectedPath, depth, direction, collapse],
+  );
+
+  // Place the nodes in columns, biggest groups first, and drop the ones past the limit.
+  const layout = useMemo(() => {
+    if (!graph) {
+      return null;
+    }
+    const columns = new Map<number, IncludeGraphNode[]>();
+    graph.nodes.forEach(node => {
+      const column = columns.get(node.layer);
+      if (column) {
+        column.push(node);
+      } else {
+        columns.set(node.layer, [node]);
+      }
+    });
+    const layers = [...columns.keys()].sort((a, b) => a - b);
+    const positions = new Map<string, { x: number; y: number }>();
+    const hidden = new Map<number, number>();
+    let rows = 1;
+    layers.forEach((layer, column) => {
+      const nodes = columns.get(layer)!.sort((a, b) => b.files - a.files || a.path.localeCompare(b.path));
+      nodes.slice(0, MAX_PER_COLUMN).forEach((node, row) => {
+        positions.set(node.id, { x: PADDING + column * COLUMN_WIDTH, y: PADDING + row * (BOX_HEIGHT + ROW_GAP) });
+      });
+      if (nodes.length > MAX_PER_COLUMN) {
+        hidden.set(column, nodes.length - MAX_PER_COLUMN);
+      }
+      rows = Math.max(rows, Math.min(nodes.length, MAX_PER_COLUMN) + (nodes.length > MAX_PER_COLUMN ? 1 : 0));
+    });
+    const shown = graph.nodes.filter(node => positions.has(node.id));
+    const edges = graph.edges.filter(edge => positions.has(edge.from) && positions.has(edge.to));
+    return {
+      shown,
+      edges,
+      positions,
+      hidden,
+      width: PADDING * 2 + (layers.length - 1) * COLUMN_WIDTH + BOX_WIDTH,
+      height: PADDING * 2 + rows * (BOX_HEIGHT + ROW_GAP),
+    };
+  }, [graph]);
+
+  const controls = (
+    <div className="mb-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+      <label className="inline-flex items-center gap-1.5">
+        <span className="text-slate-500">Depth</span>
+        <select value={depth} onChange={e => setDepth(Number(e.target.value))} className="bg-white border border-slate-300 rounded-md px-2 py-1 text-slate-700">
+          {DEPTHS.map(value => <option key={value} value={value}>{value}</option>)}
+        </select>
+      </label>
+      <label className="inline-flex items-center gap-1.5">
+        <span className="text-slate-500">Follow</span>
+        <select
+          value={direction}
+          onChange={e => setDirection(e.target.value as IncludeDirection)}
+          className="bg-white border border-slate-300 rounded-md px-2 py-1 text-slate-700"
+        >
+          {(Object.keys(DIRECTION_LABELS) as IncludeDirection[]).map(value => (
+            <option key={value} value={value}>{DIRECTION_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="inline-flex items-center gap-1.5 text-slate-600">
+        <input type="checkbox" checked={collapse} onChange={e => setCollapse(e.target.checked)} />
+        Group by directory
+      </label>
+    </div>
+  );
+
+  let content: React.ReactNode;
+  if (!index) {
+    content = <p className="text-center text-slate-500 py-8" role="status">Loading include graph…</p>;
+  } else if (selectedPath === null) {
+    content = <p className="text-center text-slate-500 py-8">Select a file or directory to see what it includes and what includes it.</p>;
+  } else if (!graph || !layout || graph.nodes[0].files === 0) {
+    content = <p className="text-center text-slate-500 py-8">No <code>#include</code> directives lead to or from <code className="font-mono">{selectedPath || '/'}</code>.</p>;
+  } else {
+    content = (
+      <>
+        <p className="mb-2 text-sm text-slate-600">
+          Within {depth} {depth === 1 ? 'step' : 'steps'}, <code className="font-mono">{selectedPath || '/'}</code> includes{' '}
+          {graph.reached.includes.toLocaleString()} and is included by {graph.reached.includedBy.toLocaleString()} files.
+        </p>
+        <div className="overflow-auto border border-slate-200 rounded-md bg-white max-h-[70vh]">
+          <svg width={layout.width} height={layout.height} className="font-sans" role="img" aria-label={`Include graph of ${selectedPath}`}>
+            <defs>
+              <marker id="include-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L8,4 L0,8 Z" fill="#94a3b8" />
+              </marker>
+            </defs>
+            {layout.edges.map(edge => {
+              const from = layout.positions.get(edge.from)!;
+              const to = layout.positions.get(edge.to)!;
+              const [fromX, fromY, toX, toY] = [from.x + BOX_WIDTH, from.y + BOX_HEIGHT / 2, to.x, to.y + BOX_HEIGHT / 2];
+              const middleX = (fromX + toX) / 2;
+              return (
+                <path
+                  key={`${edge.from}>${edge.to}`}
+                  d={`M${fromX},${fromY} C${middleX},${fromY} ${middleX},${toY} ${toX - 4},${toY}`}
+                  fill="none"
+                  stroke="#cbd5e1"
+                  markerEnd="url(#include-arrow)"
+                />
+              );
+            })}
+            {layout.shown.map(node => {
+              const { x, y } = layout.positions.get(node.id)!;
+              const isCenter = node.layer === 0;
+              return (
+                <g
+                  key={node.id}
+                  role="button"
+                  tabIndex={0}
+                  className="cursor-pointer group"
+                  onClick={() => onPathSelect(node.path)}
+                  onKeyDown={event => {
+                    if (event.key === 'Enter' || event.key === ' ') {
+                      event.preventDefault();
+                      onPathSelect(node.path);
+                    }
+                  }}
+                >
+                  <title>{node.files > 1 ? `${node.path} (${node.files} files)` : node.path}</title>
+                  <rect
+                    x={x}
+                    y={y}
+                    width={BOX_WIDTH}
+                    height={BOX_HEIGHT}
+                    rx={4}
+                    className={isCenter ? 'fill-cyan-600' : 'fill-white group-hover:fill-cyan-50'}
+                    stroke={isCenter ? '#0891b2' : '#94a3b8'}
+                  />
+                  <text x={x + 8} y={y + BOX_HEIGHT / 2 + 4} className={`font-mono text-[11px] ${isCenter ? 'fill-white font-semibold' : 'fill-slate-700'}`}>
+                    {nodeLabel(node)}
+                  </text>
+                  {node.files > 1 && !isCenter && (
+                    <text x={x + BOX_WIDTH - 6} y={y + BOX_HEIGHT / 2 + 4} textAnchor="end" className="fill-slate-400 text-[10px]">
+                      {node.files}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+            {[...layout.hidden].map(([column, count]) => (
+              <text
+                key={column}
+                x={PADDING + column * COLUMN_WIDTH + BOX_WIDTH / 2}
+                y={PADDING + MAX_PER_COLUMN * (BOX_HEIGHT + ROW_GAP) + BOX_HEIGHT / 2 + 4}
+                textAnchor="middle"
+                className="fill-slate-500 text-[11px]"
+              >
+                +{count} more
+              </text>
+            ))}
+          </svg>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">Arrows point from the including file to the included one. Numbers count the files in a directory.</p>
+      </>
+    );
+  }
+
+  return (
+    <section aria-label="Include graph">
+      {controls}
+      {content}
+    </section>
+  );
+};
+
+export default IncludeGraphView;
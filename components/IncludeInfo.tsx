@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { directIncludes, type IncludeIndex } from '../utils/includeGraph';
+import { DetailSection } from './NodeMetadata';
+
+interface IncludeInfoProps {
+  index: IncludeIndex | null;
+  relativePath: string;
+  onPathSelect: (relativePath: string) => void;
+  onShowGraph?: () => void;
+}
+
+interface PathListProps {
+  title: string;
+  paths: string[];
+  onPathSelect: (relativePath: string) => void;
+}
+
+/** How many paths a list shows before "Show all". */
+const COLLAPSED_LIMIT = 10;
+
+/**
+ * A titled, counted list of file paths, cut short until expanded.
+ * @param {PathListProps} props - The component props.
+ * @param {string} props.title - The section heading, without the count.
+ * @param {string[]} props.paths - The paths relative to the root.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select a path in the tree.
+ * @returns {React.ReactElement | null} The rendered section, or null if there are no paths.
+ */
+const PathList: React.FC<PathListProps> = ({ title, paths, onPathSelect }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (paths.length === 0) {
+    return null;
+  }
+  const shown = expanded ? paths : paths.slice(0, COLLAPSED_LIMIT);
+  return (
+    <DetailSection title={`${title} (${paths.length.toLocaleString()})`}>
+      <ul className="space-y-1 text-sm max-h-80 overflow-auto">
+        {shown.map(path => (
+          <li key={path}>
+            <button onClick={() => onPathSelect(path)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+              {path}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {paths.length > COLLAPSED_LIMIT && (
+        <button onClick={() => setExpanded(!expanded)} className="mt-1 text-xs text-slate-500 hover:text-cyan-600 hover:underline">
+          {expanded ? 'Show fewer' : `Show all ${paths.length.toLocaleString()}`}
+        </button>
+      )}
+    </DetailSection>
+  );
+};
+
+/**
+ * Shows the files a file includes and the files that include it, from the `#include` graph,
+ * with a button to open the graph view around it. Nothing is shown while the graph loads or
+ * for files outside it.
+ * @param {IncludeInfoProps} props - The component props.
+ * @param {IncludeIndex | null} props.index - The include index, or null while loading.
+ * @param {string} props.relativePath - The node's path relative to the root.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select a file in the tree.
+ * @param {() => void} [props.onShowGraph] - Callback to switch to the include graph view; without it, no button links there.
+ * @returns {React.ReactElement | null} The rendered sections.
+ */
+const IncludeInfo: React.FC<IncludeInfoProps> = ({ index, relativePath, onPathSelect, onShowGraph }) => {
+  if (!index || !index.ids.has(relativePath)) {
+    return null;
+  }
+  const { includes, includedBy } = directIncludes(index, relativePath);
+
+  return (
+    <>
+      <PathList key={`includes:${relativePath}`} title="Includes" paths={includes} onPathSelect={onPathSelect} />
+      <PathList key={`includedBy:${relativePath}`} title="Included by" paths={includedBy} onPathSelect={onPathSelect} />
+      {onShowGraph && (
+        <button onClick={onShowGraph} className="mt-3 text-sm text-cyan-700 hover:underline">
+          Show include graph
+        </button>
+      )}
+    </>
+  );
+};
+
+export default IncludeInfo;
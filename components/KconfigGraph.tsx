@@ -0,0 +1,167 @@
+import React from 'react';
+import type { KconfigRelations } from '../utils/kconfig';
+
+/** How a related symbol is connected to the symbol in the middle. */
+type EdgeType = 'depends' | 'select' | 'imply';
+
+interface GraphNode {
+  name: string;
+  type: EdgeType;
+}
+
+interface KconfigGraphProps {
+  name: string;
+  relations: KconfigRelations;
+  onSymbolSelect: (name: string) => void;
+}
+
+/** The width of the drawing in SVG units; it is scaled to the panel. */
+const WIDTH = 400;
+
+/** The size of each symbol box and the gap between rows. */
+const BOX_WIDTH = 128;
+const BOX_HEIGHT = 20;
+const ROW_GAP = 6;
+
+/** How many symbols are drawn per side before the rest are summarized. */
+const MAX_PER_SIDE = 10;
+
+/** The longest label drawn in a box; longer names are cut and shown in full on hover. */
+const MAX_LABEL = 18;
+
+const EDGE_STYLES: Record<EdgeType, { color: string; dash?: string; label: string }> = {
+  depends: { color: '#64748b', label: 'depends on' },
+  select: { color: '#0891b2', label: 'select' },
+  imply: { color: '#d97706', dash: '4 3', label: 'imply' },
+};
+
+/**
+ * Shortens a symbol name to fit its box.
+ * @param {string} name - The symbol name.
+ * @returns {string} The name, cut with an ellipsis if it is too long.
+ */
+const truncate = (name: string): string => (name.length > MAX_LABEL ? `${name.slice(0, MAX_LABEL - 1)}…` : name);
+
+/**
+ * Draws a symbol's neighborhood: on the left, the symbols it needs or is turned on by
+ * (`depends on`, selected by, implied by); on the right, the symbols it turns on or that
+ * need it (selects, implies, required by). Arrows point from cause to effect. Clicking a
+ * symbol opens its page.
+ * @param {KconfigGraphProps} props - The component props.
+ * @param {string} props.name - The symbol in the middle, without `CONFIG_`.
+ * @param {KconfigRelations} props.relations - Its related symbols.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open a related symbol.
+ * @returns {React.ReactElement | null} The rendered graph, or null if the symbol has no relations.
+ */
+const KconfigGraph: React.FC<KconfigGraphProps> = ({ name, relations, onSymbolSelect }) => {
+  const left: GraphNode[] = [
+    ...relations.dependsOn.map(symbol => ({ name: symbol, type: 'depends' as const })),
+    ...relations.selectedBy.map(symbol => ({ name: symbol, type: 'select' as const })),
+    ...relations.impliedBy.map(symbol => ({ name: symbol, type: 'imply' as const })),
+  ];
+  const right: GraphNode[] = [
+    ...relations.selects.map(symbol => ({ name: symbol, type: 'select' as const })),
+    ...relations.implies.map(symbol => ({ name: symbol, type: 'imply' as const })),
+    ...relations.requiredBy.map(symbol => ({ name: symbol, type: 'depends' as const })),
+  ];
+  if (left.length === 0 && right.length === 0) {
+    return null;
+  }
+
+  const rowsPerSide = (nodes: GraphNode[]) => Math.min(nodes.length, MAX_PER_SIDE) + (nodes.length > MAX_PER_SIDE ? 1 : 0);
+  const rows = Math.max(rowsPerSide(left), rowsPerSide(right), 1);
+  const height = rows * (BOX_HEIGHT + ROW_GAP) + ROW_GAP;
+  const centerY = height / 2;
+  const centerX = (WIDTH - BOX_WIDTH) / 2;
+
+  const renderSide = (nodes: GraphNode[], side: 'left' | 'right') => {
+    const shown = nodes.slice(0, MAX_PER_SIDE);
+    const count = rowsPerSide(nodes);
+    const top = centerY - (count * (BOX_HEIGHT + ROW_GAP) - ROW_GAP) / 2;
+    const x = side === 'left' ? 0 : WIDTH - BOX_WIDTH;
+    return (
+      <>
+        {shown.map((node, row) => {
+          const y = top + row * (BOX_HEIGHT + ROW_GAP);
+          const style = EDGE_STYLES[node.type];
+          const [fromX, fromY, toX, toY] =
+            side === 'left'
+              ? [x + BOX_WIDTH, y + BOX_HEIGHT / 2, centerX, centerY]
+              : [centerX + BOX_WIDTH, centerY, x, y + BOX_HEIGHT / 2];
+          const middleX = (fromX + toX) / 2;
+          return (
+            <g key={`${node.type}:${node.name}`}>
+              <path
+                d={`M${fromX},${fromY} C${middleX},${fromY} ${middleX},${toY} ${toX - 4},${toY}`}
+                fill="none"
+                stroke={style.color}
+                strokeDasharray={style.dash}
+                markerEnd={`url(#kconfig-arrow-${node.type})`}
+              />
+              <g
+                role="button"
+                tabIndex={0}
+                className="cursor-pointer group"
+                onClick={() => onSymbolSelect(node.name)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    onSymbolSelect(node.name);
+                  }
+                }}
+              >
+                <title>{`CONFIG_${node.name} (${style.label})`}</title>
+                <rect x={x} y={y} width={BOX_WIDTH} height={BOX_HEIGHT} rx={4} className="fill-white group-hover:fill-cyan-50" stroke={style.color} />
+                <text x={x + BOX_WIDTH / 2} y={y + BOX_HEIGHT / 2 + 4} textAnchor="middle" className="fill-slate-700 font-mono text-[10px]">
+                  {truncate(node.name)}
+                </text>
+              </g>
+            </g>
+          );
+        })}
+        {nodes.length > MAX_PER_SIDE && (
+          <text
+            x={x + BOX_WIDTH / 2}
+            y={top + MAX_PER_SIDE * (BOX_HEIGHT + ROW_GAP) + BOX_HEIGHT / 2 + 4}
+            textAnchor="middle"
+            className="fill-slate-500 text-[10px]"
+          >
+            +{nodes.length - MAX_PER_SIDE} more
+          </text>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <figure>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full font-sans" role="img" aria-label={`Dependency graph of CONFIG_${name}`}>
+        <defs>
+          {(Object.keys(EDGE_STYLES) as EdgeType[]).map(type => (
+            <marker key={type} id={`kconfig-arrow-${type}`} viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M0,0 L8,4 L0,8 Z" fill={EDGE_STYLES[type].color} />
+            </marker>
+          ))}
+        </defs>
+        {renderSide(left, 'left')}
+        {renderSide(right, 'right')}
+        <rect x={centerX} y={centerY - BOX_HEIGHT / 2} width={BOX_WIDTH} height={BOX_HEIGHT} rx={4} className="fill-cyan-600" />
+        <text x={centerX + BOX_WIDTH / 2} y={centerY + 4} textAnchor="middle" className="fill-white font-mono text-[10px] font-semibold">
+          {truncate(name)}
+        </text>
+      </svg>
+      <figcaption className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+        {(Object.keys(EDGE_STYLES) as EdgeType[]).map(type => (
+          <span key={type} className="inline-flex items-center gap-1.5">
+            <svg width="20" height="6" aria-hidden="true">
+              <line x1="0" y1="3" x2="20" y2="3" stroke={EDGE_STYLES[type].color} strokeWidth="2" strokeDasharray={EDGE_STYLES[type].dash} />
+            </svg>
+            {EDGE_STYLES[type].label}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+};
+
+export default KconfigGraph;
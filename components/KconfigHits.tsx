@@ -0,0 +1,46 @@
+import React from 'react';
+import type { KconfigHit } from '../utils/kconfig';
+import HighlightText from './HighlightText';
+
+interface KconfigHitsProps {
+  hits: KconfigHit[];
+  selectedSymbol: string | null;
+  onSymbolSelect: (name: string) => void;
+  searchTerm: string;
+  limit?: number;
+}
+
+/**
+ * The best-ranked Kconfig symbols matching the search, shown next to the tree's top hits.
+ * @param {KconfigHitsProps} props - The component props.
+ * @param {KconfigHit[]} props.hits - The ranked symbols, best first.
+ * @param {string | null} props.selectedSymbol - The symbol whose page is open, if any.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open a symbol's page.
+ * @param {string} props.searchTerm - The current search query for highlighting.
+ * @param {number} [props.limit=5] - How many symbols to show.
+ * @returns {React.ReactElement} The rendered list.
+ */
+const KconfigHits: React.FC<KconfigHitsProps> = ({ hits, selectedSymbol, onSymbolSelect, searchTerm, limit = 5 }) => (
+  <section className="mb-4 border border-slate-200 rounded-md bg-slate-50" aria-label="Kconfig symbols">
+    <h3 className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 border-b border-slate-200">
+      Kconfig symbols <span className="font-normal normal-case">({hits.length} {hits.length === 1 ? 'match' : 'matches'})</span>
+    </h3>
+    <ol>
+      {hits.slice(0, limit).map(hit => (
+        <li key={hit.name}>
+          <button
+            onClick={() => onSymbolSelect(hit.name)}
+            className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${selectedSymbol === hit.name ? 'bg-cyan-100' : 'hover:bg-slate-100'}`}
+          >
+            <span className="font-mono font-medium text-slate-800 whitespace-nowrap">
+              <HighlightText text={`CONFIG_${hit.name}`} highlight={searchTerm} as="span" />
+            </span>
+            {hit.prompt && <span className="ml-auto text-xs text-slate-500 truncate hidden sm:inline max-w-[50%]">{hit.prompt}</span>}
+          </button>
+        </li>
+      ))}
+    </ol>
+  </section>
+);
+
+export default KconfigHits;
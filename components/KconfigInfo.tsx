@@ -0,0 +1,80 @@
+import React from 'react';
+import type { KconfigIndex } from '../utils/kconfig';
+import { DetailSection } from './NodeMetadata';
+
+interface KconfigInfoProps {
+  index: KconfigIndex | null;
+  relativePath: string;
+  onSymbolSelect: (name: string) => void;
+}
+
+interface SymbolButtonProps {
+  name: string;
+  onSelect: (name: string) => void;
+}
+
+/**
+ * A Kconfig symbol name that opens the symbol's page.
+ * @param {SymbolButtonProps} props - The component props.
+ * @param {string} props.name - The symbol name without `CONFIG_`.
+ * @param {(name: string) => void} props.onSelect - Callback to open the symbol.
+ * @returns {React.ReactElement} The rendered button.
+ */
+export const SymbolButton: React.FC<SymbolButtonProps> = ({ name, onSelect }) => (
+  <button onClick={() => onSelect(name)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+    CONFIG_{name}
+  </button>
+);
+
+/**
+ * Shows a node's Kconfig symbols in the detail panel: for a directory, the symbols declared
+ * in its Kconfig files (for a Kconfig file, those declared in it); for any node, the symbols
+ * that control whether it is built. Nothing is shown while the symbols load or if there are none.
+ * @param {KconfigInfoProps} props - The component props.
+ * @param {KconfigIndex | null} props.index - The Kconfig index, or null while loading.
+ * @param {string} props.relativePath - The node's path relative to the root.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open a symbol's page.
+ * @returns {React.ReactElement | null} The rendered sections.
+ */
+const KconfigInfo: React.FC<KconfigInfoProps> = ({ index, relativePath, onSymbolSelect }) => {
+  if (!index) {
+    return null;
+  }
+  const declared = relativePath === '' || relativePath.endsWith('/')
+    ? index.byDirectory.get(relativePath) ?? []
+    : (index.byDirectory.get(relativePath.replace(/[^/]*$/, '')) ?? []).filter(entry => entry.file === relativePath);
+  const controlledBy = index.gatedBy.get(relativePath) ?? [];
+  if (declared.length === 0 && controlledBy.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {controlledBy.length > 0 && (
+        <DetailSection title="Built when">
+          <ul className="space-y-1 text-sm">
+            {controlledBy.map(name => (
+              <li key={name}>
+                <SymbolButton name={name} onSelect={onSymbolSelect} />
+              </li>
+            ))}
+          </ul>
+        </DetailSection>
+      )}
+      {declared.length > 0 && (
+        <DetailSection title={`Kconfig symbols (${declared.length})`}>
+          <ul className="space-y-1.5 text-sm max-h-80 overflow-auto">
+            {declared.map(entry => (
+              <li key={`${entry.file}:${entry.line}`}>
+                <SymbolButton name={entry.name} onSelect={onSymbolSelect} />
+                {entry.prompt && <span className="block text-xs text-slate-500">{entry.prompt}</span>}
+              </li>
+            ))}
+          </ul>
+        </DetailSection>
+      )}
+    </>
+  );
+};
+
+export default KconfigInfo;
@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { expressionSymbols, symbolRelations, type KconfigConditional, type KconfigIndex } from '../utils/kconfig';
+import KconfigGraph from './KconfigGraph';
+import { SymbolButton } from './KconfigInfo';
+import { DetailSection } from './NodeMetadata';
+
+interface KconfigSymbolPanelProps {
+  index: KconfigIndex;
+  name: string;
+  onSymbolSelect: (name: string) => void;
+  onPathSelect: (relativePath: string) => void;
+  onClose: () => void;
+}
+
+interface ExpressionProps {
+  expression: string;
+  onSymbolSelect: (name: string) => void;
+}
+
+/**
+ * A Kconfig expression with its symbols as links, e.g. `BPF_SYSCALL && !PREEMPT_RT`.
+ * @param {ExpressionProps} props - The component props.
+ * @param {string} props.expression - The expression.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open a symbol.
+ * @returns {React.ReactElement} The rendered expression.
+ */
+const Expression: React.FC<ExpressionProps> = ({ expression, onSymbolSelect }) => {
+  const symbols = new Set(expressionSymbols(expression));
+  return (
+    <code className="font-mono text-xs text-slate-700 break-words">
+      {expression.split(/([A-Za-z0-9_]+)/).map((part, i) =>
+        symbols.has(part) ? (
+          <button key={i} onClick={() => onSymbolSelect(part)} className="text-cyan-700 hover:underline">
+            {part}
+          </button>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        ),
+      )}
+    </code>
+  );
+};
+
+interface SymbolListProps {
+  title: string;
+  items: KconfigConditional[];
+  onSymbolSelect: (name: string) => void;
+}
+
+/**
+ * A titled list of symbols, each with its `if` condition if any.
+ * @param {SymbolListProps} props - The component props.
+ * @param {string} props.title - The section heading.
+ * @param {KconfigConditional[]} props.items - The symbols and conditions.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open a symbol.
+ * @returns {React.ReactElement | null} The rendered section, or null if there are no items.
+ */
+const SymbolList: React.FC<SymbolListProps> = ({ title, items, onSymbolSelect }) => {
+  if (items.length === 0) {
+    return null;
+  }
+  return (
+    <DetailSection title={title}>
+      <ul className="space-y-1 text-sm">
+        {items.map(({ value, condition }) => (
+          <li key={`${value} if ${condition}`} className="flex flex-wrap items-baseline gap-x-1.5">
+            <SymbolButton name={value} onSelect={onSymbolSelect} />
+            {condition && (
+              <span className="text-xs text-slate-500">
+                if <Expression expression={condition} onSymbolSelect={onSymbolSelect} />
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </DetailSection>
+  );
+};
+
+/**
+ * The page of a Kconfig symbol, shown in place of the detail panel: its declarations with
+ * type, prompt, dependencies, defaults and help text, a graph of related symbols, the symbols
+ * that select, imply or depend on it, and the files it controls.
+ * @param {KconfigSymbolPanelProps} props - The component props.
+ * @param {KconfigIndex} props.index - The Kconfig index.
+ * @param {string} props.name - The symbol name without `CONFIG_`.
+ * @param {(name: string) => void} props.onSymbolSelect - Callback to open another symbol.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select a node in the tree.
+ * @param {() => void} props.onClose - Callback to return to the selected node's details.
+ * @returns {React.ReactElement} The rendered page.
+ */
+const KconfigSymbolPanel: React.FC<KconfigSymbolPanelProps> = ({ index, name, onSymbolSelect, onPathSelect, onClose }) => {
+  const entries = index.byName.get(name) ?? [];
+  const relations = useMemo(() => symbolRelations(index, name), [index, name]);
+  const gates = index.data.gates[name] ?? [];
+  const asItems = (names: string[]): KconfigConditional[] => names.map(value => ({ value }));
+
+  return (
+    <div className="h-full sticky top-6">
+      <button onClick={onClose} className="mb-4 text-sm text-slate-500 hover:text-cyan-600 hover:underline">
+        ← Back to details
+      </button>
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Kconfig symbol</p>
+      <h2 className="text-2xl font-bold text-slate-900 break-all font-mono mb-4">CONFIG_{name}</h2>
+
+      {entries.length === 0 && (
+        <p className="text-sm text-slate-500">This symbol is not declared in the loaded Kconfig files.</p>
+      )}
+
+      {entries.map(entry => (
+        <section key={`${entry.file}:${entry.line}`} className="mb-6">
+          {entry.prompt && <p className="text-base text-slate-800 mb-2">{entry.prompt}</p>}
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-slate-500">Declared in</dt>
+            <dd>
+              <button
+                onClick={() => onPathSelect(entry.file.replace(/[^/]*$/, ''))}
+                className="font-mono text-cyan-700 hover:underline break-all text-left"
+                title="Show the directory in the tree"
+              >
+                {entry.file}:{entry.line}
+              </button>
+            </dd>
+            <dt className="text-slate-500">Type</dt>
+            <dd className="text-slate-800">
+              {entry.type ?? 'unknown'}
+              {entry.kind !== 'config' && <span className="text-slate-500"> ({entry.kind})</span>}
+            </dd>
+            {entry.choice && (
+              <>
+                <dt className="text-slate-500">Choice</dt>
+                <dd className="text-slate-800">{entry.choice}</dd>
+              </>
+            )}
+            {entry.dependsOn.length > 0 && (
+              <>
+                <dt className="text-slate-500">Depends on</dt>
+                <dd className="space-y-0.5">
+                  {entry.dependsOn.map(expression => (
+                    <div key={expression}>
+                      <Expression expression={expression} onSymbolSelect={onSymbolSelect} />
+                    </div>
+                  ))}
+                </dd>
+              </>
+            )}
+            {entry.defaults.length > 0 && (
+              <>
+                <dt className="text-slate-500">Default</dt>
+                <dd className="space-y-0.5">
+                  {entry.defaults.map(({ value, condition }) => (
+                    <div key={`${value} if ${condition}`}>
+                      <Expression expression={value} onSymbolSelect={onSymbolSelect} />
+                      {condition && (
+                        <span className="text-xs text-slate-500">
+                          {' '}if <Expression expression={condition} onSymbolSelect={onSymbolSelect} />
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </dd>
+              </>
+            )}
+          </dl>
+          {entry.help && <p className="mt-3 text-sm text-slate-600 leading-relaxed whitespace-pre-line">{entry.help}</p>}
+          <SymbolList title="Selects" items={entry.selects} onSymbolSelect={onSymbolSelect} />
+          <SymbolList title="Implies" items={entry.implies} onSymbolSelect={onSymbolSelect} />
+        </section>
+      ))}
+
+      <DetailSection title="Graph">
+        <KconfigGraph name={name} relations={relations} onSymbolSelect={onSymbolSelect} />
+        {(Object.values(relations) as string[][]).every(list => list.length === 0) && (
+          <p className="text-sm text-slate-500">No other symbol refers to this one.</p>
+        )}
+      </DetailSection>
+      <SymbolList title="Selected by" items={asItems(relations.selectedBy)} onSymbolSelect={onSymbolSelect} />
+      <SymbolList title="Implied by" items={asItems(relations.impliedBy)} onSymbolSelect={onSymbolSelect} />
+      <SymbolList title="Required by" items={asItems(relations.requiredBy)} onSymbolSelect={onSymbolSelect} />
+
+      {gates.length > 0 && (
+        <DetailSection title={`Controls (${gates.length})`}>
+          <ul className="space-y-1 text-sm max-h-80 overflow-auto">
+            {gates.map(path => (
+              <li key={path}>
+                <button onClick={() => onPathSelect(path)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+                  {path}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </DetailSection>
+      )}
+    </div>
+  );
+};
+
+export default KconfigSymbolPanel;
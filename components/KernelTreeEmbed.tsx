@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import DetailPanel from './DetailPanel';
+import KernelVisualizer from './KernelVisualizer';
+import { SearchIcon } from './Icons';
+import { useExpansionState, type ExpansionTarget } from '../hooks/useExpansionState';
+import { useHistory } from '../hooks/useHistory';
+import { useKernelTree } from '../hooks/useKernelTree';
+import { useMaintainers } from '../hooks/useMaintainers';
+import type { KernelNode } from '../types';
+import { getAncestorPaths, splitPath, toCanonicalPath, toRelativePath } from '../utils/nodePath';
+import { formatFieldTerm, isEmptyQuery, parseQuery } from '../utils/query';
+import { buildSearchIndex, findNodePath, pruneIndex, pruneTree, searchTree } from '../utils/treeUtils';
+import { formatString, UI_STRINGS } from '../utils/uiStrings';
+
+interface KernelTreeEmbedProps {
+  /** The directory shown as the tree's top, relative to the root and ending with `/`; `''` for the whole tree. */
+  rootPath: string;
+  /** The relative path of the node to select, or null. */
+  selected: string | null;
+  datasetUrl?: string;
+  showSearch: boolean;
+  showDetails: boolean;
+  onSelect?: (relativePath: string, node: KernelNode) => void;
+  onExpand?: (relativePath: string, expanded: boolean) => void;
+}
+
+/**
+ * Finds the first directory on the way to a node whose children have not been loaded yet.
+ * @param {KernelNode[]} chain - The nodes from the root towards the node, as far as they are loaded.
+ * @param {number} depth - The node's depth; 0 for the root.
+ * @returns {string | null} The directory's canonical path, or null if every directory above the node is loaded.
+ */
+const nextUnloadedDirectory = (chain: KernelNode[], depth: number): string | null => {
+  const index = chain.findIndex((node, i) => node.lazyChildren && i < depth);
+  return index < 0 ? null : chain.slice(0, index + 1).map(node => node.name).join('');
+};
+
+/**
+ * The tree and detail panel as they are embedded in other pages by the `<kernel-tree>` element
+ * (see `embed.tsx`): one directory of the kernel shown as the top of the tree, with an optional
+ * search box and detail panel. Selections and expansions are reported to the host instead of
+ * being kept in the URL or in localStorage, so several embeds on a page do not interfere.
+ * @param {KernelTreeEmbedProps} props - The component props.
+ * @param {string} props.rootPath - The directory shown as the top of the tree, e.g. `drivers/net/`.
+ * @param {string | null} props.selected - The relative path of the node to select; nodes outside `rootPath` are not selected.
+ * @param {string} [props.datasetUrl] - Where the chunks are served from, if not `TREE_BASE_URL`.
+ * @param {boolean} props.showSearch - Whether to show the search box.
+ * @param {boolean} props.showDetails - Whether to show the detail panel next to the tree.
+ * @param {(relativePath: string, node: KernelNode) => void} [props.onSelect] - Callback when the user selects a node.
+ * @param {(relativePath: string, expanded: boolean) => void} [props.onExpand] - Callback when the user expands or collapses a directory.
+ * @returns {React.ReactElement} The rendered embed.
+ */
+const KernelTreeEmbed: React.FC<KernelTreeEmbedProps> = ({ rootPath, selected, datasetUrl, showSearch, showDetails, onSelect, onExpand }) => {
+  const [query, setQuery] = useState('');
+  const [selectedRelative, setSelectedRelative] = useState(selected);
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+  const searchActive = showSearch && !isEmptyQuery(parsedQuery);
+  const searchTerm = showSearch ? query : '';
+  const strings = UI_STRINGS;
+
+  const { root, rootError, childStatus, loadChildren, searchIndex, searchIndexError, retrySearchIndex } = useKernelTree(searchActive, datasetUrl);
+  const { isExpanded, toggle, setExpanded } = useExpansionState(searchActive, null);
+  const maintainers = useMaintainers(showDetails && selectedRelative !== null, datasetUrl);
+  const history = useHistory(showDetails && selectedRelative !== null, datasetUrl);
+
+  // The host changes the selection through the `selected` attribute.
+  useEffect(() => {
+    setSelectedRelative(selected);
+  }, [selected]);
+
+  const rootDepth = splitPath(rootPath).length;
+  const subtreePath = root ? toCanonicalPath(root.name, rootPath) : null;
+  const subtreeChain = useMemo(() => (root && subtreePath ? findNodePath(root, subtreePath) : []), [root, subtreePath]);
+  const subtree = subtreeChain.length === rootDepth + 1 ? subtreeChain[rootDepth] : null;
+
+  const selectedPath = root && selectedRelative !== null && selectedRelative.startsWith(rootPath)
+    ? toCanonicalPath(root.name, selectedRelative)
+    : null;
+  const selectedChain = useMemo(
+    () => (root && selectedPath ? findNodePath(root, selectedPath, searchIndex) : []),
+    [root, selectedPath, searchIndex],
+  );
+  const selectedDepth = selectedPath ? splitPath(selectedPath).length - 1 : 0;
+  const selectedNode = selectedChain.length === selectedDepth + 1 ? selectedChain[selectedDepth] : null;
+
+  // The directories above the shown one, and above the selected node, are loaded one level at a time.
+  const pendingDirectory = nextUnloadedDirectory(subtreeChain, rootDepth);
+  const selectedPendingDirectory = nextUnloadedDirectory(selectedChain, selectedDepth);
+  useEffect(() => {
+    [pendingDirectory, selectedPendingDirectory].forEach(directory => {
+      if (directory && !childStatus[directory]) {
+        loadChildren(directory);
+      }
+    });
+  }, [pendingDirectory, selectedPendingDirectory, childStatus, loadChildren]);
+
+  // Keep the selected node visible by expanding its ancestors below the shown directory.
+  useEffect(() => {
+    if (!selectedPath || !subtreePath) {
+      return;
+    }
+    const ancestors = getAncestorPaths(selectedPath).slice(rootDepth).map((path, depth) => ({ path, depth }));
+    setExpanded(ancestors, true);
+  }, [selectedPath, subtreePath, rootDepth, setExpanded]);
+
+  // Searching covers the shown directory only; the directories above it are kept to reach it.
+  const searchedSubtree = useMemo(() => {
+    if (!root || !subtreePath || !searchActive) {
+      return null;
+    }
+    const keep = (path: string) => path.startsWith(rootPath) || rootPath.startsWith(path);
+    const scopedRoot = rootPath ? pruneTree(root, keep) : root;
+    const scopedIndex = searchIndex && (rootPath ? pruneIndex(searchIndex, keep) : searchIndex);
+    const { tree } = searchTree(scopedRoot, scopedIndex ?? buildSearchIndex(scopedRoot), parsedQuery);
+    const chain = tree ? findNodePath(tree, subtreePath) : [];
+    return chain.length === rootDepth + 1 ? chain[rootDepth] : null;
+  }, [root, subtreePath, rootPath, rootDepth, searchActive, searchIndex, parsedQuery]);
+
+  const handleNodeSelect = useCallback((node: KernelNode, path: string) => {
+    const relativePath = toRelativePath(path);
+    // Breadcrumbs can lead above the shown directory, which the embed does not show.
+    if (!relativePath.startsWith(rootPath)) {
+      return;
+    }
+    setSelectedRelative(relativePath);
+    onSelect?.(relativePath, node);
+  }, [rootPath, onSelect]);
+
+  const handlePathSelect = (relativePath: string) => {
+    if (!root) {
+      return;
+    }
+    const path = toCanonicalPath(root.name, relativePath);
+    const chain = findNodePath(root, path, searchIndex);
+    if (chain.length === splitPath(path).length) {
+      handleNodeSelect(chain[chain.length - 1], path);
+    }
+  };
+
+  const handleToggle = useCallback((path: string, depth: number) => {
+    const expanded = !isExpanded(path, depth);
+    toggle(path, depth);
+    onExpand?.(toRelativePath(path), expanded);
+  }, [isExpanded, toggle, onExpand]);
+
+  const handleSetExpanded = useCallback((targets: ExpansionTarget[], expanded: boolean) => {
+    const changed = targets.filter(({ path, depth }) => isExpanded(path, depth) !== expanded);
+    setExpanded(targets, expanded);
+    changed.forEach(({ path }) => onExpand?.(toRelativePath(path), expanded));
+  }, [isExpanded, setExpanded, onExpand]);
+
+  const pendingStatus = pendingDirectory ? childStatus[pendingDirectory] : undefined;
+  const loadError = rootError ?? (pendingStatus?.state === 'error' ? pendingStatus.message : null);
+  const shown = searchActive ? searchedSubtree : subtree;
+  let treeContent: React.ReactNode;
+  if (loadError) {
+    treeContent = (
+      <div className="text-center text-red-600 py-8">
+        <p className="text-lg">{strings.loadError}</p>
+        <p className="text-sm mt-2">{loadError}</p>
+      </div>
+    );
+  } else if (!root || (!subtree && pendingDirectory)) {
+    treeContent = <div className="text-center text-slate-500 py-8" role="status">{strings.loading}</div>;
+  } else if (!subtree) {
+    treeContent = <div className="text-center text-slate-500 py-8">{formatString(strings.pathNotFound, { path: rootPath })}</div>;
+  } else if (shown) {
+    treeContent = (
+      <KernelVisualizer
+        data={shown}
+        rootPath={subtreePath!}
+        searchActive={searchActive}
+        selectedPath={selectedPath}
+        isExpanded={isExpanded}
+        onToggle={handleToggle}
+        onSetExpanded={handleSetExpanded}
+        onNodeSelect={handleNodeSelect}
+        searchTerm={searchTerm}
+        childStatus={childStatus}
+        onLoadChildren={loadChildren}
+      />
+    );
+  } else {
+    treeContent = (
+      <div className="text-center text-slate-500 py-8">
+        <p className="text-lg">{formatString(strings.noResults, { query })}</p>
+        <p className="text-sm mt-2">{strings.noResultsHint}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white text-slate-800 font-sans">
+      {showSearch && (
+        <div className="relative mb-4">
+          <span className="absolute inset-y-0 left-0 flex items-center pl-3" aria-hidden="true">
+            <SearchIcon className="w-5 h-5 text-slate-400" />
+          </span>
+          <input
+            type="search"
+            placeholder={strings.searchPlaceholder}
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            className="w-full bg-slate-100 border border-slate-300 rounded-md py-2 pl-10 pr-4 text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition"
+            aria-label={strings.searchLabel}
+          />
+        </div>
+      )}
+      <div className={showDetails ? 'grid grid-cols-1 md:grid-cols-3 gap-6' : undefined}>
+        <div className={showDetails ? 'md:col-span-2' : undefined}>
+          {searchActive && searchIndexError && (
+            <p className="mb-4 text-sm text-red-600">
+              {strings.searchIndexError}{' '}
+              <button onClick={retrySearchIndex} className="underline hover:text-red-800">
+                {strings.retry}
+              </button>
+            </p>
+          )}
+          {treeContent}
+        </div>
+        {showDetails && (
+          <DetailPanel
+            node={selectedNode}
+            path={selectedChain}
+            maintainers={maintainers}
+            history={history}
+            onNodeSelect={handleNodeSelect}
+            onPathSelect={handlePathSelect}
+            onFieldSearch={showSearch ? (field, value) => setQuery(formatFieldTerm(field, value)) : undefined}
+            searchTerm={searchTerm}
+            strings={strings}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KernelTreeEmbed;
@@ -1,40 +1,196 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { KernelNode } from '../types';
-import TreeNode from './TreeNode';
+import TreeNode, { TREE_ROW_HEIGHT } from './TreeNode';
+import type { ChildLoadStatus } from '../hooks/useKernelTree';
+import { useVirtualWindow } from '../hooks/useVirtualWindow';
+import type { ExpansionTarget } from '../hooks/useExpansionState';
+import { useTreeKeyboard, type TreeKeyboardActions } from '../hooks/useTreeKeyboard';
+import { flattenTree } from '../utils/flattenTree';
+import { toRelativePath } from '../utils/nodePath';
+import type { DiffEntry } from '../utils/treeDiff';
+import { annotationOf, type AnnotationMap } from '../utils/annotations';
+import type { BuildState } from '../utils/kernelConfig';
 
 interface KernelVisualizerProps {
   data: KernelNode;
+  rootPath?: string;
   searchActive?: boolean;
-  selectedNode: KernelNode | null;
-  onNodeSelect: (node: KernelNode) => void;
+  selectedPath: string | null;
+  revealRequest?: number;
+  isExpanded: (path: string, depth: number) => boolean;
+  onToggle: (path: string, depth: number) => void;
+  onSetExpanded: (targets: ExpansionTarget[], expanded: boolean) => void;
+  onNodeSelect: (node: KernelNode, path: string) => void;
   searchTerm: string;
+  childStatus: Record<string, ChildLoadStatus>;
+  onLoadChildren: (path: string) => void;
+  diffEntries?: Map<string, DiffEntry> | null;
+  annotations?: AnnotationMap;
+  buildStateOf?: (relativePath: string) => BuildState | null;
+  isDimmed?: (relativePath: string) => boolean;
+  heatOf?: (relativePath: string) => number;
 }
 
 /**
  * The main component for visualizing the kernel tree structure.
- * It renders the root TreeNode and passes down necessary props for selection and expansion.
+ * It flattens the expanded part of the tree into rows and renders only the rows that are
+ * on screen, so very large trees (tens of thousands of visible rows) stay responsive.
+ * Which directories are expanded is decided by the caller (see `useExpansionState`).
+ * When the selection changes (e.g. from a deep link), the selected row is scrolled into
+ * view once it has been loaded.
+ * The rows form a WAI-ARIA `tree` with a single tab stop (roving tabindex) and the standard
+ * treeview keyboard interaction, see `useTreeKeyboard`.
  * @param {KernelVisualizerProps} props - The component props.
  * @param {KernelNode} props.data - The root node of the kernel tree to display.
- * @param {boolean} [props.searchActive=false] - A flag indicating if a search is active, used to expand all nodes.
- * @param {KernelNode | null} props.selectedNode - The currently selected node.
- * @param {(node: KernelNode) => void} props.onNodeSelect - Callback function to handle node selection.
+ * @param {string} [props.rootPath] - The canonical path of `data` when it is a directory inside the tree, e.g. `linux/drivers/net/`.
+ * @param {boolean} [props.searchActive=false] - A flag indicating if a search is active.
+ * @param {string | null} props.selectedPath - The path of the currently selected node.
+ * @param {number} [props.revealRequest] - Changing this value scrolls the selected row into view again.
+ * @param {(path: string, depth: number) => boolean} props.isExpanded - Checks whether a directory is expanded.
+ * @param {(path: string, depth: number) => void} props.onToggle - Callback to expand or collapse a directory.
+ * @param {(targets: ExpansionTarget[], expanded: boolean) => void} props.onSetExpanded - Callback to expand or collapse several directories.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - Callback function to handle node selection.
  * @param {string} props.searchTerm - The current search term for highlighting.
+ * @param {Record<string, ChildLoadStatus>} props.childStatus - The load state of directories that are loading or failed.
+ * @param {(path: string) => void} props.onLoadChildren - Callback to fetch the children of an unloaded directory.
+ * @param {Map<string, DiffEntry> | null} [props.diffEntries] - When two versions are compared, the status of each node by relative path.
+ * @param {AnnotationMap} [props.annotations] - The user's annotations by relative path; annotated nodes are marked.
+ * @param {(relativePath: string) => BuildState | null} [props.buildStateOf] - When a `.config` is loaded, how it builds a node, for its mark.
+ * @param {(relativePath: string) => boolean} [props.isDimmed] - Tells which nodes to grey out, e.g. other architectures.
+ * @param {(relativePath: string) => number} [props.heatOf] - In the heatmap, how busy a node is, for its row's tint.
  * @returns {React.ReactElement} The rendered kernel visualizer component.
  */
-const KernelVisualizer: React.FC<KernelVisualizerProps> = ({ data, searchActive = false, selectedNode, onNodeSelect, searchTerm }) => {
+const KernelVisualizer: React.FC<KernelVisualizerProps> = ({ data, rootPath, searchActive = false, selectedPath, revealRequest, isExpanded, onToggle, onSetExpanded, onNodeSelect, searchTerm, childStatus, onLoadChildren, diffEntries, annotations, buildStateOf, isDimmed, heatOf }) => {
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingScrollPath = useRef<string | null>(null);
+  // Set when the keyboard moves focus, so the newly focused row receives DOM focus once rendered.
+  const pendingFocus = useRef(false);
+
+  // Bring the selected row into view when it changes, the view switches, or a reveal is requested.
+  useEffect(() => {
+    pendingScrollPath.current = selectedPath;
+  }, [selectedPath, searchActive, revealRequest]);
+
+  const rows = useMemo(() => flattenTree(data, isExpanded, rootPath), [data, isExpanded, rootPath]);
+
+  // The tab stop is on the focused row, else the selected row, else the first row.
+  const focusedIndex = useMemo(() => {
+    for (const path of [focusedPath, selectedPath]) {
+      const index = path ? rows.findIndex(row => row.type === 'node' && row.path === path) : -1;
+      if (index >= 0) {
+        return index;
+      }
+    }
+    return rows.length > 0 ? 0 : -1;
+  }, [rows, focusedPath, selectedPath]);
+
+  // Request the children of expanded directories that have not been loaded yet.
+  useEffect(() => {
+    rows.forEach(row => {
+      if (row.type === 'status' && !childStatus[row.path]) {
+        onLoadChildren(row.path);
+      }
+    });
+  }, [rows, childStatus, onLoadChildren]);
+
+  const { start, end, totalHeight } = useVirtualWindow(containerRef, rows.length, TREE_ROW_HEIGHT);
+
+  const scrollToRow = useCallback((index: number) => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const rowTop = index * TREE_ROW_HEIGHT;
+    if (rowTop < container.scrollTop || rowTop + TREE_ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowTop - container.clientHeight / 2;
+    }
+  }, []);
+
+  // Scroll a newly selected row into view once it appears among the rows.
+  useEffect(() => {
+    const target = pendingScrollPath.current;
+    if (!target) {
+      return;
+    }
+    const index = rows.findIndex(row => row.type === 'node' && row.path === target);
+    if (index >= 0) {
+      pendingScrollPath.current = null;
+      scrollToRow(index);
+    }
+  }, [rows, selectedPath, searchActive, revealRequest, scrollToRow]);
+
+  // Give DOM focus to the row the keyboard moved to.
+  useEffect(() => {
+    if (!pendingFocus.current || focusedIndex < 0) {
+      return;
+    }
+    pendingFocus.current = false;
+    containerRef.current
+      ?.querySelector<HTMLElement>(`[data-path="${CSS.escape(rows[focusedIndex].path)}"]`)
+      ?.focus({ preventScroll: true });
+  }, [rows, focusedIndex]);
+
+  const keyboardActions = useMemo<TreeKeyboardActions>(() => ({
+    focusRow: index => {
+      pendingFocus.current = true;
+      setFocusedPath(rows[index].path);
+      scrollToRow(index);
+    },
+    setExpanded: (targets, expanded) => onSetExpanded(targets.filter(row => row.isDirectory), expanded),
+    activate: row => {
+      onNodeSelect(row.node, row.path);
+      if (row.isDirectory) {
+        onToggle(row.path, row.depth);
+      }
+    },
+    select: row => onNodeSelect(row.node, row.path),
+  }), [rows, scrollToRow, onNodeSelect, onToggle, onSetExpanded]);
+
+  const handleKeyDown = useTreeKeyboard(rows, focusedIndex, keyboardActions);
+
+  // The focused row stays mounted when scrolled out of the window, so Tab can still reach the tree.
+  const renderedRows = useMemo(() => {
+    const indexes: number[] = [];
+    for (let i = start; i < end; i++) {
+      indexes.push(i);
+    }
+    if (focusedIndex >= 0 && (focusedIndex < start || focusedIndex >= end)) {
+      indexes.push(focusedIndex);
+    }
+    return indexes.map(index => ({ index, row: rows[index] }));
+  }, [rows, start, end, focusedIndex]);
+
   return (
-    <div className="font-mono text-sm sm:text-base">
-      <ul>
-        <TreeNode 
-          node={data} 
-          isLast={true} 
-          isRoot={true} 
-          startExpanded={searchActive}
-          selectedNode={selectedNode}
-          onNodeSelect={onNodeSelect}
-          searchTerm={searchTerm}
-        />
-      </ul>
+    <div ref={containerRef} className="font-mono text-sm sm:text-base h-[70vh] overflow-auto">
+      <div
+        role="tree"
+        aria-label="Kernel source tree"
+        className="relative"
+        style={{ height: totalHeight }}
+        onKeyDown={handleKeyDown}
+      >
+        {renderedRows.map(({ index, row }) => (
+          <TreeNode
+            key={`${row.type}:${row.path}`}
+            row={row}
+            top={index * TREE_ROW_HEIGHT}
+            isSelected={row.type === 'node' && selectedPath === row.path}
+            isFocused={index === focusedIndex}
+            onNodeSelect={onNodeSelect}
+            onFocusRow={setFocusedPath}
+            onToggle={onToggle}
+            searchTerm={searchTerm}
+            loadStatus={row.type === 'status' ? childStatus[row.path] : undefined}
+            onLoadChildren={onLoadChildren}
+            diff={row.type === 'node' ? diffEntries?.get(toRelativePath(row.path)) : undefined}
+            annotated={row.type === 'node' && annotations !== undefined && annotationOf(annotations, toRelativePath(row.path)) !== undefined}
+            buildState={row.type === 'node' ? buildStateOf?.(toRelativePath(row.path)) ?? undefined : undefined}
+            dimmed={row.type === 'node' && (isDimmed?.(toRelativePath(row.path)) ?? false)}
+            heat={row.type === 'node' ? heatOf?.(toRelativePath(row.path)) : undefined}
+          />
+        ))}
+      </div>
     </div>
   );
 };
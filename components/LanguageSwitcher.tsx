@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface LanguageSwitcherProps {
+  locale: string;
+  choices: { locale: string; name: string }[];
+  label: string;
+  onChange: (locale: string) => void;
+}
+
+/**
+ * A menu for choosing the language of the interface and of the tree's text.
+ * @param {LanguageSwitcherProps} props - The component props.
+ * @param {string} props.locale - The active locale's code.
+ * @param {{ locale: string, name: string }[]} props.choices - The locales that can be chosen.
+ * @param {string} props.label - The menu's label, in the active language.
+ * @param {(locale: string) => void} props.onChange - Callback when another locale is chosen.
+ * @returns {React.ReactElement} The rendered menu.
+ */
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ locale, choices, label, onChange }) => (
+  <label className="inline-flex items-center gap-2 text-sm text-slate-500">
+    {label}
+    <select
+      value={locale}
+      onChange={e => onChange(e.target.value)}
+      className="bg-white hover:bg-slate-100 border border-slate-300 rounded-md px-2 py-1 text-sm text-slate-600 transition-colors"
+    >
+      {choices.map(choice => (
+        <option key={choice.locale} value={choice.locale} lang={choice.locale}>{choice.name}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default LanguageSwitcher;
@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { findSections, listAddress, parsePerson, type MaintainerSection } from '../utils/maintainers';
+import { DetailSection } from './NodeMetadata';
+
+interface MaintainerInfoProps {
+  sections: MaintainerSection[] | null;
+  relativePath: string;
+  onFilter?: (field: 'maintainer' | 'list', value: string) => void;
+}
+
+interface PeopleListProps {
+  label: string;
+  entries: string[];
+  onFilter?: (value: string) => void;
+}
+
+/** Badge colors for the usual `S:` values; anything else is shown in gray. */
+const STATUS_STYLES: Record<string, string> = {
+  supported: 'bg-emerald-50 border-emerald-200 text-emerald-800',
+  maintained: 'bg-cyan-50 border-cyan-200 text-cyan-800',
+  'odd fixes': 'bg-amber-50 border-amber-200 text-amber-800',
+  orphan: 'bg-red-50 border-red-200 text-red-800',
+  obsolete: 'bg-red-50 border-red-200 text-red-800',
+};
+
+/**
+ * The maintainers or reviewers of a section. Names filter the tree to what that person
+ * maintains; addresses open the mail client.
+ * @param {PeopleListProps} props - The component props.
+ * @param {string} props.label - The list heading, e.g. `Maintainers`.
+ * @param {string[]} props.entries - The `M:` or `R:` entries.
+ * @param {(value: string) => void} [props.onFilter] - Callback with the address (or name) to filter by; without it, names are plain text.
+ * @returns {React.ReactElement | null} The rendered list, or null if there are no entries.
+ */
+const PeopleList: React.FC<PeopleListProps> = ({ label, entries, onFilter }) => {
+  if (entries.length === 0) {
+    return null;
+  }
+  return (
+    <>
+      <dt className="text-slate-500">{label}</dt>
+      <dd>
+        <ul className="space-y-0.5">
+          {entries.map(entry => {
+            const person = parsePerson(entry);
+            return (
+              <li key={entry} className="flex flex-wrap items-baseline gap-x-2">
+                {onFilter ? (
+                  <button
+                    onClick={() => onFilter(person.email ?? person.name)}
+                    className="text-cyan-700 hover:underline text-left"
+                    title="Show only paths this person maintains"
+                  >
+                    {person.name}
+                  </button>
+                ) : (
+                  <span className="text-slate-800">{person.name}</span>
+                )}
+                {person.email && person.email !== person.name && (
+                  <a href={`mailto:${person.email}`} className="text-xs text-slate-500 hover:text-cyan-600 hover:underline break-all">
+                    {person.email}
+                  </a>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </dd>
+    </>
+  );
+};
+
+/**
+ * Shows who maintains a node according to the MAINTAINERS file: every section covering the
+ * node's path, most specific first, with its status, maintainers, reviewers and mailing lists.
+ * @param {MaintainerInfoProps} props - The component props.
+ * @param {MaintainerSection[] | null} props.sections - All MAINTAINERS sections, or null while loading.
+ * @param {string} props.relativePath - The node's path relative to the root.
+ * @param {(field: 'maintainer' | 'list', value: string) => void} [props.onFilter] - Callback to filter the tree by a maintainer or list; without it, nothing is a filter.
+ * @returns {React.ReactElement} The rendered section.
+ */
+const MaintainerInfo: React.FC<MaintainerInfoProps> = ({ sections, relativePath, onFilter }) => {
+  const covering = useMemo(() => (sections ? findSections(sections, relativePath) : []), [sections, relativePath]);
+
+  let content: React.ReactNode;
+  if (!sections) {
+    content = <p className="text-sm text-slate-500">Loading MAINTAINERS…</p>;
+  } else if (covering.length === 0) {
+    content = <p className="text-sm text-slate-500">No MAINTAINERS entry covers this path.</p>;
+  } else {
+    content = (
+      <ul className="space-y-4">
+        {covering.map(section => (
+          <li key={section.name}>
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="text-sm font-medium text-slate-800">{section.name}</span>
+              {section.status && (
+                <span className={`rounded-full border px-2 py-0.5 text-xs ${STATUS_STYLES[section.status.toLowerCase()] ?? 'bg-slate-100 border-slate-200 text-slate-700'}`}>
+                  {section.status}
+                </span>
+              )}
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <PeopleList label="Maintainers" entries={section.maintainers} onFilter={onFilter && (value => onFilter('maintainer', value))} />
+              <PeopleList label="Reviewers" entries={section.reviewers} onFilter={onFilter && (value => onFilter('maintainer', value))} />
+              {section.lists.length > 0 && (
+                <>
+                  <dt className="text-slate-500">Lists</dt>
+                  <dd>
+                    <ul className="space-y-0.5">
+                      {section.lists.map(entry => (
+                        <li key={entry}>
+                          {onFilter ? (
+                            <button
+                              onClick={() => onFilter('list', listAddress(entry))}
+                              className="text-cyan-700 hover:underline break-all text-left"
+                              title="Show only paths this list covers"
+                            >
+                              {entry}
+                            </button>
+                          ) : (
+                            <span className="text-slate-800 break-all">{entry}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </dd>
+                </>
+              )}
+            </dl>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return <DetailSection title="Maintainers">{content}</DetailSection>;
+};
+
+export default MaintainerInfo;
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../utils/markdown';
+
+interface MarkdownTextProps {
+  source: string;
+}
+
+const HEADING_CLASSES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-semibold text-slate-700'];
+
+/**
+ * Renders inline spans.
+ * @param {MarkdownInline[]} spans - The parsed spans.
+ * @returns {React.ReactNode[]} The rendered spans.
+ */
+const renderInline = (spans: MarkdownInline[]): React.ReactNode[] =>
+  spans.map((span, index) => {
+    switch (span.type) {
+      case 'code':
+        return <code key={index} className="rounded bg-slate-100 px-1 font-mono text-xs text-slate-800">{span.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(span.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(span.children)}</em>;
+      case 'link':
+        return (
+          <a key={index} href={span.href} target={span.href.startsWith('#') ? undefined : '_blank'} rel="noopener noreferrer" className="text-cyan-700 hover:underline break-all">
+            {renderInline(span.children)}
+          </a>
+        );
+      default:
+        return span.text;
+    }
+  });
+
+/**
+ * Renders a block.
+ * @param {MarkdownBlock} block - The parsed block.
+ * @param {number} index - The block's position, used as its key.
+ * @returns {React.ReactElement} The rendered block.
+ */
+const renderBlock = (block: MarkdownBlock, index: number): React.ReactElement => {
+  switch (block.type) {
+    case 'heading':
+      return <p key={index} className={HEADING_CLASSES[Math.min(block.level, HEADING_CLASSES.length) - 1]}>{renderInline(block.content)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'quote':
+      return <blockquote key={index} className="border-l-2 border-slate-300 pl-3 text-slate-500">{renderInline(block.content)}</blockquote>;
+    case 'code':
+      return <pre key={index} className="overflow-x-auto rounded bg-slate-100 p-2 font-mono text-xs text-slate-800">{block.text}</pre>;
+    case 'rule':
+      return <hr key={index} className="border-slate-200" />;
+    default:
+      return <p key={index}>{renderInline(block.content)}</p>;
+  }
+};
+
+/**
+ * Renders a note written in Markdown. Only a safe subset is supported (see `utils/markdown`);
+ * raw HTML in the note is shown as text.
+ * @param {MarkdownTextProps} props - The component props.
+ * @param {string} props.source - The Markdown text.
+ * @returns {React.ReactElement} The rendered note.
+ */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ source }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className="space-y-2 text-sm text-slate-700 leading-relaxed break-words">{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownText;
@@ -0,0 +1,132 @@
+import React from 'react';
+import type { KernelNode } from '../types';
+import { KIND_LABELS, LANGUAGE_LABELS, docLinkUrl } from '../utils/nodeMetadata';
+
+interface NodeMetadataProps {
+  node: KernelNode;
+  rootName: string;
+  onNodeSelect: (node: KernelNode, path: string) => void;
+  onTagSelect?: (tag: string) => void;
+}
+
+interface SectionProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+/**
+ * A titled section of the detail panel.
+ * @param {SectionProps} props - The component props.
+ * @param {string} props.title - The section heading.
+ * @param {React.ReactNode} props.children - The section content.
+ * @returns {React.ReactElement} The rendered section.
+ */
+export const DetailSection: React.FC<SectionProps> = ({ title, children }) => (
+  <section className="mt-6">
+    <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</h3>
+    {children}
+  </section>
+);
+
+/**
+ * Shows a node's structured metadata in the detail panel: its kind, language and size,
+ * its tags, related paths and documentation links. Sections without data are left out.
+ * @param {NodeMetadataProps} props - The component props.
+ * @param {KernelNode} props.node - The selected node.
+ * @param {string} props.rootName - The root node's name, used to build canonical paths.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - Callback to select a related node.
+ * @param {(tag: string) => void} [props.onTagSelect] - Callback when a tag is clicked, e.g. to search for it; without it, tags are plain text.
+ * @returns {React.ReactElement} The rendered metadata sections.
+ */
+const NodeMetadata: React.FC<NodeMetadataProps> = ({ node, rootName, onNodeSelect, onTagSelect }) => {
+  const selectPath = (relativePath: string) => {
+    const name = relativePath.match(/[^/]+\/?$/)?.[0] ?? relativePath;
+    onNodeSelect({ name, kind: name.endsWith('/') ? 'dir' : 'file', summary: '', description: '' }, rootName + relativePath);
+  };
+
+  return (
+    <>
+      <DetailSection title="Details">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-slate-500">Kind</dt>
+          <dd className="text-slate-800">{KIND_LABELS[node.kind]}</dd>
+          {node.language && (
+            <>
+              <dt className="text-slate-500">Language</dt>
+              <dd className="text-slate-800">{LANGUAGE_LABELS[node.language]}</dd>
+            </>
+          )}
+          {node.lineCount !== undefined && (
+            <>
+              <dt className="text-slate-500">Lines</dt>
+              <dd className="text-slate-800">{node.lineCount.toLocaleString()}</dd>
+            </>
+          )}
+        </dl>
+      </DetailSection>
+
+      {node.tags && node.tags.length > 0 && (
+        <DetailSection title="Tags">
+          <ul className="flex flex-wrap gap-2">
+            {node.tags.map(tag => (
+              <li key={tag}>
+                {onTagSelect ? (
+                  <button
+                    onClick={() => onTagSelect(tag)}
+                    className="rounded-full bg-cyan-50 border border-cyan-200 px-2.5 py-0.5 text-xs text-cyan-800 hover:bg-cyan-100 transition-colors"
+                    title={`Search for tag:${tag}`}
+                  >
+                    {tag}
+                  </button>
+                ) : (
+                  <span className="rounded-full bg-cyan-50 border border-cyan-200 px-2.5 py-0.5 text-xs text-cyan-800">{tag}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </DetailSection>
+      )}
+
+      {node.relatedPaths && node.relatedPaths.length > 0 && (
+        <DetailSection title="Related">
+          <ul className="space-y-1 text-sm">
+            {node.relatedPaths.map(relatedPath => (
+              <li key={relatedPath}>
+                <button onClick={() => selectPath(relatedPath)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+                  {relatedPath}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </DetailSection>
+      )}
+
+      {node.docLinks && node.docLinks.length > 0 && (
+        <DetailSection title="Documentation">
+          <ul className="space-y-1 text-sm">
+            {node.docLinks.map(link => (
+              <li key={link} className="flex flex-wrap items-baseline gap-x-2">
+                {/^https?:\/\//.test(link) ? (
+                  <a href={link} target="_blank" rel="noopener noreferrer" className="text-cyan-700 hover:underline break-all">
+                    {link}
+                  </a>
+                ) : (
+                  <>
+                    <button onClick={() => selectPath(link)} className="font-mono text-cyan-700 hover:underline break-all text-left">
+                      {link}
+                    </button>
+                    <a href={docLinkUrl(link)} target="_blank" rel="noopener noreferrer" className="text-xs text-slate-500 hover:text-cyan-600 hover:underline">
+                      docs.kernel.org ↗
+                    </a>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </DetailSection>
+      )}
+    </>
+  );
+};
+
+export default NodeMetadata;
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { OfflineStatus as OfflineStatusState } from '../hooks/useOfflineStatus';
+import { formatString, type UiStrings } from '../utils/uiStrings';
+import { formatDate } from './HistoryInfo';
+
+interface OfflineStatusProps {
+  status: OfflineStatusState;
+  strings: UiStrings;
+}
+
+/**
+ * A line in the header saying whether the app is offline or ready to be, which version of the
+ * dataset it shows, and whether a newer version is waiting, with a button to switch to it.
+ * @param {OfflineStatusProps} props - The component props.
+ * @param {OfflineStatusState} props.status - The status from `useOfflineStatus`.
+ * @param {UiStrings} props.strings - The interface strings in the active language.
+ * @returns {React.ReactElement} The rendered status.
+ */
+const OfflineStatus: React.FC<OfflineStatusProps> = ({ status, strings }) => {
+  const { online, offlineReady, updateReady, dataset } = status;
+
+  return (
+    <div className="inline-flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-slate-500" role="status">
+      {!online ? (
+        <span className="rounded px-1.5 py-0.5 text-xs font-medium bg-amber-100 text-amber-800">{strings.offline}</span>
+      ) : offlineReady && (
+        <span className="rounded px-1.5 py-0.5 text-xs font-medium bg-emerald-100 text-emerald-800">{strings.offlineReady}</span>
+      )}
+      {dataset && (
+        <span title={formatString(strings.datasetBuilt, { date: formatDate(dataset.built) })}>
+          {formatString(strings.datasetVersion, { version: dataset.version })}
+        </span>
+      )}
+      {updateReady && (
+        <span>
+          {strings.updateReady}{' '}
+          <button onClick={status.applyUpdate} className="text-cyan-700 hover:underline">
+            {strings.reload}
+          </button>
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default OfflineStatus;
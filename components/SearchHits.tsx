@@ -0,0 +1,57 @@
+import React from 'react';
+import type { KernelNode } from '../types';
+import type { SearchHit } from '../utils/treeUtils';
+import { FolderIcon, FileIcon } from './Icons';
+import HighlightText from './HighlightText';
+
+interface SearchHitsProps {
+  hits: SearchHit[];
+  rootName: string;
+  selectedPath: string | null;
+  onNodeSelect: (node: KernelNode, path: string) => void;
+  searchTerm: string;
+  limit?: number;
+}
+
+/**
+ * A flat list of the best-ranked search results, shown next to the filtered tree.
+ * @param {SearchHitsProps} props - The component props.
+ * @param {SearchHit[]} props.hits - The ranked hits, best first.
+ * @param {string} props.rootName - The root node's name, used to build canonical paths.
+ * @param {string | null} props.selectedPath - The canonical path of the selected node.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - Callback to select a hit.
+ * @param {string} props.searchTerm - The current search query for highlighting.
+ * @param {number} [props.limit=10] - How many hits to show.
+ * @returns {React.ReactElement} The rendered list of top hits.
+ */
+const SearchHits: React.FC<SearchHitsProps> = ({ hits, rootName, selectedPath, onNodeSelect, searchTerm, limit = 10 }) => (
+  <section className="mb-4 border border-slate-200 rounded-md bg-slate-50" aria-label="Top hits">
+    <h3 className="px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 border-b border-slate-200">
+      Top hits <span className="font-normal normal-case">({hits.length} {hits.length === 1 ? 'match' : 'matches'})</span>
+    </h3>
+    <ol>
+      {hits.slice(0, limit).map(hit => {
+        const path = rootName + hit.path;
+        const isDirectory = hit.kind === 'dir';
+        const IconComponent = isDirectory ? FolderIcon : FileIcon;
+        return (
+          <li key={hit.path}>
+            <button
+              onClick={() => onNodeSelect({ name: hit.name, kind: hit.kind, summary: hit.summary, description: '' }, path)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors ${selectedPath === path ? 'bg-cyan-100' : 'hover:bg-slate-100'}`}
+            >
+              <IconComponent className={`w-4 h-4 flex-shrink-0 ${isDirectory ? 'text-cyan-500' : 'text-slate-400'}`} />
+              <span className="font-mono font-medium text-slate-800 whitespace-nowrap">
+                <HighlightText text={hit.name} highlight={searchTerm} as="span" />
+              </span>
+              <span className="font-mono text-xs text-slate-400 truncate">{hit.path}</span>
+              <span className="ml-auto text-xs text-slate-500 truncate hidden sm:inline max-w-[40%]">{hit.summary}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  </section>
+);
+
+export default SearchHits;
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { sourceFileUrl } from '../data/kernelSource';
+import { useSourceFile } from '../hooks/useSourceFile';
+import type { LineRange } from '../hooks/useUrlState';
+import { useVirtualWindow } from '../hooks/useVirtualWindow';
+import type { SourceLanguage } from '../types';
+import { LANGUAGE_LABELS } from '../utils/nodeMetadata';
+import { findFunctionBodies, highlightLines, type FoldRegion, type Token, type TokenType } from '../utils/sourceCode';
+
+interface SourceViewProps {
+  relativePath: string;
+  language: SourceLanguage | undefined;
+  lines: LineRange | null;
+  onLinesChange: (lines: LineRange | null) => void;
+}
+
+interface SourceLinesProps extends SourceViewProps {
+  text: string;
+}
+
+/**
+ * A row of the listing: a line of the file, or the placeholder of a collapsed function body,
+ * which stands for the lines between its first and last.
+ */
+interface SourceRow {
+  /** The 0-based line number; for a placeholder, that of the body's first line. */
+  line: number;
+  /** For a placeholder, the collapsed region. */
+  folded?: FoldRegion;
+}
+
+/** The height of each line, in pixels (`leading-5`). */
+const SOURCE_ROW_HEIGHT = 20;
+
+/** Files larger than this, in characters, are shown without highlighting or folding to stay responsive. */
+const HIGHLIGHT_LIMIT = 2 * 1024 * 1024;
+
+/** The width tabs are shown with, as in the kernel's coding style. */
+const TAB_SIZE = 8;
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-slate-400 italic',
+  string: 'text-emerald-700',
+  number: 'text-amber-700',
+  keyword: 'text-violet-700',
+  type: 'text-cyan-700',
+  preprocessor: 'text-rose-700',
+  directive: 'text-rose-700',
+  variable: 'text-sky-700',
+  heading: 'text-slate-900 font-semibold',
+  markup: 'text-slate-900 italic',
+};
+
+/**
+ * The width of a line in columns, with tabs expanded.
+ * @param {string} line - The line.
+ * @returns {number} The number of columns.
+ */
+const lineColumns = (line: string): number => {
+  let columns = 0;
+  for (const char of line) {
+    columns = char === '\t' ? columns + TAB_SIZE - (columns % TAB_SIZE) : columns + 1;
+  }
+  return columns;
+};
+
+/**
+ * The virtualized listing of a loaded file. Only the lines on screen are rendered, so even
+ * `kernel/sched/core.c` scrolls smoothly; the file is highlighted once when it is loaded.
+ * @param {SourceLinesProps} props - The component props.
+ * @returns {React.ReactElement} The rendered listing.
+ */
+const SourceLines: React.FC<SourceLinesProps> = ({ relativePath, language, lines, onLinesChange, text }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [collapsed, setCollapsed] = useState<Set<number>>(() => new Set());
+  const scrolledTo = useRef<LineRange | null>(null);
+
+  const fileLines = useMemo(() => {
+    const split = text.split(/\r?\n/);
+    // A final newline ends the last line rather than starting an empty one.
+    return split.length > 1 && split[split.length - 1] === '' ? split.slice(0, -1) : split;
+  }, [text]);
+  const highlighted = useMemo(
+    () => (text.length <= HIGHLIGHT_LIMIT ? highlightLines(fileLines, language) : null),
+    [text, fileLines, language],
+  );
+  const folds = useMemo(
+    () => new Map((highlighted && language === 'c' ? findFunctionBodies(highlighted) : []).map(region => [region.start, region])),
+    [highlighted, language],
+  );
+  const width = useMemo(() => fileLines.reduce((widest, line) => Math.max(widest, lineColumns(line)), 0), [fileLines]);
+
+  const rows = useMemo(() => {
+    const result: SourceRow[] = [];
+    for (let line = 0; line < fileLines.length; line++) {
+      result.push({ line });
+      const region = collapsed.has(line) ? folds.get(line) : undefined;
+      if (region && region.end - region.start > 1) {
+        result.push({ line, folded: region });
+        line = region.end - 1;
+      }
+    }
+    return result;
+  }, [fileLines, folds, collapsed]);
+
+  const { start, end, totalHeight } = useVirtualWindow(containerRef, rows.length, SOURCE_ROW_HEIGHT);
+
+  // When the linked lines change, open any collapsed body hiding them, then scroll to them unless they are on screen.
+  useEffect(() => {
+    if (!lines || lines === scrolledTo.current) {
+      return;
+    }
+    const target = lines.start - 1;
+    const hiding = [...collapsed].filter(line => {
+      const region = folds.get(line);
+      return region && target > region.start && target < region.end;
+    });
+    if (hiding.length > 0) {
+      setCollapsed(prev => new Set([...prev].filter(line => !hiding.includes(line))));
+      return;
+    }
+    const container = containerRef.current;
+    const index = rows.findIndex(row => row.line === target && !row.folded);
+    if (!container || index < 0) {
+      return;
+    }
+    scrolledTo.current = lines;
+    const rowTop = index * SOURCE_ROW_HEIGHT;
+    if (rowTop < container.scrollTop || rowTop + SOURCE_ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = rowTop - container.clientHeight / 3;
+    }
+  }, [lines, rows, folds, collapsed]);
+
+  const toggleFold = useCallback((line: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(line)) {
+        next.add(line);
+      }
+      return next;
+    });
+  }, []);
+
+  // Clicking a line number selects it; shift-clicking extends the selection to it.
+  const handleLineClick = (event: React.MouseEvent, line: number) => {
+    if (event.shiftKey && lines) {
+      onLinesChange({ start: Math.min(lines.start, line), end: Math.max(lines.end, line) });
+    } else if (lines && lines.start === line && lines.end === line) {
+      onLinesChange(null);
+    } else {
+      onLinesChange({ start: line, end: line });
+    }
+  };
+
+  const gutterWidth = `${String(fileLines.length).length + 2}ch`;
+  const renderTokens = (tokens: Token[]) =>
+    tokens.map((token, index) => (token.type === 'plain' ? token.text : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>));
+
+  return (
+    <>
+      <div className="mb-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-500">
+        <span>{fileLines.length.toLocaleString()} lines</span>
+        {language && <span>{LANGUAGE_LABELS[language]}</span>}
+        {!highlighted && <span>Too large to highlight</span>}
+        {folds.size > 0 && (
+          <>
+            <button onClick={() => setCollapsed(new Set(folds.keys()))} className="text-cyan-700 hover:underline">Collapse all functions</button>
+            <button onClick={() => setCollapsed(new Set())} disabled={collapsed.size === 0} className="text-cyan-700 hover:underline disabled:text-slate-400 disabled:no-underline">
+              Expand all
+            </button>
+          </>
+        )}
+        <a href={sourceFileUrl(relativePath)} target="_blank" rel="noopener noreferrer" className="text-cyan-700 hover:underline">Raw</a>
+      </div>
+      <div ref={containerRef} className="font-mono text-xs h-[70vh] overflow-auto border border-slate-200 rounded-md bg-white" style={{ tabSize: TAB_SIZE }}>
+        <div className="relative min-w-full" style={{ height: totalHeight, width: `calc(${width}ch + ${gutterWidth} + 2.5rem)` }} role="region" aria-label={`Source of ${relativePath}`}>
+          {rows.slice(start, end).map((row, offset) => {
+            const index = start + offset;
+            const number = row.line + 1;
+            const isSelected = !row.folded && lines !== null && number >= lines.start && number <= lines.end;
+            const region = row.folded ? undefined : folds.get(row.line);
+            return (
+              <div
+                key={row.folded ? `fold:${row.line}` : row.line}
+                className={`absolute left-0 right-0 flex leading-5 ${isSelected ? 'bg-amber-100' : 'hover:bg-slate-50'}`}
+                style={{ top: index * SOURCE_ROW_HEIGHT, height: SOURCE_ROW_HEIGHT }}
+              >
+                <span className={`sticky left-0 flex flex-shrink-0 select-none border-r border-slate-200 ${isSelected ? 'bg-amber-100' : 'bg-slate-50'}`}>
+                  {row.folded ? (
+                    <span style={{ width: gutterWidth }} />
+                  ) : (
+                    <button
+                      onClick={event => handleLineClick(event, number)}
+                      className="text-right pr-2 text-slate-400 hover:text-cyan-700"
+                      style={{ width: gutterWidth }}
+                      aria-label={`Line ${number}`}
+                    >
+                      {number}
+                    </button>
+                  )}
+                  <span className="w-4 text-center text-slate-400">
+                    {region && region.end - region.start > 1 && (
+                      <button
+                        onClick={() => toggleFold(row.line)}
+                        className="hover:text-cyan-700"
+                        aria-expanded={!collapsed.has(row.line)}
+                        aria-label={collapsed.has(row.line) ? `Expand the body at line ${number}` : `Collapse the body at line ${number}`}
+                      >
+                        {collapsed.has(row.line) ? '▸' : '▾'}
+                      </button>
+                    )}
+                  </span>
+                </span>
+                {row.folded ? (
+                  <button onClick={() => toggleFold(row.line)} className="ml-4 px-2 rounded bg-slate-100 text-slate-500 hover:bg-cyan-50 hover:text-cyan-700">
+                    ⋯ {(row.folded.end - row.folded.start - 1).toLocaleString()} lines
+                  </button>
+                ) : (
+                  <code className="pl-2 pr-4 whitespace-pre text-slate-800">
+                    {highlighted ? renderTokens(highlighted[row.line]) : fileLines[row.line]}
+                  </code>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+};
+
+/**
+ * Shows a file's source from the kernel checkout served by the dev server: numbered,
+ * highlighted lines, with C function bodies that can be collapsed. Clicking a line number
+ * selects that line (shift-click selects a range), which becomes part of the node's link as
+ * `#L120` or `#L120-L135`; opening such a link scrolls to the lines.
+ * @param {SourceViewProps} props - The component props.
+ * @param {string} props.relativePath - The file's path relative to the root.
+ * @param {SourceLanguage | undefined} props.language - The file's language, which picks the highlighting.
+ * @param {LineRange | null} props.lines - The selected lines, from the link.
+ * @param {(lines: LineRange | null) => void} props.onLinesChange - Callback when lines are selected or unselected.
+ * @returns {React.ReactElement} The rendered view.
+ */
+const SourceView: React.FC<SourceViewProps> = props => {
+  const { text, error, loading } = useSourceFile(props.relativePath);
+
+  let content: React.ReactNode;
+  if (error) {
+    content = (
+      <div className="text-center text-slate-500 py-8">
+        <p>Could not load the source.</p>
+        <p className="text-sm mt-2">{error}</p>
+      </div>
+    );
+  } else if (loading || text === null) {
+    content = <p className="text-center text-slate-500 py-8" role="status">Loading source…</p>;
+  } else {
+    content = <SourceLines key={props.relativePath} {...props} text={text} />;
+  }
+
+  return (
+    <section aria-label="Source">
+      <h3 className="mb-2 font-mono text-sm text-slate-700 break-all">{props.relativePath}</h3>
+      {content}
+    </section>
+  );
+};
+
+export default SourceView;
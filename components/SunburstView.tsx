@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import type { KernelNode } from '../types';
+import { useChartZoom } from '../hooks/useChartZoom';
+import { chartColor, computeWeights, layoutSunburst, type SunburstArc } from '../utils/chartLayout';
+import { HEAT_COLORS } from '../utils/history';
+import { getAncestorPaths, toRelativePath } from '../utils/nodePath';
+import ChartBreadcrumbs from './ChartBreadcrumbs';
+
+/** How many rings are drawn around the zoomed directory. */
+const RINGS = 4;
+
+/** The radius of the chart in SVG units; the view box is twice this plus a margin. */
+const RADIUS = 300;
+
+/** The width of each ring, including the center disc. */
+const RING_WIDTH = RADIUS / (RINGS + 1);
+
+interface SunburstViewProps {
+  data: KernelNode;
+  selectedPath: string | null;
+  onNodeSelect: (node: KernelNode, path: string) => void;
+  matchedPaths?: Set<string> | null;
+  heatOf?: (relativePath: string) => number;
+}
+
+/**
+ * Converts an angle and radius into SVG coordinates around the center.
+ * @param {number} angle - The angle in radians, clockwise from 12 o'clock.
+ * @param {number} radius - The distance from the center.
+ * @returns {string} The point as `x,y`.
+ */
+const point = (angle: number, radius: number): string =>
+  `${(radius * Math.sin(angle)).toFixed(2)},${(-radius * Math.cos(angle)).toFixed(2)}`;
+
+/**
+ * Builds the SVG path of a ring sector.
+ * @param {SunburstArc} arc - The sector; its depth selects the ring.
+ * @returns {string} The path data.
+ */
+const arcPath = ({ depth, startAngle, endAngle }: SunburstArc): string => {
+  // A full circle cannot be drawn as a single arc; stop just short of it.
+  const end = Math.min(endAngle, startAngle + 2 * Math.PI - 1e-4);
+  const inner = depth * RING_WIDTH;
+  const outer = inner + RING_WIDTH - 1;
+  const largeArc = end - startAngle > Math.PI ? 1 : 0;
+  return [
+    `M${point(startAngle, outer)}`,
+    `A${outer},${outer} 0 ${largeArc} 1 ${point(end, outer)}`,
+    `L${point(end, inner)}`,
+    `A${inner},${inner} 0 ${largeArc} 0 ${point(startAngle, inner)}`,
+    'Z',
+  ].join(' ');
+};
+
+/**
+ * Draws the tree as a zoomable sunburst: the zoomed directory in the center and its descendants
+ * in rings around it, each sector sized by the number of nodes below it. Clicking a sector
+ * selects the node and zooms into directories; clicking the center zooms out.
+ * @param {SunburstViewProps} props - The component props.
+ * @param {KernelNode} props.data - The root of the (possibly filtered) tree to draw.
+ * @param {string | null} props.selectedPath - The canonical path of the selected node, outlined in the chart.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - Callback to select a node.
+ * @param {Set<string> | null} [props.matchedPaths] - During a search, the canonical paths of the matches; other nodes are dimmed.
+ * @param {(relativePath: string) => number} [props.heatOf] - In the heatmap, how busy a node is; nodes are then colored by it instead of by branch.
+ * @returns {React.ReactElement} The rendered sunburst.
+ */
+const SunburstView: React.FC<SunburstViewProps> = ({ data, selectedPath, onNodeSelect, matchedPaths, heatOf }) => {
+  const { focus, focusPath, chain, zoomTo } = useChartZoom(data, selectedPath, RINGS);
+  const [hovered, setHovered] = useState<SunburstArc | null>(null);
+  const weights = useMemo(() => computeWeights(data), [data]);
+  const arcs = useMemo(() => layoutSunburst(focus, focusPath, weights, RINGS), [focus, focusPath, weights]);
+  const selectedArc = arcs.find(arc => arc.depth > 0 && arc.path === selectedPath);
+  const label = hovered ?? arcs[0];
+
+  const handleClick = (arc: SunburstArc) => {
+    onNodeSelect(arc.node, arc.path);
+    if (arc.node.children?.length) {
+      zoomTo(arc.path);
+    }
+  };
+
+  const handleCenterClick = () => {
+    const parent = getAncestorPaths(focusPath).pop();
+    if (parent) {
+      zoomTo(parent);
+    }
+  };
+
+  return (
+    <div className="h-[70vh] flex flex-col">
+      <ChartBreadcrumbs chain={chain} onZoom={zoomTo} />
+      <svg
+        viewBox={`${-RADIUS - 4} ${-RADIUS - 4} ${2 * RADIUS + 8} ${2 * RADIUS + 8}`}
+        className="flex-grow min-h-0 w-full font-sans"
+        role="img"
+        aria-label={`Sunburst of ${focusPath}`}
+        onMouseLeave={() => setHovered(null)}
+      >
+        {arcs.slice(1).map(arc => (
+          <path
+            key={arc.path}
+            d={arcPath(arc)}
+            fill={heatOf ? HEAT_COLORS[heatOf(toRelativePath(arc.path))] : chartColor(arc.branch, arc.depth)}
+            opacity={matchedPaths && !matchedPaths.has(arc.path) ? 0.35 : 1}
+            className="cursor-pointer hover:brightness-110"
+            onClick={() => handleClick(arc)}
+            onMouseEnter={() => setHovered(arc)}
+          >
+            <title>{`${arc.node.name} — ${arc.node.summary}`}</title>
+          </path>
+        ))}
+        {selectedArc && (
+          <path d={arcPath(selectedArc)} fill="none" stroke="#0f172a" strokeWidth={3} pointerEvents="none" />
+        )}
+        <circle
+          r={RING_WIDTH - 1}
+          className={`fill-white stroke-slate-300 ${chain.length > 1 ? 'cursor-pointer hover:fill-slate-100' : ''}`}
+          onClick={handleCenterClick}
+        >
+          {chain.length > 1 && <title>Zoom out</title>}
+        </circle>
+        <text textAnchor="middle" className="fill-slate-800 font-mono text-[14px] font-semibold pointer-events-none" y={-4}>
+          {label.node.name}
+        </text>
+        <text textAnchor="middle" className="fill-slate-500 text-[11px] pointer-events-none" y={14}>
+          {(weights.get(label.node) ?? 0).toLocaleString()} {weights.get(label.node) === 1 ? 'node' : 'nodes'}
+        </text>
+      </svg>
+    </div>
+  );
+};
+
+export default SunburstView;
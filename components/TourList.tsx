@@ -0,0 +1,80 @@
+import React from 'react';
+import type { Tour } from '../utils/tours';
+
+interface TourListProps {
+  tours: Tour[] | null;
+  error: string | null;
+  onRetry: () => void;
+  activeTourId: string | null;
+  onStart: (tour: Tour) => void;
+  onOpenFile: (file: File) => void;
+}
+
+/**
+ * The list of guided tours, with a button to start each one and to open a tour file from disk.
+ * @param {TourListProps} props - The component props.
+ * @param {Tour[] | null} props.tours - The tours, or null while loading.
+ * @param {string | null} props.error - The error message if the list or a file could not be read.
+ * @param {() => void} props.onRetry - Callback to fetch the list again after it failed.
+ * @param {string | null} props.activeTourId - The id of the tour being played, if any.
+ * @param {(tour: Tour) => void} props.onStart - Callback to start a tour from its first step.
+ * @param {(file: File) => void} props.onOpenFile - Callback when a tour file is chosen.
+ * @returns {React.ReactElement} The rendered list.
+ */
+const TourList: React.FC<TourListProps> = ({ tours, error, onRetry, activeTourId, onStart, onOpenFile }) => (
+  <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="Tours">
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+      <span className="text-slate-500">Guided tours</span>
+      <label className="cursor-pointer text-cyan-700 hover:underline">
+        Open tour…
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="sr-only"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) {
+              onOpenFile(file);
+            }
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+    {error && (
+      <p className="text-red-600">
+        {error}
+        {!tours && (
+          <>
+            {' '}
+            <button onClick={onRetry} className="underline hover:text-red-800">Retry</button>
+          </>
+        )}
+      </p>
+    )}
+    {!tours && !error && <p className="text-slate-500" role="status">Loading tours…</p>}
+    {tours && tours.length === 0 && <p className="text-slate-500">No tours yet.</p>}
+    {tours && tours.length > 0 && (
+      <ul className="space-y-2">
+        {tours.map(tour => (
+          <li key={tour.id} className="flex items-start gap-3">
+            <button
+              onClick={() => onStart(tour)}
+              className="flex-shrink-0 rounded-md bg-cyan-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-cyan-700"
+            >
+              {tour.id === activeTourId ? 'Restart' : 'Start'}
+            </button>
+            <div>
+              <p className="font-medium text-slate-800">
+                {tour.title} <span className="font-normal text-slate-500">· {tour.steps.length} {tour.steps.length === 1 ? 'step' : 'steps'}</span>
+              </p>
+              {tour.description && <p className="text-slate-600">{tour.description}</p>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
+
+export default TourList;
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { Tour } from '../utils/tours';
+import MarkdownText from './MarkdownText';
+
+interface TourPlayerProps {
+  tour: Tour;
+  step: number;
+  missing: boolean;
+  onStep: (step: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Plays a guided tour: the current step's narration with previous and next buttons and the
+ * progress through the tour. Shown above the detail panel while the tree follows the steps.
+ * @param {TourPlayerProps} props - The component props.
+ * @param {Tour} props.tour - The tour being played.
+ * @param {number} props.step - The index of the current step.
+ * @param {boolean} props.missing - True if the step's node is not in the tree being shown.
+ * @param {(step: number) => void} props.onStep - Callback to go to a step.
+ * @param {() => void} props.onClose - Callback to end the tour.
+ * @returns {React.ReactElement} The rendered player.
+ */
+const TourPlayer: React.FC<TourPlayerProps> = ({ tour, step, missing, onStep, onClose }) => {
+  const current = tour.steps[step];
+  const isLast = step === tour.steps.length - 1;
+  const name = current.path.match(/[^/]+\/?$/)?.[0] ?? current.path;
+
+  return (
+    <section className="mb-6 rounded-md border border-cyan-200 bg-white p-4 shadow-sm" aria-label={`Tour: ${tour.title}`}>
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-cyan-700">{tour.title}</p>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label="End the tour" title="End the tour">×</button>
+      </div>
+      <div className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+        <span>Step {step + 1} of {tour.steps.length}</span>
+        <ol className="flex flex-1 gap-1" aria-label="Steps">
+          {tour.steps.map((s, index) => (
+            <li key={index} className="flex-1">
+              <button
+                onClick={() => onStep(index)}
+                className={`block h-1.5 w-full rounded-full ${index <= step ? 'bg-cyan-500' : 'bg-slate-200 hover:bg-slate-300'}`}
+                aria-label={`Step ${index + 1}: ${s.title ?? s.path}`}
+                aria-current={index === step ? 'step' : undefined}
+                title={s.title ?? s.path}
+              />
+            </li>
+          ))}
+        </ol>
+      </div>
+      <h3 className="mt-3 text-lg font-semibold text-slate-900">{current.title ?? name}</h3>
+      <p className="font-mono text-xs text-slate-500 break-all">{current.path}</p>
+      {missing && <p className="mt-2 text-sm text-amber-700">This node is not in the tree being shown.</p>}
+      <div className="mt-2">
+        <MarkdownText source={current.narration} />
+      </div>
+      <div className="mt-4 flex items-center justify-between">
+        <button
+          onClick={() => onStep(step - 1)}
+          disabled={step === 0}
+          className="rounded-md border border-slate-300 px-3 py-1 text-sm text-slate-600 hover:bg-slate-100 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          Previous
+        </button>
+        <button
+          onClick={() => (isLast ? onClose() : onStep(step + 1))}
+          className="rounded-md bg-cyan-600 px-3 py-1 text-sm font-medium text-white hover:bg-cyan-700"
+        >
+          {isLast ? 'Finish' : 'Next'}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default TourPlayer;
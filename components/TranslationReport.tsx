@@ -0,0 +1,67 @@
+import React from 'react';
+import type { MissingTranslation } from '../utils/locales';
+import type { UiStringKey } from '../utils/uiStrings';
+
+interface TranslationReportProps {
+  localeName: string;
+  isTextLocale: boolean;
+  nodes: number | null;
+  missing: MissingTranslation[] | null;
+  missingStrings: UiStringKey[];
+  error: string | null;
+  selectedPath: string | null;
+  onPathSelect: (relativePath: string) => void;
+}
+
+/**
+ * The translations toolbar: what the active locale does not translate yet, both nodes and
+ * interface strings. Untranslated nodes are shown in English, or as written in the tree.
+ * @param {TranslationReportProps} props - The component props.
+ * @param {string} props.localeName - The active locale's name.
+ * @param {boolean} props.isTextLocale - True if the tree's text is written in the active locale, so nodes need no translation.
+ * @param {number | null} props.nodes - The number of nodes, or null while the search index loads.
+ * @param {MissingTranslation[] | null} props.missing - The untranslated nodes, or null while the search index loads.
+ * @param {UiStringKey[]} props.missingStrings - The interface strings left in English.
+ * @param {string | null} props.error - The error message if translations could not be loaded.
+ * @param {string | null} props.selectedPath - The selected node's relative path, highlighted in the list.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select an untranslated node.
+ * @returns {React.ReactElement} The rendered toolbar.
+ */
+const TranslationReport: React.FC<TranslationReportProps> = ({ localeName, isTextLocale, nodes, missing, missingStrings, error, selectedPath, onPathSelect }) => (
+  <section className="mb-4 border border-slate-200 rounded-md bg-slate-50 px-3 py-2 text-sm space-y-2" aria-label="Translations">
+    {error && <p className="text-red-600" role="status">{error}</p>}
+    {isTextLocale ? (
+      <p className="text-slate-500">The tree's text is written in {localeName}.</p>
+    ) : missing === null || nodes === null ? (
+      <p className="text-slate-500" role="status">Loading the list of nodes…</p>
+    ) : (
+      <p className="text-slate-500">
+        {localeName}: {nodes - missing.length} of {nodes} nodes fully translated
+        {missing.length > 0 && '; the others are shown in English or as written in the tree'}
+      </p>
+    )}
+    {!isTextLocale && missing && missing.length > 0 && (
+      <ul className="max-h-40 overflow-auto space-y-0.5" aria-label="Untranslated nodes">
+        {missing.map(entry => (
+          <li key={entry.path} className="flex items-baseline gap-2">
+            <button
+              onClick={() => onPathSelect(entry.path)}
+              className={`font-mono text-left break-all hover:underline ${entry.path === selectedPath ? 'text-cyan-900 font-semibold' : 'text-cyan-700'}`}
+            >
+              {entry.path || '/'}
+            </button>
+            <span className="text-xs text-slate-500">{entry.fields.join(', ')}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+    {missingStrings.length > 0 && (
+      <p className="text-slate-500">
+        {missingStrings.length} interface {missingStrings.length === 1 ? 'string is' : 'strings are'} shown in English:{' '}
+        <span className="font-mono text-xs">{missingStrings.join(', ')}</span>
+      </p>
+    )}
+  </section>
+);
+
+export default TranslationReport;
@@ -1,105 +1,185 @@
-import React, { useState } from 'react';
+import React from 'react';
 import type { KernelNode } from '../types';
-import { FolderIcon, FolderOpenIcon, FileIcon } from './Icons';
+import type { ChildLoadStatus } from '../hooks/useKernelTree';
+import type { FlatTreeRow } from '../utils/flattenTree';
+import { isRename, type DiffEntry } from '../utils/treeDiff';
+import { toRelativePath } from '../utils/nodePath';
+import type { BuildState } from '../utils/kernelConfig';
+import { HEAT_COLORS } from '../utils/history';
+import { BUILD_STATE_STYLES } from './BuildConfigControls';
+import { DIFF_STATUS_STYLES } from './DiffControls';
+import { FolderIcon, FolderOpenIcon, FileIcon, NoteIcon } from './Icons';
 import HighlightText from './HighlightText';
 
+/** The height of every row, in pixels. The virtualized list relies on it being fixed. */
+export const TREE_ROW_HEIGHT = 32;
+
+/** The indentation added per nesting level, in pixels (the old `pl-6`). */
+const INDENT = 24;
+
+/** The horizontal offset of a connector line within its level (the old `left-3`). */
+const CONNECTOR_OFFSET = 12;
+
 interface TreeNodeProps {
-  node: KernelNode;
-  isLast: boolean;
-  isRoot?: boolean;
-  startExpanded?: boolean;
-  selectedNode: KernelNode | null;
-  onNodeSelect: (node: KernelNode) => void;
+  row: FlatTreeRow;
+  top: number;
+  isSelected: boolean;
+  isFocused: boolean;
+  onNodeSelect: (node: KernelNode, path: string) => void;
+  onFocusRow: (path: string) => void;
+  onToggle: (path: string, depth: number) => void;
   searchTerm: string;
+  loadStatus?: ChildLoadStatus;
+  onLoadChildren: (path: string) => void;
+  diff?: DiffEntry;
+  annotated?: boolean;
+  buildState?: BuildState;
+  dimmed?: boolean;
+  heat?: number;
 }
 
 /**
- * A recursive component that renders a single node (file or directory) in the kernel tree.
- * It handles its own expanded/collapsed state and renders its children if it's an expanded directory.
+ * Renders a single row (file, directory, or loading/error status) of the virtualized kernel tree.
+ * The row is absolutely positioned at `top`; connector lines for the row and for every
+ * ancestor that continues past it are drawn so rows line up into the `├` and `└` shapes.
+ * Rows are `treeitem`s carrying their level and position, and only the focused row is in
+ * the tab order (roving tabindex); keyboard handling lives in `KernelVisualizer`.
  * @param {TreeNodeProps} props - The component props.
- * @param {KernelNode} props.node - The kernel node to render.
- * @param {boolean} props.isLast - True if this is the last child of its parent, for styling tree lines.
- * @param {boolean} [props.isRoot=false] - True if this is the root node of the tree.
- * @param {boolean} [props.startExpanded=false] - True if the node should be expanded by default.
- * @param {KernelNode | null} props.selectedNode - The currently selected node in the entire tree.
- * @param {(node: KernelNode) => void} props.onNodeSelect - The callback function to execute when the node is clicked.
+ * @param {FlatTreeRow} props.row - The flattened row to render.
+ * @param {number} props.top - The row's offset from the top of the list, in pixels.
+ * @param {boolean} props.isSelected - True if this row's node is the selected node.
+ * @param {boolean} props.isFocused - True if this row holds the tree's single tab stop.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - The callback function to execute when the node is clicked.
+ * @param {(path: string) => void} props.onFocusRow - Callback to move the tab stop to this row when it is clicked or focused.
+ * @param {(path: string, depth: number) => void} props.onToggle - Callback to expand or collapse a directory.
  * @param {string} props.searchTerm - The current search term for highlighting.
- * @returns {React.ReactElement} The rendered tree node list item.
+ * @param {ChildLoadStatus} [props.loadStatus] - For status rows, the load state of the directory's children.
+ * @param {(path: string) => void} props.onLoadChildren - Callback to retry loading the children of a directory.
+ * @param {DiffEntry} [props.diff] - When two versions are compared, the node's entry; changed nodes are colored and labeled.
+ * @param {boolean} [props.annotated] - True if the user has a note or tags on the node, which is marked with an icon.
+ * @param {BuildState} [props.buildState] - When a `.config` is loaded, how it builds the node; shown as a `y`, `m` or `n` mark.
+ * @param {boolean} [props.dimmed] - True to grey the row out, e.g. for another architecture or a node that is not built.
+ * @param {number} [props.heat] - In the heatmap, how busy the node is (see `heatLevel`); rows above 0 are tinted unless selected.
+ * @returns {React.ReactElement} The rendered tree row.
  */
-const TreeNode: React.FC<TreeNodeProps> = ({ node, isLast, isRoot = false, startExpanded = false, selectedNode, onNodeSelect, searchTerm }) => {
-  const isDirectory = node.children && node.children.length > 0;
-  const [isExpanded, setIsExpanded] = useState(isRoot || startExpanded);
-  const isSelected = selectedNode === node;
+const TreeNode: React.FC<TreeNodeProps> = ({ row, top, isSelected, isFocused, onNodeSelect, onFocusRow, onToggle, searchTerm, loadStatus, onLoadChildren, diff, annotated, buildState, dimmed, heat }) => {
+  const { node, path, depth, isLast, posInSet, setSize, guides, isDirectory, isExpanded } = row;
+  const center = TREE_ROW_HEIGHT / 2;
+  const diffStyle = diff && diff.status !== 'unchanged' ? DIFF_STATUS_STYLES[diff.status] : null;
 
   const handleInteraction = () => {
-    onNodeSelect(node);
+    onNodeSelect(node, path);
     if (isDirectory) {
-      setIsExpanded(prev => !prev);
+      onToggle(path, depth);
     }
   };
 
   const IconComponent = isDirectory ? (isExpanded ? FolderOpenIcon : FolderIcon) : FileIcon;
 
-  // The item's center is at approx 14px (top-3.5) with py-1 on the div and h-5 on the icon
-  const verticalLineHeight = isLast ? 'h-3.5' : 'h-full';
-  
   return (
-    <li className={`relative ${isRoot ? '' : 'pl-6'}`}>
-      
+    <div className="absolute left-0 right-0" style={{ top, height: TREE_ROW_HEIGHT }}>
+
       {/* --- Tree connection lines --- */}
-      {/* This structure creates the `├` and `└` shapes using absolute positioning */}
-      {!isRoot && (
+      {/* Vertical lines of ancestors that still have siblings below this row */}
+      {guides.map((continues, index) => continues && (
+        <span
+          key={index}
+          className="absolute top-0 h-full w-px bg-slate-400"
+          style={{ left: index * INDENT + CONNECTOR_OFFSET }}
+          aria-hidden="true"
+        />
+      ))}
+      {depth > 0 && (
         <>
           {/* Vertical line: full height for intermediate items, half height for the last item */}
           <span
-            className={`absolute top-0 left-3 w-px bg-slate-400 ${verticalLineHeight}`}
+            className="absolute top-0 w-px bg-slate-400"
+            style={{ left: (depth - 1) * INDENT + CONNECTOR_OFFSET, height: isLast ? center : '100%' }}
             aria-hidden="true"
           />
           {/* Horizontal line */}
           <span
-            className="absolute top-3.5 left-3 w-3 h-px bg-slate-400"
+            className="absolute w-3 h-px bg-slate-400"
+            style={{ left: (depth - 1) * INDENT + CONNECTOR_OFFSET, top: center }}
             aria-hidden="true"
           />
         </>
       )}
 
-      <div
-        className={`flex items-center space-x-2 py-1 group rounded transition-colors ${isDirectory ? 'cursor-pointer' : ''} ${isSelected ? 'bg-cyan-100' : 'hover:bg-slate-100'}`}
-        onClick={handleInteraction}
-        onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && handleInteraction()}
-        role={isDirectory ? 'button' : 'listitem'}
-        tabIndex={0}
-        aria-expanded={isDirectory ? isExpanded : undefined}
-        title={node.summary}
-      >
-        <IconComponent className={`w-5 h-5 flex-shrink-0 ${isDirectory ? 'text-cyan-500' : 'text-slate-400'}`} />
-        <div>
-            <span className={`font-medium ${isDirectory ? 'text-slate-800' : 'text-slate-600'}`}>
-                <HighlightText text={node.name} highlight={searchTerm} as="span" />
-            </span>
-            <span className="text-slate-500 group-hover:text-slate-700 transition-colors ml-2 hidden sm:inline">
-                - <HighlightText text={node.summary} highlight={searchTerm} as="span" />
+      {row.type === 'status' ? (
+        <div
+          className="flex items-center h-full text-slate-500 whitespace-nowrap"
+          style={{ marginLeft: depth * INDENT }}
+          role="treeitem"
+          aria-level={depth + 1}
+          aria-posinset={1}
+          aria-setsize={1}
+          aria-disabled="true"
+        >
+          {loadStatus?.state === 'error' ? (
+            <span className="text-red-600">
+              Failed to load: {loadStatus.message}{' '}
+              <button onClick={() => onLoadChildren(path)} className="underline hover:text-red-800">
+                Retry
+              </button>
             </span>
+          ) : (
+            <span className="italic" role="status">Loading…</span>
+          )}
+        </div>
+      ) : (
+        <div
+          className={`inline-flex items-center space-x-2 h-full pr-2 group rounded transition-colors whitespace-nowrap focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 ${isDirectory ? 'cursor-pointer' : ''} ${isSelected ? 'bg-cyan-100' : 'hover:bg-slate-100'} ${dimmed ? 'opacity-50' : ''}`}
+          style={{ marginLeft: depth * INDENT, backgroundColor: heat && !isSelected ? HEAT_COLORS[heat] : undefined }}
+          onClick={handleInteraction}
+          onFocus={() => onFocusRow(path)}
+          data-path={path}
+          role="treeitem"
+          tabIndex={isFocused ? 0 : -1}
+          aria-level={depth + 1}
+          aria-posinset={posInSet}
+          aria-setsize={setSize}
+          aria-selected={isSelected}
+          aria-expanded={isDirectory ? isExpanded : undefined}
+          aria-busy={isDirectory && isExpanded && node.lazyChildren ? true : undefined}
+          title={node.summary}
+        >
+          <IconComponent className={`w-5 h-5 flex-shrink-0 ${isDirectory ? 'text-cyan-500' : 'text-slate-400'}`} />
+          <div>
+              <span className={`font-medium ${diffStyle ? diffStyle.text : isDirectory ? 'text-slate-800' : 'text-slate-600'}`}>
+                  <HighlightText text={node.name} highlight={searchTerm} as="span" />
+              </span>
+              {diffStyle && (
+                  <span
+                      className={`ml-2 rounded px-1.5 py-0.5 font-sans text-xs font-medium ${diffStyle.badge}`}
+                      title={diff?.from ? `${diff.status === 'removed' ? 'Was' : 'From'} ${diff.from}` : undefined}
+                  >
+                      {isRename(toRelativePath(path), diff!) ? 'Renamed' : diffStyle.label}
+                  </span>
+              )}
+              {buildState && (
+                  <span
+                      className={`ml-2 rounded px-1 py-0.5 text-xs font-medium ${BUILD_STATE_STYLES[buildState].badge}`}
+                      title={BUILD_STATE_STYLES[buildState].label}
+                  >
+                      {BUILD_STATE_STYLES[buildState].mark}
+                      <span className="sr-only"> ({BUILD_STATE_STYLES[buildState].label})</span>
+                  </span>
+              )}
+              {annotated && (
+                  <span title="Has notes" className="ml-1.5 inline-flex align-middle">
+                      <NoteIcon className="w-4 h-4 text-amber-500" />
+                      <span className="sr-only">(has notes)</span>
+                  </span>
+              )}
+              <span className="text-slate-500 group-hover:text-slate-700 transition-colors ml-2 hidden sm:inline">
+                  - <HighlightText text={node.summary} highlight={searchTerm} as="span" />
+              </span>
+          </div>
         </div>
-      </div>
-      
-      {isExpanded && isDirectory && (
-        <ul role="group">
-          {node.children?.map((child, index) => (
-            <TreeNode
-              key={`${child.name}-${index}`}
-              node={child}
-              isLast={index === (node.children?.length ?? 0) - 1}
-              startExpanded={startExpanded}
-              selectedNode={selectedNode}
-              onNodeSelect={onNodeSelect}
-              searchTerm={searchTerm}
-            />
-          ))}
-        </ul>
       )}
-    </li>
+    </div>
   );
 };
 
-export default TreeNode;
\ No newline at end of file
+export default React.memo(TreeNode);
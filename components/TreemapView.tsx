@@ -0,0 +1,118 @@
+import React, { useMemo, useRef } from 'react';
+import type { KernelNode } from '../types';
+import { useChartZoom } from '../hooks/useChartZoom';
+import { useElementSize } from '../hooks/useElementSize';
+import { chartColor, computeWeights, layoutTreemap, type TreemapRect } from '../utils/chartLayout';
+import { HEAT_COLORS } from '../utils/history';
+import { toRelativePath } from '../utils/nodePath';
+import ChartBreadcrumbs from './ChartBreadcrumbs';
+
+/** How many levels below the zoomed directory are drawn. */
+const LEVELS = 3;
+
+/** The approximate width of a label character, in pixels, used to shorten labels that do not fit. */
+const CHAR_WIDTH = 6.5;
+
+interface TreemapViewProps {
+  data: KernelNode;
+  selectedPath: string | null;
+  onNodeSelect: (node: KernelNode, path: string) => void;
+  matchedPaths?: Set<string> | null;
+  heatOf?: (relativePath: string) => number;
+}
+
+/**
+ * Shortens a label to fit a width, adding an ellipsis if it was cut.
+ * @param {string} text - The label.
+ * @param {number} width - The available width, in pixels.
+ * @returns {string} The label, possibly shortened; empty if not even one character fits.
+ */
+const fitLabel = (text: string, width: number): string => {
+  const maxChars = Math.floor((width - 6) / CHAR_WIDTH);
+  if (maxChars < 2) {
+    return '';
+  }
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+};
+
+/**
+ * Draws the tree as a squarified treemap of the zoomed directory: nested rectangles, each
+ * sized by the number of nodes below it. Clicking a rectangle selects the node and zooms into
+ * directories; the breadcrumbs zoom back out.
+ * @param {TreemapViewProps} props - The component props.
+ * @param {KernelNode} props.data - The root of the (possibly filtered) tree to draw.
+ * @param {string | null} props.selectedPath - The canonical path of the selected node, outlined in the chart.
+ * @param {(node: KernelNode, path: string) => void} props.onNodeSelect - Callback to select a node.
+ * @param {Set<string> | null} [props.matchedPaths] - During a search, the canonical paths of the matches; other nodes are dimmed.
+ * @param {(relativePath: string) => number} [props.heatOf] - In the heatmap, how busy a node is; nodes are then colored by it instead of by branch.
+ * @returns {React.ReactElement} The rendered treemap.
+ */
+const TreemapView: React.FC<TreemapViewProps> = ({ data, selectedPath, onNodeSelect, matchedPaths, heatOf }) => {
+  const { focusPath, focus, chain, zoomTo } = useChartZoom(data, selectedPath, LEVELS);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { width, height } = useElementSize(containerRef);
+  const weights = useMemo(() => computeWeights(data), [data]);
+  const rects = useMemo(
+    () => layoutTreemap(focus, focusPath, weights, width, height, LEVELS),
+    [focus, focusPath, weights, width, height],
+  );
+  const selectedRect = rects.find(rect => rect.path === selectedPath);
+
+  const handleClick = (rect: TreemapRect) => {
+    onNodeSelect(rect.node, rect.path);
+    if (rect.node.children?.length) {
+      zoomTo(rect.path);
+    }
+  };
+
+  return (
+    <div className="h-[70vh] flex flex-col">
+      <ChartBreadcrumbs chain={chain} onZoom={zoomTo} />
+      <div ref={containerRef} className="flex-grow min-h-0">
+        <svg width={width} height={height} className="block font-mono" role="img" aria-label={`Treemap of ${focusPath}`}>
+          {rects.map(rect => {
+            const label = rect.height >= 14 ? fitLabel(rect.node.name, rect.width) : '';
+            return (
+              <g
+                key={rect.path}
+                className="cursor-pointer hover:brightness-110"
+                opacity={matchedPaths && !matchedPaths.has(rect.path) ? 0.35 : 1}
+                onClick={() => handleClick(rect)}
+              >
+                <title>{`${rect.node.name} — ${rect.node.summary}`}</title>
+                <rect
+                  x={rect.x}
+                  y={rect.y}
+                  width={rect.width}
+                  height={rect.height}
+                  fill={heatOf ? HEAT_COLORS[heatOf(toRelativePath(rect.path))] : chartColor(rect.branch, rect.depth)}
+                  stroke="white"
+                  strokeWidth={1}
+                />
+                {label && (
+                  <text x={rect.x + 3} y={rect.y + 11} className="fill-slate-900 text-[10px] pointer-events-none">
+                    {label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {selectedRect && (
+            <rect
+              x={selectedRect.x + 1}
+              y={selectedRect.y + 1}
+              width={Math.max(selectedRect.width - 2, 0)}
+              height={Math.max(selectedRect.height - 2, 0)}
+              fill="none"
+              stroke="#0f172a"
+              strokeWidth={2}
+              pointerEvents="none"
+            />
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default TreemapView;
@@ -0,0 +1,41 @@
+import React from 'react';
+
+/** The ways the tree can be drawn. */
+export type TreeViewMode = 'tree' | 'sunburst' | 'treemap' | 'includes' | 'source';
+
+const VIEW_LABELS: Record<TreeViewMode, string> = {
+  tree: 'Tree',
+  sunburst: 'Sunburst',
+  treemap: 'Treemap',
+  includes: 'Includes',
+  source: 'Source',
+};
+
+interface ViewSwitcherProps {
+  view: TreeViewMode;
+  onChange: (view: TreeViewMode) => void;
+}
+
+/**
+ * A segmented control for choosing how the tree is drawn.
+ * @param {ViewSwitcherProps} props - The component props.
+ * @param {TreeViewMode} props.view - The current view.
+ * @param {(view: TreeViewMode) => void} props.onChange - Callback when another view is chosen.
+ * @returns {React.ReactElement} The rendered switcher.
+ */
+const ViewSwitcher: React.FC<ViewSwitcherProps> = ({ view, onChange }) => (
+  <div className="inline-flex rounded-md border border-slate-300 overflow-hidden text-sm" role="group" aria-label="View">
+    {(Object.keys(VIEW_LABELS) as TreeViewMode[]).map(mode => (
+      <button
+        key={mode}
+        onClick={() => onChange(mode)}
+        aria-pressed={view === mode}
+        className={`px-3 py-2 transition-colors ${view === mode ? 'bg-cyan-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+      >
+        {VIEW_LABELS[mode]}
+      </button>
+    ))}
+  </div>
+);
+
+export default ViewSwitcher;
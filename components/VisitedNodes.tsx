@@ -0,0 +1,105 @@
+import React from 'react';
+
+/** How many recently visited nodes are listed. */
+const RECENT_SHOWN = 10;
+
+interface VisitedNodesProps {
+  pinned: string[];
+  recent: string[];
+  rootName: string;
+  /** The selected node's relative path, left out of the recent ones and marked among the pinned ones. */
+  selectedPath: string | null;
+  onPathSelect: (relativePath: string) => void;
+  onUnpin: (relativePath: string) => void;
+  onClearRecent: () => void;
+}
+
+interface PathButtonProps {
+  path: string;
+  rootName: string;
+  isSelected: boolean;
+  onSelect: (relativePath: string) => void;
+}
+
+/**
+ * A node's relative path as a button that selects it; the root is shown by its name.
+ * @param {PathButtonProps} props - The component props.
+ * @param {string} props.path - The node's path relative to the root.
+ * @param {string} props.rootName - The root node's name, shown for the root.
+ * @param {boolean} props.isSelected - Whether the node is selected.
+ * @param {(relativePath: string) => void} props.onSelect - Callback to select the node.
+ * @returns {React.ReactElement} The rendered button.
+ */
+const PathButton: React.FC<PathButtonProps> = ({ path, rootName, isSelected, onSelect }) => (
+  <button
+    onClick={() => onSelect(path)}
+    aria-current={isSelected ? 'true' : undefined}
+    className={`font-mono break-all text-left hover:underline ${isSelected ? 'font-semibold text-slate-800' : 'text-cyan-700'}`}
+  >
+    {path || rootName}
+  </button>
+);
+
+/**
+ * The sidebar of pinned nodes, kept until they are unpinned, and of the nodes visited lately,
+ * to jump between the places being read.
+ * @param {VisitedNodesProps} props - The component props.
+ * @param {string[]} props.pinned - The relative paths of the pinned nodes.
+ * @param {string[]} props.recent - The relative paths of the recently visited nodes, newest first.
+ * @param {string} props.rootName - The root node's name, shown for the root.
+ * @param {string | null} props.selectedPath - The selected node's relative path, or null.
+ * @param {(relativePath: string) => void} props.onPathSelect - Callback to select a node.
+ * @param {(relativePath: string) => void} props.onUnpin - Callback to unpin a node.
+ * @param {() => void} props.onClearRecent - Callback to forget the recently visited nodes.
+ * @returns {React.ReactElement | null} The rendered sidebar, or nothing if both lists are empty.
+ */
+const VisitedNodes: React.FC<VisitedNodesProps> = ({ pinned, recent, rootName, selectedPath, onPathSelect, onUnpin, onClearRecent }) => {
+  const recentShown = recent.filter(path => path !== selectedPath).slice(0, RECENT_SHOWN);
+  if (pinned.length === 0 && recentShown.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-4 border border-slate-200 rounded-md bg-white px-3 py-2 text-sm space-y-2" aria-label="Pinned and recent nodes">
+      {pinned.length > 0 && (
+        <div>
+          <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Pinned</h3>
+          <ul className="space-y-1">
+            {pinned.map(path => (
+              <li key={path} className="flex items-start justify-between gap-2">
+                <PathButton path={path} rootName={rootName} isSelected={path === selectedPath} onSelect={onPathSelect} />
+                <button
+                  onClick={() => onUnpin(path)}
+                  className="flex-shrink-0 text-slate-400 hover:text-slate-700"
+                  aria-label={`Unpin ${path || rootName}`}
+                  title="Unpin"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {recentShown.length > 0 && (
+        <details open={pinned.length === 0}>
+          <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Recently visited
+          </summary>
+          <ul className="mt-1 space-y-1">
+            {recentShown.map(path => (
+              <li key={path}>
+                <PathButton path={path} rootName={rootName} isSelected={false} onSelect={onPathSelect} />
+              </li>
+            ))}
+          </ul>
+          <button onClick={onClearRecent} className="mt-1 text-xs text-cyan-700 hover:underline">
+            Clear
+          </button>
+        </details>
+      )}
+    </section>
+  );
+};
+
+export default VisitedNodes;
@@ -0,0 +1 @@
+#include <linux/fs.h>
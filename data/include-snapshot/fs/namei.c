@@ -0,0 +1,7 @@
+#include <linux/kernel.h>
+#include <linux/slab.h>
+#include <linux/fs.h>
+#include <linux/sched/mm.h>
+
+#include "internal.h"
+#include "mount.h"
@@ -0,0 +1 @@
+#include <linux/thread_info.h>
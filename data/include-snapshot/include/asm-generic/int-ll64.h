@@ -0,0 +1 @@
+#include <uapi/asm-generic/int-ll64.h>
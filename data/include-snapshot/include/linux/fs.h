@@ -0,0 +1,2 @@
+#include <linux/types.h>
+#include <linux/mm_types.h>
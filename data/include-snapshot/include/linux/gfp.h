@@ -0,0 +1 @@
+#include <linux/mmzone.h>
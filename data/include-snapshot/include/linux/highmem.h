@@ -0,0 +1,3 @@
+#include <linux/fs.h>
+#include <linux/kernel.h>
+#include <linux/mm.h>
@@ -0,0 +1,2 @@
+#include <linux/types.h>
+#include <uapi/linux/kernel.h>
@@ -0,0 +1,4 @@
+#include <linux/gfp.h>
+#include <linux/mm_types.h>
+#include <linux/sched.h>
+#include <linux/slab.h>
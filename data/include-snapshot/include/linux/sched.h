@@ -0,0 +1,5 @@
+#include <uapi/linux/sched.h>
+
+#include <asm/current.h>
+
+#include <linux/types.h>
@@ -0,0 +1,2 @@
+#include <linux/sched.h>
+#include <linux/sched/task.h>
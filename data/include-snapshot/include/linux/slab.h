@@ -0,0 +1,2 @@
+#include <linux/gfp.h>
+#include <linux/types.h>
@@ -0,0 +1 @@
+#include <uapi/linux/types.h>
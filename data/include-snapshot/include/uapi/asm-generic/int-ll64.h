@@ -0,0 +1 @@
+#include <asm/bitsperlong.h>
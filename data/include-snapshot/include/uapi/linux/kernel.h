@@ -0,0 +1 @@
+#include <linux/sysinfo.h>
@@ -0,0 +1 @@
+#include <asm/types.h>
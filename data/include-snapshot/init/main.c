@@ -0,0 +1,6 @@
+#include <linux/types.h>
+#include <linux/kernel.h>
+#include <linux/sched/task.h>
+#include <linux/mm.h>
+#include <linux/highmem.h>
+#include <linux/slab.h>
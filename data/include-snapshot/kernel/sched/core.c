@@ -0,0 +1,10 @@
+#include <linux/highmem.h>
+#include <linux/sched/signal.h>
+#include <linux/sched/mm.h>
+#include <linux/kernel.h>
+#include <linux/slab.h>
+
+#include "sched.h"
+#include "stats.h"
+#include "autogroup.h"
+#include "pelt.h"
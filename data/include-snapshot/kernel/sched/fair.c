@@ -0,0 +1,7 @@
+#include <linux/highmem.h>
+#include <linux/sched/mm.h>
+#include <linux/slab.h>
+
+#include "sched.h"
+#include "stats.h"
+#include "autogroup.h"
@@ -0,0 +1 @@
+#include "sched.h"
@@ -0,0 +1,5 @@
+#include <linux/sched/signal.h>
+#include <linux/sched/mm.h>
+#include <linux/sched/task.h>
+#include <linux/kernel.h>
+#include <linux/slab.h>
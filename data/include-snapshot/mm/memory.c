@@ -0,0 +1,7 @@
+#include <linux/mm.h>
+#include <linux/sched/mm.h>
+#include <linux/sched/signal.h>
+#include <linux/highmem.h>
+#include <linux/slab.h>
+
+#include "internal.h"
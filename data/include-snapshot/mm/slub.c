@@ -0,0 +1,4 @@
+#include <linux/mm.h>
+#include <linux/slab.h>
+
+#include "internal.h"
@@ -1,12 +1,13 @@
-import type { KernelNode } from '../types';
+import type { LegacyKernelNode } from '../types';
 
 /**
  * The root node of the Linux kernel data structure.
  * This object contains the entire hierarchical tree of files and directories,
  * along with their summaries and detailed descriptions.
- * @type {KernelNode}
+ * Written in the original schema; it is brought up to date by `migrateTree` when loaded.
+ * @type {LegacyKernelNode}
  */
-export const kernelData: KernelNode = {
+export const kernelData: LegacyKernelNode = {
   name: 'linux/',
   summary: 'カーネルソースツリーのルート',
   description: 'Linuxカーネルのソースコード全体を格納する最上位ディレクトリです。ここには、カーネルのビルドプロセス全体を統括するトップレベルの`Makefile`、カーネルのコンパイルオプションを定義する`Kconfig`ファイル群、そしてカーネルを構成するすべてのサブシステムを含むサブディレクトリが配置されています。Linuxカーネルの開発は、このディレクトリ構造を基盤として、世界中の開発者による分散作業として進められています。\n\nビルドプロセスは非常に洗練されており、`make`コマンドがこのトップレベルの`Makefile`を読み込むことから始まります。Makefileは`.config`ファイル（`make menuconfig`などで生成される）を参照し、有効化された機能やドライバに対応するサブディレクトリのみを再帰的にビルドします。`Kconfig`ファイル群は、各オプション間の複雑な依存関係を定義しており、例えば特定のネットワークカードドライバを選択すると、コアネットワークスタックやPCIバスサポートが自動的に有効になる、といった整合性を保証します。この柔軟かつ強力なビルドシステムが、組み込みデバイスからスーパーコンピュータまで、多種多様なターゲットに対応したカーネルの構築を可能にしています。',
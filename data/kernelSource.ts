@@ -0,0 +1,39 @@
+/**
+ * The contents of source files are not part of the chunks. In development the Vite server
+ * reads them from a local kernel checkout, configured with `KERNEL_SOURCE` in `.env.local`,
+ * and serves them as plain text under `__kernel-source/<path>` (see
+ * `scripts/lib/kernelSourcePlugin.ts`).
+ */
+
+/** Where source files are served from, relative to the page. */
+export const SOURCE_BASE_URL = '__kernel-source/';
+
+/**
+ * The URL of a source file.
+ * @param {string} relativePath - The file's path relative to the root, e.g. `kernel/sched/core.c`.
+ * @returns {string} The URL, relative to the page.
+ */
+export const sourceFileUrl = (relativePath: string): string => SOURCE_BASE_URL + relativePath.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Fetches the text of a source file from the configured checkout.
+ * @param {string} relativePath - The file's path relative to the root, e.g. `kernel/sched/core.c`.
+ * @param {AbortSignal} [signal] - Aborts the request, e.g. when another file is selected.
+ * @returns {Promise<string>} The file's text.
+ */
+export const fetchSourceFile = async (relativePath: string, signal?: AbortSignal): Promise<string> => {
+  const url = sourceFileUrl(relativePath);
+  const response = await fetch(url, { signal });
+  // Without the dev server (e.g. a static build), the request falls through to the page itself.
+  const isText = response.headers.get('content-type')?.startsWith('text/plain');
+  if (response.status === 503 || (response.ok && !isText)) {
+    throw new Error('No kernel checkout is configured. Set KERNEL_SOURCE in .env.local to the path of one and restart the dev server.');
+  }
+  if (response.status === 404) {
+    throw new Error(`${relativePath} is not in the configured kernel checkout.`);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url} (${response.status} ${response.statusText})`);
+  }
+  return response.text();
+};
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: GPL-2.0-only
+/*
+ *  linux/fs/open.c
+ */
+struct file *filp_open(const char *filename, int flags, umode_t mode)
+{
+	struct filename *name = getname_kernel(filename);
+	struct file *file = ERR_CAST(name);
+
+	return file;
+}
+EXPORT_SYMBOL(filp_open);
+
+int filp_close(struct file *filp, fl_owner_t id)
+{
+	int retval;
+
+	return retval;
+}
+EXPORT_SYMBOL(filp_close);
+
+SYSCALL_DEFINE3(open, const char __user *, filename, int, flags, umode_t, mode)
+{
+	if (force_o_largefile())
+		flags |= O_LARGEFILE;
+	return do_sys_open(AT_FDCWD, filename, flags, mode);
+}
+
+SYSCALL_DEFINE4(openat, int, dfd, const char __user *, filename, int, flags,
+		umode_t, mode)
+{
+	return do_sys_open(dfd, filename, flags, mode);
+}
+
+SYSCALL_DEFINE1(close, unsigned int, fd)
+{
+	int retval = close_fd(fd);
+
+	return retval;
+}
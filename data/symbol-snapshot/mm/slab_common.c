@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: GPL-2.0
+/*
+ * Slab allocator functions that are independent of the allocator strategy
+ */
+struct kmem_cache *
+kmem_cache_create_usercopy(const char *name, unsigned int size,
+		  unsigned int align, slab_flags_t flags,
+		  unsigned int useroffset, unsigned int usersize,
+		  void (*ctor)(void *))
+{
+	return do_kmem_cache_create_usercopy(name, size, useroffset, usersize, &args, flags);
+}
+EXPORT_SYMBOL(kmem_cache_create_usercopy);
+
+void kmem_cache_destroy(struct kmem_cache *s)
+{
+	if (unlikely(!s) || !kasan_check_byte(s))
+		return;
+}
+EXPORT_SYMBOL(kmem_cache_destroy);
+
+void *__kmalloc_noprof(size_t size, gfp_t flags)
+{
+	return __do_kmalloc_node(size, NULL, flags, NUMA_NO_NODE, _RET_IP_);
+}
+EXPORT_SYMBOL(__kmalloc_noprof);
+
+void kfree(const void *object)
+{
+	struct folio *folio;
+}
+EXPORT_SYMBOL(kfree);
@@ -0,0 +1,238 @@
+import type { KernelNode, LegacyKernelNode, NodeKind } from '../types';
+import type { CodeSymbolData } from '../utils/codeSymbols';
+import type { HistoryData } from '../utils/history';
+import type { IncludeGraphData } from '../utils/includeGraph';
+import type { KconfigData } from '../utils/kconfig';
+import type { LocaleFile, LocaleInfo, LocaleManifest } from '../utils/locales';
+import type { MaintainerSection } from '../utils/maintainers';
+import type { TourCatalog } from '../utils/tours';
+import { migrateNodes, migrateTree } from '../utils/migrateTree';
+
+/**
+ * The kernel tree is served as static JSON next to the app, split per directory:
+ *
+ * - `tree/root.json` holds the root node with its direct children.
+ * - `tree/<dir>/index.json` holds the children of `<dir>` (e.g. `tree/kernel/sched/index.json`).
+ * - `tree/search-index.json` holds every node in a flat, compact form for searching.
+ * - `tree/maintainers.json` holds the parsed sections of the kernel's MAINTAINERS file.
+ * - `tree/kconfig.json` holds the Kconfig symbols and the files each one controls.
+ * - `tree/includes.json` holds the `#include` graph between files.
+ * - `tree/symbols.json` holds the functions, structures, system calls and exports defined in each file.
+ * - `tree/tours.json` holds the guided tours.
+ * - `tree/locales.json` lists the translations, stored as `tree/locales/<locale>.json`.
+ * - `tree/history.json` holds each node's git history: commit counts, authors and recent commits.
+ * - `tree/snapshots.json` lists whole trees of other kernel versions, stored as
+ *   `tree/snapshots/<label>.json`, which the app can compare.
+ * - `tree/dataset.json` lists every other file with a version that changes with their content,
+ *   for the service worker to cache them.
+ *
+ * Directories inside a chunk carry `lazyChildren: true` instead of their children.
+ * Chunks written before nodes had a `kind` are migrated as they are loaded.
+ */
+
+/** Where the chunks are served from, relative to the page; an embed can load them from elsewhere. */
+export const TREE_BASE_URL = 'tree/';
+
+/** The file holding the root node. */
+export const ROOT_CHUNK_FILE = 'root.json';
+
+/** The file, inside each directory's folder, holding that directory's children. */
+export const CHILDREN_CHUNK_FILE = 'index.json';
+
+/** The file holding the flat search index. */
+export const SEARCH_INDEX_FILE = 'search-index.json';
+
+/** The file holding the parsed MAINTAINERS sections. */
+export const MAINTAINERS_FILE = 'maintainers.json';
+
+/** The file holding the Kconfig symbols. */
+export const KCONFIG_FILE = 'kconfig.json';
+
+/** The file holding the `#include` graph. */
+export const INCLUDES_FILE = 'includes.json';
+
+/** The file holding the index of code symbols. */
+export const SYMBOLS_FILE = 'symbols.json';
+
+/** The file holding the guided tours. */
+export const TOURS_FILE = 'tours.json';
+
+/** The file listing the translations. */
+export const LOCALES_FILE = 'locales.json';
+
+/** The folder holding the translations. */
+export const LOCALES_DIR = 'locales/';
+
+/** The file holding the git history. */
+export const HISTORY_FILE = 'history.json';
+
+/** The file listing the snapshots of other versions. */
+export const SNAPSHOTS_FILE = 'snapshots.json';
+
+/** The folder holding the snapshots. */
+export const SNAPSHOTS_DIR = 'snapshots/';
+
+/** The file listing the dataset's files and its version. */
+export const DATASET_FILE = 'dataset.json';
+
+/**
+ * A single search index entry: `[path, summary, description, kind, tags]`.
+ * The path is relative to the root, with a trailing `/` for directories (e.g. `kernel/sched/`).
+ * `tags` is omitted when the node has none; older indexes have neither `kind` nor `tags`.
+ */
+export type SearchIndexEntry = [path: string, summary: string, description: string, kind?: NodeKind, tags?: string[]];
+
+/**
+ * The flat search index covering every node except the root, in tree (pre-)order.
+ */
+export interface SearchIndex {
+  entries: SearchIndexEntry[];
+}
+
+/**
+ * The parsed MAINTAINERS file.
+ */
+export interface MaintainersData {
+  sections: MaintainerSection[];
+}
+
+/**
+ * A snapshot of the tree of one kernel version, e.g. generated from a v6.1 checkout.
+ */
+export interface SnapshotInfo {
+  /** The name shown in the app, e.g. `v6.1`. */
+  label: string;
+  /** The snapshot's file, relative to the chunk directory. */
+  file: string;
+  /** The number of nodes in the snapshot, not counting the root. */
+  nodes: number;
+}
+
+/**
+ * The list of snapshots, oldest version first.
+ */
+export interface SnapshotManifest {
+  snapshots: SnapshotInfo[];
+}
+
+/**
+ * The files of the dataset and its version.
+ */
+export interface DatasetInfo {
+  /** A hash of the files' names and contents, e.g. `3f9a0c1e52b7`. */
+  version: string;
+  /** When `build-chunks` wrote the files, as an ISO 8601 date. */
+  built: string;
+  /** Every file of the dataset except this one, relative to the chunk directory. */
+  files: string[];
+}
+
+/**
+ * Fetches a JSON file from the chunk directory.
+ * @param {string} file - The file path relative to the chunk directory.
+ * @param {string} [baseUrl=TREE_BASE_URL] - The chunk directory's URL, ending with `/`.
+ * @returns {Promise<T>} The parsed JSON.
+ */
+const fetchChunk = async <T>(file: string, baseUrl = TREE_BASE_URL): Promise<T> => {
+  const url = baseUrl + file.split('/').map(encodeURIComponent).join('/');
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url} (${response.status} ${response.statusText})`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Fetches the root node and its direct children.
+ * @param {string} [baseUrl] - The chunk directory's URL, if not `TREE_BASE_URL`.
+ * @returns {Promise<KernelNode>} The root node.
+ */
+export const fetchRootNode = async (baseUrl?: string): Promise<KernelNode> =>
+  migrateTree(await fetchChunk<LegacyKernelNode | KernelNode>(ROOT_CHUNK_FILE, baseUrl));
+
+/**
+ * Fetches the children of a directory.
+ * @param {string} path - The directory path relative to the root, e.g. `kernel/sched/`.
+ * @param {string} [baseUrl] - The chunk directory's URL, if not `TREE_BASE_URL`.
+ * @returns {Promise<KernelNode[]>} The directory's children.
+ */
+export const fetchChildren = async (path: string, baseUrl?: string): Promise<KernelNode[]> =>
+  migrateNodes(await fetchChunk<(LegacyKernelNode | KernelNode)[]>(path + CHILDREN_CHUNK_FILE, baseUrl), path);
+
+/**
+ * Fetches the flat search index.
+ * @param {string} [baseUrl] - The chunk directory's URL, if not `TREE_BASE_URL`.
+ * @returns {Promise<SearchIndex>} The search index.
+ */
+export const fetchSearchIndex = (baseUrl?: string): Promise<SearchIndex> => fetchChunk<SearchIndex>(SEARCH_INDEX_FILE, baseUrl);
+
+/**
+ * Fetches the parsed MAINTAINERS sections.
+ * @param {string} [baseUrl] - The chunk directory's URL, if not `TREE_BASE_URL`.
+ * @returns {Promise<MaintainersData>} The sections.
+ */
+export const fetchMaintainers = (baseUrl?: string): Promise<MaintainersData> => fetchChunk<MaintainersData>(MAINTAINERS_FILE, baseUrl);
+
+/**
+ * Fetches the Kconfig symbols.
+ * @returns {Promise<KconfigData>} The symbols and the paths they control.
+ */
+export const fetchKconfig = (): Promise<KconfigData> => fetchChunk<KconfigData>(KCONFIG_FILE);
+
+/**
+ * Fetches the `#include` graph.
+ * @returns {Promise<IncludeGraphData>} The files and what each one includes.
+ */
+export const fetchIncludes = (): Promise<IncludeGraphData> => fetchChunk<IncludeGraphData>(INCLUDES_FILE);
+
+/**
+ * Fetches the index of code symbols.
+ * @returns {Promise<CodeSymbolData>} The files and the symbols defined or exported in them.
+ */
+export const fetchCodeSymbols = (): Promise<CodeSymbolData> => fetchChunk<CodeSymbolData>(SYMBOLS_FILE);
+
+/**
+ * Fetches the guided tours.
+ * @returns {Promise<TourCatalog>} The tours.
+ */
+export const fetchTours = (): Promise<TourCatalog> => fetchChunk<TourCatalog>(TOURS_FILE);
+
+/**
+ * Fetches the list of translations.
+ * @returns {Promise<LocaleManifest>} The locales and the locale of the tree's own text.
+ */
+export const fetchLocales = (): Promise<LocaleManifest> => fetchChunk<LocaleManifest>(LOCALES_FILE);
+
+/**
+ * Fetches the git history of the tree.
+ * @param {string} [baseUrl] - The chunk directory's URL, if not `TREE_BASE_URL`.
+ * @returns {Promise<HistoryData>} The history; empty if none was scanned.
+ */
+export const fetchHistory = (baseUrl?: string): Promise<HistoryData> => fetchChunk<HistoryData>(HISTORY_FILE, baseUrl);
+
+/**
+ * Fetches the translations of one locale.
+ * @param {LocaleInfo} locale - The locale, from the list.
+ * @returns {Promise<LocaleFile>} The translated interface strings and node text.
+ */
+export const fetchLocale = (locale: LocaleInfo): Promise<LocaleFile> => fetchChunk<LocaleFile>(locale.file);
+
+/**
+ * Fetches the list of snapshots.
+ * @returns {Promise<SnapshotManifest>} The snapshots.
+ */
+export const fetchSnapshots = (): Promise<SnapshotManifest> => fetchChunk<SnapshotManifest>(SNAPSHOTS_FILE);
+
+/**
+ * Fetches a whole snapshot.
+ * @param {SnapshotInfo} snapshot - The snapshot, from the list.
+ * @returns {Promise<KernelNode>} The snapshot's root, with every node loaded.
+ */
+export const fetchSnapshot = async (snapshot: SnapshotInfo): Promise<KernelNode> =>
+  migrateTree(await fetchChunk<LegacyKernelNode | KernelNode>(snapshot.file));
+
+/**
+ * Fetches the list of the dataset's files and its version.
+ * @returns {Promise<DatasetInfo>} The dataset's version and files.
+ */
+export const fetchDataset = (): Promise<DatasetInfo> => fetchChunk<DatasetInfo>(DATASET_FILE);
@@ -0,0 +1,198 @@
+/**
+ * The library build's entry (see `vite.embed.config.ts`): registers the `<kernel-tree>` element,
+ * which shows the tree and the detail panel inside another page, and exports the components
+ * for pages that render them with their own React.
+ *
+ *     <kernel-tree root-path="drivers/net/" dataset-url="https://example.org/tree/" search details></kernel-tree>
+ *
+ * Attributes:
+ * - `root-path`: the directory shown as the top of the tree, relative to the root; the whole tree if left out.
+ * - `selected`: the relative path of the selected node; kept up to date as the user selects nodes.
+ * - `dataset-url`: the folder the chunks are served from (what `build-chunks` writes to `public/tree/`).
+ * - `search`, `details`: show the search box and the detail panel.
+ *
+ * Events, which bubble out of the shadow root:
+ * - `kernel-tree-select`, with a `KernelTreeSelectDetail`, when the user selects a node.
+ * - `kernel-tree-expand`, with a `KernelTreeExpandDetail`, when the user expands or collapses a directory.
+ */
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import KernelTreeEmbed from './components/KernelTreeEmbed';
+import type { KernelNode } from './types';
+import embedStyles from './embed.css?inline';
+
+export { default as DetailPanel } from './components/DetailPanel';
+export { default as KernelTreeEmbed } from './components/KernelTreeEmbed';
+export { default as KernelVisualizer } from './components/KernelVisualizer';
+
+/** The components' styles, for a page that renders them into a shadow root of its own. */
+export const KERNEL_TREE_STYLES = embedStyles;
+
+/** The element's tag name. */
+export const KERNEL_TREE_TAG = 'kernel-tree';
+
+/** The event fired when the user selects a node. */
+export const SELECT_EVENT = 'kernel-tree-select';
+
+/** The event fired when the user expands or collapses a directory. */
+export const EXPAND_EVENT = 'kernel-tree-expand';
+
+/**
+ * The detail of a `kernel-tree-select` event.
+ */
+export interface KernelTreeSelectDetail {
+  /** The node's path relative to the root, e.g. `drivers/net/loopback.c`. */
+  path: string;
+  /** The selected node. */
+  node: KernelNode;
+}
+
+/**
+ * The detail of a `kernel-tree-expand` event.
+ */
+export interface KernelTreeExpandDetail {
+  /** The directory's path relative to the root, e.g. `drivers/net/ethernet/`. */
+  path: string;
+  /** Whether the directory is now expanded. */
+  expanded: boolean;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'kernel-tree': KernelTreeElement;
+  }
+}
+
+/**
+ * Custom properties are registered with `@property`, which has no effect inside a shadow root;
+ * Tailwind's shadows, rings and borders need them registered, so these rules go to the document.
+ */
+const PROPERTY_RULES = /@property\s+[^{]+\{[^}]*\}/g;
+
+/** Marks the document's style element holding the property rules, so it is added once. */
+const PROPERTY_STYLE_ATTRIBUTE = 'data-kernel-tree-properties';
+
+/**
+ * Adds the `@property` rules of the embed's styles to the document, unless an earlier
+ * element did. They only register Tailwind's own `--tw-*` properties, so the host is unaffected.
+ */
+const installPropertyRules = () => {
+  if (document.head.querySelector(`style[${PROPERTY_STYLE_ATTRIBUTE}]`)) {
+    return;
+  }
+  const style = document.createElement('style');
+  style.setAttribute(PROPERTY_STYLE_ATTRIBUTE, '');
+  style.textContent = (embedStyles.match(PROPERTY_RULES) ?? []).join('\n');
+  document.head.append(style);
+};
+
+/**
+ * Turns the `root-path` attribute into a directory path relative to the root.
+ * @param {string | null} value - The attribute, e.g. `drivers/net`, `/drivers/net/` or null.
+ * @returns {string} The directory's relative path, e.g. `drivers/net/`; `''` for the root.
+ */
+const toDirectoryPath = (value: string | null): string => {
+  const trimmed = (value ?? '').replace(/^\/+|\/+$/g, '');
+  return trimmed ? `${trimmed}/` : '';
+};
+
+/**
+ * Turns the `dataset-url` attribute into a folder URL that chunk paths are appended to.
+ * @param {string | null} value - The attribute, e.g. `https://example.org/tree`, or null.
+ * @returns {string | undefined} The URL ending with `/`, or undefined for the default folder.
+ */
+const toFolderUrl = (value: string | null): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  return value.endsWith('/') ? value : `${value}/`;
+};
+
+/**
+ * The `<kernel-tree>` element. It renders `KernelTreeEmbed` into an open shadow root together
+ * with its own copy of the styles, and re-renders it whenever an attribute changes.
+ */
+export class KernelTreeElement extends HTMLElement {
+  static observedAttributes = ['root-path', 'selected', 'dataset-url', 'search', 'details'];
+
+  private container: HTMLDivElement | null = null;
+  private reactRoot: ReactDOM.Root | null = null;
+
+  /** The relative path of the selected node, reflecting the `selected` attribute. */
+  get selected(): string | null {
+    return this.getAttribute('selected');
+  }
+
+  set selected(value: string | null) {
+    if (value === null) {
+      this.removeAttribute('selected');
+    } else {
+      this.setAttribute('selected', value);
+    }
+  }
+
+  connectedCallback() {
+    installPropertyRules();
+    if (!this.container) {
+      const shadow = this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = embedStyles;
+      this.container = document.createElement('div');
+      shadow.append(style, this.container);
+    }
+    this.reactRoot = ReactDOM.createRoot(this.container);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.reactRoot?.unmount();
+    this.reactRoot = null;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private handleSelect = (path: string, node: KernelNode) => {
+    this.selected = path;
+    this.dispatchEvent(new CustomEvent<KernelTreeSelectDetail>(SELECT_EVENT, {
+      detail: { path, node },
+      bubbles: true,
+      composed: true,
+    }));
+  };
+
+  private handleExpand = (path: string, expanded: boolean) => {
+    this.dispatchEvent(new CustomEvent<KernelTreeExpandDetail>(EXPAND_EVENT, {
+      detail: { path, expanded },
+      bubbles: true,
+      composed: true,
+    }));
+  };
+
+  private render() {
+    if (!this.reactRoot) {
+      return;
+    }
+    const datasetUrl = toFolderUrl(this.getAttribute('dataset-url'));
+    // The tree is loaded from one folder for the component's lifetime; another folder starts over.
+    this.reactRoot.render(
+      <React.StrictMode>
+        <KernelTreeEmbed
+          key={datasetUrl ?? ''}
+          rootPath={toDirectoryPath(this.getAttribute('root-path'))}
+          selected={this.getAttribute('selected')}
+          datasetUrl={datasetUrl}
+          showSearch={this.hasAttribute('search')}
+          showDetails={this.hasAttribute('details')}
+          onSelect={this.handleSelect}
+          onExpand={this.handleExpand}
+        />
+      </React.StrictMode>
+    );
+  }
+}
+
+if (!customElements.get(KERNEL_TREE_TAG)) {
+  customElements.define(KERNEL_TREE_TAG, KernelTreeElement);
+}
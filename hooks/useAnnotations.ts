@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  copyAnnotations,
+  isEmptyAnnotation,
+  mergeAnnotations,
+  normalizeTags,
+  parseAnnotationFile,
+  readAnnotations,
+  resolveConflict,
+  serializeAnnotations,
+  type AnnotationConflict,
+  type AnnotationMap,
+  type ConflictResolution,
+} from '../utils/annotations';
+import { downloadBlob } from '../utils/download';
+
+/** The localStorage key under which the annotations are saved. */
+const STORAGE_KEY = 'kernel-visualizer:annotations';
+
+/** The name offered when annotations are exported. */
+const EXPORT_FILE_NAME = 'kernel-annotations.json';
+
+/**
+ * The annotations and the operations on them, as returned by `useAnnotations`.
+ */
+export interface AnnotationControls {
+  /** The annotations by relative path. */
+  annotations: AnnotationMap;
+  /** Saves a node's note and tags; an empty note with no tags deletes the annotation. */
+  setAnnotation: (path: string, note: string, tags: string[]) => void;
+  /** Downloads every annotation as a JSON file. */
+  exportFile: () => void;
+  /** Merges an exported file into the annotations; resolves to a summary of what changed. */
+  importFile: (file: File) => Promise<string>;
+  /** The nodes whose imported notes differ from the current ones, from every import not yet resolved. */
+  conflicts: AnnotationConflict[];
+  /** Settles pending conflicts; with no paths, all of them. */
+  resolveConflicts: (resolution: ConflictResolution, paths?: string[]) => void;
+}
+
+/**
+ * Reads the saved annotations from localStorage.
+ * @returns {AnnotationMap} The saved annotations, or none.
+ */
+const loadAnnotations = (): AnnotationMap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved && typeof saved === 'object') {
+      return readAnnotations(saved);
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry; start without annotations.
+  }
+  return {};
+};
+
+/**
+ * Saves the annotations to localStorage.
+ * @param {AnnotationMap} annotations - The annotations to save.
+ */
+const saveAnnotations = (annotations: AnnotationMap) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(annotations));
+  } catch {
+    // Storage may be full or disabled; annotations last until the page is closed.
+  }
+};
+
+/**
+ * Holds the user's notes and tags, keyed by relative path and saved across reloads. Changes
+ * made in another tab are picked up. Importing a file merges it with the current annotations;
+ * nodes whose notes differ are kept as they are and listed as conflicts until resolved.
+ * @returns {AnnotationControls} The annotations and the operations on them.
+ */
+export const useAnnotations = (): AnnotationControls => {
+  const [annotations, setAnnotations] = useState(loadAnnotations);
+  const [conflicts, setConflicts] = useState<AnnotationConflict[]>([]);
+
+  useEffect(() => {
+    saveAnnotations(annotations);
+  }, [annotations]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) {
+        setAnnotations(loadAnnotations());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const setAnnotation = useCallback((path: string, note: string, tags: string[]) => {
+    setAnnotations(prev => {
+      const next = copyAnnotations(prev);
+      const annotation = { note, tags: normalizeTags(tags), updated: new Date().toISOString() };
+      if (isEmptyAnnotation(annotation)) {
+        delete next[path];
+      } else {
+        next[path] = annotation;
+      }
+      return next;
+    });
+    // Editing a node by hand settles its pending conflict.
+    setConflicts(prev => prev.filter(conflict => conflict.path !== path));
+  }, []);
+
+  const exportFile = useCallback(() => {
+    downloadBlob(new Blob([serializeAnnotations(annotations)], { type: 'application/json' }), EXPORT_FILE_NAME);
+  }, [annotations]);
+
+  const importFile = useCallback(async (file: File): Promise<string> => {
+    let incoming: AnnotationMap;
+    try {
+      incoming = parseAnnotationFile(await file.text());
+    } catch (err) {
+      throw new Error(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const result = mergeAnnotations(annotations, incoming);
+    setAnnotations(result.merged);
+    // Conflicts of earlier imports stay pending; a newer one for the same node replaces the older.
+    const paths = new Set(result.conflicts.map(conflict => conflict.path));
+    setConflicts(prev => [...prev.filter(conflict => !paths.has(conflict.path)), ...result.conflicts]);
+    const parts = [`${result.added} added`, `${result.updated} updated`];
+    if (result.conflicts.length > 0) {
+      parts.push(`${result.conflicts.length} in conflict`);
+    }
+    return `Imported ${file.name}: ${parts.join(', ')}.`;
+  }, [annotations]);
+
+  const resolveConflicts = useCallback((resolution: ConflictResolution, paths?: string[]) => {
+    const settled = conflicts.filter(conflict => !paths || paths.includes(conflict.path));
+    setAnnotations(prev => {
+      const next = copyAnnotations(prev);
+      settled.forEach(conflict => {
+        next[conflict.path] = resolveConflict(conflict, resolution);
+      });
+      return next;
+    });
+    setConflicts(prev => prev.filter(conflict => !settled.includes(conflict)));
+  }, [conflicts]);
+
+  return { annotations, setAnnotation, exportFile, importFile, conflicts, resolveConflicts };
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { parseKernelConfig, type KernelConfig } from '../utils/kernelConfig';
+
+/** The localStorage key under which the architecture, the filters and the loaded `.config` are saved. */
+const STORAGE_KEY = 'kernel-visualizer:build-config';
+
+/** How the directories of other architectures are shown: greyed out, or left out of the tree. */
+export type ArchMode = 'dim' | 'hide';
+
+/**
+ * The saved choices of the build configuration toolbar.
+ */
+interface BuildSettings {
+  /** The architecture directory under `arch/` to focus on, or null to treat all alike. */
+  arch: string | null;
+  archMode: ArchMode;
+  /** Show only what the loaded configuration builds. */
+  builtOnly: boolean;
+  config: KernelConfig | null;
+}
+
+/**
+ * The build configuration and the operations on it, as returned by `useBuildConfig`.
+ */
+export interface BuildConfigControls extends BuildSettings {
+  setArch: (arch: string | null) => void;
+  setArchMode: (mode: ArchMode) => void;
+  setBuiltOnly: (builtOnly: boolean) => void;
+  /** Reads a `.config` file and focuses on its architecture; rejects if it is not one. */
+  openFile: (file: File) => Promise<void>;
+  /** Forgets the loaded `.config`. */
+  clearConfig: () => void;
+  /** The error message if the last file could not be read. */
+  error: string | null;
+}
+
+const DEFAULT_SETTINGS: BuildSettings = { arch: null, archMode: 'dim', builtOnly: false, config: null };
+
+/**
+ * Reads the saved settings from localStorage.
+ * @returns {BuildSettings} The saved settings, or the defaults.
+ */
+const loadSettings = (): BuildSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved && typeof saved === 'object') {
+      return {
+        arch: typeof saved.arch === 'string' ? saved.arch : null,
+        archMode: saved.archMode === 'hide' ? 'hide' : 'dim',
+        builtOnly: saved.builtOnly === true,
+        config: saved.config && typeof saved.config.values === 'object' ? saved.config : null,
+      };
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry; start without a configuration.
+  }
+  return DEFAULT_SETTINGS;
+};
+
+/**
+ * Saves the settings to localStorage.
+ * @param {BuildSettings} settings - The settings to save.
+ */
+const saveSettings = (settings: BuildSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be full or disabled; the settings last until the page is closed.
+  }
+};
+
+/**
+ * Holds the architecture to focus on and the loaded `.config`, saved across reloads. Opening a
+ * configuration selects its architecture; "built only" needs a configuration and is turned off
+ * with it.
+ * @returns {BuildConfigControls} The settings and the operations on them.
+ */
+export const useBuildConfig = (): BuildConfigControls => {
+  const [settings, setSettings] = useState(loadSettings);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const setArch = useCallback((arch: string | null) => setSettings(prev => ({ ...prev, arch })), []);
+  const setArchMode = useCallback((archMode: ArchMode) => setSettings(prev => ({ ...prev, archMode })), []);
+  const setBuiltOnly = useCallback((builtOnly: boolean) => setSettings(prev => ({ ...prev, builtOnly: builtOnly && prev.config !== null })), []);
+
+  const openFile = useCallback(async (file: File) => {
+    let config: KernelConfig;
+    try {
+      config = parseKernelConfig(await file.text(), file.name);
+    } catch (err) {
+      const message = `Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`;
+      setError(message);
+      throw new Error(message);
+    }
+    setError(null);
+    setSettings(prev => ({ ...prev, config, arch: config.arch ?? prev.arch }));
+  }, []);
+
+  const clearConfig = useCallback(() => {
+    setError(null);
+    setSettings(prev => ({ ...prev, config: null, builtOnly: false }));
+  }, []);
+
+  return { ...settings, setArch, setArchMode, setBuiltOnly, openFile, clearConfig, error };
+};
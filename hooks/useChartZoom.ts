@@ -0,0 +1,57 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { KernelNode } from '../types';
+import { findNodePath } from '../utils/treeUtils';
+import { getAncestorPaths, splitPath } from '../utils/nodePath';
+
+/**
+ * The zoom state of a chart view, as returned by `useChartZoom`.
+ */
+export interface ChartZoom {
+  /** The node the chart is zoomed into. */
+  focus: KernelNode;
+  /** The canonical path of `focus`. */
+  focusPath: string;
+  /** The nodes from the root down to `focus`, for breadcrumbs. */
+  chain: KernelNode[];
+  /** Zooms into the directory at a canonical path. */
+  zoomTo: (path: string) => void;
+}
+
+/**
+ * Keeps track of which directory a chart is zoomed into. When the selection changes to a
+ * node the chart does not show (outside the zoomed directory, or more than `maxDepth` levels
+ * below it), the chart zooms to the selected directory, or the directory containing the selected file.
+ * @param {KernelNode} data - The root of the tree being drawn.
+ * @param {string | null} selectedPath - The canonical path of the selected node.
+ * @param {number} maxDepth - How many levels below the zoomed directory the chart draws.
+ * @returns {ChartZoom} The zoomed node and a setter.
+ */
+export const useChartZoom = (data: KernelNode, selectedPath: string | null, maxDepth: number): ChartZoom => {
+  const [zoomPath, setZoomPath] = useState(data.name);
+
+  useEffect(() => {
+    if (!selectedPath) {
+      return;
+    }
+    setZoomPath(current => {
+      const depthBelow = splitPath(selectedPath).length - splitPath(current).length;
+      if (selectedPath.startsWith(current) && depthBelow <= maxDepth) {
+        return current;
+      }
+      return selectedPath.endsWith('/') ? selectedPath : getAncestorPaths(selectedPath).pop() ?? data.name;
+    });
+  }, [selectedPath, maxDepth, data.name]);
+
+  // A zoomed directory may disappear from the data (e.g. filtered out by a search); use its deepest remaining ancestor.
+  const chain = useMemo(() => {
+    const found = findNodePath(data, zoomPath);
+    return found.length > 0 ? found : [data];
+  }, [data, zoomPath]);
+
+  return {
+    focus: chain[chain.length - 1],
+    focusPath: chain.map(node => node.name).join(''),
+    chain,
+    zoomTo: setZoomPath,
+  };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchCodeSymbols } from '../data/treeChunks';
+import { buildCodeSymbolIndex, type CodeSymbolIndex } from '../utils/codeSymbols';
+
+/**
+ * Loads the index of code symbols the first time it is needed.
+ * @param {boolean} needed - Whether the index is needed (e.g. a file is selected or symbols are searched).
+ * @returns {CodeSymbolIndex | null} The index, or null until it is loaded.
+ */
+export const useCodeSymbols = (needed: boolean): CodeSymbolIndex | null => {
+  const [index, setIndex] = useState<CodeSymbolIndex | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!needed || requested.current) {
+      return;
+    }
+    requested.current = true;
+    fetchCodeSymbols()
+      .then(data => setIndex(buildCodeSymbolIndex(data)))
+      .catch(() => {
+        // The index is optional information; allow a retry.
+        requested.current = false;
+      });
+  }, [needed]);
+
+  return index;
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+/**
+ * Tracks the content size of an element.
+ * @param {RefObject<HTMLElement | null>} ref - The element to measure.
+ * @returns {{ width: number, height: number }} The current size, in pixels; zero until measured.
+ */
+export const useElementSize = (ref: RefObject<HTMLElement | null>) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return;
+    }
+    const observer = new ResizeObserver(() => setSize({ width: element.clientWidth, height: element.clientHeight }));
+    setSize({ width: element.clientWidth, height: element.clientHeight });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+};
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getAncestorPaths } from '../utils/nodePath';
+
+/** The localStorage key under which the expansion outside a search is saved. */
+const STORAGE_KEY = 'kernel-visualizer:expansion';
+
+/** The default depth: only the root is expanded. */
+const COLLAPSED_DEPTH = 1;
+
+/**
+ * Which directories are expanded, keyed by canonical path.
+ * Directories shallower than `depth` are expanded by default; the two sets record the exceptions,
+ * so "expand to depth N" also applies to directories that have not been loaded yet.
+ */
+export interface ExpansionState {
+  /** Directories at a depth below this are expanded unless collapsed (0 is the root; `Infinity` expands everything). */
+  depth: number;
+  /** Directories at or below `depth` that the user expanded. */
+  expanded: Set<string>;
+  /** Directories above `depth` that the user collapsed. */
+  collapsed: Set<string>;
+}
+
+/**
+ * A directory to expand or collapse.
+ */
+export interface ExpansionTarget {
+  /** The canonical path of the directory. */
+  path: string;
+  /** The directory's depth; 0 for the root. */
+  depth: number;
+}
+
+/**
+ * The expansion of the tree and the operations on it, as returned by `useExpansionState`.
+ */
+export interface ExpansionControls {
+  /** Checks whether the directory at `path` and `depth` is expanded. */
+  isExpanded: (path: string, depth: number) => boolean;
+  /** Expands a collapsed directory or collapses an expanded one. */
+  toggle: (path: string, depth: number) => void;
+  /** Expands or collapses several directories at once. */
+  setExpanded: (targets: ExpansionTarget[], expanded: boolean) => void;
+  /** Expands every directory. */
+  expandAll: () => void;
+  /** Collapses everything below the root. */
+  collapseAll: () => void;
+  /** Expands the directories shallower than `depth` and collapses the rest. */
+  expandToDepth: (depth: number) => void;
+  /** Expands the ancestors of a node, both in the current view and in the view outside the search. */
+  reveal: (path: string) => void;
+}
+
+/**
+ * Creates an expansion with no exceptions.
+ * @param {number} depth - Directories shallower than this are expanded.
+ * @returns {ExpansionState} The new state.
+ */
+const createExpansion = (depth: number): ExpansionState => ({ depth, expanded: new Set(), collapsed: new Set() });
+
+/**
+ * Checks whether a directory is expanded in a state.
+ * @param {ExpansionState} state - The expansion state.
+ * @param {string} path - The canonical path of the directory.
+ * @param {number} depth - The directory's depth.
+ * @returns {boolean} True if the directory is expanded.
+ */
+const isExpandedIn = (state: ExpansionState, path: string, depth: number): boolean =>
+  depth < state.depth ? !state.collapsed.has(path) : state.expanded.has(path);
+
+/**
+ * Expands or collapses directories, returning a new state.
+ * @param {ExpansionState} state - The current state.
+ * @param {ExpansionTarget[]} targets - The directories to change.
+ * @param {boolean} expanded - True to expand, false to collapse.
+ * @returns {ExpansionState} The new state, or `state` itself if nothing changed.
+ */
+const withExpanded = (state: ExpansionState, targets: ExpansionTarget[], expanded: boolean): ExpansionState => {
+  const changed = targets.filter(({ path, depth }) => isExpandedIn(state, path, depth) !== expanded);
+  if (changed.length === 0) {
+    return state;
+  }
+  const next = { depth: state.depth, expanded: new Set(state.expanded), collapsed: new Set(state.collapsed) };
+  changed.forEach(({ path, depth }) => {
+    if (depth < state.depth) {
+      // Collapsing adds an exception; expanding removes it.
+      if (expanded) {
+        next.collapsed.delete(path);
+      } else {
+        next.collapsed.add(path);
+      }
+    } else if (expanded) {
+      next.expanded.add(path);
+    } else {
+      next.expanded.delete(path);
+    }
+  });
+  return next;
+};
+
+/**
+ * Reads the saved expansion from localStorage.
+ * @param {string | null} storageKey - The key it is saved under, or null if it is not saved.
+ * @returns {ExpansionState} The saved state, or everything collapsed if there is none.
+ */
+const loadExpansion = (storageKey: string | null): ExpansionState => {
+  try {
+    const saved = storageKey ? JSON.parse(localStorage.getItem(storageKey) ?? 'null') : null;
+    if (saved && Array.isArray(saved.expanded) && Array.isArray(saved.collapsed)) {
+      return {
+        // JSON has no Infinity; "expand all" is saved as null.
+        depth: typeof saved.depth === 'number' ? saved.depth : Infinity,
+        expanded: new Set(saved.expanded),
+        collapsed: new Set(saved.collapsed),
+      };
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry; start collapsed.
+  }
+  return createExpansion(COLLAPSED_DEPTH);
+};
+
+/**
+ * Saves the expansion to localStorage.
+ * @param {string} storageKey - The key to save it under.
+ * @param {ExpansionState} state - The state to save.
+ */
+const saveExpansion = (storageKey: string, state: ExpansionState) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify({
+      depth: Number.isFinite(state.depth) ? state.depth : null,
+      expanded: [...state.expanded],
+      collapsed: [...state.collapsed],
+    }));
+  } catch {
+    // Storage may be full or disabled (e.g. private browsing); expansion just won't persist.
+  }
+};
+
+/**
+ * Holds the expansion of the tree in one place, keyed by canonical path.
+ * The expansion outside a search is saved across reloads. While a search is active, a separate
+ * expansion (everything expanded by default) is used, so clearing the query restores the
+ * directories the user had opened before searching.
+ * @param {boolean} searchActive - Whether a search is active.
+ * @param {string | null} [storageKey] - The localStorage key the expansion is saved under; null
+ *   to keep it only in memory, e.g. in an embed that should not share the app's expansion.
+ * @returns {ExpansionControls} The current expansion and the operations on it.
+ */
+export const useExpansionState = (searchActive: boolean, storageKey: string | null = STORAGE_KEY): ExpansionControls => {
+  const [browseState, setBrowseState] = useState(() => loadExpansion(storageKey));
+  const [searchState, setSearchState] = useState(() => createExpansion(Infinity));
+
+  useEffect(() => {
+    if (storageKey) {
+      saveExpansion(storageKey, browseState);
+    }
+  }, [storageKey, browseState]);
+
+  // Every search starts with all matches expanded.
+  useEffect(() => {
+    if (searchActive) {
+      setSearchState(createExpansion(Infinity));
+    }
+  }, [searchActive]);
+
+  const state = searchActive ? searchState : browseState;
+  const setState = searchActive ? setSearchState : setBrowseState;
+
+  const isExpanded = useCallback((path: string, depth: number) => isExpandedIn(state, path, depth), [state]);
+
+  const toggle = useCallback((path: string, depth: number) => {
+    setState(prev => withExpanded(prev, [{ path, depth }], !isExpandedIn(prev, path, depth)));
+  }, [setState]);
+
+  const setExpanded = useCallback((targets: ExpansionTarget[], expanded: boolean) => {
+    setState(prev => withExpanded(prev, targets, expanded));
+  }, [setState]);
+
+  const expandToDepth = useCallback((depth: number) => setState(createExpansion(depth)), [setState]);
+  const expandAll = useCallback(() => expandToDepth(Infinity), [expandToDepth]);
+  const collapseAll = useCallback(() => expandToDepth(COLLAPSED_DEPTH), [expandToDepth]);
+
+  // A node selected during a search stays visible after the search is cleared.
+  const reveal = useCallback((path: string) => {
+    const ancestors = getAncestorPaths(path).map((ancestor, depth) => ({ path: ancestor, depth }));
+    setBrowseState(prev => withExpanded(prev, ancestors, true));
+    setSearchState(prev => withExpanded(prev, ancestors, true));
+  }, []);
+
+  return { isExpanded, toggle, setExpanded, expandAll, collapseAll, expandToDepth, reveal };
+};
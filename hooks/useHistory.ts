@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchHistory } from '../data/treeChunks';
+import { buildHistoryIndex, type HistoryIndex } from '../utils/history';
+
+/**
+ * Loads the git history the first time it is needed and indexes it.
+ * @param {boolean} needed - Whether the history is needed (e.g. a node is selected or the heatmap is on).
+ * @param {string} [baseUrl] - Where the chunks are served from, if not `TREE_BASE_URL`.
+ * @returns {HistoryIndex | null} The index, or null until it is loaded.
+ */
+export const useHistory = (needed: boolean, baseUrl?: string): HistoryIndex | null => {
+  const [index, setIndex] = useState<HistoryIndex | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!needed || requested.current) {
+      return;
+    }
+    requested.current = true;
+    fetchHistory(baseUrl)
+      .then(data => setIndex(buildHistoryIndex(data)))
+      .catch(() => {
+        // The history is optional information; allow a retry.
+        requested.current = false;
+      });
+  }, [needed]);
+
+  return index;
+};
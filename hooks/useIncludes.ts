@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchIncludes } from '../data/treeChunks';
+import { buildIncludeIndex, type IncludeIndex } from '../utils/includeGraph';
+
+/**
+ * Loads the `#include` graph the first time it is needed and indexes it in both directions.
+ * @param {boolean} needed - Whether the graph is needed (e.g. a node is selected or the graph view is shown).
+ * @returns {IncludeIndex | null} The index, or null until it is loaded.
+ */
+export const useIncludes = (needed: boolean): IncludeIndex | null => {
+  const [index, setIndex] = useState<IncludeIndex | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!needed || requested.current) {
+      return;
+    }
+    requested.current = true;
+    fetchIncludes()
+      .then(data => setIndex(buildIncludeIndex(data)))
+      .catch(() => {
+        // The graph is optional information; allow a retry.
+        requested.current = false;
+      });
+  }, [needed]);
+
+  return index;
+};
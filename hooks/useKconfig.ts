@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchKconfig } from '../data/treeChunks';
+import { buildKconfigIndex, type KconfigIndex } from '../utils/kconfig';
+
+/**
+ * Loads the Kconfig symbols the first time they are needed and indexes them.
+ * @param {boolean} needed - Whether the symbols are needed (e.g. a node is selected or a search is active).
+ * @returns {KconfigIndex | null} The index, or null until it is loaded.
+ */
+export const useKconfig = (needed: boolean): KconfigIndex | null => {
+  const [index, setIndex] = useState<KconfigIndex | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!needed || requested.current) {
+      return;
+    }
+    requested.current = true;
+    fetchKconfig()
+      .then(data => setIndex(buildKconfigIndex(data)))
+      .catch(() => {
+        // Like ownership, configuration is optional information; allow a retry.
+        requested.current = false;
+      });
+  }, [needed]);
+
+  return index;
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { KernelNode } from '../types';
+import { fetchChildren, fetchRootNode, fetchSearchIndex, type SearchIndex } from '../data/treeChunks';
+import { replaceChildren } from '../utils/treeUtils';
+import { toRelativePath } from '../utils/nodePath';
+
+/**
+ * The load state of a directory's children: still being fetched, or failed with an error message.
+ */
+export type ChildLoadStatus = { state: 'loading' } | { state: 'error'; message: string };
+
+/**
+ * The state and actions returned by `useKernelTree`.
+ */
+export interface KernelTreeState {
+  /** The root of the tree, with every directory loaded so far; null until the root chunk arrives. */
+  root: KernelNode | null;
+  /** The error message if the root chunk could not be loaded. */
+  rootError: string | null;
+  /** The load state of directories currently loading or failed, keyed by canonical path. */
+  childStatus: Record<string, ChildLoadStatus>;
+  /** Fetches the children of the directory at canonical `path`, unless they are already loading. */
+  loadChildren: (path: string) => void;
+  /** The search index, once loaded. */
+  searchIndex: SearchIndex | null;
+  /** The error message if the search index could not be loaded; search then covers the loaded part of the tree. */
+  searchIndexError: string | null;
+  /** Fetches the search index again after it failed. */
+  retrySearchIndex: () => void;
+}
+
+/**
+ * Loads the kernel tree chunk by chunk. The root is fetched on mount, each directory's
+ * children on request, and the search index the first time `needSearchIndex` is true. If the
+ * index fails, it is fetched again when `retrySearchIndex` is called or when it is next needed.
+ * @param {boolean} needSearchIndex - Whether the search index is needed (e.g. a search is active).
+ * @param {string} [baseUrl] - Where the chunks are served from, if not `TREE_BASE_URL`; fixed for the component's lifetime.
+ * @returns {KernelTreeState} The loaded tree and its load state.
+ */
+export const useKernelTree = (needSearchIndex: boolean, baseUrl?: string): KernelTreeState => {
+  const [root, setRoot] = useState<KernelNode | null>(null);
+  const [rootError, setRootError] = useState<string | null>(null);
+  const [childStatus, setChildStatus] = useState<Record<string, ChildLoadStatus>>({});
+  const [searchIndex, setSearchIndex] = useState<SearchIndex | null>(null);
+  const [searchIndexError, setSearchIndexError] = useState<string | null>(null);
+  const [searchIndexAttempt, setSearchIndexAttempt] = useState(0);
+  const inFlight = useRef(new Set<string>());
+  const searchIndexRequested = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRootNode(baseUrl)
+      .then(node => !cancelled && setRoot(node))
+      .catch((error: Error) => !cancelled && setRootError(error.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (!needSearchIndex || searchIndexRequested.current) {
+      return;
+    }
+    searchIndexRequested.current = true;
+    setSearchIndexError(null);
+    fetchSearchIndex(baseUrl)
+      .then(setSearchIndex)
+      .catch((error: Error) => {
+        // Without an index, search falls back to the loaded part of the tree until the next attempt.
+        searchIndexRequested.current = false;
+        setSearchIndexError(error.message);
+      });
+  }, [needSearchIndex, baseUrl, searchIndexAttempt]);
+
+  const retrySearchIndex = useCallback(() => setSearchIndexAttempt(attempt => attempt + 1), []);
+
+  const loadChildren = useCallback((path: string) => {
+    if (inFlight.current.has(path)) {
+      return;
+    }
+    inFlight.current.add(path);
+    setChildStatus(prev => ({ ...prev, [path]: { state: 'loading' } }));
+
+    fetchChildren(toRelativePath(path), baseUrl)
+      .then(children => {
+        setRoot(prev => (prev ? replaceChildren(prev, path, children) : prev));
+        setChildStatus(({ [path]: _done, ...rest }) => rest);
+      })
+      .catch((error: Error) => {
+        setChildStatus(prev => ({ ...prev, [path]: { state: 'error', message: error.message } }));
+      })
+      .finally(() => {
+        inFlight.current.delete(path);
+      });
+  }, [baseUrl]);
+
+  return { root, rootError, childStatus, loadChildren, searchIndex, searchIndexError, retrySearchIndex };
+};
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { fetchLocale, fetchLocales } from '../data/treeChunks';
+import { DEFAULT_LOCALE, mergeNodeTexts, type LocaleFile, type LocaleManifest, type NodeTextMap } from '../utils/locales';
+import { UI_STRINGS, type UiStringKey, type UiStrings } from '../utils/uiStrings';
+
+/** The localStorage key under which the chosen locale is saved. */
+const STORAGE_KEY = 'kernel-visualizer:locale';
+
+/** The name shown for English when no locale file lists it. */
+const DEFAULT_LOCALE_NAME = 'English';
+
+/**
+ * The active locale and its translations, as returned by `useLocale`.
+ */
+export interface LocaleState {
+  /** The active locale's code. */
+  locale: string;
+  /** Switches to another locale and remembers the choice. */
+  setLocale: (locale: string) => void;
+  /** The locales that can be chosen, by code and name. */
+  choices: { locale: string; name: string }[];
+  /** The locale the tree's own text is written in. */
+  textLocale: string;
+  /** Node text to show instead of the tree's, by relative path; empty when the tree's text is in the active locale. */
+  texts: NodeTextMap;
+  /** The active locale's node translations alone, without the English fallback, for the report of missing ones. */
+  ownTexts: NodeTextMap;
+  /** The interface strings, translated where the locale has them. */
+  strings: UiStrings;
+  /** The interface strings the active locale leaves in English. */
+  missingStrings: UiStringKey[];
+  /** The error message if the list of locales or a locale file could not be loaded. */
+  error: string | null;
+}
+
+/**
+ * Reads the saved locale, else the browser's language.
+ * @returns {string} The locale code.
+ */
+const loadLocale = (): string => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return saved;
+    }
+  } catch {
+    // Unavailable storage; use the browser's language.
+  }
+  return navigator.language || DEFAULT_LOCALE;
+};
+
+/**
+ * Chooses the locale to use for a requested one: itself if it can be chosen, else its
+ * language without the region (`pt` for `pt-BR`), else English.
+ * @param {string} requested - The requested locale.
+ * @param {string[]} available - The locales that can be chosen.
+ * @returns {string} The locale to use.
+ */
+const resolveLocale = (requested: string, available: string[]): string => {
+  const lower = requested.toLowerCase();
+  const language = lower.split('-')[0];
+  return available.find(locale => locale.toLowerCase() === lower)
+    ?? available.find(locale => locale.toLowerCase() === language)
+    ?? DEFAULT_LOCALE;
+};
+
+/**
+ * Holds the interface language. The list of locales is loaded on mount, then the files the
+ * active locale needs: its own and, unless the tree is written in English, the English one
+ * that backs up its missing node text. The choice is saved across reloads; until one is
+ * made, the browser's language is used if there is a locale for it.
+ * @returns {LocaleState} The active locale and its translations.
+ */
+export const useLocale = (): LocaleState => {
+  const [requested, setRequested] = useState(loadLocale);
+  const [manifest, setManifest] = useState<LocaleManifest | null>(null);
+  const [files, setFiles] = useState<Record<string, LocaleFile>>({});
+  const [error, setError] = useState<string | null>(null);
+  const pending = useRef(new Set<string>());
+
+  useEffect(() => {
+    fetchLocales()
+      .then(setManifest)
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  const textLocale = manifest?.textLocale ?? DEFAULT_LOCALE;
+  const choices = useMemo(() => {
+    const listed = (manifest?.locales ?? []).map(({ locale, name }) => ({ locale, name }));
+    // English and the tree's own language need no file to be shown.
+    [DEFAULT_LOCALE, textLocale].forEach(locale => {
+      if (!listed.some(choice => choice.locale === locale)) {
+        listed.push({ locale, name: locale === DEFAULT_LOCALE ? DEFAULT_LOCALE_NAME : locale });
+      }
+    });
+    return listed.sort((a, b) => a.locale.localeCompare(b.locale));
+  }, [manifest, textLocale]);
+  const locale = manifest ? resolveLocale(requested, choices.map(choice => choice.locale)) : DEFAULT_LOCALE;
+
+  useEffect(() => {
+    if (!manifest) {
+      return;
+    }
+    const needed = [locale];
+    if (locale !== DEFAULT_LOCALE && textLocale !== DEFAULT_LOCALE) {
+      needed.push(DEFAULT_LOCALE);
+    }
+    needed.forEach(code => {
+      const info = manifest.locales.find(entry => entry.locale === code);
+      if (!info || files[code] || pending.current.has(code)) {
+        return;
+      }
+      pending.current.add(code);
+      fetchLocale(info)
+        .then(file => setFiles(prev => ({ ...prev, [code]: file })))
+        .catch((err: Error) => setError(err.message))
+        // A failed file is requested again when the locale is next chosen.
+        .finally(() => pending.current.delete(code));
+    });
+  }, [manifest, locale, textLocale, files]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: string) => {
+    setRequested(next);
+    setError(null);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage may be full or disabled; the choice lasts until the page is closed.
+    }
+  }, []);
+
+  const ownTexts = useMemo(() => files[locale]?.nodes ?? {}, [files, locale]);
+  const texts = useMemo(() => {
+    if (locale === textLocale) {
+      return {};
+    }
+    const fallback = locale !== DEFAULT_LOCALE && textLocale !== DEFAULT_LOCALE ? files[DEFAULT_LOCALE]?.nodes ?? {} : {};
+    return mergeNodeTexts(ownTexts, fallback);
+  }, [files, locale, textLocale, ownTexts]);
+  const strings = useMemo(() => ({ ...UI_STRINGS, ...files[locale]?.strings }), [files, locale]);
+  const missingStrings = useMemo(
+    () => (locale === DEFAULT_LOCALE ? [] : (Object.keys(UI_STRINGS) as UiStringKey[]).filter(key => !files[locale]?.strings[key])),
+    [files, locale],
+  );
+
+  return { locale, setLocale, choices, textLocale, texts, ownTexts, strings, missingStrings, error };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react';
+import { fetchMaintainers } from '../data/treeChunks';
+import type { MaintainerSection } from '../utils/maintainers';
+
+/**
+ * Loads the parsed MAINTAINERS sections the first time they are needed.
+ * @param {boolean} needed - Whether the sections are needed (e.g. a node is selected).
+ * @param {string} [baseUrl] - Where the chunks are served from, if not `TREE_BASE_URL`.
+ * @returns {MaintainerSection[] | null} The sections, or null until they are loaded.
+ */
+export const useMaintainers = (needed: boolean, baseUrl?: string): MaintainerSection[] | null => {
+  const [sections, setSections] = useState<MaintainerSection[] | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!needed || requested.current) {
+      return;
+    }
+    requested.current = true;
+    fetchMaintainers(baseUrl)
+      .then(data => setSections(data.sections))
+      .catch(() => {
+        // Ownership is optional information; allow a retry the next time it is needed.
+        requested.current = false;
+      });
+  }, [needed]);
+
+  return sections;
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchDataset, type DatasetInfo } from '../data/treeChunks';
+
+/** The service worker built from `serviceWorker.ts`, next to the page. */
+const SERVICE_WORKER_URL = 'sw.js';
+
+/** The message that lets a waiting service worker take over; `serviceWorker.ts` repeats this. */
+const SKIP_WAITING_MESSAGE = 'skip-waiting';
+
+/**
+ * Whether the app can work offline and what it shows, as returned by `useOfflineStatus`.
+ */
+export interface OfflineStatus {
+  /** Whether the browser reports a network connection. */
+  online: boolean;
+  /** Whether the service worker has cached the app and the dataset. */
+  offlineReady: boolean;
+  /** Whether a newer build or dataset has been cached and waits for the page to reload. */
+  updateReady: boolean;
+  /** The version of the dataset being shown, or null until it is loaded. */
+  dataset: DatasetInfo | null;
+  /** Lets the waiting version take over and reloads the page with it. */
+  applyUpdate: () => void;
+}
+
+/**
+ * Registers the service worker of a production build and follows it: whether the app and its
+ * dataset are cached for offline use, and whether a newer version is waiting. A waiting version
+ * takes over only when `applyUpdate` is called, so a page never mixes chunks of two datasets.
+ * Also reports the connection and the version of the dataset shown.
+ * @returns {OfflineStatus} The status.
+ */
+export const useOfflineStatus = (): OfflineStatus => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [offlineReady, setOfflineReady] = useState(false);
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [updateReady, setUpdateReady] = useState(false);
+  const [dataset, setDataset] = useState<DatasetInfo | null>(null);
+  const updating = useRef(false);
+
+  useEffect(() => {
+    const handleChange = () => setOnline(navigator.onLine);
+    window.addEventListener('online', handleChange);
+    window.addEventListener('offline', handleChange);
+    return () => {
+      window.removeEventListener('online', handleChange);
+      window.removeEventListener('offline', handleChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    fetchDataset()
+      .then(setDataset)
+      .catch(() => {
+        // Older chunk folders have no dataset list; the version is then not shown.
+      });
+  }, []);
+
+  useEffect(() => {
+    // The dev server serves no worker, and caching its modules would hide edits.
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+      return;
+    }
+    const { serviceWorker } = navigator;
+    const handleControllerChange = () => {
+      if (updating.current) {
+        window.location.reload();
+      }
+    };
+    serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    serviceWorker.ready.then(() => setOfflineReady(true));
+    serviceWorker.register(SERVICE_WORKER_URL)
+      .then(registered => {
+        setRegistration(registered);
+        // Only a worker installed while another one controls the page is an update.
+        const watch = (worker: ServiceWorker | null) => {
+          worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed' && serviceWorker.controller) {
+              setUpdateReady(true);
+            }
+          });
+        };
+        if (registered.waiting && serviceWorker.controller) {
+          setUpdateReady(true);
+        }
+        watch(registered.installing);
+        registered.addEventListener('updatefound', () => watch(registered.installing));
+      })
+      .catch(() => {
+        // Without a worker the app still works online.
+      });
+    return () => serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (registration?.waiting) {
+      updating.current = true;
+      registration.waiting.postMessage(SKIP_WAITING_MESSAGE);
+    }
+  }, [registration]);
+
+  return { online, offlineReady, updateReady, dataset, applyUpdate };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { fetchSourceFile } from '../data/kernelSource';
+
+/**
+ * The state returned by `useSourceFile`.
+ */
+export interface SourceFileState {
+  /** The file's text, once loaded. */
+  text: string | null;
+  /** The error message if the file could not be loaded. */
+  error: string | null;
+  /** True while the file is being fetched. */
+  loading: boolean;
+}
+
+/**
+ * Loads a file's text from the kernel checkout served by the dev server. A request still
+ * running when another file is asked for is aborted.
+ * @param {string | null} relativePath - The file's path relative to the root, or null for none.
+ * @returns {SourceFileState} The text or the error.
+ */
+export const useSourceFile = (relativePath: string | null): SourceFileState => {
+  const [state, setState] = useState<SourceFileState>({ text: null, error: null, loading: false });
+
+  useEffect(() => {
+    if (relativePath === null) {
+      setState({ text: null, error: null, loading: false });
+      return;
+    }
+    const controller = new AbortController();
+    setState({ text: null, error: null, loading: true });
+    fetchSourceFile(relativePath, controller.signal)
+      .then(text => setState({ text, error: null, loading: false }))
+      .catch((error: Error) => {
+        if (!controller.signal.aborted) {
+          setState({ text: null, error: error.message, loading: false });
+        }
+      });
+    return () => controller.abort();
+  }, [relativePath]);
+
+  return state;
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { fetchTours } from '../data/treeChunks';
+import { parseTour, type Tour } from '../utils/tours';
+
+/**
+ * The tours and the actions on them, as returned by `useTours`.
+ */
+export interface ToursState {
+  /** The built-in tours followed by those opened from files, or null until the list is loaded. */
+  tours: Tour[] | null;
+  /** The error message if the list or an opened file could not be read. */
+  error: string | null;
+  /** Reads a tour from a local file and adds it to the list; resolves to the tour. */
+  openFile: (file: File) => Promise<Tour>;
+  /** Fetches the list again after it failed. */
+  retryList: () => void;
+}
+
+/**
+ * Loads the guided tours the first time they are needed. Tours opened from files are kept
+ * for the session; one with the id of a listed tour replaces it.
+ * @param {boolean} needed - Whether the tours are needed (e.g. the list of tours is shown).
+ * @returns {ToursState} The tours.
+ */
+export const useTours = (needed: boolean): ToursState => {
+  const [listed, setListed] = useState<Tour[] | null>(null);
+  const [opened, setOpened] = useState<Tour[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [listAttempt, setListAttempt] = useState(0);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!needed || requested.current) {
+      return;
+    }
+    requested.current = true;
+    setError(null);
+    fetchTours()
+      .then(catalog => setListed(catalog.tours))
+      .catch((err: Error) => {
+        // Tours opened from files still work without the list until the next attempt.
+        setError(err.message);
+        requested.current = false;
+      });
+  }, [needed, listAttempt]);
+
+  const retryList = useCallback(() => setListAttempt(attempt => attempt + 1), []);
+
+  const openFile = useCallback(async (file: File): Promise<Tour> => {
+    try {
+      const tour = parseTour(JSON.parse(await file.text()), file.name.replace(/\.json$/i, ''));
+      setOpened(prev => [...prev.filter(t => t.id !== tour.id), tour]);
+      setError(null);
+      return tour;
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      throw err;
+    }
+  }, []);
+
+  const tours = useMemo(
+    () => (listed || opened.length > 0 ? [...(listed ?? []).filter(tour => !opened.some(t => t.id === tour.id)), ...opened] : null),
+    [listed, opened],
+  );
+
+  return { tours, error, openFile, retryList };
+};
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { KernelNode, LegacyKernelNode } from '../types';
+import { fetchSnapshot, fetchSnapshots, type SnapshotInfo } from '../data/treeChunks';
+import { migrateTree } from '../utils/migrateTree';
+import { diffTrees, type TreeDiff } from '../utils/treeDiff';
+
+/** The version name of the tree the app is showing, as opposed to a snapshot. */
+export const CURRENT_VERSION = 'current';
+
+/**
+ * Starts the version name of a tree opened from a file, so it cannot be taken for the current
+ * tree or a listed snapshot; the rest is the file name, with a number if it was opened before.
+ */
+export const OPENED_VERSION_PREFIX = 'opened:';
+
+/**
+ * The state and actions returned by `useTreeDiff`.
+ */
+export interface TreeDiffState {
+  /** The versions that can be compared: the listed snapshots, opened files, then the current tree. */
+  versions: string[];
+  /** The comparison of the two chosen versions, once both are loaded. */
+  diff: TreeDiff | null;
+  /** True while a chosen snapshot is being fetched. */
+  loading: boolean;
+  /** The error message if a snapshot could not be loaded. */
+  error: string | null;
+  /** The error message if the list of snapshots could not be loaded. */
+  listError: string | null;
+  /** Reads a tree written by `import-tree` from a local file; resolves to its version name. */
+  openFile: (file: File) => Promise<string>;
+  /** Fetches the list of snapshots again after it failed. */
+  retryList: () => void;
+}
+
+/**
+ * Loads snapshots of other kernel versions and compares two of them. The list of snapshots
+ * is fetched the first time `enabled` is true, and each snapshot the first time it is chosen.
+ * @param {boolean} enabled - Whether the comparison is shown.
+ * @param {string | null} before - The older version, or null if none is chosen yet.
+ * @param {string | null} after - The newer version, or null if none is chosen yet.
+ * @param {KernelNode | null} current - The whole tree the app is showing, used for `CURRENT_VERSION`; null until the search index is loaded.
+ * @returns {TreeDiffState} The versions and the comparison.
+ */
+export const useTreeDiff = (enabled: boolean, before: string | null, after: string | null, current: KernelNode | null): TreeDiffState => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [trees, setTrees] = useState<Record<string, KernelNode>>({});
+  const [loading, setLoading] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [listAttempt, setListAttempt] = useState(0);
+  const listRequested = useRef(false);
+  const inFlight = useRef(new Set<string>());
+  const openedVersions = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled || listRequested.current) {
+      return;
+    }
+    listRequested.current = true;
+    setListError(null);
+    fetchSnapshots()
+      .then(manifest => setSnapshots(manifest.snapshots))
+      .catch((err: Error) => {
+        // Without a list, only the current tree and opened files can be compared until the next attempt.
+        listRequested.current = false;
+        setListError(err.message);
+      });
+  }, [enabled, listAttempt]);
+
+  const retryList = useCallback(() => setListAttempt(attempt => attempt + 1), []);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    [before, after].forEach(version => {
+      const snapshot = snapshots.find(s => s.label === version);
+      if (!snapshot || trees[snapshot.label] || inFlight.current.has(snapshot.label)) {
+        return;
+      }
+      inFlight.current.add(snapshot.label);
+      setLoading(count => count + 1);
+      setError(null);
+      fetchSnapshot(snapshot)
+        .then(tree => setTrees(prev => ({ ...prev, [snapshot.label]: tree })))
+        .catch((err: Error) => setError(err.message))
+        .finally(() => {
+          inFlight.current.delete(snapshot.label);
+          setLoading(count => count - 1);
+        });
+    });
+  }, [enabled, before, after, snapshots, trees]);
+
+  const openFile = useCallback(async (file: File): Promise<string> => {
+    const name = file.name.replace(/\.json$/i, '');
+    let version = OPENED_VERSION_PREFIX + name;
+    try {
+      const tree = migrateTree(JSON.parse(await file.text()) as LegacyKernelNode | KernelNode);
+      for (let copy = 2; openedVersions.current.has(version); copy++) {
+        version = `${OPENED_VERSION_PREFIX}${name} (${copy})`;
+      }
+      openedVersions.current.add(version);
+      setTrees(prev => ({ ...prev, [version]: tree }));
+      setError(null);
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      throw err;
+    }
+    return version;
+  }, []);
+
+  const versions = useMemo(() => {
+    const listed = snapshots.map(s => s.label);
+    const opened = Object.keys(trees).filter(version => version.startsWith(OPENED_VERSION_PREFIX));
+    return [...listed, ...opened, CURRENT_VERSION];
+  }, [snapshots, trees]);
+
+  const diff = useMemo(() => {
+    const resolve = (version: string | null) => (version === CURRENT_VERSION ? current : version ? trees[version] : undefined);
+    const beforeTree = resolve(before);
+    const afterTree = resolve(after);
+    return enabled && beforeTree && afterTree ? diffTrees(beforeTree, afterTree) : null;
+  }, [enabled, before, after, trees, current]);
+
+  return { versions, diff, loading: loading > 0, error, listError, openFile, retryList };
+};
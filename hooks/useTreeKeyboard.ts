@@ -0,0 +1,143 @@
+import { useCallback, useRef, type KeyboardEvent } from 'react';
+import type { FlatTreeRow } from '../utils/flattenTree';
+
+/** How long typed characters are combined into one type-ahead search, in milliseconds. */
+const TYPE_AHEAD_TIMEOUT = 500;
+
+/**
+ * Callbacks the keyboard handler uses to act on the tree.
+ */
+export interface TreeKeyboardActions {
+  /** Moves focus to the row at `index`. */
+  focusRow: (index: number) => void;
+  /** Expands or collapses the directories on the given rows. */
+  setExpanded: (rows: FlatTreeRow[], expanded: boolean) => void;
+  /** Activates a row, as a click would (select, and toggle a directory). */
+  activate: (row: FlatTreeRow) => void;
+  /** Selects a row without toggling it. */
+  select: (row: FlatTreeRow) => void;
+}
+
+/**
+ * Implements the WAI-ARIA treeview keyboard pattern over flattened rows:
+ * Up/Down move between visible rows, Right expands or enters a directory, Left collapses or
+ * goes to the parent, Home/End jump to the first/last row, `*` expands all siblings,
+ * Enter activates, Space selects, and typing letters jumps to the next matching name.
+ * @param {FlatTreeRow[]} rows - The visible rows.
+ * @param {number} focusedIndex - The index of the focused row, or -1.
+ * @param {TreeKeyboardActions} actions - Callbacks that change focus, expansion and selection.
+ * @returns {(event: KeyboardEvent) => void} The `onKeyDown` handler for the tree element.
+ */
+export const useTreeKeyboard = (rows: FlatTreeRow[], focusedIndex: number, actions: TreeKeyboardActions) => {
+  const typeAhead = useRef({ text: '', timestamp: 0 });
+
+  return useCallback((event: KeyboardEvent) => {
+    // Only handle keys pressed on a row, not on controls inside rows (e.g. a Retry button).
+    if (event.altKey || event.ctrlKey || event.metaKey || (event.target as HTMLElement).getAttribute('role') !== 'treeitem') {
+      return;
+    }
+    const current = rows[focusedIndex];
+    if (!current) {
+      return;
+    }
+
+    // Status rows (loading/error) are skipped when moving focus.
+    const findNode = (from: number, step: 1 | -1): number => {
+      for (let i = from; i >= 0 && i < rows.length; i += step) {
+        if (rows[i].type === 'node') {
+          return i;
+        }
+      }
+      return -1;
+    };
+    const move = (index: number) => {
+      if (index >= 0) {
+        actions.focusRow(index);
+      }
+    };
+
+    let handled = true;
+    switch (event.key) {
+      case 'ArrowDown':
+        move(findNode(focusedIndex + 1, 1));
+        break;
+      case 'ArrowUp':
+        move(findNode(focusedIndex - 1, -1));
+        break;
+      case 'Home':
+        move(findNode(0, 1));
+        break;
+      case 'End':
+        move(findNode(rows.length - 1, -1));
+        break;
+      case 'ArrowRight':
+        if (current.isDirectory && !current.isExpanded) {
+          actions.setExpanded([current], true);
+        } else if (current.isExpanded) {
+          const child = rows[focusedIndex + 1];
+          if (child?.type === 'node' && child.depth === current.depth + 1) {
+            actions.focusRow(focusedIndex + 1);
+          }
+        }
+        break;
+      case 'ArrowLeft':
+        if (current.isExpanded) {
+          actions.setExpanded([current], false);
+        } else {
+          for (let i = focusedIndex - 1; i >= 0; i--) {
+            if (rows[i].depth < current.depth) {
+              actions.focusRow(i);
+              break;
+            }
+          }
+        }
+        break;
+      case 'Enter':
+        actions.activate(current);
+        break;
+      case ' ':
+        actions.select(current);
+        break;
+      case '*': {
+        // Siblings are the rows at the same depth up to the parent in both directions.
+        let first = focusedIndex;
+        while (first > 0 && rows[first - 1].depth >= current.depth) {
+          first--;
+        }
+        let last = focusedIndex;
+        while (last < rows.length - 1 && rows[last + 1].depth >= current.depth) {
+          last++;
+        }
+        const siblings = rows
+          .slice(first, last + 1)
+          .filter(row => row.type === 'node' && row.depth === current.depth && row.isDirectory && !row.isExpanded);
+        actions.setExpanded(siblings, true);
+        break;
+      }
+      default:
+        if (event.key.length === 1 && /\S/.test(event.key)) {
+          const now = Date.now();
+          const state = typeAhead.current;
+          state.text = now - state.timestamp > TYPE_AHEAD_TIMEOUT ? event.key.toLowerCase() : state.text + event.key.toLowerCase();
+          state.timestamp = now;
+          // A repeated single letter cycles through matches; a longer prefix may stay on the current row.
+          const startOffset = state.text.length === 1 ? 1 : 0;
+          for (let offset = startOffset; offset < rows.length + startOffset; offset++) {
+            const index = (focusedIndex + offset) % rows.length;
+            const row = rows[index];
+            if (row.type === 'node' && row.node.name.toLowerCase().startsWith(state.text)) {
+              actions.focusRow(index);
+              break;
+            }
+          }
+        } else {
+          handled = false;
+        }
+    }
+
+    if (handled) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }, [rows, focusedIndex, actions]);
+};
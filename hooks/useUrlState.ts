@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+/**
+ * A range of lines in a source file, 1-based and inclusive.
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** What the search box searches: the tree, or the index of functions, structures, system calls and exports. */
+export type SearchMode = 'tree' | 'symbols';
+
+/**
+ * The part of the app state that is mirrored in the URL hash, e.g. `#/kernel/sched/fair.c?q=cfs`,
+ * `#/kernel/bpf/?sym=BPF_SYSCALL`, `#?q=schedule&mode=symbols` or `#/kernel/fork.c#L120-L135`.
+ */
+export interface UrlState {
+  /** The selected node's path relative to the root (`''` for the root), or null if nothing is selected. */
+  path: string | null;
+  /** The search term; empty if no search is active. */
+  query: string;
+  /** What the search term is looked up in. */
+  mode: SearchMode;
+  /** The Kconfig symbol whose page is open (without `CONFIG_`), or null. */
+  symbol: string | null;
+  /** The highlighted lines of the selected file's source, written as `#L120` or `#L120-L135` at the end, or null. */
+  lines: LineRange | null;
+}
+
+/** A line anchor at the end of the hash: `#L120` or `#L120-L135`. */
+const LINE_ANCHOR = /#L(\d+)(?:-L?(\d+))?$/;
+
+/**
+ * Parses a URL hash such as `#/kernel/sched/fair.c?q=cfs#L42`.
+ * @param {string} hash - The hash, with or without the leading `#`.
+ * @returns {UrlState} The selected path, search term and mode, symbol and lines.
+ */
+export const parseHash = (hash: string): UrlState => {
+  let raw = hash.replace(/^#/, '');
+  let lines: LineRange | null = null;
+  const anchor = raw.match(LINE_ANCHOR);
+  if (anchor) {
+    const [first, last] = [Number(anchor[1]), Number(anchor[2] ?? anchor[1])];
+    lines = first > 0 ? { start: Math.min(first, last), end: Math.max(first, last) } : null;
+    raw = raw.slice(0, anchor.index);
+  }
+  const queryStart = raw.indexOf('?');
+  const pathPart = queryStart >= 0 ? raw.slice(0, queryStart) : raw;
+  const params = new URLSearchParams(queryStart >= 0 ? raw.slice(queryStart + 1) : '');
+
+  let path: string | null = null;
+  if (pathPart.startsWith('/')) {
+    try {
+      path = decodeURIComponent(pathPart.slice(1));
+    } catch {
+      path = pathPart.slice(1);
+    }
+  }
+  const mode: SearchMode = params.get('mode') === 'symbols' ? 'symbols' : 'tree';
+  return { path, query: params.get('q') ?? '', mode, symbol: params.get('sym'), lines };
+};
+
+/**
+ * Builds the URL hash for a selected path, search term and mode, symbol and lines.
+ * @param {UrlState} state - The state to encode.
+ * @returns {string} The hash including the leading `#`, or an empty string for the default state.
+ */
+export const buildHash = ({ path, query, mode, symbol, lines }: UrlState): string => {
+  const pathPart = path === null ? '' : `/${path.split('/').map(encodeURIComponent).join('/')}`;
+  const params = new URLSearchParams();
+  if (query) {
+    params.set('q', query);
+  }
+  if (mode !== 'tree') {
+    params.set('mode', mode);
+  }
+  if (symbol) {
+    params.set('sym', symbol);
+  }
+  const search = params.toString();
+  const anchor = lines && path !== null ? (lines.start === lines.end ? `#L${lines.start}` : `#L${lines.start}-L${lines.end}`) : '';
+  const hash = pathPart + (search ? `?${search}` : '') + anchor;
+  return hash ? `#${hash}` : '';
+};
+
+/**
+ * Where the current entry sits in the app's part of the browser history.
+ */
+interface HistoryPosition {
+  /** The index of the current entry, 0 for the page the app was opened on. */
+  index: number;
+  /** The index of the newest entry, so that forward is known to be possible. */
+  last: number;
+}
+
+/**
+ * Back and forward through the selections, as returned by `useUrlState`.
+ */
+export interface Navigation {
+  canGoBack: boolean;
+  canGoForward: boolean;
+  back: () => void;
+  forward: () => void;
+}
+
+/**
+ * Options of an update to the URL state.
+ */
+export interface UrlUpdateOptions {
+  /** Replace the current history entry even if the selection changes, e.g. to normalize a link. */
+  replace?: boolean;
+}
+
+/**
+ * Reads the position saved in the current history entry, if the app wrote one.
+ * @returns {HistoryPosition | null} The position, or null for an entry the app has not seen.
+ */
+const readPosition = (): HistoryPosition | null => {
+  const state = window.history.state as Partial<HistoryPosition> | null;
+  return state && typeof state.index === 'number' ? { index: state.index, last: Math.max(state.index, state.last ?? 0) } : null;
+};
+
+/**
+ * Keeps the selected path, search term, symbol and lines in sync with the URL hash, so any view can be
+ * shared as a link. Selecting another node pushes a history entry, so the browser's back and
+ * forward buttons step through the selections; other updates (typing a search, highlighting
+ * lines) replace the current entry. Edits to the hash (e.g. a pasted link) are picked up through
+ * `hashchange` and count as a new entry.
+ * @returns {[UrlState, (state: UrlState, options?: UrlUpdateOptions) => void, Navigation]} The current state, a setter and back and forward.
+ */
+export const useUrlState = (): [UrlState, (state: UrlState, options?: UrlUpdateOptions) => void, Navigation] => {
+  const [state, setState] = useState<UrlState>(() => parseHash(window.location.hash));
+  const [position, setPosition] = useState<HistoryPosition>(() => readPosition() ?? { index: 0, last: 0 });
+  const positionRef = useRef(position);
+  const stateRef = useRef(state);
+
+  const savePosition = useCallback((next: HistoryPosition) => {
+    positionRef.current = next;
+    setPosition(next);
+    window.history.replaceState(next, '');
+  }, []);
+
+  useEffect(() => {
+    savePosition(positionRef.current);
+    // Going back or forward lands on an entry the app wrote; a hash typed by hand lands on a new one.
+    const handleNavigation = () => {
+      const next = parseHash(window.location.hash);
+      stateRef.current = next;
+      setState(next);
+      const saved = readPosition();
+      if (saved) {
+        positionRef.current = { index: saved.index, last: Math.max(saved.last, positionRef.current.last) };
+        setPosition(positionRef.current);
+      } else {
+        const index = positionRef.current.index + 1;
+        savePosition({ index, last: index });
+      }
+    };
+    window.addEventListener('popstate', handleNavigation);
+    window.addEventListener('hashchange', handleNavigation);
+    return () => {
+      window.removeEventListener('popstate', handleNavigation);
+      window.removeEventListener('hashchange', handleNavigation);
+    };
+  }, [savePosition]);
+
+  const update = useCallback((next: UrlState, options: UrlUpdateOptions = {}) => {
+    const previous = stateRef.current;
+    stateRef.current = next;
+    setState(next);
+    const hash = buildHash(next);
+    if (hash === window.location.hash) {
+      return;
+    }
+    const url = hash || window.location.pathname + window.location.search;
+    if (!options.replace && next.path !== null && next.path !== previous.path) {
+      // A new selection drops the entries ahead of this one, as in the browser.
+      const index = positionRef.current.index + 1;
+      positionRef.current = { index, last: index };
+      setPosition(positionRef.current);
+      window.history.pushState(positionRef.current, '', url);
+    } else {
+      window.history.replaceState(positionRef.current, '', url);
+    }
+  }, []);
+
+  const back = useCallback(() => window.history.back(), []);
+  const forward = useCallback(() => window.history.forward(), []);
+  const navigation = useMemo(
+    () => ({ canGoBack: position.index > 0, canGoForward: position.index < position.last, back, forward }),
+    [position, back, forward],
+  );
+
+  return [state, update, navigation];
+};
@@ -0,0 +1,57 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+/**
+ * The range of rows to render, as returned by `useVirtualWindow`.
+ */
+export interface VirtualWindow {
+  /** Index of the first row to render. */
+  start: number;
+  /** Index one past the last row to render. */
+  end: number;
+  /** Total height of all rows, in pixels, for sizing the scroll area. */
+  totalHeight: number;
+}
+
+/**
+ * Tracks which fixed-height rows of a scroll container are on screen.
+ * @param {RefObject<HTMLElement | null>} containerRef - The scrolling element.
+ * @param {number} rowCount - The total number of rows.
+ * @param {number} rowHeight - The height of each row, in pixels.
+ * @param {number} [overscan=10] - Extra rows rendered above and below the visible area for smooth scrolling.
+ * @returns {VirtualWindow} The range of rows to render.
+ */
+export const useVirtualWindow = (
+  containerRef: RefObject<HTMLElement | null>,
+  rowCount: number,
+  rowHeight: number,
+  overscan = 10,
+): VirtualWindow => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setScrollTop(container.scrollTop));
+    };
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+
+    setViewportHeight(container.clientHeight);
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    observer.observe(container);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, [containerRef]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { start, end, totalHeight: rowCount * rowHeight };
+};
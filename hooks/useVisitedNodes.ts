@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/** The localStorage key under which the recently visited nodes are saved. */
+const RECENT_KEY = 'kernel-visualizer:recent';
+
+/** The localStorage key under which the pinned nodes are saved. */
+const PINNED_KEY = 'kernel-visualizer:pinned';
+
+/** How many recently visited nodes are kept. */
+const RECENT_LIMIT = 20;
+
+/**
+ * The recently visited and pinned nodes and the operations on them, as returned by `useVisitedNodes`.
+ */
+export interface VisitedNodes {
+  /** The relative paths of the nodes selected lately, newest first. */
+  recent: string[];
+  /** The relative paths of the pinned nodes, in the order they were pinned. */
+  pinned: string[];
+  /** Moves a node to the top of the recently visited ones. */
+  visit: (path: string) => void;
+  /** Pins a node, or unpins it if it is pinned. */
+  togglePin: (path: string) => void;
+  clearRecent: () => void;
+}
+
+/**
+ * Reads a saved list of paths from localStorage.
+ * @param {string} key - The localStorage key.
+ * @returns {string[]} The saved paths, or none.
+ */
+const loadPaths = (key: string): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) ?? 'null');
+    if (Array.isArray(saved)) {
+      return saved.filter((path): path is string => typeof path === 'string');
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry; start with an empty list.
+  }
+  return [];
+};
+
+/**
+ * Saves a list of paths to localStorage.
+ * @param {string} key - The localStorage key.
+ * @param {string[]} paths - The paths to save.
+ */
+const savePaths = (key: string, paths: string[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(paths));
+  } catch {
+    // Storage may be full or disabled; the list lasts until the page is closed.
+  }
+};
+
+/**
+ * Remembers the nodes selected lately and the nodes the user pinned, by relative path, across
+ * sessions. Changes made in another tab are picked up.
+ * @returns {VisitedNodes} The lists and the operations on them.
+ */
+export const useVisitedNodes = (): VisitedNodes => {
+  const [recent, setRecent] = useState(() => loadPaths(RECENT_KEY));
+  const [pinned, setPinned] = useState(() => loadPaths(PINNED_KEY));
+
+  useEffect(() => {
+    savePaths(RECENT_KEY, recent);
+  }, [recent]);
+
+  useEffect(() => {
+    savePaths(PINNED_KEY, pinned);
+  }, [pinned]);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === RECENT_KEY) {
+        setRecent(loadPaths(RECENT_KEY));
+      } else if (event.key === PINNED_KEY) {
+        setPinned(loadPaths(PINNED_KEY));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const visit = useCallback((path: string) => {
+    setRecent(prev => (prev[0] === path ? prev : [path, ...prev.filter(p => p !== path)].slice(0, RECENT_LIMIT)));
+  }, []);
+
+  const togglePin = useCallback((path: string) => {
+    setPinned(prev => (prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]));
+  }, []);
+
+  const clearRecent = useCallback(() => setRecent([]), []);
+
+  return { recent, pinned, visit, togglePin, clearRecent };
+};
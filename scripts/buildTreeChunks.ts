@@ -0,0 +1,349 @@
+/**
+ * Splits a KernelNode tree into the per-directory JSON chunks the app loads lazily,
+ * plus a flat search index and the parsed MAINTAINERS file (see `data/treeChunks.ts` for the layout).
+ *
+ * The input is a JSON tree written by `import-tree`; when none is given and
+ * `data/kernelTree.generated.json` does not exist, the bundled `kernelData` is used.
+ * Likewise, the MAINTAINERS file, Kconfig data, `#include` graph and symbol index written by
+ * `import-tree` are preferred over the bundled snapshots.
+ *
+ * The git history written by `scan-history` is copied as it is; without one, an empty history is
+ * written and the app says how to make one.
+ *
+ * The guided tours in `data/tours/` (and in the folder given with `--tours`) are collected
+ * into one file.
+ *
+ * The translations in `data/locales/` (and in the folder given with `--locales`) are written one
+ * file per locale, with a list that records the language of the tree's own text: `--text-locale`,
+ * else Japanese for the bundled `kernelData`, else English.
+ *
+ * Trees of other kernel versions found in `data/snapshots/` (one `import-tree` output per
+ * version, named after it, e.g. `v6.1.json`) are copied whole, for the app to compare.
+ *
+ * Last, every file written is listed in `dataset.json` with a hash of their names and contents
+ * as the dataset's version; the service worker caches the files under that version.
+ *
+ * Usage:
+ *   npm run build-chunks -- [--in <tree.json>] [--out <dir>] [--maintainers <MAINTAINERS>] [--kconfig <kconfig.json>] [--includes <includes.json>] [--symbols <symbols.json>] [--tours <dir>] [--locales <dir>] [--text-locale <locale>] [--history <history.json>] [--snapshots <dir>]
+ */
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { KernelNode, LegacyKernelNode } from '../types';
+import {
+  CHILDREN_CHUNK_FILE,
+  DATASET_FILE,
+  HISTORY_FILE,
+  INCLUDES_FILE,
+  KCONFIG_FILE,
+  LOCALES_DIR,
+  LOCALES_FILE,
+  MAINTAINERS_FILE,
+  ROOT_CHUNK_FILE,
+  SEARCH_INDEX_FILE,
+  SNAPSHOTS_DIR,
+  SNAPSHOTS_FILE,
+  SYMBOLS_FILE,
+  TOURS_FILE,
+  type DatasetInfo,
+  type MaintainersData,
+  type SnapshotInfo,
+  type SnapshotManifest,
+} from '../data/treeChunks';
+import type { CodeSymbolData } from '../utils/codeSymbols';
+import { EMPTY_HISTORY, type HistoryData } from '../utils/history';
+import type { IncludeGraphData } from '../utils/includeGraph';
+import type { KconfigData } from '../utils/kconfig';
+import { DEFAULT_LOCALE, findMissingTranslations, type LocaleManifest } from '../utils/locales';
+import { parseMaintainers } from '../utils/maintainers';
+import { migrateTree } from '../utils/migrateTree';
+import { parseTour, type Tour, type TourCatalog } from '../utils/tours';
+import { buildSearchIndex } from '../utils/treeUtils';
+import { scanCodeSymbols } from './lib/scanCodeSymbols';
+import { scanIncludes } from './lib/scanIncludes';
+import { scanKconfig } from './lib/scanKconfig';
+import { BUILT_IN_LOCALES, loadLocales } from './lib/loadLocales';
+import { loadTreeSource } from './lib/treeSource';
+
+const DEFAULT_OUTPUT = 'public/tree';
+const DEFAULT_MAINTAINERS = 'data/MAINTAINERS.generated';
+const SNAPSHOT_MAINTAINERS = 'data/MAINTAINERS.snapshot';
+const DEFAULT_KCONFIG = 'data/kconfig.generated.json';
+const SNAPSHOT_KCONFIG_DIR = 'data/kconfig-snapshot';
+const DEFAULT_INCLUDES = 'data/includes.generated.json';
+const SNAPSHOT_INCLUDES_DIR = 'data/include-snapshot';
+const DEFAULT_SYMBOLS = 'data/symbols.generated.json';
+const SNAPSHOT_SYMBOLS_DIR = 'data/symbol-snapshot';
+const DEFAULT_HISTORY = 'data/history.generated.json';
+const BUILT_IN_TOURS = 'data/tours';
+const DEFAULT_SNAPSHOTS = 'data/snapshots';
+const USAGE = 'Usage: npm run build-chunks -- [--in <tree.json>] [--out <dir>] [--maintainers <MAINTAINERS>] [--kconfig <kconfig.json>] [--includes <includes.json>] [--symbols <symbols.json>] [--tours <dir>] [--locales <dir>] [--text-locale <locale>] [--history <history.json>] [--snapshots <dir>]';
+
+/**
+ * Replaces the children of directories with the `lazyChildren` flag, so a chunk
+ * only contains one level of the tree.
+ * @param {KernelNode} node - The node to strip.
+ * @returns {KernelNode} A copy of the node without nested children.
+ */
+const toStub = (node: KernelNode): KernelNode => {
+  const { children, ...rest } = node;
+  if (children && children.length > 0) {
+    return { ...rest, lazyChildren: true };
+  }
+  return children ? { ...rest, children: [] } : rest;
+};
+
+/**
+ * Loads the tree to split, from a JSON file or the bundled data, migrated to the current schema.
+ * @param {string | undefined} input - The JSON file given on the command line, if any.
+ * @returns {Promise<{ tree: KernelNode; source: string; textLocale?: string }>} The tree, a description of where it came from and, if known, the language of its text.
+ */
+const loadTree = async (input: string | undefined): Promise<{ tree: KernelNode; source: string; textLocale?: string }> => {
+  const { tree, source, textLocale } = await loadTreeSource(input);
+  return { tree: migrateTree(tree), source, textLocale };
+};
+
+/**
+ * Loads the Kconfig data written by `import-tree`, or parses the bundled excerpts.
+ * @param {string | undefined} input - The JSON file given on the command line, if any.
+ * @returns {Promise<{ kconfig: KconfigData; source: string }>} The data and a description of where it came from.
+ */
+const loadKconfig = async (input: string | undefined): Promise<{ kconfig: KconfigData; source: string }> => {
+  const file = input ?? (existsSync(DEFAULT_KCONFIG) ? DEFAULT_KCONFIG : undefined);
+  if (!file) {
+    return { kconfig: await scanKconfig(SNAPSHOT_KCONFIG_DIR, false), source: SNAPSHOT_KCONFIG_DIR };
+  }
+  return { kconfig: JSON.parse(await readFile(file, 'utf8')) as KconfigData, source: file };
+};
+
+/**
+ * Loads the `#include` graph written by `import-tree`, or reads the bundled excerpts.
+ * @param {string | undefined} input - The JSON file given on the command line, if any.
+ * @returns {Promise<{ includes: IncludeGraphData; source: string }>} The graph and a description of where it came from.
+ */
+const loadIncludes = async (input: string | undefined): Promise<{ includes: IncludeGraphData; source: string }> => {
+  const file = input ?? (existsSync(DEFAULT_INCLUDES) ? DEFAULT_INCLUDES : undefined);
+  if (!file) {
+    return { includes: await scanIncludes(SNAPSHOT_INCLUDES_DIR), source: SNAPSHOT_INCLUDES_DIR };
+  }
+  return { includes: JSON.parse(await readFile(file, 'utf8')) as IncludeGraphData, source: file };
+};
+
+/**
+ * Loads the symbol index written by `import-tree`, or indexes the bundled excerpts.
+ * @param {string | undefined} input - The JSON file given on the command line, if any.
+ * @returns {Promise<{ symbols: CodeSymbolData; source: string }>} The index and a description of where it came from.
+ */
+const loadCodeSymbols = async (input: string | undefined): Promise<{ symbols: CodeSymbolData; source: string }> => {
+  const file = input ?? (existsSync(DEFAULT_SYMBOLS) ? DEFAULT_SYMBOLS : undefined);
+  if (!file) {
+    return { symbols: await scanCodeSymbols(SNAPSHOT_SYMBOLS_DIR), source: SNAPSHOT_SYMBOLS_DIR };
+  }
+  return { symbols: JSON.parse(await readFile(file, 'utf8')) as CodeSymbolData, source: file };
+};
+
+/**
+ * Loads the git history written by `scan-history`, if there is one.
+ * @param {string | undefined} input - The JSON file given on the command line, if any.
+ * @returns {Promise<{ history: HistoryData; source: string | null }>} The history, empty without a file, and the file it came from.
+ */
+const loadHistory = async (input: string | undefined): Promise<{ history: HistoryData; source: string | null }> => {
+  const file = input ?? (existsSync(DEFAULT_HISTORY) ? DEFAULT_HISTORY : undefined);
+  if (!file) {
+    return { history: EMPTY_HISTORY, source: null };
+  }
+  return { history: JSON.parse(await readFile(file, 'utf8')) as HistoryData, source: file };
+};
+
+/**
+ * Reads the tours of one or more folders. A tour with the same id as an earlier one replaces it,
+ * so a folder given with `--tours` can override a built-in tour.
+ * @param {string[]} dirs - The folders, in order; a folder that does not exist is skipped.
+ * @returns {Promise<TourCatalog>} The tours, in file name order within each folder.
+ * @throws {Error} If a file is not a valid tour, naming the file.
+ */
+const loadTours = async (dirs: string[]): Promise<TourCatalog> => {
+  const tours = new Map<string, Tour>();
+  for (const dir of dirs) {
+    const files = existsSync(dir) ? (await readdir(dir)).filter(file => file.endsWith('.json')).sort() : [];
+    for (const file of files) {
+      try {
+        const tour = parseTour(JSON.parse(await readFile(path.join(dir, file), 'utf8')), file.replace(/\.json$/, ''));
+        tours.set(tour.id, tour);
+      } catch (error) {
+        throw new Error(`${path.join(dir, file)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  return { tours: [...tours.values()] };
+};
+
+/**
+ * Copies the trees of other versions to the output, migrated, and lists them oldest first.
+ * @param {string} snapshotsDir - The folder holding one JSON tree per version; it may not exist.
+ * @param {string} outDir - The output folder.
+ * @returns {Promise<SnapshotManifest>} The list of snapshots written.
+ */
+const writeSnapshots = async (snapshotsDir: string, outDir: string): Promise<SnapshotManifest> => {
+  const files = existsSync(snapshotsDir) ? (await readdir(snapshotsDir)).filter(file => file.endsWith('.json')) : [];
+  const snapshots: SnapshotInfo[] = [];
+  if (files.length > 0) {
+    await mkdir(path.join(outDir, SNAPSHOTS_DIR), { recursive: true });
+  }
+  for (const file of files) {
+    const tree = migrateTree(JSON.parse(await readFile(path.join(snapshotsDir, file), 'utf8')) as LegacyKernelNode | KernelNode);
+    const snapshot: SnapshotInfo = {
+      label: file.replace(/\.json$/, ''),
+      file: SNAPSHOTS_DIR + file,
+      nodes: buildSearchIndex(tree).entries.length,
+    };
+    await writeFile(path.join(outDir, snapshot.file), JSON.stringify(tree));
+    snapshots.push(snapshot);
+  }
+  snapshots.sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+  return { snapshots };
+};
+
+/**
+ * Lists every file in the output directory and writes the list with the dataset's version.
+ * @param {string} outDir - The output directory, with every other file already written.
+ * @returns {Promise<DatasetInfo>} The list written.
+ */
+const writeDatasetInfo = async (outDir: string): Promise<DatasetInfo> => {
+  const files = (await readdir(outDir, { recursive: true, withFileTypes: true }))
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(outDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+    .filter(file => file !== DATASET_FILE)
+    .sort();
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash.update(`${file}\0`).update(await readFile(path.join(outDir, file))).update('\0');
+  }
+  const dataset: DatasetInfo = { version: hash.digest('hex').slice(0, 12), built: new Date().toISOString(), files };
+  await writeFile(path.join(outDir, DATASET_FILE), JSON.stringify(dataset));
+  return dataset;
+};
+
+/**
+ * Entry point: writes the root chunk, one chunk per non-empty directory and the search index.
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+  let input: string | undefined;
+  let outDir = DEFAULT_OUTPUT;
+  let maintainersFile = existsSync(DEFAULT_MAINTAINERS) ? DEFAULT_MAINTAINERS : SNAPSHOT_MAINTAINERS;
+  let kconfigFile: string | undefined;
+  let includesFile: string | undefined;
+  let symbolsFile: string | undefined;
+  const tourDirs = [BUILT_IN_TOURS];
+  const localeDirs = [BUILT_IN_LOCALES];
+  let textLocaleOption: string | undefined;
+  let historyFile: string | undefined;
+  let snapshotsDir = DEFAULT_SNAPSHOTS;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--in') {
+      input = args[++i];
+    } else if (args[i] === '--out') {
+      outDir = args[++i];
+    } else if (args[i] === '--maintainers') {
+      maintainersFile = args[++i];
+    } else if (args[i] === '--kconfig') {
+      kconfigFile = args[++i];
+    } else if (args[i] === '--includes') {
+      includesFile = args[++i];
+    } else if (args[i] === '--symbols') {
+      symbolsFile = args[++i];
+    } else if (args[i] === '--tours') {
+      tourDirs.push(args[++i]);
+    } else if (args[i] === '--locales') {
+      localeDirs.push(args[++i]);
+    } else if (args[i] === '--text-locale') {
+      textLocaleOption = args[++i];
+    } else if (args[i] === '--history') {
+      historyFile = args[++i];
+    } else if (args[i] === '--snapshots') {
+      snapshotsDir = args[++i];
+    } else {
+      throw new Error(`Unknown argument: ${args[i]}\n${USAGE}`);
+    }
+  }
+
+  const { tree, source, textLocale: sourceLocale } = await loadTree(input);
+  await rm(outDir, { recursive: true, force: true });
+  await mkdir(outDir, { recursive: true });
+
+  let chunks = 0;
+
+  const writeChunks = async (node: KernelNode, nodePath: string) => {
+    const children = node.children ?? [];
+    if (nodePath !== '' && children.length > 0) {
+      const chunkDir = path.join(outDir, nodePath);
+      await mkdir(chunkDir, { recursive: true });
+      await writeFile(path.join(chunkDir, CHILDREN_CHUNK_FILE), JSON.stringify(children.map(toStub)));
+      chunks++;
+    }
+    for (const child of children) {
+      await writeChunks(child, nodePath + child.name);
+    }
+  };
+
+  await writeFile(path.join(outDir, ROOT_CHUNK_FILE), JSON.stringify({ ...tree, children: (tree.children ?? []).map(toStub) }));
+  await writeChunks(tree, '');
+  const index = buildSearchIndex(tree);
+  await writeFile(path.join(outDir, SEARCH_INDEX_FILE), JSON.stringify(index));
+  const maintainers: MaintainersData = { sections: parseMaintainers(await readFile(maintainersFile, 'utf8')) };
+  await writeFile(path.join(outDir, MAINTAINERS_FILE), JSON.stringify(maintainers));
+
+  process.stderr.write(`Wrote ${chunks} directory chunks and ${index.entries.length} index entries from ${source} to ${outDir}\n`);
+  process.stderr.write(`Wrote ${maintainers.sections.length} MAINTAINERS sections from ${maintainersFile}\n`);
+  const { kconfig, source: kconfigSource } = await loadKconfig(kconfigFile);
+  await writeFile(path.join(outDir, KCONFIG_FILE), JSON.stringify(kconfig));
+  process.stderr.write(`Wrote ${kconfig.entries.length} Kconfig entries from ${kconfigSource}\n`);
+  const { includes, source: includesSource } = await loadIncludes(includesFile);
+  await writeFile(path.join(outDir, INCLUDES_FILE), JSON.stringify(includes));
+  process.stderr.write(`Wrote the #include graph of ${includes.files.length} files from ${includesSource}\n`);
+  const { symbols, source: symbolsSource } = await loadCodeSymbols(symbolsFile);
+  await writeFile(path.join(outDir, SYMBOLS_FILE), JSON.stringify(symbols));
+  process.stderr.write(`Wrote ${symbols.symbols.length} code symbols in ${symbols.files.length} files from ${symbolsSource}\n`);
+  const tours = await loadTours(tourDirs);
+  await writeFile(path.join(outDir, TOURS_FILE), JSON.stringify(tours));
+  process.stderr.write(`Wrote ${tours.tours.length} tours from ${tourDirs.join(', ')}\n`);
+  const locales = await loadLocales(localeDirs);
+  const localeManifest: LocaleManifest = {
+    textLocale: textLocaleOption ?? sourceLocale ?? DEFAULT_LOCALE,
+    locales: locales.map(locale => ({ locale: locale.locale, name: locale.name, file: `${LOCALES_DIR}${locale.locale}.json`, nodes: Object.keys(locale.nodes).length })),
+  };
+  if (locales.length > 0) {
+    await mkdir(path.join(outDir, LOCALES_DIR), { recursive: true });
+  }
+  for (const locale of locales) {
+    await writeFile(path.join(outDir, LOCALES_DIR, `${locale.locale}.json`), JSON.stringify(locale));
+  }
+  await writeFile(path.join(outDir, LOCALES_FILE), JSON.stringify(localeManifest));
+  process.stderr.write(`Wrote ${locales.length} locales from ${localeDirs.join(', ')}; the tree's text is in ${localeManifest.textLocale}\n`);
+  locales.filter(locale => locale.locale !== localeManifest.textLocale).forEach(locale => {
+    const missing = findMissingTranslations(tree, index, locale.nodes);
+    if (missing.length > 0) {
+      const count = (field: 'summary' | 'description') => missing.filter(entry => entry.fields.includes(field)).length;
+      process.stderr.write(`  ${locale.locale}: ${count('summary')} summaries and ${count('description')} descriptions not translated; run npm run locale-report to list them\n`);
+    }
+  });
+  const { history, source: historySource } = await loadHistory(historyFile);
+  await writeFile(path.join(outDir, HISTORY_FILE), JSON.stringify(history));
+  process.stderr.write(historySource
+    ? `Wrote the history of ${Object.keys(history.nodes).length} nodes from ${historySource}\n`
+    : 'Wrote an empty history; run npm run scan-history to read one from a kernel repository\n');
+  const manifest = await writeSnapshots(snapshotsDir, outDir);
+  await writeFile(path.join(outDir, SNAPSHOTS_FILE), JSON.stringify(manifest));
+  if (manifest.snapshots.length > 0) {
+    process.stderr.write(`Wrote snapshots ${manifest.snapshots.map(snapshot => snapshot.label).join(', ')} from ${snapshotsDir}\n`);
+  }
+  const dataset = await writeDatasetInfo(outDir);
+  process.stderr.write(`Listed ${dataset.files.length} files as dataset version ${dataset.version}\n`);
+};
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+/**
+ * Command-line importer that walks a local Linux kernel checkout and writes a
+ * KernelNode tree as JSON. Hand-written text from `data/kernelData.ts` is merged
+ * over the generated text so curated descriptions are never lost. The checkout's
+ * `MAINTAINERS` file is copied to `data/MAINTAINERS.generated`, its Kconfig files and
+ * Makefiles are read into `data/kconfig.generated.json`, the `#include` directives of its
+ * sources into `data/includes.generated.json`, and the functions, structures, system calls and
+ * exports they define into `data/symbols.generated.json`, for `build-chunks`. `--tree-only` skips those,
+ * e.g. when importing another version to compare into `data/snapshots/`.
+ *
+ * Usage:
+ *   npm run import-tree -- <kernel-checkout> [--out <file>] [--max-depth <n>] [--root-name <name>] [--no-curated] [--tree-only]
+ */
+import { existsSync } from 'node:fs';
+import { copyFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { kernelData } from '../data/kernelData';
+import { migrateTree } from '../utils/migrateTree';
+import { mergeCurated } from './lib/mergeCurated';
+import { scanCodeSymbols } from './lib/scanCodeSymbols';
+import { scanIncludes } from './lib/scanIncludes';
+import { scanKconfig } from './lib/scanKconfig';
+import { walkKernelTree } from './lib/walkKernelTree';
+
+const MAINTAINERS_OUT = 'data/MAINTAINERS.generated';
+const KCONFIG_OUT = 'data/kconfig.generated.json';
+const INCLUDES_OUT = 'data/includes.generated.json';
+const SYMBOLS_OUT = 'data/symbols.generated.json';
+const USAGE = 'Usage: npm run import-tree -- <kernel-checkout> [--out <file>] [--max-depth <n>] [--root-name <name>] [--no-curated] [--tree-only]';
+
+/**
+ * Parsed command-line options.
+ */
+interface CliOptions {
+  source: string;
+  out: string;
+  maxDepth?: number;
+  rootName: string;
+  curated: boolean;
+  treeOnly: boolean;
+}
+
+/**
+ * Parses the importer's command-line arguments.
+ * @param {string[]} args - The arguments after the script name.
+ * @returns {CliOptions} The parsed options.
+ */
+const parseArgs = (args: string[]): CliOptions => {
+  const options: Partial<CliOptions> = { out: 'data/kernelTree.generated.json', rootName: 'linux/', curated: true, treeOnly: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--out') {
+      options.out = args[++i];
+    } else if (arg === '--max-depth') {
+      options.maxDepth = Number(args[++i]);
+    } else if (arg === '--root-name') {
+      options.rootName = args[++i];
+    } else if (arg === '--no-curated') {
+      options.curated = false;
+    } else if (arg === '--tree-only') {
+      options.treeOnly = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}\n${USAGE}`);
+    } else {
+      options.source = arg;
+    }
+  }
+  if (!options.source || !options.out) {
+    throw new Error(USAGE);
+  }
+  if (options.maxDepth !== undefined && !Number.isInteger(options.maxDepth)) {
+    throw new Error(`--max-depth must be an integer\n${USAGE}`);
+  }
+  return options as CliOptions;
+};
+
+/**
+ * Entry point: walks the checkout, merges curated text and writes the result.
+ */
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  let directories = 0;
+
+  const generated = await walkKernelTree(options.source, {
+    rootName: options.rootName,
+    maxDepth: options.maxDepth,
+    onDirectory: () => {
+      directories++;
+      if (directories % 500 === 0) {
+        process.stderr.write(`  ${directories} directories read...\n`);
+      }
+    },
+  });
+
+  let tree = generated;
+  if (options.curated) {
+    const result = mergeCurated(generated, migrateTree(kernelData));
+    tree = result.tree;
+    process.stderr.write(`Applied curated text to ${result.matched.length} nodes.\n`);
+    if (result.unmatched.length > 0) {
+      process.stderr.write(`Curated paths not found in the checkout (${result.unmatched.length}):\n`);
+      result.unmatched.forEach(p => process.stderr.write(`  ${p}\n`));
+    }
+  }
+
+  await mkdir(path.dirname(path.resolve(options.out)), { recursive: true });
+  await writeFile(options.out, JSON.stringify(tree));
+  process.stderr.write(`Wrote ${directories} directories to ${options.out}\n`);
+  if (options.treeOnly) {
+    return;
+  }
+
+  const maintainers = path.join(options.source, 'MAINTAINERS');
+  if (existsSync(maintainers)) {
+    await copyFile(maintainers, MAINTAINERS_OUT);
+    process.stderr.write(`Copied ${maintainers} to ${MAINTAINERS_OUT}\n`);
+  }
+
+  const kconfig = await scanKconfig(options.source);
+  await writeFile(KCONFIG_OUT, JSON.stringify(kconfig));
+  process.stderr.write(`Wrote ${kconfig.entries.length} Kconfig entries to ${KCONFIG_OUT}\n`);
+
+  const includes = await scanIncludes(options.source);
+  await writeFile(INCLUDES_OUT, JSON.stringify(includes));
+  process.stderr.write(`Wrote the #include graph of ${includes.files.length} files to ${INCLUDES_OUT}\n`);
+
+  const symbols = await scanCodeSymbols(options.source);
+  await writeFile(SYMBOLS_OUT, JSON.stringify(symbols));
+  process.stderr.write(`Wrote ${symbols.symbols.length} code symbols in ${symbols.files.length} files to ${SYMBOLS_OUT}\n`);
+};
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
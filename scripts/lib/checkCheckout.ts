@@ -0,0 +1,42 @@
+import { lstat } from 'node:fs/promises';
+import path from 'node:path';
+import type { KernelNode, LegacyKernelNode } from '../../types';
+import { createIssue, isPlaceholder, type ValidationIssue } from '../../utils/validateTree';
+
+/**
+ * Checks that every node of a tree exists in a kernel checkout, with the same kind. A missing
+ * directory is reported once, not for each of its descendants; placeholder nodes such as `...`
+ * are skipped.
+ * @param {LegacyKernelNode | KernelNode} root - The root of the tree; its name is not part of the paths.
+ * @param {string} checkout - The path of the checkout.
+ * @returns {Promise<ValidationIssue[]>} The issues, in tree order.
+ */
+export const findMissingPaths = async (root: LegacyKernelNode | KernelNode, checkout: string): Promise<ValidationIssue[]> => {
+  const issues: ValidationIssue[] = [];
+
+  const visit = async (node: LegacyKernelNode | KernelNode, relativePath: string) => {
+    for (const child of node.children ?? []) {
+      if (isPlaceholder(child.name)) {
+        continue;
+      }
+      const isDirectory = ('kind' in child && child.kind === 'dir') || child.name.endsWith('/') || Boolean(child.children?.length);
+      const childPath = relativePath + child.name.replace(/\/$/, '') + (isDirectory ? '/' : '');
+      const info = await lstat(path.join(checkout, childPath)).catch(() => null);
+      if (!info) {
+        issues.push(createIssue('missing-in-checkout', childPath, `Not found in ${checkout}`));
+        continue;
+      }
+      if (isDirectory !== info.isDirectory()) {
+        const actual = info.isDirectory() ? 'a directory' : info.isSymbolicLink() ? 'a symbolic link' : 'a file';
+        issues.push(createIssue('checkout-kind-mismatch', childPath, `Is ${actual} in ${checkout}`));
+        continue;
+      }
+      if (isDirectory) {
+        await visit(child, childPath);
+      }
+    }
+  };
+  await visit(root, '');
+
+  return issues;
+};
@@ -0,0 +1,161 @@
+import { execFile, spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { promisify } from 'node:util';
+import type { HistoryCommit, HistoryData, NodeHistory } from '../../utils/history';
+
+const run = promisify(execFile);
+
+/** Marks the first line of each commit in the log, ahead of hash, date, author and subject. */
+const COMMIT_MARKER = '\u0001';
+
+/**
+ * What to read from the repository.
+ */
+export interface HistoryOptions {
+  /** The start of the window. */
+  since: Date;
+  /** The end of the window; later commits are ignored altogether. */
+  until: Date;
+  /** How many authors to keep per node. */
+  authors: number;
+  /** How many recent commits to keep per node. */
+  recent: number;
+}
+
+/**
+ * A node's history while the log is read, with every author's count.
+ */
+interface NodeTally {
+  commits: number;
+  lastModified?: string;
+  authors: Map<string, number>;
+  recent: number[];
+  /** The index of the last commit counted, so a commit touching several files counts once. */
+  lastCommit: number;
+}
+
+/**
+ * Lists a file's path and the paths of the directories above it, as in the tree.
+ * @param {string} file - A file path relative to the repository, e.g. `kernel/sched/fair.c`.
+ * @returns {string[]} E.g. `''`, `kernel/`, `kernel/sched/`, `kernel/sched/fair.c`.
+ */
+const nodePaths = (file: string): string[] => {
+  const paths = [''];
+  let end = file.indexOf('/');
+  while (end >= 0) {
+    paths.push(file.slice(0, end + 1));
+    end = file.indexOf('/', end + 1);
+  }
+  paths.push(file);
+  return paths;
+};
+
+/**
+ * Reads the history of a git repository into per-node commit counts, authors, recent commits
+ * and last-modified dates. The log is read once, newest first: commits in the window are
+ * counted, older ones only date the nodes not seen yet, and reading stops once every file
+ * has a date.
+ * @param {string} repository - The path of the repository, whose root is the tree's root.
+ * @param {HistoryOptions} options - The window and how much to keep per node.
+ * @returns {Promise<HistoryData>} The history.
+ * @throws {Error} If the path is not a git repository or `git` cannot be run.
+ */
+export const readGitHistory = async (repository: string, options: HistoryOptions): Promise<HistoryData> => {
+  const git = (args: string[]) => run('git', ['-C', repository, '-c', 'core.quotePath=false', ...args], { maxBuffer: 256 * 1024 * 1024 });
+  const head = await git(['rev-parse', 'HEAD']).then(
+    ({ stdout }) => stdout.trim(),
+    (error: { stderr?: string; message: string }) => {
+      throw new Error(`Cannot read the history of ${repository}: ${(error.stderr || error.message).trim()}`);
+    },
+  );
+  const files = new Set((await git(['ls-files', '-z'])).stdout.split('\0').filter(Boolean));
+
+  const tallies = new Map<string, NodeTally>();
+  const tally = (path: string): NodeTally => {
+    let entry = tallies.get(path);
+    if (!entry) {
+      entry = { commits: 0, authors: new Map(), recent: [], lastCommit: -1 };
+      tallies.set(path, entry);
+    }
+    return entry;
+  };
+  const commits: HistoryCommit[] = [];
+  let undated = files.size;
+
+  const log = spawn('git', [
+    '-C', repository, '-c', 'core.quotePath=false', 'log', '--no-merges', '--name-only',
+    `--until=${options.until.toISOString()}`, `--format=${COMMIT_MARKER}%h%x09%cI%x09%aN%x09%s`,
+  ], { stdio: ['ignore', 'pipe', 'pipe'] });
+  let stderr = '';
+  log.stderr.on('data', chunk => {
+    stderr += chunk;
+  });
+  const exited = new Promise<number | null>(resolve => log.on('close', resolve));
+
+  let current: { index: number; date: string; author: string; inWindow: boolean } | null = null;
+  let stopped = false;
+  for await (const line of createInterface({ input: log.stdout, crlfDelay: Infinity })) {
+    if (line.startsWith(COMMIT_MARKER)) {
+      const [hash, date, author, ...subject] = line.slice(1).split('\t');
+      const inWindow = new Date(date) >= options.since;
+      if (!inWindow && undated === 0) {
+        // Everything is dated and the window is behind us.
+        stopped = true;
+        log.kill();
+        break;
+      }
+      if (inWindow) {
+        commits.push({ hash, date, author, subject: subject.join('\t') });
+      }
+      current = { index: inWindow ? commits.length - 1 : -1, date, author, inWindow };
+      continue;
+    }
+    if (!current || !line || !files.has(line)) {
+      continue;
+    }
+    for (const path of nodePaths(line)) {
+      const entry = tally(path);
+      if (entry.lastModified === undefined) {
+        entry.lastModified = current.date;
+        if (path === line) {
+          undated--;
+        }
+      }
+      if (current.inWindow && entry.lastCommit !== current.index) {
+        entry.lastCommit = current.index;
+        entry.commits++;
+        entry.authors.set(current.author, (entry.authors.get(current.author) ?? 0) + 1);
+        if (entry.recent.length < options.recent) {
+          entry.recent.push(current.index);
+        }
+      }
+    }
+  }
+  const code = await exited;
+  if (!stopped && code !== 0) {
+    throw new Error(`git log failed in ${repository}: ${stderr.trim() || `exit code ${code}`}`);
+  }
+
+  // Keep only the commits some node lists, renumbered.
+  const kept = new Map<number, number>();
+  const nodes: Record<string, NodeHistory> = {};
+  for (const [path, entry] of tallies) {
+    nodes[path] = {
+      commits: entry.commits,
+      lastModified: entry.lastModified,
+      authors: [...entry.authors].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, options.authors),
+      recent: entry.recent.map(index => {
+        if (!kept.has(index)) {
+          kept.set(index, kept.size);
+        }
+        return kept.get(index)!;
+      }),
+    };
+  }
+  const listed: HistoryCommit[] = [];
+  kept.forEach((newIndex, oldIndex) => {
+    listed[newIndex] = commits[oldIndex];
+  });
+
+  return { head, since: options.since.toISOString(), until: options.until.toISOString(), commits: listed, nodes };
+};
@@ -0,0 +1,144 @@
+/**
+ * Reading which symbols control which files from Kbuild Makefiles.
+ *
+ * Kbuild lists objects in variables named after the symbol controlling them, e.g.
+ * `obj-$(CONFIG_BPF_SYSCALL) += syscall.o` or `obj-$(CONFIG_NET) += core/`. Composite
+ * objects (`foo.o` made of `foo-y += a.o b.o`) pass their symbol on to their parts, and a
+ * block such as `ifdef CONFIG_NET` or `ifeq ($(CONFIG_NET),y)` gates the objects inside it.
+ */
+
+/**
+ * One `<name>-<suffix> += ...` assignment of a Makefile.
+ */
+interface KbuildAssignment {
+  /** The variable name before the suffix: `obj`, `lib` or a composite object's name. */
+  target: string;
+  /** The symbol in `$(CONFIG_<NAME>)`, or null for `-y`, `-objs` and other fixed suffixes. */
+  symbol: string | null;
+  /** The symbols the enclosing conditionals require, outermost first. */
+  conditions: string[];
+  /** The listed objects and directories, e.g. `syscall.o` or `preload/`. */
+  items: string[];
+}
+
+/** `<name>-$(CONFIG_X) += items`, `<name>-${CONFIG_X} := items`, `<name>-y += items` or `<name>-objs = items`. */
+const ASSIGNMENT = /^([A-Za-z0-9_.]+)-(?:\$[({]CONFIG_([A-Za-z0-9_]+)[)}]|y|objs)\s*[:+]?=\s*(.*)$/;
+
+/**
+ * Conditionals that hold only when a symbol is set: `ifdef CONFIG_X`, `ifeq ($(CONFIG_X),y)`,
+ * `ifeq ($(CONFIG_X),m)` and `ifneq ($(CONFIG_X),)`.
+ */
+const SYMBOL_CONDITIONALS = [
+  /^ifdef\s+CONFIG_([A-Za-z0-9_]+)$/,
+  /^ifeq\s*\(\s*\$[({]CONFIG_([A-Za-z0-9_]+)[)}]\s*,\s*[ym]\s*\)$/,
+  /^ifneq\s*\(\s*\$[({]CONFIG_([A-Za-z0-9_]+)[)}]\s*,\s*\)$/,
+];
+
+/**
+ * Reads the object assignments of a Makefile, with the symbols their enclosing conditionals
+ * require. Other conditionals (`ifndef`, comparisons with other variables) and `else` branches
+ * require no symbol, so an object in them is attributed to the symbol in its own line only.
+ * @param {string} text - The Makefile contents.
+ * @returns {KbuildAssignment[]} The assignments, in order.
+ */
+const parseAssignments = (text: string): KbuildAssignment[] => {
+  const assignments: KbuildAssignment[] = [];
+  const lines = text.replace(/\\\n/g, ' ').split('\n');
+  // The symbol each open conditional requires, innermost last.
+  const conditions: (string | null)[] = [];
+  for (const line of lines) {
+    const statement = line.replace(/#.*$/, '').trim();
+    if (/^if(n?eq|n?def)\b/.test(statement)) {
+      conditions.push(SYMBOL_CONDITIONALS.map(pattern => statement.match(pattern)?.[1]).find(Boolean) ?? null);
+      continue;
+    }
+    if (/^else\b/.test(statement)) {
+      conditions[conditions.length - 1] = null;
+      continue;
+    }
+    if (/^endif\b/.test(statement)) {
+      conditions.pop();
+      continue;
+    }
+    const match = statement.match(ASSIGNMENT);
+    if (match) {
+      assignments.push({
+        target: match[1],
+        symbol: match[2] ?? null,
+        conditions: conditions.filter((name): name is string => name !== null),
+        items: match[3].split(/\s+/).filter(Boolean),
+      });
+    }
+  }
+  return assignments;
+};
+
+/**
+ * The files and subdirectories a directory's Makefile builds.
+ */
+export interface KbuildObjects {
+  /** The gated paths relative to the root, keyed by symbol name. */
+  gates: Map<string, string[]>;
+  /** Every path the Makefile lists as an object or subdirectory, gated or not (`obj-y += core/`). */
+  listed: string[];
+}
+
+/**
+ * Works out which files and subdirectories of a directory the Makefile builds, and which
+ * symbols control each of them.
+ * @param {string} text - The directory's Makefile or Kbuild contents.
+ * @param {string} directory - The directory's path relative to the root, e.g. `kernel/bpf/`.
+ * @param {(object: string) => string | null} resolveObject - Maps an object path relative to the
+ *   directory (e.g. `syscall.o`) to its source path relative to the root, or null if it has none.
+ * @returns {KbuildObjects} The gated and listed paths.
+ */
+export const parseKbuildGates = (
+  text: string,
+  directory: string,
+  resolveObject: (object: string) => string | null,
+): KbuildObjects => {
+  const assignments = parseAssignments(text);
+  // Composite objects are the targets listed as `<target>.o` somewhere; this leaves out
+  // variables such as `ccflags-y` that share the syntax.
+  const mentioned = new Set(assignments.flatMap(({ items }) => items));
+  const parts = new Map<string, string[]>();
+  for (const { target, items } of assignments) {
+    if (target !== 'obj' && target !== 'lib' && mentioned.has(`${target}.o`)) {
+      parts.set(target, [...(parts.get(target) ?? []), ...items]);
+    }
+  }
+
+  // The source paths an item stands for: a composite object's parts, or the item itself.
+  const resolve = (item: string, seen: Set<string>): string[] => {
+    const composite = item.endsWith('.o') ? item.slice(0, -2) : null;
+    if (composite && parts.has(composite) && !seen.has(composite)) {
+      seen.add(composite);
+      return parts.get(composite)!.flatMap(part => resolve(part, seen));
+    }
+    const path = item.endsWith('/') ? directory + item : item.endsWith('.o') ? resolveObject(item) : null;
+    return path ? [path] : [];
+  };
+
+  const gates = new Map<string, string[]>();
+  const listed = new Set<string>();
+  for (const { target, symbol, conditions, items } of assignments) {
+    // `obj-$(CONFIG_X) += foo.o` gates foo's sources; `foo-$(CONFIG_X) += bar.o` gates bar only.
+    if (target !== 'obj' && target !== 'lib' && !parts.has(target)) {
+      continue;
+    }
+    const paths = items.flatMap(item => resolve(item, new Set()));
+    paths.forEach(path => listed.add(path));
+    [symbol, ...conditions].forEach(name => {
+      if (name) {
+        const list = gates.get(name) ?? [];
+        paths.forEach(path => {
+          if (!list.includes(path)) {
+            list.push(path);
+          }
+        });
+        gates.set(name, list);
+      }
+    });
+  }
+  return { gates, listed: [...listed] };
+};
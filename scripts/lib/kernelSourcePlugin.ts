@@ -0,0 +1,60 @@
+import { readFile, realpath, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import { SOURCE_BASE_URL } from '../../data/kernelSource';
+
+/** Files larger than this are refused rather than sent to the browser. */
+const MAX_FILE_BYTES = 32 * 1024 * 1024;
+
+/**
+ * A dev server plugin that serves the files of a local kernel checkout as plain text under
+ * `/__kernel-source/<path>`, for the source view. Requests outside the checkout (through `..`
+ * or symbolic links) are refused. Without a checkout every request answers 503, which the
+ * app explains to the user.
+ * @param {string | undefined} checkout - The checkout's path, from `KERNEL_SOURCE`; relative paths are taken from the working directory.
+ * @returns {Plugin} The plugin.
+ */
+export const kernelSourcePlugin = (checkout: string | undefined): Plugin => ({
+  name: 'kernel-source',
+  apply: 'serve',
+  configureServer(server) {
+    const root = checkout ? realpath(path.resolve(checkout)).catch(() => null) : Promise.resolve(null);
+
+    server.middlewares.use(`/${SOURCE_BASE_URL}`, (req, res) => {
+      const send = (status: number, body: string) => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.end(body);
+      };
+
+      (async () => {
+        const rootPath = await root;
+        if (!rootPath) {
+          send(503, checkout ? `KERNEL_SOURCE (${checkout}) is not a directory.` : 'KERNEL_SOURCE is not set.');
+          return;
+        }
+        let relativePath: string;
+        try {
+          relativePath = decodeURIComponent((req.url ?? '').split('?')[0].replace(/^\/+/, ''));
+        } catch {
+          send(400, 'Malformed path.');
+          return;
+        }
+        const filePath = await realpath(path.join(rootPath, relativePath)).catch(() => null);
+        if (!filePath || !filePath.startsWith(rootPath + path.sep)) {
+          send(404, `${relativePath} is not in the checkout.`);
+          return;
+        }
+        const info = await stat(filePath);
+        if (!info.isFile()) {
+          send(404, `${relativePath} is not a file.`);
+        } else if (info.size > MAX_FILE_BYTES) {
+          send(413, `${relativePath} is too large to show (${info.size} bytes).`);
+        } else {
+          send(200, await readFile(filePath, 'utf8'));
+        }
+      })().catch(error => send(500, String(error)));
+    });
+  },
+});
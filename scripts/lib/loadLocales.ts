@@ -0,0 +1,41 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { mergeNodeTexts, parseLocaleFile, type LocaleFile } from '../../utils/locales';
+
+/** The folder holding the translations that ship with the app. */
+export const BUILT_IN_LOCALES = 'data/locales';
+
+/**
+ * Reads the locale files of one or more folders. Files for the same locale are merged, a
+ * later one's strings and node text taking precedence, so a folder given with `--locales`
+ * can add to or correct the built-in translations.
+ * @param {string[]} dirs - The folders, in order; a folder that does not exist is skipped.
+ * @returns {Promise<LocaleFile[]>} The locales, sorted by code.
+ * @throws {Error} If a file is not a valid locale file, naming the file.
+ */
+export const loadLocales = async (dirs: string[]): Promise<LocaleFile[]> => {
+  const locales = new Map<string, LocaleFile>();
+  for (const dir of dirs) {
+    const files = existsSync(dir) ? (await readdir(dir)).filter(file => file.endsWith('.json')).sort() : [];
+    for (const file of files) {
+      let locale: LocaleFile;
+      try {
+        locale = parseLocaleFile(JSON.parse(await readFile(path.join(dir, file), 'utf8')), file.replace(/\.json$/, ''));
+      } catch (error) {
+        throw new Error(`${path.join(dir, file)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const earlier = locales.get(locale.locale);
+      locales.set(locale.locale, earlier
+        ? {
+          locale: locale.locale,
+          // A file without a name of its own keeps the earlier one.
+          name: locale.name === locale.locale ? earlier.name : locale.name,
+          strings: { ...earlier.strings, ...locale.strings },
+          nodes: mergeNodeTexts(locale.nodes, earlier.nodes),
+        }
+        : locale);
+    }
+  }
+  return [...locales.values()].sort((a, b) => a.locale.localeCompare(b.locale));
+};
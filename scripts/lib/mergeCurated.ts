@@ -0,0 +1,79 @@
+import type { KernelNode } from '../../types';
+
+/**
+ * Checks whether a hand-written node is only a placeholder (e.g. the `'...'` entries
+ * that stand in for "other architectures") and should not be merged.
+ * @param {KernelNode} node - The node to check.
+ * @returns {boolean} True if the node carries no real content.
+ */
+const isPlaceholder = (node: KernelNode): boolean =>
+  node.name === '...' || node.summary.trim() === '...' || node.summary.trim() === '';
+
+/**
+ * Indexes a tree by the path of each node relative to the root, e.g. `kernel/sched/fair.c`.
+ * The root itself is stored under the empty string.
+ * @param {KernelNode} root - The tree to index.
+ * @returns {Map<string, KernelNode>} The nodes keyed by relative path.
+ */
+const indexByPath = (root: KernelNode): Map<string, KernelNode> => {
+  const index = new Map<string, KernelNode>();
+  const visit = (node: KernelNode, path: string) => {
+    index.set(path, node);
+    node.children?.forEach(child => visit(child, path + child.name));
+  };
+  visit(root, '');
+  return index;
+};
+
+/**
+ * The result of merging curated text into a generated tree.
+ */
+export interface MergeResult {
+  /** The generated tree with curated summaries and descriptions applied. */
+  tree: KernelNode;
+  /** Relative paths of curated nodes that were found in the generated tree. */
+  matched: string[];
+  /** Relative paths of curated nodes that do not exist in the generated tree. */
+  unmatched: string[];
+}
+
+/**
+ * Overlays hand-written summaries and descriptions onto a generated tree.
+ * Curated text always wins; generated text is only kept where no curated text exists.
+ * Curated tags are added to the generated ones, and curated related paths and
+ * documentation links replace the generated ones when given.
+ * Nodes are matched by their path relative to the root, so root names may differ.
+ * @param {KernelNode} generated - The tree generated from a kernel checkout.
+ * @param {KernelNode} curated - The hand-written tree (e.g. `kernelData`).
+ * @returns {MergeResult} The merged tree and which curated paths were used.
+ */
+export const mergeCurated = (generated: KernelNode, curated: KernelNode): MergeResult => {
+  const curatedIndex = indexByPath(curated);
+  const matched: string[] = [];
+
+  const merge = (node: KernelNode, path: string): KernelNode => {
+    const curatedNode = curatedIndex.get(path);
+    const children = node.children?.map(child => merge(child, path + child.name));
+    if (curatedNode && !isPlaceholder(curatedNode)) {
+      matched.push(path);
+      return {
+        ...node,
+        summary: curatedNode.summary || node.summary,
+        description: curatedNode.description || node.description,
+        tags: curatedNode.tags ? [...new Set([...(node.tags ?? []), ...curatedNode.tags])] : node.tags,
+        relatedPaths: curatedNode.relatedPaths ?? node.relatedPaths,
+        docLinks: curatedNode.docLinks ?? node.docLinks,
+        children,
+      };
+    }
+    return { ...node, children };
+  };
+
+  const tree = merge(generated, '');
+  const matchedSet = new Set(matched);
+  const unmatched = [...curatedIndex.entries()]
+    .filter(([path, node]) => !matchedSet.has(path) && !isPlaceholder(node))
+    .map(([path]) => path);
+
+  return { tree, matched, unmatched };
+};
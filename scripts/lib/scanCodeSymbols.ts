@@ -0,0 +1,114 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CodeSymbolData, CodeSymbolEntry, CodeSymbolKind } from '../../utils/codeSymbols';
+
+/** Directory entries that are never part of the source tree. */
+const IGNORED_NAMES = new Set(['.git', '.github', '.tmp_versions', 'node_modules']);
+
+/** The files read: C sources and headers. */
+const SOURCE_FILE = /\.[ch]$/;
+
+/** `EXPORT_SYMBOL(name)`, `EXPORT_SYMBOL_GPL(name)` and their `_NS` variants. */
+const EXPORT = /^\s*EXPORT_SYMBOL(?:_NS)?(_GPL)?(?:_NS)?\s*\(\s*(\w+)/;
+
+/** `SYSCALL_DEFINE3(read, ...)`. */
+const SYSCALL = /^SYSCALL_DEFINE\d\s*\(\s*(\w+)/;
+
+/** `struct task_struct {`, at the start of a line. */
+const STRUCT = /^(?:typedef\s+)?struct\s+(\w+)\s*\{/;
+
+/** A line starting a function's declaration: return type and qualifiers, then the name and `(`. */
+const FUNCTION = /^(?:[A-Za-z_][\w\s*]*?[\s*])?([A-Za-z_]\w*)\s*\(/;
+
+/** Words that look like a function name in `FUNCTION` but are not one. */
+const NOT_FUNCTIONS = new Set(['if', 'for', 'while', 'switch', 'return', 'sizeof', 'typeof', '__attribute__', 'asm', 'int', 'void', 'char', 'long']);
+
+/** How many lines after its name a function's opening brace is looked for. */
+const MAX_SIGNATURE_LINES = 12;
+
+/**
+ * Finds the definitions and exports in one C file. Functions are recognized in the kernel's
+ * coding style: the name starts a line (after the return type) and the body's opening brace
+ * follows the parameter list, usually alone on a line. Prototypes end with `;` instead and
+ * are skipped, as are names in capitals, which are macros such as `DEFINE_MUTEX(...)`.
+ * @param {string} text - The file's contents.
+ * @returns {Array<[name: string, kind: CodeSymbolKind, line: number]>} The entries, in line order.
+ */
+export const findCodeSymbols = (text: string): Array<[name: string, kind: CodeSymbolKind, line: number]> => {
+  const lines = text.split('\n');
+  const found: Array<[string, CodeSymbolKind, number]> = [];
+
+  // Whether a function body opens before a `;` within a few lines of `start`.
+  const opensBody = (start: number): boolean => {
+    for (let i = start; i < Math.min(lines.length, start + MAX_SIGNATURE_LINES); i++) {
+      const line = lines[i].replace(/\/\*.*?\*\/|\/\/.*$/g, '').trimEnd();
+      if (line.startsWith('{') || /\)[^;]*\{/.test(line)) {
+        return true;
+      }
+      if (line.endsWith(';') || line.endsWith('}') || (i > start && line.startsWith('#'))) {
+        return false;
+      }
+    }
+    return false;
+  };
+
+  lines.forEach((line, index) => {
+    const exported = line.match(EXPORT);
+    if (exported) {
+      found.push([exported[2], exported[1] ? 'export_gpl' : 'export', index + 1]);
+      return;
+    }
+    const syscall = line.match(SYSCALL);
+    if (syscall) {
+      found.push([`sys_${syscall[1]}`, 'syscall', index + 1]);
+      return;
+    }
+    const struct = line.match(STRUCT);
+    if (struct) {
+      found.push([struct[1], 'struct', index + 1]);
+      return;
+    }
+    if (!/^[A-Za-z_]/.test(line)) {
+      return;
+    }
+    const fn = line.match(FUNCTION);
+    if (fn && !NOT_FUNCTIONS.has(fn[1]) && /[a-z]/.test(fn[1]) && !/^(typedef|extern)\b/.test(line) && opensBody(index)) {
+      found.push([fn[1], 'function', index + 1]);
+    }
+  });
+  return found;
+};
+
+/**
+ * Reads the function, structure and system call definitions and the exported symbols of
+ * every C source and header of a kernel checkout (or a tree of excerpts laid out like one).
+ * @param {string} root - The absolute or working-directory-relative path of the checkout.
+ * @returns {Promise<CodeSymbolData>} The files with entries and the entries.
+ */
+export const scanCodeSymbols = async (root: string): Promise<CodeSymbolData> => {
+  const files: string[] = [];
+  const symbols: CodeSymbolEntry[] = [];
+
+  const visit = async (relativeDir: string) => {
+    const dirents = await readdir(path.join(root, relativeDir), { withFileTypes: true });
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+    for (const dirent of dirents) {
+      if (IGNORED_NAMES.has(dirent.name)) {
+        continue;
+      }
+      const relativePath = relativeDir + dirent.name;
+      if (dirent.isDirectory()) {
+        await visit(`${relativePath}/`);
+      } else if (dirent.isFile() && SOURCE_FILE.test(dirent.name)) {
+        const found = findCodeSymbols(await readFile(path.join(root, relativePath), 'utf8'));
+        if (found.length > 0) {
+          const file = files.push(relativePath) - 1;
+          found.forEach(([name, kind, line]) => symbols.push([name, kind, file, line]));
+        }
+      }
+    }
+  };
+  await visit('');
+
+  return { files, symbols };
+};
@@ -0,0 +1,99 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { IncludeGraphData } from '../../utils/includeGraph';
+
+/** Directory entries that are never part of the source tree. */
+const IGNORED_NAMES = new Set(['.git', '.github', '.tmp_versions', 'node_modules']);
+
+/** The files whose `#include` directives are read: C, headers, assembly and device trees. */
+const SOURCE_FILE = /\.(c|h|S|dts|dtsi)$/;
+
+/** `#include <linux/sched.h>` or `# include "sched.h"`. */
+const INCLUDE = /^[ \t]*#[ \t]*include[ \t]*([<"])([^>"\n]+)[>"]/gm;
+
+/**
+ * Lists the files an `#include` may refer to, most likely first, following the kernel's
+ * include path: the including file's directory for `"..."`, then `include/` and
+ * `include/uapi/`, then the headers of the architecture the file belongs to. `<asm/...>`
+ * headers outside `arch/` fall back to their `include/asm-generic/` version.
+ * @param {string} from - The including file's path relative to the root, e.g. `kernel/sched/core.c`.
+ * @param {string} target - The included name, e.g. `linux/sched.h`.
+ * @param {boolean} quoted - Whether the name was in quotes rather than angle brackets.
+ * @returns {string[]} The candidate paths relative to the root.
+ */
+export const includeCandidates = (from: string, target: string, quoted: boolean): string[] => {
+  const candidates: string[] = [];
+  if (quoted) {
+    candidates.push(path.posix.join(path.posix.dirname(from), target));
+  }
+  candidates.push(`include/${target}`, `include/uapi/${target}`);
+  const arch = from.match(/^arch\/([^/]+)\//)?.[1];
+  if (arch) {
+    candidates.push(`arch/${arch}/include/${target}`, `arch/${arch}/include/uapi/${target}`);
+  }
+  if (target.startsWith('asm/')) {
+    candidates.push(`include/asm-generic/${target.slice(4)}`);
+  }
+  return candidates;
+};
+
+/**
+ * Reads the `#include` directives of every C, header, assembly and device tree file of a
+ * kernel checkout (or a tree of excerpts laid out like one) into a file-level graph.
+ * Includes that resolve to no file, such as generated headers, are left out.
+ * @param {string} root - The absolute or working-directory-relative path of the checkout.
+ * @returns {Promise<IncludeGraphData>} The files that include or are included, and their edges.
+ */
+export const scanIncludes = async (root: string): Promise<IncludeGraphData> => {
+  const allFiles = new Set<string>();
+  const sources: string[] = [];
+
+  const visit = async (relativeDir: string) => {
+    const dirents = await readdir(path.join(root, relativeDir), { withFileTypes: true });
+    for (const dirent of dirents) {
+      if (IGNORED_NAMES.has(dirent.name)) {
+        continue;
+      }
+      const relativePath = relativeDir + dirent.name;
+      if (dirent.isDirectory()) {
+        await visit(`${relativePath}/`);
+      } else if (dirent.isFile()) {
+        allFiles.add(relativePath);
+        if (SOURCE_FILE.test(dirent.name)) {
+          sources.push(relativePath);
+        }
+      }
+    }
+  };
+  await visit('');
+
+  const files: string[] = [];
+  const ids = new Map<string, number>();
+  const includes: number[][] = [];
+  const idOf = (file: string): number => {
+    let id = ids.get(file);
+    if (id === undefined) {
+      id = files.length;
+      ids.set(file, id);
+      files.push(file);
+      includes.push([]);
+    }
+    return id;
+  };
+
+  for (const source of sources) {
+    const text = await readFile(path.join(root, source), 'utf8');
+    const targets = new Set<number>();
+    for (const [, delimiter, target] of text.matchAll(INCLUDE)) {
+      const resolved = includeCandidates(source, target.trim(), delimiter === '"').find(candidate => allFiles.has(candidate));
+      if (resolved && resolved !== source) {
+        targets.add(idOf(resolved));
+      }
+    }
+    if (targets.size > 0) {
+      includes[idOf(source)].push(...targets);
+    }
+  }
+
+  return { files, includes };
+};
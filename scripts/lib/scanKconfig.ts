@@ -0,0 +1,66 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseKconfig, type KconfigData } from '../../utils/kconfig';
+import { parseKbuildGates } from './kbuild';
+
+/** Directory entries that are never part of the source tree. */
+const IGNORED_NAMES = new Set(['.git', '.github', '.tmp_versions', 'node_modules']);
+
+/** The extensions an object file's source may have, in order of preference. */
+const SOURCE_EXTENSIONS = ['.c', '.S', '.rs'];
+
+/**
+ * Reads every Kconfig file and Makefile of a kernel checkout (or a tree of excerpts laid
+ * out like one) into the data served to the app.
+ * @param {string} root - The absolute or working-directory-relative path of the checkout.
+ * @param {boolean} [hasSources=true] - Whether the tree contains source files. Objects are then only
+ *   attributed to sources that exist (which leaves out generated files); otherwise they are assumed to be C.
+ * @returns {Promise<KconfigData>} The declarations, the paths each symbol controls and the paths Kbuild builds.
+ */
+export const scanKconfig = async (root: string, hasSources = true): Promise<KconfigData> => {
+  const listed: string[] = [];
+  const makefiles: string[] = [];
+  const data: KconfigData = { entries: [], gates: {}, listed, makefiles };
+
+  const visit = async (relativeDir: string) => {
+    const dirents = await readdir(path.join(root, relativeDir), { withFileTypes: true });
+    const names = new Set(dirents.map(dirent => dirent.name));
+
+    for (const dirent of dirents) {
+      if (IGNORED_NAMES.has(dirent.name)) {
+        continue;
+      }
+      const relativePath = relativeDir + dirent.name;
+      if (dirent.isDirectory()) {
+        await visit(`${relativePath}/`);
+      } else if (dirent.isFile() && /^Kconfig/.test(dirent.name)) {
+        data.entries.push(...parseKconfig(await readFile(path.join(root, relativePath), 'utf8'), relativePath));
+      }
+    }
+
+    // Kbuild takes precedence over Makefile when a directory has both.
+    const makefile = ['Kbuild', 'Makefile'].find(name => names.has(name));
+    if (!makefile) {
+      return;
+    }
+    const resolveObject = (object: string): string | null => {
+      const base = object.slice(0, -2);
+      // Sources in subdirectories (`sub/foo.o`) are not looked up; they are almost always C.
+      if (!hasSources || base.includes('/')) {
+        return `${relativeDir}${base}.c`;
+      }
+      const extension = SOURCE_EXTENSIONS.find(ext => names.has(base + ext));
+      return extension ? relativeDir + base + extension : null;
+    };
+    const text = await readFile(path.join(root, relativeDir, makefile), 'utf8');
+    const objects = parseKbuildGates(text, relativeDir, resolveObject);
+    for (const [symbol, paths] of objects.gates) {
+      data.gates[symbol] = [...(data.gates[symbol] ?? []), ...paths];
+    }
+    listed.push(...objects.listed);
+    makefiles.push(relativeDir);
+  };
+
+  await visit('');
+  return data;
+};
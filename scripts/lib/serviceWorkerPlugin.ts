@@ -0,0 +1,104 @@
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { DATASET_FILE, TREE_BASE_URL, type DatasetInfo } from '../../data/treeChunks';
+
+/** The service worker's source, built as a separate chunk. */
+const SERVICE_WORKER_ENTRY = path.resolve(__dirname, '../../serviceWorker.ts');
+
+/** The service worker's file name, at the root of the build so that its scope is the whole app. */
+export const SERVICE_WORKER_FILE = 'sw.js';
+
+/** The identifier in the service worker's source that is replaced with its precache manifest. */
+const MANIFEST_PLACEHOLDER = '__PRECACHE_MANIFEST__';
+
+/**
+ * What the service worker caches, written into it at build time, so that a new build or a new
+ * dataset changes the worker's bytes and the browser installs it.
+ */
+export interface PrecacheManifest {
+  shell: {
+    /** A hash of the app's files; the shell is cached under it. */
+    version: string;
+    /** The app's files relative to the worker, `./` standing for the page itself. */
+    files: string[];
+  };
+  dataset: {
+    /** The dataset's version from `dataset.json`; the dataset is cached under it. */
+    version: string;
+    /** Where the dataset is served from, relative to the worker. */
+    base: string;
+    /** The file listing the dataset's files, relative to `base`. */
+    file: string;
+  };
+}
+
+/**
+ * Lists the files of a directory and its subdirectories.
+ * @param {string} dir - The directory.
+ * @returns {Promise<string[]>} The files' paths relative to the directory, with `/` separators.
+ */
+const listFiles = async (dir: string): Promise<string[]> => (await readdir(dir, { recursive: true, withFileTypes: true }))
+  .filter(entry => entry.isFile())
+  .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+
+/**
+ * A build plugin that adds the service worker (`serviceWorker.ts`) as `sw.js`, with the list of
+ * the app's files and the dataset's version written into it. The app's files are everything
+ * in the bundle, the page and the files in `public/` outside the dataset; the dataset's own
+ * files are listed by `dataset.json`, which `build-chunks` writes before the build.
+ * @returns {Plugin} The plugin.
+ */
+export const serviceWorkerPlugin = (): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    buildStart() {
+      this.emitFile({ type: 'chunk', id: SERVICE_WORKER_ENTRY, fileName: SERVICE_WORKER_FILE });
+    },
+    async generateBundle(_options, bundle) {
+      const datasetFile = path.join(config.publicDir, TREE_BASE_URL, DATASET_FILE);
+      if (!existsSync(datasetFile)) {
+        this.error(`${datasetFile} not found; run npm run build-chunks before building`);
+      }
+      const dataset = JSON.parse(await readFile(datasetFile, 'utf8')) as DatasetInfo;
+
+      const hash = createHash('sha256');
+      const files: string[] = [];
+      for (const file of Object.values(bundle).sort((a, b) => a.fileName.localeCompare(b.fileName))) {
+        // Every browser that runs service workers reads WOFF2, so the WOFF copies of the fonts are left out.
+        if (file.fileName === SERVICE_WORKER_FILE || file.fileName.endsWith('.woff')) {
+          continue;
+        }
+        files.push(file.fileName === 'index.html' ? './' : file.fileName);
+        hash.update(`${file.fileName}\0`).update(file.type === 'chunk' ? file.code : file.source).update('\0');
+      }
+      if (existsSync(config.publicDir)) {
+        for (const file of (await listFiles(config.publicDir)).sort()) {
+          if (!file.startsWith(TREE_BASE_URL)) {
+            files.push(file);
+            hash.update(`${file}\0`).update(await readFile(path.join(config.publicDir, file))).update('\0');
+          }
+        }
+      }
+
+      const manifest: PrecacheManifest = {
+        shell: { version: hash.digest('hex').slice(0, 12), files },
+        dataset: { version: dataset.version, base: TREE_BASE_URL, file: DATASET_FILE },
+      };
+      const worker = bundle[SERVICE_WORKER_FILE];
+      if (worker?.type !== 'chunk' || !worker.code.includes(MANIFEST_PLACEHOLDER)) {
+        this.error(`${SERVICE_WORKER_FILE} was not built from ${SERVICE_WORKER_ENTRY}`);
+      }
+      worker.code = worker.code.replaceAll(MANIFEST_PLACEHOLDER, `(${JSON.stringify(manifest)})`);
+    },
+  };
+};
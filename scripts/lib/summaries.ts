@@ -0,0 +1,233 @@
+/**
+ * Helpers that turn text already present in a kernel checkout (file header comments,
+ * Kconfig help blocks, README/Documentation files) into a summary and a description.
+ */
+
+/** The longest summary we keep; anything longer is cut at a word boundary. */
+const MAX_SUMMARY_LENGTH = 120;
+/** The longest description we keep, so generated data stays reasonably small. */
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * Text extracted for a single node.
+ */
+export interface ExtractedText {
+  /** A one-line summary for the tree view. */
+  summary: string;
+  /** A longer explanation for the detail panel. */
+  description: string;
+}
+
+/** Header comment lines that carry licensing or authorship rather than a description. */
+const BOILERPLATE_LINE = /^(SPDX-License-Identifier|Copyright|\(C\)|\(c\)|Author|Authors|Written by|Maintainer|Based on|Originally)\b|@[\w.-]+\.\w+|^linux\/[\w./-]+$|^[\w.-]+\.[chS]$/;
+
+/**
+ * Collapses whitespace and cuts text to a maximum length at a word boundary.
+ * @param {string} text - The text to shorten.
+ * @param {number} max - The maximum length.
+ * @returns {string} The shortened text, with an ellipsis if it was cut.
+ */
+const truncate = (text: string, max: number): string => {
+  if (text.length <= max) {
+    return text;
+  }
+  const cut = text.slice(0, max);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
+
+/**
+ * Builds a summary/description pair from a block of paragraphs.
+ * The summary is the first sentence of the first paragraph.
+ * @param {string[]} paragraphs - Paragraphs of plain text, already stripped of markup.
+ * @returns {ExtractedText | null} The extracted text, or null if there was nothing usable.
+ */
+export const toExtractedText = (paragraphs: string[]): ExtractedText | null => {
+  const cleaned = paragraphs.map(p => p.replace(/\s+/g, ' ').trim()).filter(p => p.length > 0);
+  if (cleaned.length === 0) {
+    return null;
+  }
+  const firstSentence = cleaned[0].match(/^.+?[.!?](?=\s|$)/)?.[0] ?? cleaned[0];
+  return {
+    summary: truncate(firstSentence, MAX_SUMMARY_LENGTH),
+    description: truncate(cleaned.join('\n'), MAX_DESCRIPTION_LENGTH),
+  };
+};
+
+/**
+ * Splits lines into paragraphs separated by blank lines.
+ * @param {string[]} lines - The lines to group.
+ * @returns {string[]} The paragraphs, each joined with spaces.
+ */
+const toParagraphs = (lines: string[]): string[] => {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === '') {
+      if (current.length > 0) {
+        paragraphs.push(current.join(' '));
+        current = [];
+      }
+    } else {
+      current.push(line.trim());
+    }
+  }
+  if (current.length > 0) {
+    paragraphs.push(current.join(' '));
+  }
+  return paragraphs;
+};
+
+/**
+ * Extracts the leading comment of a C, assembly or Rust source file.
+ * SPDX tags, copyright notices, author lines and a repeated file name are dropped.
+ * @param {string} source - The beginning of the file's contents.
+ * @returns {ExtractedText | null} The extracted text, or null if the file has no usable header comment.
+ */
+export const extractHeaderComment = (source: string): ExtractedText | null => {
+  const lines = source.split('\n');
+  let index = 0;
+  // Skip blank lines and `//` SPDX tags that precede the real header.
+  while (index < lines.length && (lines[index].trim() === '' || /^\/\/\s*SPDX/.test(lines[index].trim()))) {
+    index++;
+  }
+
+  const body: string[] = [];
+  const first = lines[index]?.trim() ?? '';
+  if (first.startsWith('/*')) {
+    for (; index < lines.length; index++) {
+      const line = lines[index];
+      const end = line.indexOf('*/');
+      body.push((end >= 0 ? line.slice(0, end) : line).replace(/^\s*\/?\*+!?\s?/, ''));
+      if (end >= 0) {
+        break;
+      }
+    }
+  } else if (first.startsWith('//')) {
+    for (; index < lines.length && lines[index].trim().startsWith('//'); index++) {
+      body.push(lines[index].trim().replace(/^\/\/[/!]?\s?/, ''));
+    }
+  } else {
+    return null;
+  }
+
+  const meaningful = body.map(line => (BOILERPLATE_LINE.test(line.trim()) ? '' : line));
+  return toExtractedText(toParagraphs(meaningful));
+};
+
+/**
+ * Extracts the leading `#` comment block of a Makefile or Kbuild file.
+ * @param {string} source - The beginning of the file's contents.
+ * @returns {ExtractedText | null} The extracted text, or null if the file has no header comment.
+ */
+export const extractHashComment = (source: string): ExtractedText | null => {
+  const body: string[] = [];
+  for (const line of source.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('#')) {
+      if (trimmed === '' && body.length === 0) {
+        continue;
+      }
+      break;
+    }
+    const text = trimmed.replace(/^#+\s?/, '');
+    body.push(BOILERPLATE_LINE.test(text) ? '' : text);
+  }
+  return toExtractedText(toParagraphs(body));
+};
+
+/**
+ * Extracts the prompt and help text of the first `menuconfig`, `config` or `menu`
+ * entry in a Kconfig file.
+ * @param {string} source - The contents of the Kconfig file.
+ * @returns {ExtractedText | null} The prompt as summary and the help text as description, or null.
+ */
+export const extractKconfigHelp = (source: string): ExtractedText | null => {
+  const lines = source.split('\n');
+  let prompt: string | null = null;
+  let inEntry = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    const menu = trimmed.match(/^menu\s+"([^"]+)"/);
+    if (menu && !inEntry) {
+      prompt = menu[1];
+      continue;
+    }
+    if (/^(menuconfig|config)\s+\w+/.test(trimmed)) {
+      if (inEntry) {
+        // The first entry had no help text; keep looking at the next one.
+        prompt = null;
+      }
+      inEntry = true;
+      continue;
+    }
+    if (!inEntry) {
+      continue;
+    }
+    const typedPrompt = trimmed.match(/^(?:bool|tristate|string|int|hex|prompt)\s+"([^"]+)"/);
+    if (typedPrompt && !prompt) {
+      prompt = typedPrompt[1];
+      continue;
+    }
+    if (/^(---\s*)?help(\s*---)?$/.test(trimmed)) {
+      const helpIndent = lines[i].search(/\S/);
+      const help: string[] = [];
+      for (let j = i + 1; j < lines.length; j++) {
+        const line = lines[j];
+        if (line.trim() !== '' && line.search(/\S/) <= helpIndent) {
+          break;
+        }
+        help.push(line);
+      }
+      const extracted = toExtractedText(toParagraphs(help));
+      if (extracted) {
+        return { summary: prompt ? truncate(prompt, MAX_SUMMARY_LENGTH) : extracted.summary, description: extracted.description };
+      }
+    }
+  }
+
+  return prompt ? { summary: truncate(prompt, MAX_SUMMARY_LENGTH), description: prompt } : null;
+};
+
+/**
+ * Extracts the opening text of a README or reStructuredText/Markdown document.
+ * Headings become the summary when the document starts with one; directives,
+ * section underlines and label lines are skipped.
+ * @param {string} source - The contents of the document.
+ * @returns {ExtractedText | null} The extracted text, or null if the document has no prose.
+ */
+export const extractDocumentText = (source: string): ExtractedText | null => {
+  const lines = source.split('\n');
+  let title: string | null = null;
+  const body: string[] = [];
+
+  for (let i = 0; i < lines.length && body.length < 40; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    const next = lines[i + 1]?.trim() ?? '';
+    if (/^([=\-~^*#+])\1{2,}$/.test(trimmed) || /^\.\.\s/.test(trimmed) || /^:\w+:/.test(trimmed)) {
+      continue;
+    }
+    const isUnderlined = trimmed !== '' && /^([=\-~^*#+])\1{2,}$/.test(next);
+    const markdownHeading = trimmed.match(/^#{1,6}\s+(.*)$/);
+    if (isUnderlined || markdownHeading) {
+      const heading = markdownHeading ? markdownHeading[1] : trimmed;
+      if (title === null && body.length === 0) {
+        title = heading;
+        continue;
+      }
+      if (body.length > 0) {
+        break;
+      }
+      continue;
+    }
+    body.push(line);
+  }
+
+  const extracted = toExtractedText(toParagraphs(body));
+  if (title && extracted) {
+    return { summary: truncate(title, MAX_SUMMARY_LENGTH), description: extracted.description };
+  }
+  return extracted ?? (title ? { summary: truncate(title, MAX_SUMMARY_LENGTH), description: title } : null);
+};
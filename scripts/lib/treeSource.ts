@@ -0,0 +1,24 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import type { KernelNode, LegacyKernelNode } from '../../types';
+import { kernelData } from '../../data/kernelData';
+
+/** The tree written by `import-tree`, used when it exists. */
+export const DEFAULT_TREE_INPUT = 'data/kernelTree.generated.json';
+
+/** The language the bundled `kernelData` is written in. */
+const KERNEL_DATA_LOCALE = 'ja';
+
+/**
+ * Reads the tree the app is built from, as written: a JSON file, else the tree generated by
+ * `import-tree`, else the bundled `kernelData`. It is not migrated.
+ * @param {string | undefined} input - The JSON file given on the command line, if any.
+ * @returns {Promise<{ tree: LegacyKernelNode | KernelNode; source: string; textLocale?: string }>} The tree, a description of where it came from and, if known, the language its text is written in.
+ */
+export const loadTreeSource = async (input: string | undefined): Promise<{ tree: LegacyKernelNode | KernelNode; source: string; textLocale?: string }> => {
+  const file = input ?? (existsSync(DEFAULT_TREE_INPUT) ? DEFAULT_TREE_INPUT : undefined);
+  if (!file) {
+    return { tree: kernelData, source: 'data/kernelData.ts', textLocale: KERNEL_DATA_LOCALE };
+  }
+  return { tree: JSON.parse(await readFile(file, 'utf8')) as LegacyKernelNode | KernelNode, source: file };
+};
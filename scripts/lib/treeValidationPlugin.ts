@@ -0,0 +1,41 @@
+import type { Plugin } from 'vite';
+import { buildValidationReport, formatIssue, validateTree } from '../../utils/validateTree';
+import { findMissingPaths } from './checkCheckout';
+import { loadTreeSource } from './treeSource';
+
+/** How many issues are printed when the dev server starts; `npm run validate-tree` lists them all. */
+const MAX_LOGGED_ISSUES = 10;
+
+/**
+ * A dev server plugin that validates the tree when the server starts, the way
+ * `npm run validate-tree` does, and prints a summary with the first issues to the terminal.
+ * When a checkout is configured for the source view, the tree's paths are checked against it
+ * too. The check runs in the background and never stops the server.
+ * @param {string | undefined} checkout - The checkout's path, from `KERNEL_SOURCE`, if set.
+ * @returns {Plugin} The plugin.
+ */
+export const treeValidationPlugin = (checkout: string | undefined): Plugin => ({
+  name: 'tree-validation',
+  apply: 'serve',
+  configureServer(server) {
+    const { logger } = server.config;
+    (async () => {
+      const { tree, source } = await loadTreeSource(undefined);
+      const { issues, nodes } = validateTree(tree);
+      if (checkout) {
+        issues.push(...await findMissingPaths(tree, checkout));
+      }
+      const report = buildValidationReport(source, nodes, issues);
+      if (report.issues.length === 0) {
+        logger.info(`Tree data: ${report.nodes} nodes from ${source}, no issues`, { timestamp: true });
+        return;
+      }
+      const log = report.errors > 0 ? logger.error : logger.warn;
+      log(`Tree data: ${report.errors} errors and ${report.warnings} warnings in ${source}${checkout ? ` (checked against ${checkout})` : ''}`, { timestamp: true });
+      report.issues.slice(0, MAX_LOGGED_ISSUES).forEach(issue => log(`  ${formatIssue(issue)}`));
+      if (report.issues.length > MAX_LOGGED_ISSUES) {
+        log(`  … and ${report.issues.length - MAX_LOGGED_ISSUES} more; run npm run validate-tree to see them all`);
+      }
+    })().catch(error => logger.warn(`Tree data could not be validated: ${error instanceof Error ? error.message : String(error)}`));
+  },
+});
@@ -0,0 +1,285 @@
+import { open, readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { KernelNode } from '../../types';
+import { deriveTags, detectLanguage } from '../../utils/nodeMetadata';
+import {
+  extractDocumentText,
+  extractHashComment,
+  extractHeaderComment,
+  extractKconfigHelp,
+  type ExtractedText,
+} from './summaries';
+
+/** How many bytes of each file are read when looking for a header comment. */
+const HEADER_BYTES = 8192;
+
+/** Directory entries that are never part of the source tree. */
+const IGNORED_NAMES = new Set(['.git', '.github', '.tmp_versions', 'node_modules']);
+
+/** README variants checked, in order, when describing a directory. */
+const README_NAMES = ['README', 'README.rst', 'README.md', 'README.txt'];
+
+/**
+ * Options for walking a kernel checkout.
+ */
+export interface WalkOptions {
+  /** The name given to the root node. Defaults to `linux/`. */
+  rootName?: string;
+  /** Stop descending below this depth (the root is depth 0). Unlimited if omitted. */
+  maxDepth?: number;
+  /** Called after each directory has been read, for progress reporting. */
+  onDirectory?: (relativePath: string) => void;
+}
+
+/**
+ * Reads the beginning of a file as UTF-8 text.
+ * @param {string} filePath - The absolute path of the file.
+ * @param {number} bytes - How many bytes to read at most.
+ * @returns {Promise<string>} The text, or an empty string if the file cannot be read.
+ */
+const readHead = async (filePath: string, bytes: number): Promise<string> => {
+  try {
+    const handle = await open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(bytes);
+      const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+      return buffer.subarray(0, bytesRead).toString('utf8');
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Reads a whole text file if it exists.
+ * @param {string} filePath - The absolute path of the file.
+ * @returns {Promise<string | null>} The contents, or null if the file does not exist.
+ */
+const readIfExists = async (filePath: string): Promise<string | null> => {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks whether a file or directory exists.
+ * @param {string} filePath - The absolute path.
+ * @returns {Promise<boolean>} True if it exists.
+ */
+const pathExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Counts the lines of a file. A last line without a trailing newline still counts.
+ * @param {string} filePath - The absolute path of the file.
+ * @returns {Promise<number | undefined>} The line count, or undefined if the file cannot be read.
+ */
+const countLines = async (filePath: string): Promise<number | undefined> => {
+  try {
+    const contents = await readFile(filePath);
+    let lines = 0;
+    for (let i = contents.indexOf(10); i >= 0; i = contents.indexOf(10, i + 1)) {
+      lines++;
+    }
+    return contents.length > 0 && contents[contents.length - 1] !== 10 ? lines + 1 : lines;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Finds the headers that go with a C source file: one with the same name next to it,
+ * or in `include/linux/`.
+ * @param {string} rootDir - The absolute path of the kernel checkout.
+ * @param {string} relativePath - The source file's path relative to the checkout.
+ * @returns {Promise<string[]>} The paths of the existing headers, relative to the checkout.
+ */
+const findRelatedHeaders = async (rootDir: string, relativePath: string): Promise<string[]> => {
+  if (!relativePath.endsWith('.c')) {
+    return [];
+  }
+  const base = path.posix.basename(relativePath, '.c');
+  const candidates = [path.posix.join(path.posix.dirname(relativePath), `${base}.h`), `include/linux/${base}.h`];
+  const related: string[] = [];
+  for (const candidate of candidates) {
+    if (await pathExists(path.join(rootDir, candidate))) {
+      related.push(candidate);
+    }
+  }
+  return related;
+};
+
+/**
+ * Lists the `Documentation/` pages that may describe a directory, most specific first.
+ * @param {string} relativeDir - The directory path relative to the checkout, without a trailing slash.
+ * @returns {string[]} Candidate paths relative to the checkout; they may not exist.
+ */
+const documentationCandidates = (relativeDir: string): string[] => {
+  if (relativeDir.startsWith('Documentation')) {
+    return [path.posix.join(relativeDir, 'index.rst')];
+  }
+  return relativeDir !== '' ? [`Documentation/${relativeDir}/index.rst`, `Documentation/${relativeDir}.rst`] : [];
+};
+
+/**
+ * Extracts text for a file node from its contents, based on the kind of file.
+ * @param {string} name - The file name.
+ * @param {string} absolutePath - The absolute path of the file.
+ * @returns {Promise<ExtractedText | null>} The extracted text, or null if nothing usable was found.
+ */
+const describeFile = async (name: string, absolutePath: string): Promise<ExtractedText | null> => {
+  if (/^Kconfig/.test(name)) {
+    return extractKconfigHelp(await readHead(absolutePath, HEADER_BYTES * 4));
+  }
+  if (/^(Makefile|Kbuild)/.test(name)) {
+    return extractHashComment(await readHead(absolutePath, HEADER_BYTES));
+  }
+  if (/\.(c|h|S|rs|lds|dts|dtsi)$/.test(name)) {
+    return extractHeaderComment(await readHead(absolutePath, HEADER_BYTES));
+  }
+  if (/^README|\.(rst|md|txt)$/.test(name)) {
+    return extractDocumentText(await readHead(absolutePath, HEADER_BYTES));
+  }
+  return null;
+};
+
+/**
+ * Extracts text for a directory node. A README inside the directory wins, then a
+ * matching page under `Documentation/`, then the help text of the directory's Kconfig.
+ * @param {string} rootDir - The absolute path of the kernel checkout.
+ * @param {string} relativeDir - The directory path relative to the checkout, without a trailing slash.
+ * @returns {Promise<ExtractedText | null>} The extracted text, or null if nothing usable was found.
+ */
+const describeDirectory = async (rootDir: string, relativeDir: string): Promise<ExtractedText | null> => {
+  const absoluteDir = path.join(rootDir, relativeDir);
+  for (const readme of README_NAMES) {
+    const text = await readIfExists(path.join(absoluteDir, readme));
+    const extracted = text && extractDocumentText(text);
+    if (extracted) {
+      return extracted;
+    }
+  }
+
+  for (const candidate of documentationCandidates(relativeDir)) {
+    const text = await readIfExists(path.join(rootDir, candidate));
+    const extracted = text && extractDocumentText(text);
+    if (extracted) {
+      return extracted;
+    }
+  }
+
+  const kconfig = await readIfExists(path.join(absoluteDir, 'Kconfig'));
+  return kconfig ? extractKconfigHelp(kconfig) : null;
+};
+
+/**
+ * Orders directories before files and each group alphabetically, matching the hand-written data.
+ * @param {KernelNode} a - The first node.
+ * @param {KernelNode} b - The second node.
+ * @returns {number} A negative, zero or positive number, as for `Array.prototype.sort`.
+ */
+const compareNodes = (a: KernelNode, b: KernelNode): number => {
+  const aIsDir = a.name.endsWith('/');
+  const bIsDir = b.name.endsWith('/');
+  if (aIsDir !== bIsDir) {
+    return aIsDir ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+};
+
+/**
+ * Walks a local Linux kernel checkout and builds a KernelNode tree from it.
+ * Directory names end with `/`, as in the hand-written data. Summaries and descriptions
+ * come from header comments, Kconfig help text and README/Documentation files; nodes
+ * with no such text get empty strings. Files also get their language and line count,
+ * C sources their headers as related paths, and directories their Documentation pages.
+ * @param {string} rootDir - The path of the kernel checkout.
+ * @param {WalkOptions} [options] - Options controlling the walk.
+ * @returns {Promise<KernelNode>} The root node of the generated tree.
+ */
+export const walkKernelTree = async (rootDir: string, options: WalkOptions = {}): Promise<KernelNode> => {
+  const { rootName = 'linux/', maxDepth = Infinity, onDirectory } = options;
+  const absoluteRoot = path.resolve(rootDir);
+  const rootStat = await stat(absoluteRoot);
+  if (!rootStat.isDirectory()) {
+    throw new Error(`Not a directory: ${rootDir}`);
+  }
+
+  const describeFileNode = async (name: string, relativePath: string, isSymlink: boolean): Promise<KernelNode> => {
+    const absolutePath = path.join(absoluteRoot, relativePath);
+    const node: KernelNode = { name, kind: isSymlink ? 'symlink' : 'file', summary: '', description: '' };
+    const tags = deriveTags(relativePath);
+    if (tags.length > 0) {
+      node.tags = tags;
+    }
+    if (isSymlink) {
+      return node;
+    }
+    const text = await describeFile(name, absolutePath);
+    node.summary = text?.summary ?? '';
+    node.description = text?.description ?? '';
+    node.language = detectLanguage(name);
+    node.lineCount = await countLines(absolutePath);
+    const related = await findRelatedHeaders(absoluteRoot, relativePath);
+    if (related.length > 0) {
+      node.relatedPaths = related;
+    }
+    return node;
+  };
+
+  const walkDirectory = async (relativeDir: string, name: string, depth: number): Promise<KernelNode> => {
+    const absoluteDir = path.join(absoluteRoot, relativeDir);
+    const entries = await readdir(absoluteDir, { withFileTypes: true });
+    const children: KernelNode[] = [];
+
+    if (depth < maxDepth) {
+      for (const entry of entries) {
+        if (entry.name.startsWith('.') || IGNORED_NAMES.has(entry.name)) {
+          continue;
+        }
+        const relativePath = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          children.push(await walkDirectory(relativePath, `${entry.name}/`, depth + 1));
+        } else if (entry.isFile() || entry.isSymbolicLink()) {
+          children.push(await describeFileNode(entry.name, relativePath, entry.isSymbolicLink()));
+        }
+      }
+    }
+
+    onDirectory?.(relativeDir);
+    const text = await describeDirectory(absoluteRoot, relativeDir);
+    const node: KernelNode = {
+      name,
+      kind: 'dir',
+      summary: text?.summary ?? '',
+      description: text?.description ?? '',
+      children: children.sort(compareNodes),
+    };
+    const tags = deriveTags(relativeDir === '' ? '' : `${relativeDir}/`);
+    if (tags.length > 0) {
+      node.tags = tags;
+    }
+    const docLinks: string[] = [];
+    for (const candidate of documentationCandidates(relativeDir)) {
+      if (await pathExists(path.join(absoluteRoot, candidate))) {
+        docLinks.push(candidate);
+      }
+    }
+    if (docLinks.length > 0) {
+      node.docLinks = docLinks;
+    }
+    return node;
+  };
+
+  return walkDirectory('', rootName, 0);
+};
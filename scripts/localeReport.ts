@@ -0,0 +1,100 @@
+/**
+ * Reports, for each locale, the nodes whose summary or description is not translated, and the
+ * interface strings left in English. The tree and locales are the same as for `build-chunks`:
+ * the tree from `--in`, `data/kernelTree.generated.json` or the bundled `kernelData`, and the
+ * locale files in `data/locales/` plus any folder given with `--locales`. The locale the tree's
+ * text is written in (see `--text-locale` of `build-chunks`) needs no node translations.
+ *
+ * Untranslated nodes are printed one per line, or with `--format json` as a report per locale
+ * on standard output. With `--locale` only that locale is reported.
+ *
+ * Usage:
+ *   npm run locale-report -- [--in <tree.json>] [--locales <dir>] [--text-locale <locale>] [--locale <locale>] [--format text|json]
+ */
+import { BUILT_IN_LOCALES, loadLocales } from './lib/loadLocales';
+import { loadTreeSource } from './lib/treeSource';
+import { DEFAULT_LOCALE, findMissingTranslations, type MissingTranslation } from '../utils/locales';
+import { migrateTree } from '../utils/migrateTree';
+import { buildSearchIndex } from '../utils/treeUtils';
+import { UI_STRINGS, type UiStringKey } from '../utils/uiStrings';
+
+const USAGE = 'Usage: npm run locale-report -- [--in <tree.json>] [--locales <dir>] [--text-locale <locale>] [--locale <locale>] [--format text|json]';
+
+/**
+ * What one locale lacks.
+ */
+interface LocaleReport {
+  locale: string;
+  name: string;
+  /** The number of nodes, including the root. */
+  nodes: number;
+  missingNodes: MissingTranslation[];
+  missingStrings: UiStringKey[];
+}
+
+/**
+ * Entry point: compares each locale with the tree and the interface strings and prints what is missing.
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+  let input: string | undefined;
+  const localeDirs = [BUILT_IN_LOCALES];
+  let textLocaleOption: string | undefined;
+  let only: string | undefined;
+  let format = 'text';
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--in') {
+      input = args[++i];
+    } else if (args[i] === '--locales') {
+      localeDirs.push(args[++i]);
+    } else if (args[i] === '--text-locale') {
+      textLocaleOption = args[++i];
+    } else if (args[i] === '--locale') {
+      only = args[++i];
+    } else if (args[i] === '--format') {
+      format = args[++i];
+      if (format !== 'text' && format !== 'json') {
+        throw new Error(`Unknown format: ${format}\n${USAGE}`);
+      }
+    } else {
+      throw new Error(`Unknown argument: ${args[i]}\n${USAGE}`);
+    }
+  }
+
+  const { tree: source, source: sourceName, textLocale: sourceLocale } = await loadTreeSource(input);
+  const textLocale = textLocaleOption ?? sourceLocale ?? DEFAULT_LOCALE;
+  const tree = migrateTree(source);
+  const index = buildSearchIndex(tree);
+  const locales = (await loadLocales(localeDirs)).filter(locale => only === undefined || locale.locale === only);
+  if (only !== undefined && locales.length === 0) {
+    throw new Error(`No locale file for ${only} in ${localeDirs.join(', ')}`);
+  }
+
+  const reports: LocaleReport[] = locales.map(locale => ({
+    locale: locale.locale,
+    name: locale.name,
+    nodes: index.entries.length + 1,
+    missingNodes: locale.locale === textLocale ? [] : findMissingTranslations(tree, index, locale.nodes),
+    // English is the interface's own language.
+    missingStrings: locale.locale === DEFAULT_LOCALE ? [] : (Object.keys(UI_STRINGS) as UiStringKey[]).filter(key => !locale.strings[key]),
+  }));
+
+  if (format === 'json') {
+    process.stdout.write(`${JSON.stringify({ source: sourceName, textLocale, locales: reports }, null, 2)}\n`);
+    return;
+  }
+  reports.forEach(report => {
+    report.missingNodes.forEach(entry => process.stdout.write(`${report.locale.padEnd(6)} ${entry.path || '(root)'}: ${entry.fields.join(', ')}\n`));
+    report.missingStrings.forEach(key => process.stdout.write(`${report.locale.padEnd(6)} string ${key}\n`));
+  });
+  process.stderr.write(`Checked ${reports.length} locales against ${sourceName} (text in ${textLocale}):\n`);
+  reports.forEach(report => {
+    const translated = report.nodes - report.missingNodes.length;
+    process.stderr.write(`  ${report.locale} (${report.name}): ${translated} of ${report.nodes} nodes fully translated, ${report.missingStrings.length} interface strings missing\n`);
+  });
+};
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
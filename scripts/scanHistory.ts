@@ -0,0 +1,105 @@
+/**
+ * Reads the git history of a local kernel repository into `data/history.generated.json`, for
+ * `build-chunks`: for every file and directory at the checked-out commit, the number of commits
+ * in a time window that touched it, its most frequent authors, its newest commits and the date
+ * it last changed. Merge commits are not counted.
+ *
+ * The window ends now, or at `--until`, and starts a year earlier, or at `--since`; both take
+ * any date JavaScript can parse, e.g. `2024-01-01`.
+ *
+ * Usage:
+ *   npm run scan-history -- <kernel-repository> [--since <date>] [--until <date>] [--out <file>] [--authors <n>] [--recent <n>]
+ */
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { readGitHistory, type HistoryOptions } from './lib/gitHistory';
+
+const DEFAULT_OUT = 'data/history.generated.json';
+const DEFAULT_AUTHORS = 5;
+const DEFAULT_RECENT = 5;
+const USAGE = 'Usage: npm run scan-history -- <kernel-repository> [--since <date>] [--until <date>] [--out <file>] [--authors <n>] [--recent <n>]';
+
+/**
+ * Parses a date option.
+ * @param {string} option - The option's name, for the error message.
+ * @param {string | undefined} value - The value given.
+ * @returns {Date} The date.
+ * @throws {Error} If the value is missing or not a date.
+ */
+const parseDate = (option: string, value: string | undefined): Date => {
+  const date = new Date(value ?? '');
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${option} must be a date, e.g. 2024-01-01\n${USAGE}`);
+  }
+  return date;
+};
+
+/**
+ * Parses a count option.
+ * @param {string} option - The option's name, for the error message.
+ * @param {string | undefined} value - The value given.
+ * @returns {number} The count.
+ * @throws {Error} If the value is not a positive integer.
+ */
+const parseCount = (option: string, value: string | undefined): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${option} must be a positive integer\n${USAGE}`);
+  }
+  return count;
+};
+
+/**
+ * Entry point: reads the repository's log and writes the history.
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+  let repository: string | undefined;
+  let out = DEFAULT_OUT;
+  let since: Date | undefined;
+  let until = new Date();
+  let authors = DEFAULT_AUTHORS;
+  let recent = DEFAULT_RECENT;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--since') {
+      since = parseDate('--since', args[++i]);
+    } else if (args[i] === '--until') {
+      until = parseDate('--until', args[++i]);
+    } else if (args[i] === '--out') {
+      out = args[++i];
+    } else if (args[i] === '--authors') {
+      authors = parseCount('--authors', args[++i]);
+    } else if (args[i] === '--recent') {
+      recent = parseCount('--recent', args[++i]);
+    } else if (args[i].startsWith('--')) {
+      throw new Error(`Unknown option: ${args[i]}\n${USAGE}`);
+    } else {
+      repository = args[i];
+    }
+  }
+  if (!repository) {
+    throw new Error(USAGE);
+  }
+  if (!since) {
+    since = new Date(until);
+    since.setFullYear(since.getFullYear() - 1);
+  }
+  if (since >= until) {
+    throw new Error(`--since must be before --until\n${USAGE}`);
+  }
+
+  const options: HistoryOptions = { since, until, authors, recent };
+  const history = await readGitHistory(repository, options);
+  await mkdir(path.dirname(path.resolve(out)), { recursive: true });
+  await writeFile(out, JSON.stringify(history));
+  const window = history.nodes['']?.commits ?? 0;
+  process.stderr.write(
+    `Wrote the history of ${Object.keys(history.nodes).length} nodes at ${history.head?.slice(0, 12)} to ${out}: ` +
+    `${window} commits from ${history.since.slice(0, 10)} to ${history.until.slice(0, 10)}\n`,
+  );
+};
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * Checks the tree the app is built from: duplicate siblings, placeholder and empty text,
+ * directory and file names that do not match the node's kind, long summaries and, given a
+ * checkout, paths that do not exist in it (see `utils/validateTree.ts` for the rules).
+ *
+ * The input is the same as for `build-chunks`: a JSON tree, else `data/kernelTree.generated.json`,
+ * else the bundled `kernelData`. Issues are printed one per line, or with `--format json` as a
+ * report on standard output for other tools. The exit status is 1 if there are errors (or, with
+ * `--strict`, warnings), so generated datasets can be checked before they are shipped.
+ *
+ * Usage:
+ *   npm run validate-tree -- [--in <tree.json>] [--checkout <linux>] [--max-summary <n>] [--format text|json] [--strict]
+ */
+import { loadTreeSource } from './lib/treeSource';
+import { findMissingPaths } from './lib/checkCheckout';
+import { buildValidationReport, formatIssue, validateTree } from '../utils/validateTree';
+
+const USAGE = 'Usage: npm run validate-tree -- [--in <tree.json>] [--checkout <linux>] [--max-summary <n>] [--format text|json] [--strict]';
+
+/**
+ * Entry point: validates the tree and prints the report.
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+  let input: string | undefined;
+  let checkout: string | undefined;
+  let maxSummaryLength: number | undefined;
+  let format = 'text';
+  let strict = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--in') {
+      input = args[++i];
+    } else if (args[i] === '--checkout') {
+      checkout = args[++i];
+    } else if (args[i] === '--max-summary') {
+      maxSummaryLength = Number(args[++i]);
+      if (!Number.isInteger(maxSummaryLength) || maxSummaryLength <= 0) {
+        throw new Error(`--max-summary needs a positive number\n${USAGE}`);
+      }
+    } else if (args[i] === '--format') {
+      format = args[++i];
+      if (format !== 'text' && format !== 'json') {
+        throw new Error(`Unknown format: ${format}\n${USAGE}`);
+      }
+    } else if (args[i] === '--strict') {
+      strict = true;
+    } else {
+      throw new Error(`Unknown argument: ${args[i]}\n${USAGE}`);
+    }
+  }
+
+  const { tree, source } = await loadTreeSource(input);
+  const { issues, nodes } = validateTree(tree, { maxSummaryLength });
+  if (checkout) {
+    issues.push(...await findMissingPaths(tree, checkout));
+  }
+  const report = buildValidationReport(source, nodes, issues);
+
+  if (format === 'json') {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } else {
+    report.issues.forEach(issue => process.stdout.write(`${formatIssue(issue)}\n`));
+    process.stderr.write(`Checked ${report.nodes} nodes from ${source}${checkout ? ` against ${checkout}` : ''}: ${report.errors} errors, ${report.warnings} warnings\n`);
+  }
+  if (report.errors > 0 || (strict && report.warnings > 0)) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+/**
+ * The service worker that keeps the app working offline, built as `sw.js` by
+ * `serviceWorkerPlugin`, which writes the precache manifest into it.
+ *
+ * Installing caches the app's files and every file of the dataset, each under its own version.
+ * A new build or dataset changes the manifest, so the browser installs the new worker next to
+ * the running one; it waits until the page asks it to take over (see `useOfflineStatus`), then
+ * deletes the caches of the versions it replaces. Requests for cached files are answered from
+ * the cache, everything else (e.g. the source view's files) from the network.
+ */
+import type { DatasetInfo } from './data/treeChunks';
+import type { PrecacheManifest } from './scripts/lib/serviceWorkerPlugin';
+
+/** The parts of a service worker's events and global scope used here, which the DOM typings lack. */
+interface ExtendableEvent extends Event {
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith: (response: Promise<Response>) => void;
+}
+
+interface ServiceWorkerScope {
+  skipWaiting: () => Promise<void>;
+  clients: { claim: () => Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+declare const __PRECACHE_MANIFEST__: PrecacheManifest;
+
+/**
+ * The message the page sends to let a waiting worker take over. The worker imports no values,
+ * so that it builds into a single script; `useOfflineStatus` repeats this.
+ */
+const SKIP_WAITING_MESSAGE = 'skip-waiting';
+
+const manifest = __PRECACHE_MANIFEST__;
+const worker = self as unknown as ServiceWorkerScope;
+
+const CACHE_PREFIX = 'kernel-visualizer-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${manifest.shell.version}`;
+const DATASET_CACHE = `${CACHE_PREFIX}tree-${manifest.dataset.version}`;
+const PAGE_URL = new URL('./', location.href);
+
+/** How many dataset files are fetched at a time while installing. */
+const BATCH_SIZE = 50;
+
+/**
+ * Builds the URL of a dataset file, encoded the way the app requests it.
+ * @param {string} file - The file path relative to the dataset's folder.
+ * @returns {URL} The file's URL.
+ */
+const datasetUrl = (file: string): URL =>
+  new URL(manifest.dataset.base + file.split('/').map(encodeURIComponent).join('/'), location.href);
+
+/**
+ * Fetches files into a cache, bypassing the HTTP cache so that no stale copy is kept.
+ * @param {Cache} cache - The cache to fill.
+ * @param {(string | URL)[]} urls - The files' URLs.
+ * @returns {Promise<void>} Resolves once every file is cached; rejects if any fails.
+ */
+const addFresh = async (cache: Cache, urls: (string | URL)[]): Promise<void> => {
+  for (let i = 0; i < urls.length; i += BATCH_SIZE) {
+    await cache.addAll(urls.slice(i, i + BATCH_SIZE).map(url => new Request(url, { cache: 'no-cache' })));
+  }
+};
+
+/**
+ * Caches the dataset's files, unless an earlier install of the same version did. The list of
+ * files is stored last, so its presence means the cache is complete.
+ * @returns {Promise<void>} Resolves once the dataset is cached.
+ * @throws {Error} If the server has another version of the dataset than the one built in.
+ */
+const precacheDataset = async (): Promise<void> => {
+  const cache = await caches.open(DATASET_CACHE);
+  const listUrl = datasetUrl(manifest.dataset.file);
+  if (await cache.match(listUrl)) {
+    return;
+  }
+  const response = await fetch(listUrl, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Failed to load ${listUrl} (${response.status} ${response.statusText})`);
+  }
+  const dataset = await response.clone().json() as DatasetInfo;
+  if (dataset.version !== manifest.dataset.version) {
+    throw new Error(`The server has dataset ${dataset.version}, expected ${manifest.dataset.version}`);
+  }
+  await addFresh(cache, dataset.files.map(datasetUrl));
+  await cache.put(listUrl, response);
+};
+
+worker.addEventListener('install', event => {
+  event.waitUntil(Promise.all([
+    caches.open(SHELL_CACHE).then(cache => addFresh(cache, manifest.shell.files)),
+    precacheDataset(),
+  ]));
+});
+
+worker.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== SHELL_CACHE && name !== DATASET_CACHE)
+      .map(name => caches.delete(name)));
+    await worker.clients.claim();
+  })());
+});
+
+worker.addEventListener('message', event => {
+  if (event.data === SKIP_WAITING_MESSAGE) {
+    worker.skipWaiting();
+  }
+});
+
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== location.origin) {
+    return;
+  }
+  // The page is opened as `./` or `./index.html`, with its state in the hash.
+  const isPage = request.mode === 'navigate' && (url.pathname === PAGE_URL.pathname || url.pathname === `${PAGE_URL.pathname}index.html`);
+  const key = isPage ? PAGE_URL : url;
+  event.respondWith((async () => {
+    const cached = await (await caches.open(SHELL_CACHE)).match(key, { ignoreSearch: isPage })
+      ?? await (await caches.open(DATASET_CACHE)).match(key);
+    return cached ?? fetch(request);
+  })());
+});
@@ -1,15 +1,56 @@
+/**
+ * What a node is on disk.
+ */
+export type NodeKind = 'dir' | 'file' | 'symlink';
+
+/**
+ * The languages the visualizer recognizes source files as.
+ */
+export type SourceLanguage = 'c' | 'asm' | 'rust' | 'kconfig' | 'makefile' | 'rst';
 
 /**
  * Represents a node in the Linux kernel's file structure tree.
- * Each node can be a file or a directory.
+ * Each node can be a file, a directory or a symbolic link.
  */
 export interface KernelNode {
-  /** The name of the file or directory. */
+  /** The name of the file or directory. Directory names end with `/`. */
   name: string;
+  /** Whether the node is a directory, a regular file or a symbolic link. */
+  kind: NodeKind;
   /** A brief summary of the node's purpose, shown in the tree view. */
   summary: string;
   /** A detailed explanation of the node's purpose, shown in the detail panel. */
   description: string;
+  /** The language of a source file, if recognized. */
+  language?: SourceLanguage;
+  /** The number of lines in a file. */
+  lineCount?: number;
+  /** Free-form labels, e.g. the subsystem (`networking`) the node belongs to. Searchable with `tag:`. */
+  tags?: string[];
+  /** Paths of related nodes relative to the root, e.g. the header of a `.c` file. */
+  relatedPaths?: string[];
+  /**
+   * Documentation for the node: paths under `Documentation/` relative to the root
+   * (e.g. `Documentation/scheduler/sched-design-CFS.rst`) or absolute URLs.
+   */
+  docLinks?: string[];
   /** An optional array of child nodes, present if the node is a directory. */
   children?: KernelNode[];
-}
\ No newline at end of file
+  /**
+   * True if the node is a directory whose children have not been loaded yet.
+   * They are fetched from the directory's chunk the first time it is expanded.
+   */
+  lazyChildren?: boolean;
+}
+
+/**
+ * A node in the original schema, before `kind` and the other metadata existed.
+ * Hand-written data and older generated trees use it; `migrateTree` converts it to `KernelNode`.
+ */
+export interface LegacyKernelNode {
+  name: string;
+  summary: string;
+  description: string;
+  children?: LegacyKernelNode[];
+  lazyChildren?: boolean;
+}
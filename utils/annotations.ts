@@ -0,0 +1,224 @@
+/**
+ * Notes and tags the user attaches to nodes, kept in the browser and shared as JSON files.
+ */
+
+/**
+ * A node's annotation.
+ */
+export interface Annotation {
+  /** The note, in Markdown; may be empty if the node only has tags. */
+  note: string;
+  /** The user's tags, in the order they were added. */
+  tags: string[];
+  /** When the annotation was last changed, as an ISO 8601 timestamp. */
+  updated: string;
+}
+
+/**
+ * Annotations keyed by the node's path relative to the root, e.g. `kernel/sched/` or `mm/slub.c`.
+ * Paths come from imported files, so look them up with `annotationOf` and write them into a
+ * map made by `copyAnnotations`.
+ */
+export type AnnotationMap = Record<string, Annotation>;
+
+/**
+ * A node annotated differently in the current set and in an imported file.
+ */
+export interface AnnotationConflict {
+  path: string;
+  current: Annotation;
+  incoming: Annotation;
+}
+
+/**
+ * How a conflict is settled: keep the current note, take the imported one, or keep both notes one after the other.
+ * Tags are combined in every case.
+ */
+export type ConflictResolution = 'current' | 'incoming' | 'both';
+
+/**
+ * The outcome of merging an imported file into the current annotations.
+ */
+export interface AnnotationMerge {
+  /** The annotations with everything that could be merged without asking. */
+  merged: AnnotationMap;
+  /** The number of nodes that were not annotated before. */
+  added: number;
+  /** The number of annotated nodes that gained tags or a note. */
+  updated: number;
+  /** The nodes whose notes differ, left as they were until resolved. */
+  conflicts: AnnotationConflict[];
+}
+
+/** Identifies an exported annotations file. */
+const FILE_FORMAT = 'kernel-visualizer-annotations';
+
+/** The version of the file format written by `serializeAnnotations`. */
+const FILE_VERSION = 1;
+
+/**
+ * Normalizes the tags typed by the user: trimmed, without empty entries or duplicates (ignoring case).
+ * @param {string[]} tags - The tags as entered.
+ * @returns {string[]} The cleaned tags, in their original order.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (tag === '' || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Looks up a node's annotation among the map's own entries, so that a path such as `toString`
+ * does not find what every object inherits.
+ * @param {AnnotationMap} annotations - The annotations.
+ * @param {string} path - The node's path relative to the root.
+ * @returns {Annotation | undefined} The annotation, if the node has one.
+ */
+export const annotationOf = (annotations: AnnotationMap, path: string): Annotation | undefined =>
+  Object.hasOwn(annotations, path) ? annotations[path] : undefined;
+
+/**
+ * Copies annotations into an object without a prototype, where every path, `__proto__` included,
+ * is an ordinary key.
+ * @param {AnnotationMap} [annotations] - The annotations to copy; none for an empty map.
+ * @returns {AnnotationMap} The copy.
+ */
+export const copyAnnotations = (annotations: AnnotationMap = {}): AnnotationMap =>
+  Object.assign(Object.create(null), annotations);
+
+/**
+ * Checks whether an annotation holds anything; empty annotations are deleted rather than saved.
+ * @param {Pick<Annotation, 'note' | 'tags'>} annotation - The note and tags.
+ * @returns {boolean} True if there is a note or at least one tag.
+ */
+export const isEmptyAnnotation = (annotation: Pick<Annotation, 'note' | 'tags'>): boolean =>
+  annotation.note.trim() === '' && annotation.tags.length === 0;
+
+/**
+ * Writes annotations to the JSON format read by `parseAnnotationFile`, sorted by path so
+ * files kept under version control diff cleanly.
+ * @param {AnnotationMap} annotations - The annotations to export.
+ * @returns {string} The file's contents.
+ */
+export const serializeAnnotations = (annotations: AnnotationMap): string => {
+  const sorted = copyAnnotations();
+  Object.keys(annotations).sort().forEach(path => {
+    sorted[path] = annotations[path];
+  });
+  return `${JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, annotations: sorted }, null, 2)}\n`;
+};
+
+/**
+ * Reads an annotations file written by `serializeAnnotations`. Entries that are not annotations
+ * are skipped, and tags are normalized.
+ * @param {string} text - The file's contents.
+ * @returns {AnnotationMap} The annotations.
+ * @throws {Error} If the text is not JSON or not an annotations file.
+ */
+export const parseAnnotationFile = (text: string): AnnotationMap => {
+  const data = JSON.parse(text);
+  if (!data || data.format !== FILE_FORMAT || typeof data.annotations !== 'object' || data.annotations === null) {
+    throw new Error('Not an annotations file');
+  }
+  if (typeof data.version !== 'number' || data.version > FILE_VERSION) {
+    throw new Error(`Unsupported annotations file version ${data.version}`);
+  }
+  return readAnnotations(data.annotations);
+};
+
+/**
+ * Validates annotations read from storage or a file.
+ * @param {Record<string, unknown>} raw - The annotations by path, as parsed from JSON.
+ * @returns {AnnotationMap} The well-formed, non-empty annotations.
+ */
+export const readAnnotations = (raw: Record<string, unknown>): AnnotationMap => {
+  const annotations = copyAnnotations();
+  Object.entries(raw).forEach(([path, value]) => {
+    const entry = value as Partial<Annotation> | null;
+    if (!entry || typeof entry !== 'object') {
+      return;
+    }
+    const annotation: Annotation = {
+      note: typeof entry.note === 'string' ? entry.note : '',
+      tags: Array.isArray(entry.tags) ? normalizeTags(entry.tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+      updated: typeof entry.updated === 'string' ? entry.updated : new Date(0).toISOString(),
+    };
+    if (!isEmptyAnnotation(annotation)) {
+      annotations[path.replace(/^\/+/, '')] = annotation;
+    }
+  });
+  return annotations;
+};
+
+/**
+ * The later of two timestamps.
+ * @param {string} a - An ISO 8601 timestamp.
+ * @param {string} b - Another one.
+ * @returns {string} The later one.
+ */
+const latest = (a: string, b: string): string => (a > b ? a : b);
+
+/**
+ * Settles a conflict.
+ * @param {AnnotationConflict} conflict - The conflicting annotations.
+ * @param {ConflictResolution} resolution - Which note to keep.
+ * @returns {Annotation} The annotation to save.
+ */
+export const resolveConflict = ({ current, incoming }: AnnotationConflict, resolution: ConflictResolution): Annotation => {
+  const tags = normalizeTags([...current.tags, ...incoming.tags]);
+  if (resolution === 'both') {
+    return { note: `${current.note.trimEnd()}\n\n---\n\n${incoming.note.trim()}\n`, tags, updated: latest(current.updated, incoming.updated) };
+  }
+  const kept = resolution === 'current' ? current : incoming;
+  return { note: kept.note, tags, updated: kept.updated };
+};
+
+/**
+ * Merges imported annotations into the current ones. New nodes are added, and tags are
+ * combined. Where only one side has a note, or both have the same one, it is kept; where the
+ * notes differ, the node is reported as a conflict and keeps its current note (with the
+ * combined tags) until the conflict is resolved.
+ * @param {AnnotationMap} current - The annotations in the browser.
+ * @param {AnnotationMap} incoming - The imported annotations.
+ * @returns {AnnotationMerge} The merged annotations and the conflicts.
+ */
+export const mergeAnnotations = (current: AnnotationMap, incoming: AnnotationMap): AnnotationMerge => {
+  const merged = copyAnnotations(current);
+  const conflicts: AnnotationConflict[] = [];
+  let added = 0;
+  let updated = 0;
+
+  Object.keys(incoming).sort().forEach(path => {
+    const theirs = incoming[path];
+    const ours = annotationOf(current, path);
+    if (!ours) {
+      merged[path] = theirs;
+      added++;
+      return;
+    }
+    const tags = normalizeTags([...ours.tags, ...theirs.tags]);
+    const sameNote = ours.note.trim() === theirs.note.trim();
+    if (!sameNote && ours.note.trim() !== '' && theirs.note.trim() !== '') {
+      conflicts.push({ path, current: ours, incoming: theirs });
+      if (tags.length !== ours.tags.length) {
+        merged[path] = { ...ours, tags };
+      }
+      return;
+    }
+    const note = ours.note.trim() === '' ? theirs.note : ours.note;
+    if (note !== ours.note || tags.length !== ours.tags.length) {
+      merged[path] = { note, tags, updated: latest(ours.updated, theirs.updated) };
+      updated++;
+    }
+  });
+
+  return { merged, added, updated, conflicts };
+};
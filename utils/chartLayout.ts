@@ -0,0 +1,225 @@
+import type { KernelNode } from '../types';
+
+/**
+ * Layouts for the chart views. Every node is sized by its weight: the number of nodes in
+ * its subtree by default, or a per-node size metric if one is given. A directory's weight
+ * is the sum of its children's, so children exactly fill their parent.
+ */
+
+/**
+ * A segment of the sunburst: a ring sector for one node.
+ */
+export interface SunburstArc {
+  node: KernelNode;
+  /** The node's canonical path. */
+  path: string;
+  /** The ring, counted from the zoom root (0). */
+  depth: number;
+  /** The start angle, in radians clockwise from 12 o'clock. */
+  startAngle: number;
+  /** The end angle, in radians. */
+  endAngle: number;
+  /** The index of the top-level directory below the zoom root, used for coloring. */
+  branch: number;
+}
+
+/**
+ * A rectangle of the treemap.
+ */
+export interface TreemapRect {
+  node: KernelNode;
+  /** The node's canonical path. */
+  path: string;
+  /** The nesting level, counted from the zoom root's children (1). */
+  depth: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** The index of the top-level directory below the zoom root, used for coloring. */
+  branch: number;
+}
+
+/**
+ * Computes the weight of every node in a tree.
+ * @param {KernelNode} root - The root of the tree.
+ * @param {(node: KernelNode) => number | undefined} [sizeOf] - A size metric for a node; nodes without one count as 1.
+ * @returns {Map<KernelNode, number>} The weight of each node.
+ */
+export const computeWeights = (root: KernelNode, sizeOf?: (node: KernelNode) => number | undefined): Map<KernelNode, number> => {
+  const weights = new Map<KernelNode, number>();
+  const visit = (node: KernelNode): number => {
+    const children = node.children ?? [];
+    const weight = children.length > 0
+      ? children.reduce((sum, child) => sum + visit(child), 0)
+      : Math.max(sizeOf?.(node) ?? 1, 0);
+    weights.set(node, weight);
+    return weight;
+  };
+  visit(root);
+  return weights;
+};
+
+/**
+ * Lays out a sunburst (radial partition) around a zoom root. Sectors narrower than
+ * `minAngle` are dropped along with their subtrees.
+ * @param {KernelNode} focus - The zoom root, drawn as the center.
+ * @param {string} focusPath - The zoom root's canonical path.
+ * @param {Map<KernelNode, number>} weights - The weights from `computeWeights`.
+ * @param {number} maxDepth - How many rings to lay out around the center.
+ * @param {number} [minAngle=0.002] - The narrowest sector to keep, in radians.
+ * @returns {SunburstArc[]} The sectors, parents before children.
+ */
+export const layoutSunburst = (
+  focus: KernelNode,
+  focusPath: string,
+  weights: Map<KernelNode, number>,
+  maxDepth: number,
+  minAngle = 0.002,
+): SunburstArc[] => {
+  const arcs: SunburstArc[] = [];
+  const visit = (node: KernelNode, path: string, depth: number, startAngle: number, endAngle: number, branch: number) => {
+    arcs.push({ node, path, depth, startAngle, endAngle, branch });
+    const total = weights.get(node) ?? 0;
+    if (depth >= maxDepth || total <= 0) {
+      return;
+    }
+    let angle = startAngle;
+    node.children?.forEach((child, index) => {
+      const span = ((endAngle - startAngle) * (weights.get(child) ?? 0)) / total;
+      if (span >= minAngle) {
+        visit(child, path + child.name, depth + 1, angle, angle + span, depth === 0 ? index : branch);
+      }
+      angle += span;
+    });
+  };
+  visit(focus, focusPath, 0, 0, 2 * Math.PI, 0);
+  return arcs;
+};
+
+/**
+ * The worst aspect ratio of a row of squarified rectangles.
+ * @param {number[]} areas - The areas in the row.
+ * @param {number} side - The length of the side the row is laid along.
+ * @returns {number} The largest ratio of long to short side (1 is a square).
+ */
+const worstRatio = (areas: number[], side: number): number => {
+  const sum = areas.reduce((a, b) => a + b, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+};
+
+/**
+ * Splits a rectangle among weighted items with the squarified algorithm (Bruls, Huizing and
+ * van Wijk), which keeps the pieces close to square.
+ * @param {number[]} values - The item weights, sorted largest first.
+ * @param {number} x - The rectangle's left edge.
+ * @param {number} y - The rectangle's top edge.
+ * @param {number} width - The rectangle's width.
+ * @param {number} height - The rectangle's height.
+ * @returns {{ x: number, y: number, width: number, height: number }[]} One rectangle per item, in order.
+ */
+export const squarify = (values: number[], x: number, y: number, width: number, height: number) => {
+  const rects: { x: number; y: number; width: number; height: number }[] = [];
+  const total = values.reduce((a, b) => a + b, 0);
+  if (total <= 0 || width <= 0 || height <= 0) {
+    return values.map(() => ({ x, y, width: 0, height: 0 }));
+  }
+  const scale = (width * height) / total;
+  const areas = values.map(value => value * scale);
+
+  let index = 0;
+  while (index < areas.length) {
+    const side = Math.min(width, height);
+    const row = [areas[index]];
+    while (index + row.length < areas.length) {
+      const candidate = [...row, areas[index + row.length]];
+      if (worstRatio(candidate, side) > worstRatio(row, side)) {
+        break;
+      }
+      row.push(candidate[candidate.length - 1]);
+    }
+
+    // Lay the row along the shorter side, then continue in the remaining space.
+    const rowArea = row.reduce((a, b) => a + b, 0);
+    const thickness = rowArea / side;
+    let offset = 0;
+    row.forEach(area => {
+      const length = thickness > 0 ? area / thickness : 0;
+      rects.push(width >= height
+        ? { x, y: y + offset, width: thickness, height: length }
+        : { x: x + offset, y, width: length, height: thickness });
+      offset += length;
+    });
+    if (width >= height) {
+      x += thickness;
+      width -= thickness;
+    } else {
+      y += thickness;
+      height -= thickness;
+    }
+    index += row.length;
+  }
+  return rects;
+};
+
+/**
+ * Lays out a nested, squarified treemap of a zoom root's descendants. Directories get a
+ * header strip for their label and their children are laid out inside. Rectangles smaller
+ * than `minSize` in either direction are dropped along with their subtrees.
+ * @param {KernelNode} focus - The zoom root, filling the whole area.
+ * @param {string} focusPath - The zoom root's canonical path.
+ * @param {Map<KernelNode, number>} weights - The weights from `computeWeights`.
+ * @param {number} width - The available width, in pixels.
+ * @param {number} height - The available height, in pixels.
+ * @param {number} maxDepth - How many levels below the zoom root to lay out.
+ * @param {{ header: number, padding: number, minSize: number }} [spacing] - The header height,
+ *   inner padding and smallest drawn size, in pixels.
+ * @returns {TreemapRect[]} The rectangles, parents before children.
+ */
+export const layoutTreemap = (
+  focus: KernelNode,
+  focusPath: string,
+  weights: Map<KernelNode, number>,
+  width: number,
+  height: number,
+  maxDepth: number,
+  { header, padding, minSize } = { header: 16, padding: 2, minSize: 3 },
+): TreemapRect[] => {
+  const rects: TreemapRect[] = [];
+  const layoutChildren = (node: KernelNode, path: string, depth: number, x: number, y: number, w: number, h: number, branch: number) => {
+    const children = [...(node.children ?? [])]
+      .filter(child => (weights.get(child) ?? 0) > 0)
+      .sort((a, b) => (weights.get(b) ?? 0) - (weights.get(a) ?? 0));
+    const boxes = squarify(children.map(child => weights.get(child) ?? 0), x, y, w, h);
+    children.forEach((child, index) => {
+      const box = boxes[index];
+      if (box.width < minSize || box.height < minSize) {
+        return;
+      }
+      const childPath = path + child.name;
+      const childBranch = depth === 1 ? node.children!.indexOf(child) : branch;
+      rects.push({ node: child, path: childPath, depth, ...box, branch: childBranch });
+      const innerHeight = box.height - header - padding;
+      if (depth < maxDepth && child.children?.length && innerHeight >= minSize) {
+        layoutChildren(
+          child, childPath, depth + 1,
+          box.x + padding, box.y + header, box.width - 2 * padding, innerHeight,
+          childBranch,
+        );
+      }
+    });
+  };
+  layoutChildren(focus, focusPath, 1, 0, 0, width, height, 0);
+  return rects;
+};
+
+/**
+ * Picks the fill color of a chart segment: one hue per top-level directory, lighter with depth.
+ * @param {number} branch - The index of the top-level directory the segment belongs to.
+ * @param {number} depth - The segment's depth below the zoom root.
+ * @returns {string} A CSS color.
+ */
+export const chartColor = (branch: number, depth: number): string =>
+  `hsl(${(190 + branch * 47) % 360} 55% ${Math.min(38 + depth * 9, 82)}%)`;
@@ -0,0 +1,143 @@
+import { isEmptyQuery, scoreNode, type ParsedQuery } from './query';
+
+/**
+ * The index of functions, structures, system calls and exported symbols defined in the
+ * kernel's sources, as read from a checkout by `scripts/lib/scanCodeSymbols.ts`.
+ */
+
+/**
+ * What an index entry records: a function definition, a `struct` definition, a system call
+ * (`SYSCALL_DEFINEn`, named `sys_<name>`), or an `EXPORT_SYMBOL` or `EXPORT_SYMBOL_GPL` line
+ * (including their `_NS` variants).
+ */
+export type CodeSymbolKind = 'function' | 'struct' | 'syscall' | 'export' | 'export_gpl';
+
+/**
+ * A single index entry: `[name, kind, file, line]`, where `file` is a position in
+ * `CodeSymbolData.files` and `line` is 1-based.
+ */
+export type CodeSymbolEntry = [name: string, kind: CodeSymbolKind, file: number, line: number];
+
+/**
+ * The index as served to the app.
+ */
+export interface CodeSymbolData {
+  /** The paths, relative to the root, of every file with at least one entry. */
+  files: string[];
+  /** The entries, grouped by file in the order of `files`, each file's in line order. */
+  symbols: CodeSymbolEntry[];
+}
+
+/**
+ * Where a symbol is defined or exported.
+ */
+export interface CodeSymbolLocation {
+  name: string;
+  kind: CodeSymbolKind;
+  /** The file's path relative to the root. */
+  path: string;
+  line: number;
+}
+
+/**
+ * A definition matching a search, with how its name is exported, if it is.
+ */
+export interface CodeSymbolHit extends CodeSymbolLocation {
+  exported?: 'export' | 'export_gpl';
+  score: number;
+}
+
+/**
+ * The index with lookups by name and by file.
+ */
+export interface CodeSymbolIndex {
+  data: CodeSymbolData;
+  /** How each exported name is exported. */
+  exports: Map<string, 'export' | 'export_gpl'>;
+  /** The names with a function, struct or system call definition. */
+  defined: Set<string>;
+  /** The positions in `data.symbols` of each file's entries, by file number. */
+  byFile: Map<number, number[]>;
+  /** The number of each file by path. */
+  ids: Map<string, number>;
+}
+
+/** How each kind is described, e.g. next to a search hit. */
+export const CODE_SYMBOL_KIND_LABELS: Record<CodeSymbolKind, string> = {
+  function: 'function',
+  struct: 'struct',
+  syscall: 'system call',
+  export: 'EXPORT_SYMBOL',
+  export_gpl: 'EXPORT_SYMBOL_GPL',
+};
+
+/**
+ * Builds the lookups used by the app from the served index.
+ * @param {CodeSymbolData} data - The files and entries.
+ * @returns {CodeSymbolIndex} The index.
+ */
+export const buildCodeSymbolIndex = (data: CodeSymbolData): CodeSymbolIndex => {
+  const index: CodeSymbolIndex = {
+    data,
+    exports: new Map(),
+    defined: new Set(),
+    byFile: new Map(),
+    ids: new Map(data.files.map((file, id) => [file, id])),
+  };
+  data.symbols.forEach(([name, kind, file], position) => {
+    if (kind === 'export' || kind === 'export_gpl') {
+      index.exports.set(name, kind);
+    } else {
+      index.defined.add(name);
+    }
+    const list = index.byFile.get(file);
+    if (list) {
+      list.push(position);
+    } else {
+      index.byFile.set(file, [position]);
+    }
+  });
+  return index;
+};
+
+/**
+ * Lists the symbols a file exports.
+ * @param {CodeSymbolIndex} index - The symbol index.
+ * @param {string} relativePath - The file's path relative to the root.
+ * @returns {CodeSymbolLocation[]} The `EXPORT_SYMBOL` and `EXPORT_SYMBOL_GPL` entries, in line order.
+ */
+export const fileExports = (index: CodeSymbolIndex, relativePath: string): CodeSymbolLocation[] => {
+  const id = index.ids.get(relativePath);
+  return (id === undefined ? [] : index.byFile.get(id) ?? [])
+    .map(position => index.data.symbols[position])
+    .filter(([, kind]) => kind === 'export' || kind === 'export_gpl')
+    .map(([name, kind, , line]) => ({ name, kind, path: relativePath, line }));
+};
+
+/**
+ * Searches the definitions with the same query language as the tree. A definition's name
+ * and file take the place of a node's name and path; its kind (e.g. `struct`) is its summary,
+ * so `struct task` finds `struct task_struct`. Exported names with no definition in the index,
+ * such as functions defined through macros, are found at their export line.
+ * @param {CodeSymbolIndex} index - The symbol index.
+ * @param {ParsedQuery} query - The parsed search query.
+ * @returns {CodeSymbolHit[]} The matching definitions, best first.
+ */
+export const searchCodeSymbols = (index: CodeSymbolIndex, query: ParsedQuery): CodeSymbolHit[] => {
+  if (isEmptyQuery(query)) {
+    return [];
+  }
+  const hits: CodeSymbolHit[] = [];
+  for (const [name, kind, file, line] of index.data.symbols) {
+    const isExport = kind === 'export' || kind === 'export_gpl';
+    if (isExport && index.defined.has(name)) {
+      continue;
+    }
+    const path = index.data.files[file];
+    const score = scoreNode(query, { path, name, summary: CODE_SYMBOL_KIND_LABELS[kind], description: '', kind: 'file', tags: [] });
+    if (score !== null) {
+      hits.push({ name, kind, path, line, exported: index.exports.get(name), score });
+    }
+  }
+  return hits.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name) || a.path.localeCompare(b.path));
+};
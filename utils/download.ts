@@ -0,0 +1,47 @@
+/**
+ * Offers a file for download.
+ * @param {Blob} blob - The file's contents.
+ * @param {string} fileName - The name offered for the file.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after the click returns and cancel it if the URL is gone by then.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Draws an SVG document onto a canvas and encodes it as a PNG image.
+ * @param {string} svg - The SVG document.
+ * @param {number} width - Its width in pixels.
+ * @param {number} height - Its height in pixels.
+ * @param {number} [scale=2] - How many image pixels each SVG pixel becomes, for sharp text on high-density screens.
+ * @returns {Promise<Blob>} The PNG image; rejects if the browser cannot draw or encode it.
+ */
+export const rasterizeSvg = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('The browser cannot draw images'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image is too large to encode as PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be drawn'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,226 @@
+import type { KernelNode } from '../types';
+import { flattenTree, type FlatTreeRow } from './flattenTree';
+import { findNodePath } from './treeUtils';
+import { splitPath } from './nodePath';
+
+/**
+ * Exports of the visible tree: the rows the tree view shows, with the search filter and the
+ * expansion applied, written as a Markdown outline, `KernelNode` JSON, a Graphviz graph or an
+ * SVG drawing with the tree view's connector lines.
+ */
+
+/** The formats the tree can be exported in. */
+export type ExportFormat = 'markdown' | 'json' | 'dot' | 'svg' | 'png';
+
+/** The label, file extension and MIME type of each format. */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; type: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', type: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', type: 'application/json' },
+  dot: { label: 'Graphviz DOT', extension: 'dot', type: 'text/vnd.graphviz' },
+  svg: { label: 'SVG', extension: 'svg', type: 'image/svg+xml' },
+  png: { label: 'PNG', extension: 'png', type: 'image/png' },
+};
+
+/** The geometry of the tree view (see `TreeNode`), so drawings line up the same way. */
+const ROW_HEIGHT = 32;
+const INDENT = 24;
+const CONNECTOR_OFFSET = 12;
+const ICON_SIZE = 20;
+/** The gap between the icon and the name, and between the name and the summary. */
+const GAP = 8;
+const FONT_SIZE = 14;
+/** The advance of one character of the monospace font, as a fraction of the font size. */
+const CHAR_WIDTH = 0.6;
+const PADDING = 16;
+/** Characters drawn two columns wide: Hangul, CJK and fullwidth forms. */
+const WIDE_CHARACTER = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+/** The colors of the tree view's Tailwind classes. */
+const COLORS = {
+  line: '#94a3b8', // slate-400
+  folder: '#06b6d4', // cyan-500
+  file: '#94a3b8', // slate-400
+  dirName: '#1e293b', // slate-800
+  fileName: '#475569', // slate-600
+  summary: '#64748b', // slate-500
+};
+
+/** The outlines of the tree view's icons (see `Icons.tsx`), on a 24×24 grid. */
+const ICON_PATHS = {
+  folder: '<path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z"/>',
+  folderOpen: '<path d="m6 14 1.45-2.9A2 2 0 0 1 9.24 10H20a2 2 0 0 1 2 2v4a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h3.9a2 2 0 0 1 1.69.9l.81 1.2a2 2 0 0 0 1.67.9H18a2 2 0 0 1 2 2v1"/>',
+  file: '<path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z"/><polyline points="14 2 14 8 20 8"/>',
+};
+
+/**
+ * Collects the rows to export: the visible rows of the tree, or of the subtree of one node,
+ * without the status rows of directories whose children are still loading. A subtree is
+ * drawn as a tree of its own, with its root at depth 0.
+ * @param {KernelNode} root - The root of the tree being shown, with the search filter applied.
+ * @param {(path: string, depth: number) => boolean} isExpanded - Whether the directory at a canonical path is expanded.
+ * @param {string | null} [subtreePath] - The canonical path of the subtree's root, or null for the whole tree.
+ * @returns {FlatTreeRow[]} The rows, or an empty array if the subtree's root is not in the tree.
+ */
+export const collectExportRows = (
+  root: KernelNode,
+  isExpanded: (path: string, depth: number) => boolean,
+  subtreePath: string | null = null,
+): FlatTreeRow[] => {
+  if (subtreePath === null) {
+    return flattenTree(root, isExpanded).filter(row => row.type === 'node');
+  }
+  const chain = findNodePath(root, subtreePath);
+  const depth = splitPath(subtreePath).length - 1;
+  if (chain.length !== depth + 1) {
+    return [];
+  }
+  const subtree = chain[chain.length - 1];
+  // Rows of the subtree have paths starting at its name; the expansion is keyed by full paths.
+  const parentPath = subtreePath.slice(0, subtreePath.length - subtree.name.length);
+  return flattenTree(subtree, (path, rowDepth) => isExpanded(parentPath + path, rowDepth + depth))
+    .filter(row => row.type === 'node')
+    .map(row => ({ ...row, path: parentPath + row.path }));
+};
+
+/**
+ * Writes rows as a nested Markdown list, one item per node with its summary.
+ * @param {FlatTreeRow[]} rows - The rows, as returned by `collectExportRows`.
+ * @returns {string} The outline.
+ */
+export const toMarkdownOutline = (rows: FlatTreeRow[]): string =>
+  rows.map(({ node, depth }) => `${'  '.repeat(depth)}- \`${node.name}\`${node.summary ? ` — ${node.summary}` : ''}`).join('\n') + '\n';
+
+/**
+ * Rebuilds the tree the rows show: copies of the nodes, where only expanded directories keep
+ * their children. Directories whose children are not part of the export are marked with
+ * `lazyChildren`, as in the chunked tree.
+ * @param {FlatTreeRow[]} rows - The rows, as returned by `collectExportRows`.
+ * @returns {KernelNode | null} The root of the rebuilt tree, or null if there are no rows.
+ */
+export const rowsToTree = (rows: FlatTreeRow[]): KernelNode | null => {
+  const stack: KernelNode[] = [];
+  let root: KernelNode | null = null;
+  rows.forEach(({ node, depth, isDirectory, isExpanded }) => {
+    const { children, lazyChildren, ...fields } = node;
+    const copy: KernelNode = { ...fields };
+    if (isDirectory) {
+      if (isExpanded && !lazyChildren) {
+        copy.children = [];
+      } else if (lazyChildren || (children?.length ?? 0) > 0) {
+        copy.lazyChildren = true;
+      }
+    }
+    if (depth === 0) {
+      root = copy;
+    } else {
+      stack[depth - 1].children!.push(copy);
+    }
+    stack[depth] = copy;
+  });
+  return root;
+};
+
+/**
+ * Quotes a string for a DOT file.
+ * @param {string} text - The text.
+ * @returns {string} The quoted text.
+ */
+const quoteDot = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+/**
+ * Writes rows as a Graphviz graph, laid out left to right, with an edge from every directory
+ * to each of its exported children. Nodes are identified by their canonical paths and labeled
+ * with their names and summaries.
+ * @param {FlatTreeRow[]} rows - The rows, as returned by `collectExportRows`.
+ * @returns {string} The DOT source.
+ */
+export const toDot = (rows: FlatTreeRow[]): string => {
+  const lines = [
+    `digraph ${quoteDot(rows[0]?.path ?? 'tree')} {`,
+    '  rankdir=LR;',
+    '  node [fontname="monospace", fontsize=10];',
+  ];
+  const parents: string[] = [];
+  rows.forEach(({ node, path, depth, isDirectory }) => {
+    const label = node.summary ? `${node.name}\n${node.summary}` : node.name;
+    lines.push(`  ${quoteDot(path)} [label=${quoteDot(label)}, shape=${isDirectory ? 'folder' : 'note'}];`);
+    if (depth > 0) {
+      lines.push(`  ${quoteDot(parents[depth - 1])} -> ${quoteDot(path)};`);
+    }
+    parents[depth] = path;
+  });
+  lines.push('}');
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Escapes text for SVG markup.
+ * @param {string} text - The text.
+ * @returns {string} The escaped text.
+ */
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Estimates how wide text is drawn in the monospace font, counting wide (e.g. CJK) characters twice.
+ * @param {string} text - The text.
+ * @returns {number} The width in pixels.
+ */
+const textWidth = (text: string): number =>
+  [...text].reduce((width, char) => width + (WIDE_CHARACTER.test(char) ? 2 : 1), 0) * FONT_SIZE * CHAR_WIDTH;
+
+/**
+ * Draws rows as a standalone SVG image of the tree view: the same icons, names, summaries and
+ * `├`/`└` connector lines, on a white background.
+ * @param {FlatTreeRow[]} rows - The rows, as returned by `collectExportRows`.
+ * @returns {{ svg: string, width: number, height: number }} The SVG document and its size in pixels.
+ */
+export const toSvg = (rows: FlatTreeRow[]): { svg: string; width: number; height: number } => {
+  const center = ROW_HEIGHT / 2;
+  const connectors: string[] = [];
+  const items: string[] = [];
+  let width = 0;
+
+  rows.forEach(({ node, depth, isLast, guides, isDirectory, isExpanded }, index) => {
+    const top = PADDING + index * ROW_HEIGHT;
+    guides.forEach((continues, level) => {
+      if (continues) {
+        const x = PADDING + level * INDENT + CONNECTOR_OFFSET + 0.5;
+        connectors.push(`<line x1="${x}" y1="${top}" x2="${x}" y2="${top + ROW_HEIGHT}"/>`);
+      }
+    });
+    if (depth > 0) {
+      const x = PADDING + (depth - 1) * INDENT + CONNECTOR_OFFSET + 0.5;
+      connectors.push(`<line x1="${x}" y1="${top}" x2="${x}" y2="${top + (isLast ? center : ROW_HEIGHT)}"/>`);
+      connectors.push(`<line x1="${x}" y1="${top + center + 0.5}" x2="${x + CONNECTOR_OFFSET}" y2="${top + center + 0.5}"/>`);
+    }
+
+    const left = PADDING + depth * INDENT;
+    const icon = isDirectory ? (isExpanded ? ICON_PATHS.folderOpen : ICON_PATHS.folder) : ICON_PATHS.file;
+    const textX = left + ICON_SIZE + GAP;
+    const baseline = top + center + FONT_SIZE * 0.35;
+    const nameWidth = textWidth(node.name);
+    const summary = node.summary ? `- ${node.summary}` : '';
+    items.push(
+      `<g transform="translate(${left} ${top + (ROW_HEIGHT - ICON_SIZE) / 2}) scale(${ICON_SIZE / 24})" fill="none" stroke="${isDirectory ? COLORS.folder : COLORS.file}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${icon}</g>`,
+      `<text x="${textX}" y="${baseline}" fill="${isDirectory ? COLORS.dirName : COLORS.fileName}" font-weight="500">${escapeXml(node.name)}</text>`,
+    );
+    if (summary) {
+      items.push(`<text x="${textX + nameWidth + GAP}" y="${baseline}" fill="${COLORS.summary}">${escapeXml(summary)}</text>`);
+    }
+    width = Math.max(width, textX + nameWidth + (summary ? GAP + textWidth(summary) : 0));
+  });
+
+  width = Math.ceil(width + PADDING);
+  const height = rows.length * ROW_HEIGHT + 2 * PADDING;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="ui-monospace, SFMono-Regular, Menlo, Consolas, monospace" font-size="${FONT_SIZE}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<g stroke="${COLORS.line}" stroke-width="1">`,
+    ...connectors,
+    '</g>',
+    ...items,
+    '</svg>',
+  ].join('\n') + '\n';
+  return { svg, width, height };
+};
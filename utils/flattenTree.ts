@@ -0,0 +1,69 @@
+import type { KernelNode } from '../types';
+import { isDirectoryNode } from './treeUtils';
+
+/**
+ * A single row of the flattened, visible part of the tree.
+ */
+export interface FlatTreeRow {
+  /** `node` for a tree node; `status` for the loading/error row of an unloaded directory. */
+  type: 'node' | 'status';
+  /** The node shown on this row; for a status row, the directory whose children are loading. */
+  node: KernelNode;
+  /** The node's canonical path, e.g. `linux/kernel/sched/`. */
+  path: string;
+  /** The nesting depth; the root is 0. */
+  depth: number;
+  /** True if this is the last row among its siblings, so its connector ends here (`└`). */
+  isLast: boolean;
+  /** The 1-based position among its siblings, for `aria-posinset`. */
+  posInSet: number;
+  /** The number of siblings including this node, for `aria-setsize`. */
+  setSize: number;
+  /**
+   * One entry per ancestor depth from 1 to `depth - 1`: true if that ancestor has later
+   * siblings, so its vertical connector passes through this row.
+   */
+  guides: boolean[];
+  /** True if the node is a directory. */
+  isDirectory: boolean;
+  /** True if the node is an expanded directory. */
+  isExpanded: boolean;
+}
+
+/**
+ * Flattens the visible part of a tree into rows, in display order. Children are only
+ * visited for expanded directories; an expanded directory whose children are not loaded
+ * yet gets a single status row instead.
+ * @param {KernelNode} root - The root of the tree, or of the subtree to show.
+ * @param {(path: string, depth: number) => boolean} isExpanded - Whether the directory at `path` is expanded.
+ * @param {string} [rootPath] - The canonical path of `root` when it is a directory inside the tree
+ *   (e.g. `linux/drivers/net/`); defaults to its name. Depths still start at 0 for `root`.
+ * @returns {FlatTreeRow[]} The visible rows.
+ */
+export const flattenTree = (root: KernelNode, isExpanded: (path: string, depth: number) => boolean, rootPath = root.name): FlatTreeRow[] => {
+  const rows: FlatTreeRow[] = [];
+
+  const visit = (node: KernelNode, path: string, depth: number, posInSet: number, setSize: number, guides: boolean[]) => {
+    const isDirectory = isDirectoryNode(node);
+    const expanded = isDirectory && isExpanded(path, depth);
+    const isLast = posInSet === setSize;
+    rows.push({ type: 'node', node, path, depth, isLast, posInSet, setSize, guides, isDirectory, isExpanded: expanded });
+    if (!expanded) {
+      return;
+    }
+
+    // Ancestors at depth >= 1 draw a vertical connector through their descendants unless they are last.
+    const childGuides = depth === 0 ? guides : [...guides, !isLast];
+    if (node.lazyChildren) {
+      rows.push({ type: 'status', node, path, depth: depth + 1, isLast: true, posInSet: 1, setSize: 1, guides: childGuides, isDirectory: false, isExpanded: false });
+      return;
+    }
+    const children = node.children ?? [];
+    children.forEach((child, index) => {
+      visit(child, path + child.name, depth + 1, index + 1, children.length, childGuides);
+    });
+  };
+
+  visit(root, rootPath, 0, 1, 1, []);
+  return rows;
+};
@@ -0,0 +1,121 @@
+import type { KernelNode } from '../types';
+import { splitPath } from './nodePath';
+
+/**
+ * The git history of the tree, as written by `npm run scan-history`.
+ *
+ * Each node records the commits of a time window that touched it (for a directory, anything
+ * below it), their most frequent authors and the newest few, and the date it last changed.
+ * Merges and files that no longer exist at the scanned commit are left out.
+ */
+
+/**
+ * A commit listed among a node's recent ones.
+ */
+export interface HistoryCommit {
+  /** The abbreviated hash. */
+  hash: string;
+  /** The committer date, as an ISO 8601 string. */
+  date: string;
+  author: string;
+  /** The first line of the message. */
+  subject: string;
+}
+
+/**
+ * The history of one node.
+ */
+export interface NodeHistory {
+  /** The number of commits in the window that touched the node or anything below it. */
+  commits: number;
+  /** The date of the newest commit that touched it, in the window or before it, if one was found. */
+  lastModified?: string;
+  /** The authors with the most commits in the window, most first, with their numbers of commits. */
+  authors: [string, number][];
+  /** The newest commits in the window, newest first, as indexes into `HistoryData.commits`. */
+  recent: number[];
+}
+
+/**
+ * The history data served to the app.
+ */
+export interface HistoryData {
+  /** The commit the history was read at, or null if no repository was scanned. */
+  head: string | null;
+  /** The start of the window, as an ISO 8601 date. */
+  since: string;
+  /** The end of the window, as an ISO 8601 date. */
+  until: string;
+  /** The commits any node lists among its recent ones. */
+  commits: HistoryCommit[];
+  /** The history of each node by path relative to the root, `''` for the root. */
+  nodes: Record<string, NodeHistory>;
+}
+
+/**
+ * Lookups over the history data, built once when it is loaded.
+ */
+export interface HistoryIndex {
+  data: HistoryData;
+  /** The highest number of commits of any node at each depth (1 for the root's children). */
+  maxByDepth: number[];
+}
+
+/** The number of heat levels above 0, which stands for no commits in the window. */
+export const HEAT_LEVELS = 5;
+
+/** The color of each heat level, from no commits (0) to the busiest nodes. */
+export const HEAT_COLORS = ['#e2e8f0', '#ffedd5', '#fed7aa', '#fdba74', '#fb923c', '#ea580c'];
+
+/** The data written by `build-chunks` when no history has been scanned. */
+export const EMPTY_HISTORY: HistoryData = { head: null, since: '', until: '', commits: [], nodes: {} };
+
+/**
+ * Builds the lookups used by the app from the served history.
+ * @param {HistoryData} data - The history data.
+ * @returns {HistoryIndex} The index.
+ */
+export const buildHistoryIndex = (data: HistoryData): HistoryIndex => {
+  const maxByDepth: number[] = [];
+  for (const [path, history] of Object.entries(data.nodes)) {
+    const depth = splitPath(path).length;
+    maxByDepth[depth] = Math.max(maxByDepth[depth] ?? 0, history.commits);
+  }
+  return { data, maxByDepth };
+};
+
+/**
+ * Rates how busy a node is compared with the busiest node at the same depth, on a logarithmic
+ * scale so that a few very busy directories do not leave every other one at the bottom.
+ * @param {HistoryIndex} index - The history index.
+ * @param {string} relativePath - The node's path relative to the root.
+ * @returns {number} 0 for no commits in the window, else 1 to `HEAT_LEVELS`.
+ */
+export const heatLevel = (index: HistoryIndex, relativePath: string): number => {
+  const commits = index.data.nodes[relativePath]?.commits ?? 0;
+  if (commits === 0) {
+    return 0;
+  }
+  const max = index.maxByDepth[splitPath(relativePath).length] ?? commits;
+  return Math.max(1, Math.ceil((HEAT_LEVELS * Math.log1p(commits)) / Math.log1p(max)));
+};
+
+/**
+ * Returns a copy of the tree with every directory's children ordered by their number of
+ * commits in the window, busiest first; nodes with as many commits keep their order.
+ * @param {KernelNode} root - The root of the tree.
+ * @param {HistoryIndex} index - The history index.
+ * @returns {KernelNode} The sorted tree.
+ */
+export const sortByActivity = (root: KernelNode, index: HistoryIndex): KernelNode => {
+  const commitsOf = (path: string) => index.data.nodes[path]?.commits ?? 0;
+  const sort = (node: KernelNode, path: string): KernelNode => (node.children
+    ? {
+      ...node,
+      children: node.children
+        .map(child => sort(child, path + child.name))
+        .sort((a, b) => commitsOf(path + b.name) - commitsOf(path + a.name)),
+    }
+    : node);
+  return sort(root, '');
+};
@@ -0,0 +1,181 @@
+/**
+ * The `#include` graph of the kernel's C sources, headers, assembly and device trees,
+ * as read from a checkout by `scripts/lib/scanIncludes.ts`.
+ */
+
+/**
+ * The graph as served to the app. Files are numbered by their position in `files`.
+ */
+export interface IncludeGraphData {
+  /** The paths, relative to the root, of every file that includes or is included by another. */
+  files: string[];
+  /** For each file, the numbers of the files it includes. */
+  includes: number[][];
+}
+
+/**
+ * The graph indexed in both directions.
+ */
+export interface IncludeIndex {
+  files: string[];
+  /** The number of each file by path. */
+  ids: Map<string, number>;
+  includes: number[][];
+  /** For each file, the numbers of the files that include it. */
+  includedBy: number[][];
+}
+
+/** Which way to follow `#include` directives from the selected node. */
+export type IncludeDirection = 'both' | 'includes' | 'includedBy';
+
+/**
+ * Options for `includeNeighborhood`.
+ */
+export interface NeighborhoodOptions {
+  /** How many `#include` steps to follow in each direction. */
+  depth: number;
+  direction: IncludeDirection;
+  /** Merge the files of each directory, apart from the selected node, into one node. */
+  collapse: boolean;
+}
+
+/**
+ * A node of the drawn graph: a file, or with `collapse` the files of a directory.
+ */
+export interface IncludeGraphNode {
+  /** A key unique within the graph. */
+  id: string;
+  /** The file's or directory's path relative to the root. */
+  path: string;
+  /**
+   * The distance from the selected node: positive for files it includes (directly or not),
+   * negative for files that include it, 0 for the selected node itself.
+   */
+  layer: number;
+  /** How many files the node stands for. */
+  files: number;
+}
+
+/**
+ * An edge of the drawn graph, from the including node to the included one.
+ */
+export interface IncludeGraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * The part of the graph around a node.
+ */
+export interface IncludeNeighborhood {
+  nodes: IncludeGraphNode[];
+  edges: IncludeGraphEdge[];
+  /** How many files are reached in each direction within the depth. */
+  reached: { includes: number; includedBy: number };
+}
+
+/**
+ * Indexes the graph in both directions.
+ * @param {IncludeGraphData} data - The graph as served.
+ * @returns {IncludeIndex} The index.
+ */
+export const buildIncludeIndex = (data: IncludeGraphData): IncludeIndex => {
+  const includedBy: number[][] = data.files.map(() => []);
+  data.includes.forEach((targets, id) => targets.forEach(target => includedBy[target].push(id)));
+  return {
+    files: data.files,
+    ids: new Map(data.files.map((file, id) => [file, id])),
+    includes: data.includes,
+    includedBy,
+  };
+};
+
+/**
+ * Lists the files a file includes and the files that include it.
+ * @param {IncludeIndex} index - The include index.
+ * @param {string} relativePath - The file's path relative to the root.
+ * @returns {{ includes: string[], includedBy: string[] }} Both lists, sorted by path; empty if the file is not in the graph.
+ */
+export const directIncludes = (index: IncludeIndex, relativePath: string): { includes: string[]; includedBy: string[] } => {
+  const id = index.ids.get(relativePath);
+  if (id === undefined) {
+    return { includes: [], includedBy: [] };
+  }
+  const toPaths = (ids: number[]) => ids.map(other => index.files[other]).sort();
+  return { includes: toPaths(index.includes[id]), includedBy: toPaths(index.includedBy[id]) };
+};
+
+/**
+ * Walks the graph outward from a file, or from every file in a directory, up to `depth`
+ * steps in each direction. Each file is placed at its shortest distance; a file reached in
+ * both directions is shown among the included files. Only edges between neighboring layers
+ * are kept, so the result can be drawn in columns.
+ * @param {IncludeIndex} index - The include index.
+ * @param {string} relativePath - The selected file or directory (ending with `/`) relative to the root.
+ * @param {NeighborhoodOptions} options - The depth, the directions to follow and whether to merge directories.
+ * @returns {IncludeNeighborhood} The nodes and edges to draw.
+ */
+export const includeNeighborhood = (index: IncludeIndex, relativePath: string, { depth, direction, collapse }: NeighborhoodOptions): IncludeNeighborhood => {
+  const isDirectory = relativePath === '' || relativePath.endsWith('/');
+  const center = isDirectory
+    ? index.files.flatMap((file, id) => (file.startsWith(relativePath) ? [id] : []))
+    : [index.ids.get(relativePath)].filter((id): id is number => id !== undefined);
+  const layers = new Map<number, number>(center.map(id => [id, 0]));
+
+  const walk = (neighbors: number[][], sign: 1 | -1): number => {
+    let frontier = center;
+    let reached = 0;
+    for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+      const next: number[] = [];
+      frontier.forEach(id => neighbors[id].forEach(other => {
+        if (!layers.has(other)) {
+          layers.set(other, sign * distance);
+          next.push(other);
+        }
+      }));
+      reached += next.length;
+      frontier = next;
+    }
+    return reached;
+  };
+  const reached = {
+    includes: direction === 'includedBy' ? 0 : walk(index.includes, 1),
+    includedBy: direction === 'includes' ? 0 : walk(index.includedBy, -1),
+  };
+
+  const nodeOf = (id: number): string => {
+    const layer = layers.get(id)!;
+    if (layer === 0) {
+      return `0:${relativePath}`;
+    }
+    const file = index.files[id];
+    return `${layer}:${collapse ? file.replace(/[^/]+$/, '') : file}`;
+  };
+
+  const nodes = new Map<string, IncludeGraphNode>([[`0:${relativePath}`, { id: `0:${relativePath}`, path: relativePath, layer: 0, files: center.length }]]);
+  const edges = new Map<string, IncludeGraphEdge>();
+  layers.forEach((layer, id) => {
+    if (layer === 0) {
+      return;
+    }
+    const key = nodeOf(id);
+    const node = nodes.get(key);
+    if (node) {
+      node.files++;
+    } else {
+      nodes.set(key, { id: key, path: key.slice(key.indexOf(':') + 1), layer, files: 1 });
+    }
+    // Connect each file to the files one step closer to the center.
+    const closer = layer > 0 ? index.includedBy[id] : index.includes[id];
+    const closerLayer = layer > 0 ? layer - 1 : layer + 1;
+    closer.forEach(other => {
+      if (layers.get(other) !== closerLayer) {
+        return;
+      }
+      const [from, to] = layer > 0 ? [nodeOf(other), key] : [key, nodeOf(other)];
+      edges.set(`${from}>${to}`, { from, to });
+    });
+  });
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()], reached };
+};
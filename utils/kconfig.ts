@@ -0,0 +1,471 @@
+import { isEmptyQuery, scoreNode, type ParsedQuery } from './query';
+
+/**
+ * Parsing and indexing of Kconfig, the kernel's configuration language.
+ *
+ * Each `config`, `menuconfig` or named `choice` entry declares a symbol (`CONFIG_<NAME>` in C
+ * and Makefiles) with a type and prompt, and relates it to other symbols:
+ * - `depends on EXPR`: the symbol can only be enabled if EXPR holds; enclosing `if` blocks and
+ *   `menu` dependencies apply too;
+ * - `select SYM`: enabling the symbol forces SYM on; `imply SYM` only suggests it;
+ * - `default VALUE [if EXPR]`: the initial value.
+ */
+
+/** The kind of Kconfig entry that declares a symbol. */
+export type KconfigEntryKind = 'config' | 'menuconfig' | 'choice';
+
+/** The value types of Kconfig symbols. */
+export type KconfigType = 'bool' | 'tristate' | 'string' | 'int' | 'hex';
+
+/**
+ * A `select`, `imply` or `default` line, with its optional `if` condition.
+ */
+export interface KconfigConditional {
+  /** The selected or implied symbol, or the default value. */
+  value: string;
+  /** The condition after `if`, if any. */
+  condition?: string;
+}
+
+/**
+ * One declaration of a symbol. A symbol may be declared in several Kconfig files, e.g. once per architecture.
+ */
+export interface KconfigEntry {
+  /** The symbol name without the `CONFIG_` prefix, e.g. `BPF_SYSCALL`. */
+  name: string;
+  kind: KconfigEntryKind;
+  type?: KconfigType;
+  /** The prompt shown by menuconfig; symbols without one cannot be set directly. */
+  prompt?: string;
+  /** The path of the Kconfig file relative to the root, e.g. `kernel/bpf/Kconfig`. */
+  file: string;
+  /** The line of the declaration, starting at 1. */
+  line: number;
+  /** `depends on` expressions, including those of enclosing `if` blocks and menus. */
+  dependsOn: string[];
+  selects: KconfigConditional[];
+  implies: KconfigConditional[];
+  defaults: KconfigConditional[];
+  /** The prompt of the unnamed `choice` the symbol is an option of, if any. */
+  choice?: string;
+  /** The help text, with its indentation removed. */
+  help: string;
+}
+
+/**
+ * The Kconfig data served to the app.
+ */
+export interface KconfigData {
+  entries: KconfigEntry[];
+  /**
+   * The files and directories each symbol controls in Makefiles (`obj-$(CONFIG_<NAME>) += ...`),
+   * keyed by symbol name, as paths relative to the root.
+   */
+  gates: Record<string, string[]>;
+  /**
+   * Every file and directory a Makefile lists as an object or subdirectory, gated or not
+   * (`obj-y += core/`, `obj-$(CONFIG_NET) += socket.o`). Missing in data written before it was recorded.
+   */
+  listed?: string[];
+  /** The directories whose Makefile (or Kbuild file) was read; missing along with `listed`. */
+  makefiles?: string[];
+}
+
+/**
+ * Lookups over the Kconfig data, built once when it is loaded.
+ */
+export interface KconfigIndex {
+  data: KconfigData;
+  /** The declarations of each symbol. */
+  byName: Map<string, KconfigEntry[]>;
+  /** The declarations in each directory's Kconfig files, keyed by the directory's relative path (`''` for the root). */
+  byDirectory: Map<string, KconfigEntry[]>;
+  /** The symbols that select each symbol. */
+  selectedBy: Map<string, string[]>;
+  /** The symbols that imply each symbol. */
+  impliedBy: Map<string, string[]>;
+  /** The symbols whose `depends on` mentions each symbol. */
+  requiredBy: Map<string, string[]>;
+  /** The symbols controlling each gated path. */
+  gatedBy: Map<string, string[]>;
+  /**
+   * The paths Kbuild reaches: those the Makefiles list and the directories above them; null for
+   * data without `listed`, which cannot tell.
+   */
+  reached: Set<string> | null;
+  /** The directories whose Makefile was read. */
+  makefiles: Set<string>;
+}
+
+/**
+ * A symbol matching a search, for the list of symbol results.
+ */
+export interface KconfigHit {
+  name: string;
+  prompt?: string;
+  score: number;
+}
+
+/** The symbol types and the attribute keywords that also set the type. */
+const TYPE_KEYWORDS: Record<string, KconfigType> = {
+  bool: 'bool',
+  boolean: 'bool',
+  tristate: 'tristate',
+  string: 'string',
+  int: 'int',
+  hex: 'hex',
+  def_bool: 'bool',
+  def_tristate: 'tristate',
+};
+
+/** The attributes a menu, comment or unnamed choice shares with a symbol's entry. */
+type AttributeHolder = Pick<KconfigEntry, 'dependsOn' | 'prompt'> | KconfigEntry;
+
+/** Operands of expressions that are constants rather than symbols. */
+const CONSTANTS = new Set(['y', 'm', 'n']);
+
+/**
+ * Expands tabs to the next multiple of 8 columns, as the Kconfig lexer does.
+ * @param {string} line - A line of the file.
+ * @returns {number} The column of the first non-blank character.
+ */
+const indentOf = (line: string): number => {
+  let column = 0;
+  for (const char of line) {
+    if (char === '\t') {
+      column = (Math.floor(column / 8) + 1) * 8;
+    } else if (char === ' ') {
+      column++;
+    } else {
+      break;
+    }
+  }
+  return column;
+};
+
+/**
+ * Removes a trailing `#` comment, keeping `#` characters inside quoted strings.
+ * @param {string} line - A line of the file.
+ * @returns {string} The line without its comment.
+ */
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+/**
+ * Splits `VALUE if CONDITION` into its parts.
+ * @param {string} text - The text after the keyword.
+ * @returns {KconfigConditional} The value and condition.
+ */
+const splitCondition = (text: string): KconfigConditional => {
+  const match = text.match(/^(.*?)\s+if\s+(.+)$/);
+  return match ? { value: match[1].trim(), condition: match[2].trim() } : { value: text.trim() };
+};
+
+/**
+ * Removes the quotes around a prompt.
+ * @param {string} text - The quoted prompt, e.g. `"Enable bpf() system call"`.
+ * @returns {string} The prompt text.
+ */
+const unquote = (text: string): string => text.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+/**
+ * Parses one Kconfig file. `source` lines are not followed; every file is parsed on its own.
+ * @param {string} text - The file contents.
+ * @param {string} file - The file's path relative to the root, recorded in each entry.
+ * @returns {KconfigEntry[]} The declarations in the file, in order.
+ */
+export const parseKconfig = (text: string, file: string): KconfigEntry[] => {
+  const entries: KconfigEntry[] = [];
+  const lines = text.split('\n');
+  /**
+   * Open `if`, `menu` and `choice` blocks. Entries inside inherit the `depends on` of each block's
+   * holder, past the first `inherited` ones (a named choice's entry already lists the outer ones).
+   */
+  const blocks: { keyword: 'if' | 'menu' | 'choice'; holder: AttributeHolder; inherited: number }[] = [];
+  /** What `depends on` and other attributes currently apply to. */
+  let current: AttributeHolder | null = null;
+
+  // A choice inside `if X` often repeats `depends on X`; keep each expression once.
+  const inherited = () => [...new Set(blocks.flatMap(block => block.holder.dependsOn.slice(block.inherited)))];
+  const newEntry = (name: string, kind: KconfigEntryKind, line: number): KconfigEntry => ({
+    name,
+    kind,
+    file,
+    line,
+    dependsOn: inherited(),
+    selects: [],
+    implies: [],
+    defaults: [],
+    help: '',
+  });
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    let line = lines[i];
+    while (line.endsWith('\\') && i + 1 < lines.length) {
+      line = line.slice(0, -1) + lines[++i];
+    }
+    const trimmed = stripComment(line).trim();
+    if (trimmed === '') {
+      continue;
+    }
+    const [, keyword, rest = ''] = trimmed.match(/^(\S+)\s*(.*)$/)!;
+
+    if (keyword === 'config' || keyword === 'menuconfig') {
+      const entry = newEntry(rest.trim(), keyword, lineNumber);
+      const choice = [...blocks].reverse().find(block => block.keyword === 'choice');
+      if (choice?.holder.prompt) {
+        entry.choice = choice.holder.prompt;
+      }
+      entries.push(entry);
+      current = entry;
+    } else if (keyword === 'choice') {
+      if (rest.trim()) {
+        // Named choices are symbols of their own.
+        const entry = newEntry(rest.trim(), 'choice', lineNumber);
+        entries.push(entry);
+        blocks.push({ keyword: 'choice', holder: entry, inherited: entry.dependsOn.length });
+        current = entry;
+      } else {
+        current = { dependsOn: [] };
+        blocks.push({ keyword: 'choice', holder: current, inherited: 0 });
+      }
+    } else if (keyword === 'menu') {
+      current = { dependsOn: [], prompt: unquote(rest) };
+      blocks.push({ keyword: 'menu', holder: current, inherited: 0 });
+    } else if (keyword === 'if') {
+      blocks.push({ keyword: 'if', holder: { dependsOn: [rest.trim()] }, inherited: 0 });
+      current = null;
+    } else if (keyword === 'endif' || keyword === 'endmenu' || keyword === 'endchoice') {
+      const opener = keyword.slice(3);
+      const index = blocks.map(block => block.keyword as string).lastIndexOf(opener);
+      if (index >= 0) {
+        blocks.length = index;
+      }
+      current = null;
+    } else if (keyword === 'comment') {
+      // A comment can have `depends on`, which must not leak to the previous entry.
+      current = { dependsOn: [] };
+    } else if (/^(o?r?source|mainmenu)$/.test(keyword)) {
+      current = null;
+    } else if (!current) {
+      continue;
+    } else if (keyword === 'depends' && rest.startsWith('on')) {
+      current.dependsOn.push(rest.slice(2).trim());
+    } else if (keyword === 'prompt') {
+      current.prompt = unquote(splitCondition(rest).value);
+    } else if (TYPE_KEYWORDS[keyword]) {
+      if (keyword.startsWith('def_')) {
+        if ('defaults' in current) {
+          current.defaults.push(splitCondition(rest));
+        }
+      } else if (rest) {
+        current.prompt = unquote(splitCondition(rest).value);
+      }
+      if ('name' in current) {
+        current.type = TYPE_KEYWORDS[keyword];
+      }
+    } else if (!('name' in current)) {
+      // Menus, comments and unnamed choices have no further attributes of interest.
+      continue;
+    } else if (keyword === 'select') {
+      current.selects.push(splitCondition(rest));
+    } else if (keyword === 'imply') {
+      current.implies.push(splitCondition(rest));
+    } else if (keyword === 'default') {
+      current.defaults.push(splitCondition(rest));
+    } else if (keyword === 'help' || keyword === '---help---') {
+      // The help text is everything indented further than the first line after `help`.
+      const keywordIndent = indentOf(line);
+      const help: string[] = [];
+      let helpIndent = -1;
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1];
+        if (next.trim() !== '') {
+          const indent = indentOf(next);
+          if (helpIndent < 0 ? indent <= keywordIndent : indent < helpIndent) {
+            break;
+          }
+          helpIndent = helpIndent < 0 ? indent : helpIndent;
+        }
+        help.push(next.trim());
+        i++;
+      }
+      current.help = help.join('\n').trim();
+    }
+  }
+  return entries;
+};
+
+/**
+ * Lists the symbols an expression refers to, e.g. `BPF_SYSCALL && (NET || !MMU)`.
+ * @param {string} expression - A Kconfig expression.
+ * @returns {string[]} The symbol names, without duplicates; constants, numbers and strings are left out.
+ */
+export const expressionSymbols = (expression: string): string[] => {
+  const symbols = new Set<string>();
+  for (const match of expression.matchAll(/"[^"]*"|'[^']*'|\$\([^)]*\)|([A-Za-z0-9_]+)/g)) {
+    const name = match[1];
+    if (name && !CONSTANTS.has(name) && !/^(0x[0-9a-f]+|-?\d+)$/i.test(name)) {
+      symbols.add(name);
+    }
+  }
+  return [...symbols];
+};
+
+/**
+ * Removes a `CONFIG_` prefix.
+ * @param {string} name - A symbol name, with or without the prefix.
+ * @returns {string} The bare name, e.g. `BPF_SYSCALL`.
+ */
+export const stripConfigPrefix = (name: string): string => name.replace(/^CONFIG_/, '');
+
+/**
+ * Appends a value to a list in a map, creating the list on first use.
+ * @param {Map<string, T[]>} map - The map.
+ * @param {string} key - The key.
+ * @param {T} value - The value to add.
+ */
+const addTo = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const list = map.get(key);
+  if (list) {
+    if (!list.includes(value)) {
+      list.push(value);
+    }
+  } else {
+    map.set(key, [value]);
+  }
+};
+
+/**
+ * Collects paths and the directories above them; Kbuild descends into a directory holding a
+ * listed path, so the directory is built too.
+ * @param {string[]} paths - Paths relative to the root.
+ * @returns {Set<string>} The paths and their ancestor directories, e.g. `net/` and `net/core/` for `net/core/dev.c`.
+ */
+const withAncestors = (paths: string[]): Set<string> => {
+  const result = new Set<string>();
+  for (const path of paths) {
+    for (let end = path.indexOf('/'); end >= 0; end = path.indexOf('/', end + 1)) {
+      result.add(path.slice(0, end + 1));
+    }
+    result.add(path);
+  }
+  return result;
+};
+
+/**
+ * Builds the lookups used by the app from the served Kconfig data.
+ * @param {KconfigData} data - The entries and gates.
+ * @returns {KconfigIndex} The index.
+ */
+export const buildKconfigIndex = (data: KconfigData): KconfigIndex => {
+  const index: KconfigIndex = {
+    data,
+    byName: new Map(),
+    byDirectory: new Map(),
+    selectedBy: new Map(),
+    impliedBy: new Map(),
+    requiredBy: new Map(),
+    gatedBy: new Map(),
+    reached: data.listed ? withAncestors(data.listed) : null,
+    makefiles: new Set(data.makefiles),
+  };
+  for (const entry of data.entries) {
+    addTo(index.byName, entry.name, entry);
+    addTo(index.byDirectory, entry.file.replace(/[^/]*$/, ''), entry);
+    entry.selects.forEach(({ value }) => addTo(index.selectedBy, value, entry.name));
+    entry.implies.forEach(({ value }) => addTo(index.impliedBy, value, entry.name));
+    entry.dependsOn.flatMap(expressionSymbols).forEach(symbol => addTo(index.requiredBy, symbol, entry.name));
+  }
+  for (const [symbol, paths] of Object.entries(data.gates)) {
+    paths.forEach(path => addTo(index.gatedBy, path, symbol));
+  }
+  return index;
+};
+
+/**
+ * The symbols directly related to one symbol, across all of its declarations.
+ */
+export interface KconfigRelations {
+  /** Symbols mentioned in its `depends on` expressions. */
+  dependsOn: string[];
+  /** Symbols that select it. */
+  selectedBy: string[];
+  /** Symbols that imply it. */
+  impliedBy: string[];
+  /** Symbols it selects. */
+  selects: string[];
+  /** Symbols it implies. */
+  implies: string[];
+  /** Symbols that depend on it. */
+  requiredBy: string[];
+}
+
+/**
+ * Collects the symbols related to a symbol, for its dependency and reverse-select graph.
+ * @param {KconfigIndex} index - The Kconfig index.
+ * @param {string} name - The symbol name without `CONFIG_`.
+ * @returns {KconfigRelations} The related symbols, each list without duplicates.
+ */
+export const symbolRelations = (index: KconfigIndex, name: string): KconfigRelations => {
+  const entries = index.byName.get(name) ?? [];
+  const unique = (names: string[]) => [...new Set(names)];
+  return {
+    dependsOn: unique(entries.flatMap(entry => entry.dependsOn.flatMap(expressionSymbols))),
+    selectedBy: index.selectedBy.get(name) ?? [],
+    impliedBy: index.impliedBy.get(name) ?? [],
+    selects: unique(entries.flatMap(entry => entry.selects.map(({ value }) => value))),
+    implies: unique(entries.flatMap(entry => entry.implies.map(({ value }) => value))),
+    requiredBy: index.requiredBy.get(name) ?? [],
+  };
+};
+
+/**
+ * Searches the symbols with the same query language as the tree. A symbol's name (with its
+ * `CONFIG_` prefix), prompt, help text and Kconfig file take the place of a node's name,
+ * summary, description and path.
+ * @param {KconfigIndex} index - The Kconfig index.
+ * @param {ParsedQuery} query - The parsed search query.
+ * @returns {KconfigHit[]} The matching symbols, best first.
+ */
+export const searchKconfig = (index: KconfigIndex, query: ParsedQuery): KconfigHit[] => {
+  if (isEmptyQuery(query)) {
+    return [];
+  }
+  const hits: KconfigHit[] = [];
+  for (const [name, entries] of index.byName) {
+    const [entry] = entries;
+    const score = scoreNode(query, {
+      path: entry.file,
+      name: `CONFIG_${name}`,
+      summary: entry.prompt ?? '',
+      description: entry.help,
+      kind: 'file',
+      tags: [],
+    });
+    // Score the name with and without the prefix, so `BPF_SYSCALL` is an exact match too.
+    const bareScore = scoreNode(query, { path: entry.file, name, summary: entry.prompt ?? '', description: entry.help, kind: 'file', tags: [] });
+    const best = Math.max(score ?? -Infinity, bareScore ?? -Infinity);
+    if (best > -Infinity) {
+      hits.push({ name, prompt: entry.prompt, score: best });
+    }
+  }
+  return hits.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,207 @@
+import type { KconfigIndex } from './kconfig';
+
+/**
+ * Reading a kernel `.config` and working out which parts of the tree it builds.
+ *
+ * A `.config` sets each enabled symbol on a line of its own (`CONFIG_NET=y`, `CONFIG_EXT4_FS=m`,
+ * `CONFIG_LOCALVERSION=""`) and lists disabled ones as comments (`# CONFIG_KSM is not set`).
+ * Whether a file or directory is built follows from the symbols gating it in the Makefiles
+ * (see `KconfigIndex.gatedBy`) and from those gating its directories. Only what Kbuild reaches
+ * is built: what the Makefiles list (`obj-y`, `obj-m`, ...) and the directories above it. Nodes
+ * no Makefile lists, such as `Documentation/` or headers, have no state; in a directory whose
+ * Makefile was not read, nodes are built like the directory. Under `arch/`, only the configured
+ * architecture's directory is built.
+ */
+
+/** How a node is built: into the kernel image, as a loadable module, or not at all. */
+export type BuildState = 'builtin' | 'module' | 'off';
+
+/**
+ * A parsed `.config`.
+ */
+export interface KernelConfig {
+  /** The name of the file it was read from. */
+  name: string;
+  /** The architecture directory under `arch/` it is for, e.g. `x86`, or null if it cannot be told. */
+  arch: string | null;
+  /** The value of each symbol that is set, keyed by name without `CONFIG_`, e.g. `y`, `m` or a string. */
+  values: Record<string, string>;
+}
+
+/**
+ * Why a node is built as it is, as worked out by `nodeBuildState`.
+ */
+export interface BuildDecision {
+  /** The state, or null if no Makefile reaches the node, so it is neither built nor known not to be. */
+  state: BuildState | null;
+  /**
+   * The path whose gate decides the state: the node itself or the nearest ancestor that lowers
+   * the state to its final value, or for a built node the deepest gated one. Null if no gate applies.
+   */
+  path: string | null;
+  /** The symbol at that path that decides the state, or null for another architecture's directory. */
+  symbol: string | null;
+}
+
+/** The order of the states, from not built to built in. */
+const STATE_RANK: Record<BuildState, number> = { off: 0, module: 1, builtin: 2 };
+
+/** `CONFIG_<NAME>=<value>`, with the value possibly quoted. */
+const CONFIG_LINE = /^CONFIG_([A-Za-z0-9_]+)=(.*)$/;
+
+/** `# CONFIG_<NAME> is not set`. */
+const UNSET_LINE = /^# CONFIG_([A-Za-z0-9_]+) is not set$/;
+
+/** The header written by `make *config`, e.g. `# Linux/x86_64 6.8.0 Kernel Configuration`. */
+const HEADER_LINE = /^# Linux\/(\S+) .*Kernel Configuration$/;
+
+/** Names of `ARCH` that live in another directory under `arch/`. */
+const ARCH_ALIASES: Record<string, string> = {
+  x86_64: 'x86',
+  i386: 'x86',
+  sparc64: 'sparc',
+  sparc32: 'sparc',
+  parisc64: 'parisc',
+};
+
+/** The symbol each architecture sets, checked in order, for files without a header. */
+const ARCH_SYMBOLS: [string, string][] = [
+  ['X86', 'x86'],
+  ['ARM64', 'arm64'],
+  ['ARM', 'arm'],
+  ['RISCV', 'riscv'],
+  ['PPC', 'powerpc'],
+  ['S390', 's390'],
+  ['MIPS', 'mips'],
+  ['LOONGARCH', 'loongarch'],
+  ['SPARC', 'sparc'],
+];
+
+/**
+ * Parses a `.config` file.
+ * @param {string} text - The file contents.
+ * @param {string} name - The file name, kept to show which configuration is loaded.
+ * @returns {KernelConfig} The symbols it sets and the architecture it is for.
+ * @throws {Error} If the file sets or unsets no symbols, e.g. because it is not a `.config`.
+ */
+export const parseKernelConfig = (text: string, name: string): KernelConfig => {
+  const values: Record<string, string> = {};
+  let header: string | null = null;
+  let symbols = 0;
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    const set = line.match(CONFIG_LINE);
+    if (set) {
+      values[set[1]] = set[2].replace(/^"(.*)"$/, '$1');
+      symbols++;
+      continue;
+    }
+    if (UNSET_LINE.test(line)) {
+      symbols++;
+      continue;
+    }
+    header ??= line.match(HEADER_LINE)?.[1] ?? null;
+  }
+  if (symbols === 0) {
+    throw new Error('No CONFIG_ lines found; expected a kernel .config file');
+  }
+  const arch = header
+    ? ARCH_ALIASES[header] ?? header
+    : ARCH_SYMBOLS.find(([symbol]) => values[symbol] === 'y')?.[1] ?? null;
+  return { name, arch, values };
+};
+
+/**
+ * The state a single symbol's value gives the files it gates.
+ * @param {string | undefined} value - The symbol's value, or undefined if it is not set.
+ * @returns {BuildState} `builtin` for `y`, `module` for `m`, else `off`.
+ */
+export const symbolState = (value: string | undefined): BuildState =>
+  value === 'y' ? 'builtin' : value === 'm' ? 'module' : 'off';
+
+/**
+ * Tells whether a path is in the directory of another architecture than the given one.
+ * @param {string} relativePath - A path relative to the root, e.g. `arch/arm64/kernel/`.
+ * @param {string} arch - The architecture directory to keep, e.g. `x86`.
+ * @returns {boolean} True for `arch/<other>/` and everything in it; false for anything else,
+ *   including `arch/` itself and the files directly in it.
+ */
+export const isOtherArch = (relativePath: string, arch: string): boolean => {
+  const match = relativePath.match(/^arch\/([^/]+)\//);
+  return match !== null && match[1] !== arch;
+};
+
+/**
+ * Lists the path and each of its ancestor directories, outermost first.
+ * @param {string} relativePath - A path relative to the root, e.g. `kernel/bpf/syscall.c`.
+ * @returns {string[]} E.g. `kernel/`, `kernel/bpf/`, `kernel/bpf/syscall.c`; empty for the root.
+ */
+const pathPrefixes = (relativePath: string): string[] => {
+  const prefixes: string[] = [];
+  let end = relativePath.indexOf('/');
+  while (end >= 0 && end < relativePath.length - 1) {
+    prefixes.push(relativePath.slice(0, end + 1));
+    end = relativePath.indexOf('/', end + 1);
+  }
+  if (relativePath !== '') {
+    prefixes.push(relativePath);
+  }
+  return prefixes;
+};
+
+/**
+ * Tells whether Kbuild reaches a node: a Makefile lists it or something inside it, or its
+ * directory is reached and has no Makefile that was read, e.g. in an excerpt of the tree.
+ * @param {string} relativePath - The node's path relative to the root.
+ * @param {KconfigIndex} index - The Kconfig index, with the listed paths and the read Makefiles.
+ * @param {string | null} [archDirectory] - The configured architecture's directory, e.g. `arch/x86/`,
+ *   which the top-level Makefile reaches through `$(SRCARCH)` rather than by name.
+ * @returns {boolean} True if the node is reached; always true for data that does not record what is listed.
+ */
+export const isReached = (relativePath: string, index: KconfigIndex, archDirectory: string | null = null): boolean => {
+  if (!index.reached || relativePath === '' || relativePath === archDirectory || index.reached.has(relativePath)) {
+    return true;
+  }
+  const parent = relativePath.replace(/[^/]+\/?$/, '');
+  return parent !== '' && !index.makefiles.has(parent) && isReached(parent, index, archDirectory);
+};
+
+/**
+ * Works out whether a configuration builds a node. Each gated path on the way from the root
+ * can only lower the state: a path is built as the lowest of the symbols gating it (all of them
+ * must be set, as for a composite object's parts or an object inside `ifdef`), and never
+ * higher than its directory. A node no Makefile reaches has no state unless a directory above
+ * it is not built.
+ * @param {string} relativePath - The node's path relative to the root.
+ * @param {KernelConfig} config - The configuration.
+ * @param {KconfigIndex} index - The Kconfig index, with the symbols gating each path.
+ * @returns {BuildDecision} The node's state and what decides it.
+ */
+export const nodeBuildState = (relativePath: string, config: KernelConfig, index: KconfigIndex): BuildDecision => {
+  const decision: BuildDecision & { state: BuildState } = { state: 'builtin', path: null, symbol: null };
+  for (const prefix of pathPrefixes(relativePath)) {
+    if (config.arch && isOtherArch(prefix, config.arch)) {
+      return { state: 'off', path: prefix, symbol: null };
+    }
+    const symbols = index.gatedBy.get(prefix);
+    if (!symbols) {
+      continue;
+    }
+    // The lowest symbol decides; of several equal ones, the first listed.
+    const symbol = symbols.reduce((lowest, name) =>
+      STATE_RANK[symbolState(config.values[name])] < STATE_RANK[symbolState(config.values[lowest])] ? name : lowest);
+    const state = symbolState(config.values[symbol]);
+    if (STATE_RANK[state] <= STATE_RANK[decision.state]) {
+      decision.state = state;
+      decision.path = prefix;
+      decision.symbol = symbol;
+    }
+    if (decision.state === 'off') {
+      break;
+    }
+  }
+  if (decision.state !== 'off' && !isReached(relativePath, index, config.arch && `arch/${config.arch}/`)) {
+    return { state: null, path: null, symbol: null };
+  }
+  return decision;
+};
@@ -0,0 +1,218 @@
+import type { KernelNode } from '../types';
+import type { SearchIndex, SearchIndexEntry } from '../data/treeChunks';
+import type { UiStrings } from './uiStrings';
+
+/**
+ * Translations of the tree's text and of the interface. Each locale is a JSON file keyed by
+ * node path; the format is described in `data/locales/README.md`. A node's text is looked up
+ * in the active locale, then in English, and is otherwise shown as written in the tree.
+ */
+
+/** The locale the interface falls back to, and whose translations back up the others. */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * The translated text of one node. Either field may be left out.
+ */
+export interface NodeText {
+  summary?: string;
+  description?: string;
+}
+
+/** Translated node text by path relative to the root; the root itself is `''`. */
+export type NodeTextMap = Record<string, NodeText>;
+
+/**
+ * A locale file.
+ */
+export interface LocaleFile {
+  /** The locale's code, e.g. `ja` or `pt-BR`; defaults to the file name. */
+  locale: string;
+  /** The locale's name in its own language, shown in the language switcher, e.g. `日本語`. */
+  name: string;
+  /** Translations of the interface strings; missing ones are shown in English. */
+  strings: Partial<UiStrings>;
+  nodes: NodeTextMap;
+}
+
+/**
+ * A locale as listed in the manifest.
+ */
+export interface LocaleInfo {
+  locale: string;
+  name: string;
+  /** The locale's file, relative to the chunk directory. */
+  file: string;
+  /** The number of nodes with translated text. */
+  nodes: number;
+}
+
+/**
+ * The list of locales, as served to the app.
+ */
+export interface LocaleManifest {
+  /** The locale the tree's own text is written in; it needs no node translations. */
+  textLocale: string;
+  locales: LocaleInfo[];
+}
+
+/**
+ * A node whose text is not translated into a locale.
+ */
+export interface MissingTranslation {
+  /** The node's path relative to the root; `''` for the root. */
+  path: string;
+  /** The fields that have text in the tree but none in the locale. */
+  fields: (keyof NodeText)[];
+}
+
+/**
+ * Validates a locale file read from JSON.
+ * @param {unknown} raw - The parsed file.
+ * @param {string} fallbackLocale - The code used when the file has none, e.g. the file name without `.json`.
+ * @returns {LocaleFile} The locale, with paths stripped of leading slashes and empty text dropped.
+ * @throws {Error} If a field has the wrong type.
+ */
+export const parseLocaleFile = (raw: unknown, fallbackLocale: string): LocaleFile => {
+  const data = raw as Partial<LocaleFile> | null;
+  if (!data || typeof data !== 'object') {
+    throw new Error('A locale file must be a JSON object');
+  }
+  const locale = typeof data.locale === 'string' && data.locale !== '' ? data.locale : fallbackLocale;
+  if (data.strings !== undefined && (typeof data.strings !== 'object' || data.strings === null)) {
+    throw new Error('"strings" must be an object');
+  }
+  if (data.nodes !== undefined && (typeof data.nodes !== 'object' || data.nodes === null)) {
+    throw new Error('"nodes" must be an object');
+  }
+  const strings: Record<string, string> = {};
+  Object.entries(data.strings ?? {}).forEach(([key, value]) => {
+    if (typeof value !== 'string') {
+      throw new Error(`The string "${key}" must be text`);
+    }
+    strings[key] = value;
+  });
+  const nodes: NodeTextMap = Object.create(null);
+  Object.entries(data.nodes ?? {}).forEach(([path, text]: [string, NodeText | null]) => {
+    if (!text || typeof text !== 'object') {
+      throw new Error(`The text of "${path}" must be an object`);
+    }
+    const entry: NodeText = {};
+    (['summary', 'description'] as const).forEach(field => {
+      if (text[field] !== undefined && typeof text[field] !== 'string') {
+        throw new Error(`The ${field} of "${path}" must be text`);
+      }
+      if (text[field]) {
+        entry[field] = text[field];
+      }
+    });
+    if (entry.summary || entry.description) {
+      nodes[path.replace(/^\/+/, '')] = entry;
+    }
+  });
+  return {
+    locale,
+    name: typeof data.name === 'string' && data.name !== '' ? data.name : locale,
+    strings: strings as Partial<UiStrings>,
+    nodes,
+  };
+};
+
+/**
+ * Looks up a node's text among the map's own entries, so that a path such as `toString` does
+ * not find what every object inherits.
+ * @param {NodeTextMap} texts - The translations by relative path.
+ * @param {string} path - The node's path relative to the root.
+ * @returns {NodeText | undefined} The node's text, if it is translated.
+ */
+const textOf = (texts: NodeTextMap, path: string): NodeText | undefined =>
+  Object.hasOwn(texts, path) ? texts[path] : undefined;
+
+/**
+ * Combines the node text of a locale with that of a fallback, field by field.
+ * @param {NodeTextMap} primary - The preferred translations.
+ * @param {NodeTextMap} fallback - The translations used where the preferred ones have none, e.g. English.
+ * @returns {NodeTextMap} The combined translations.
+ */
+export const mergeNodeTexts = (primary: NodeTextMap, fallback: NodeTextMap): NodeTextMap => {
+  const merged: NodeTextMap = Object.assign(Object.create(null), fallback);
+  Object.entries(primary).forEach(([path, text]) => {
+    merged[path] = { ...textOf(fallback, path), ...text };
+  });
+  return merged;
+};
+
+/**
+ * Returns a copy of the loaded part of a tree with its summaries and descriptions translated.
+ * Nodes without a translation keep their text; unloaded directories stay unloaded.
+ * @param {KernelNode} root - The root of the tree.
+ * @param {NodeTextMap} texts - The translations by relative path.
+ * @returns {KernelNode} The translated tree, or the same tree when there are no translations.
+ */
+export const localizeTree = (root: KernelNode, texts: NodeTextMap): KernelNode => {
+  if (Object.keys(texts).length === 0) {
+    return root;
+  }
+  const visit = (node: KernelNode, path: string): KernelNode => {
+    const text = textOf(texts, path);
+    const copy: KernelNode = text ? { ...node, ...text } : { ...node };
+    if (node.children) {
+      copy.children = node.children.map(child => visit(child, path + child.name));
+    }
+    return copy;
+  };
+  return visit(root, '');
+};
+
+/**
+ * Returns a copy of the search index with its summaries and descriptions translated, so a
+ * search matches the text being shown.
+ * @param {SearchIndex} index - The search index.
+ * @param {NodeTextMap} texts - The translations by relative path.
+ * @returns {SearchIndex} The translated index, or the same index when there are no translations.
+ */
+export const localizeIndex = (index: SearchIndex, texts: NodeTextMap): SearchIndex => {
+  if (Object.keys(texts).length === 0) {
+    return index;
+  }
+  return {
+    entries: index.entries.map((entry): SearchIndexEntry => {
+      const text = textOf(texts, entry[0]);
+      if (!text) {
+        return entry;
+      }
+      const translated = [...entry] as SearchIndexEntry;
+      translated[1] = text.summary ?? entry[1];
+      translated[2] = text.description ?? entry[2];
+      return translated;
+    }),
+  };
+};
+
+/**
+ * Lists the nodes whose text a locale does not translate. Fields that are empty in the tree
+ * need no translation.
+ * @param {KernelNode} root - The root of the tree, for its own text.
+ * @param {SearchIndex} index - The search index, for every other node.
+ * @param {NodeTextMap} texts - The locale's translations by relative path.
+ * @returns {MissingTranslation[]} The untranslated nodes, the root first and then in tree order.
+ */
+export const findMissingTranslations = (root: KernelNode, index: SearchIndex, texts: NodeTextMap): MissingTranslation[] => {
+  const missing: MissingTranslation[] = [];
+  const check = (path: string, summary: string, description: string) => {
+    const text = textOf(texts, path) ?? {};
+    const fields: (keyof NodeText)[] = [];
+    if (summary.trim() !== '' && !text.summary) {
+      fields.push('summary');
+    }
+    if (description.trim() !== '' && !text.description) {
+      fields.push('description');
+    }
+    if (fields.length > 0) {
+      missing.push({ path, fields });
+    }
+  };
+  check('', root.summary, root.description);
+  index.entries.forEach(([path, summary, description]) => check(path, summary, description));
+  return missing;
+};
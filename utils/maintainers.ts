@@ -0,0 +1,249 @@
+/**
+ * Parsing and matching of the kernel's `MAINTAINERS` file.
+ *
+ * The file is a list of sections separated by blank lines. Each section starts with a title
+ * line, followed by tagged entries such as `M:\tName <email>`. The tags used here are:
+ * - `M:` maintainer, `R:` reviewer, `L:` mailing list, `S:` support status;
+ * - `F:` files covered and `X:` files excluded: a path (a trailing `/` covers the whole
+ *   directory) where `*` and `?` match within one path segment;
+ * - `N:` files covered, as a regular expression matched against the path.
+ */
+
+/**
+ * A section of the MAINTAINERS file, e.g. `SCHEDULER`.
+ */
+export interface MaintainerSection {
+  /** The section title. */
+  name: string;
+  /** `M:` entries, e.g. `Ingo Molnar <mingo@redhat.com>`. */
+  maintainers: string[];
+  /** `R:` entries. */
+  reviewers: string[];
+  /** `L:` entries, e.g. `linux-kernel@vger.kernel.org`. */
+  lists: string[];
+  /** The `S:` entry, e.g. `Maintained`; empty if missing. */
+  status: string;
+  /** `F:` patterns. */
+  files: string[];
+  /** `X:` patterns. */
+  excludes: string[];
+  /** `N:` regular expressions. */
+  namePatterns: string[];
+}
+
+/**
+ * A person entry split into its parts.
+ */
+export interface MaintainerPerson {
+  /** The display name, or the address if there is no name. */
+  name: string;
+  /** The e-mail address, if any. */
+  email?: string;
+}
+
+/**
+ * Parses the text of a MAINTAINERS file. Paragraphs without any tagged entry, such as the
+ * introduction at the top of the file, are skipped.
+ * @param {string} text - The file contents.
+ * @returns {MaintainerSection[]} The sections, in file order.
+ */
+export const parseMaintainers = (text: string): MaintainerSection[] => {
+  const sections: MaintainerSection[] = [];
+  let current: MaintainerSection | null = null;
+  let hasEntries = false;
+
+  const finish = () => {
+    if (current && hasEntries) {
+      sections.push(current);
+    }
+    current = null;
+    hasEntries = false;
+  };
+
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') {
+      finish();
+      continue;
+    }
+    const entry = line.match(/^([A-Z]):\s*(.*?)\s*$/);
+    if (!entry) {
+      if (!current) {
+        current = { name: line.trim(), maintainers: [], reviewers: [], lists: [], status: '', files: [], excludes: [], namePatterns: [] };
+      }
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const [, tag, value] = entry;
+    hasEntries = true;
+    switch (tag) {
+      case 'M':
+        current.maintainers.push(value);
+        break;
+      case 'R':
+        current.reviewers.push(value);
+        break;
+      case 'L':
+        current.lists.push(value);
+        break;
+      case 'S':
+        current.status = value;
+        break;
+      case 'F':
+        current.files.push(value);
+        break;
+      case 'X':
+        current.excludes.push(value);
+        break;
+      case 'N':
+        current.namePatterns.push(value);
+        break;
+      default:
+        // Other tags (W:, T:, K:, ...) are not used.
+        break;
+    }
+  }
+  finish();
+  return sections;
+};
+
+/**
+ * Splits an `M:` or `R:` entry into name and address.
+ * @param {string} entry - The entry, e.g. `Ingo Molnar <mingo@redhat.com>` or `x86@kernel.org`.
+ * @returns {MaintainerPerson} The name and address.
+ */
+export const parsePerson = (entry: string): MaintainerPerson => {
+  const match = entry.match(/^(.*?)\s*<([^>]+)>/);
+  if (match) {
+    return { name: match[1].replace(/^"|"$/g, '') || match[2], email: match[2] };
+  }
+  return entry.includes('@') ? { name: entry, email: entry } : { name: entry };
+};
+
+/**
+ * Extracts the address of an `L:` entry, dropping notes such as `(moderated for non-subscribers)`.
+ * @param {string} entry - The entry.
+ * @returns {string} The list address.
+ */
+export const listAddress = (entry: string): string => entry.split(/\s/)[0];
+
+/** Compiled `F:`/`X:` patterns, keyed by their source. */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Compiles an `F:` or `X:` pattern into an expression matched against relative node paths.
+ * Without wildcards, a pattern also covers everything below it, since it may name a directory;
+ * with them, it only covers files in its directory (`drivers/net/*`) unless it ends with `/`.
+ * @param {string} pattern - The pattern, e.g. `kernel/sched/` or `drivers/net/*`.
+ * @returns {RegExp} The compiled expression.
+ */
+const compileFilePattern = (pattern: string): RegExp => {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const hasWildcard = /[*?]/.test(pattern);
+    const source = pattern
+      .replace(/\/+$/, '')
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]');
+    const below = pattern.endsWith('/') || !hasWildcard ? '(/.*)?' : '';
+    regex = new RegExp(`^${source}${below}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+};
+
+/** Compiled `N:` patterns, keyed by their source; null for expressions JavaScript cannot parse. */
+const namePatternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compiles an `N:` pattern. The file uses Perl syntax, which is mostly compatible.
+ * @param {string} pattern - The regular expression source, e.g. `rockchip`.
+ * @returns {RegExp | null} The compiled expression, or null if it is not valid in JavaScript.
+ */
+const compileNamePattern = (pattern: string): RegExp | null => {
+  if (!namePatternCache.has(pattern)) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(pattern);
+    } catch {
+      // Leave it out rather than fail on one section.
+    }
+    namePatternCache.set(pattern, regex);
+  }
+  return namePatternCache.get(pattern)!;
+};
+
+/**
+ * Finds how specifically a section covers a path.
+ * @param {MaintainerSection} section - The section.
+ * @param {string} path - The node's path relative to the root, e.g. `kernel/sched/fair.c`.
+ * @returns {number} The length of the longest matching `F:` or `N:` pattern, or 0 if the section does not cover the path.
+ */
+const matchSpecificity = (section: MaintainerSection, path: string): number => {
+  if (section.excludes.some(pattern => compileFilePattern(pattern).test(path))) {
+    return 0;
+  }
+  let best = 0;
+  for (const pattern of section.files) {
+    if (pattern.length > best && compileFilePattern(pattern).test(path)) {
+      best = pattern.length;
+    }
+  }
+  for (const pattern of section.namePatterns) {
+    if (pattern.length > best && compileNamePattern(pattern)?.test(path)) {
+      best = pattern.length;
+    }
+  }
+  return best;
+};
+
+/**
+ * Checks whether a section covers a path.
+ * @param {MaintainerSection} section - The section.
+ * @param {string} path - The node's path relative to the root; directories end with `/`.
+ * @returns {boolean} True if the path matches an `F:` or `N:` entry and no `X:` entry.
+ */
+export const sectionCovers = (section: MaintainerSection, path: string): boolean => matchSpecificity(section, path) > 0;
+
+/**
+ * Finds the sections covering a path, the most specific (longest matching pattern) first.
+ * @param {MaintainerSection[]} sections - All sections.
+ * @param {string} path - The node's path relative to the root; directories end with `/`.
+ * @returns {MaintainerSection[]} The covering sections.
+ */
+export const findSections = (sections: MaintainerSection[], path: string): MaintainerSection[] =>
+  sections
+    .map(section => ({ section, specificity: matchSpecificity(section, path) }))
+    .filter(({ specificity }) => specificity > 0)
+    .sort((a, b) => b.specificity - a.specificity)
+    .map(({ section }) => section);
+
+/** Sections matching a `maintainer:` or `list:` term, keyed by the section list and then by term. */
+const termCache = new WeakMap<MaintainerSection[], Map<string, MaintainerSection[]>>();
+
+/**
+ * Finds the sections with a maintainer, reviewer or list matching a search term.
+ * @param {MaintainerSection[]} sections - All sections.
+ * @param {'maintainer' | 'list'} field - Whether to match `M:` and `R:` entries, or `L:` entries.
+ * @param {string | RegExp} term - A lower-case substring of the name or address, or an expression to test.
+ * @returns {MaintainerSection[]} The matching sections. Results are cached.
+ */
+export const findSectionsByTerm = (sections: MaintainerSection[], field: 'maintainer' | 'list', term: string | RegExp): MaintainerSection[] => {
+  let cache = termCache.get(sections);
+  if (!cache) {
+    cache = new Map();
+    termCache.set(sections, cache);
+  }
+  const key = `${field}:${term instanceof RegExp ? term.toString() : JSON.stringify(term)}`;
+  let result = cache.get(key);
+  if (!result) {
+    const matches = (entry: string) => (term instanceof RegExp ? term.test(entry) : entry.toLowerCase().includes(term));
+    result = sections.filter(section =>
+      field === 'maintainer' ? section.maintainers.some(matches) || section.reviewers.some(matches) : section.lists.some(matches),
+    );
+    cache.set(key, result);
+  }
+  return result;
+};
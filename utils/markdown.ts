@@ -0,0 +1,160 @@
+/**
+ * A small Markdown parser for notes. It covers what notes need — paragraphs, headings, lists,
+ * quotes, code blocks, and inline code, emphasis and links — and produces a structure the
+ * components render as elements, so no note text is ever inserted as HTML.
+ */
+
+/**
+ * A span of inline text.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+/**
+ * A block of a note.
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; content: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; content: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const ORDERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+/**
+ * Inline syntax, in order of precedence: code spans, links, strong and emphasized text.
+ * Underscores inside words, as in `task_struct`, and a lone `*` as in `struct page *page` are left alone.
+ */
+const INLINE = /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(\S.*?)\*\*|(?<!\w)__(\S.*?)__(?!\w)|\*(?![\s*])(.+?)(?<!\s)\*|(?<!\w)_(?![\s_])(.+?)_(?!\w)/g;
+
+/** Link targets that are followed; anything else, such as `javascript:`, is shown as text. */
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+
+/**
+ * Parses inline syntax.
+ * @param {string} text - The text of a paragraph, heading or list item.
+ * @returns {MarkdownInline[]} The spans.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const result: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, label, href, strong, strongAlt, em, emAlt] = match;
+    if (match.index! > last) {
+      result.push({ type: 'text', text: text.slice(last, match.index) });
+    }
+    if (code !== undefined) {
+      result.push({ type: 'code', text: code });
+    } else if (label !== undefined) {
+      result.push(SAFE_LINK.test(href) ? { type: 'link', href, children: parseInline(label) } : { type: 'text', text: whole });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      result.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else {
+      result.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    }
+    last = match.index! + whole.length;
+  }
+  if (last < text.length) {
+    result.push({ type: 'text', text: text.slice(last) });
+  }
+  return result;
+};
+
+/**
+ * Parses a note into blocks. Consecutive lines form a paragraph; blank lines separate blocks.
+ * @param {string} source - The Markdown text.
+ * @returns {MarkdownBlock[]} The blocks, in order.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string) =>
+    line.trim() === '' || HEADING.test(line) || BULLET.test(line) || ORDERED.test(line) || QUOTE.test(line) || FENCE.test(line) || RULE.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    const ordered = ORDERED.test(line);
+    if (ordered || BULLET.test(line)) {
+      const pattern = ordered ? ORDERED : BULLET;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(pattern);
+        if (item) {
+          items.push(item[1]);
+        } else if (lines[i].trim() !== '' && /^\s+/.test(lines[i]) && items.length > 0) {
+          // An indented line continues the previous item.
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', content: parseInline(quoted.join(' ')) });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,57 @@
+import type { KernelNode, LegacyKernelNode, NodeKind } from '../types';
+import { deriveTags, detectLanguage } from './nodeMetadata';
+
+/**
+ * Works out the kind of a node that predates the `kind` field. Directory names end with `/`,
+ * and a node with children is a directory even if its name does not.
+ * @param {LegacyKernelNode} node - The node.
+ * @returns {NodeKind} The node's kind.
+ */
+const inferKind = (node: LegacyKernelNode): NodeKind =>
+  node.name.endsWith('/') || node.lazyChildren || (node.children && node.children.length > 0) ? 'dir' : 'file';
+
+/**
+ * Brings a node and its descendants up to the current schema. Nodes already in the current
+ * schema are kept as they are, apart from their descendants; missing `kind`, `language` and
+ * `tags` are filled in from the name and location. Safe to run more than once.
+ * @param {LegacyKernelNode | KernelNode} node - The node to migrate.
+ * @param {string} [relativePath=''] - The node's path relative to the root (`''` for the root).
+ * @returns {KernelNode} The migrated node.
+ */
+export const migrateNode = (node: LegacyKernelNode | KernelNode, relativePath = ''): KernelNode => {
+  const { children, ...fields } = node;
+  const kind = 'kind' in fields && fields.kind ? fields.kind : inferKind(node);
+  const migrated: KernelNode = { ...fields, kind };
+  if (kind === 'file' && !migrated.language) {
+    const language = detectLanguage(node.name);
+    if (language) {
+      migrated.language = language;
+    }
+  }
+  if (!migrated.tags && relativePath !== '') {
+    const tags = deriveTags(relativePath);
+    if (tags.length > 0) {
+      migrated.tags = tags;
+    }
+  }
+  if (children) {
+    migrated.children = migrateNodes(children, relativePath);
+  }
+  return migrated;
+};
+
+/**
+ * Migrates the children of a directory, e.g. a chunk loaded from the server.
+ * @param {(LegacyKernelNode | KernelNode)[]} nodes - The children.
+ * @param {string} parentPath - The directory's path relative to the root (`''` for the root).
+ * @returns {KernelNode[]} The migrated children.
+ */
+export const migrateNodes = (nodes: (LegacyKernelNode | KernelNode)[], parentPath: string): KernelNode[] =>
+  nodes.map(child => migrateNode(child, parentPath + child.name));
+
+/**
+ * Migrates a whole tree from its root.
+ * @param {LegacyKernelNode | KernelNode} root - The root node.
+ * @returns {KernelNode} The migrated tree.
+ */
+export const migrateTree = (root: LegacyKernelNode | KernelNode): KernelNode => migrateNode(root);
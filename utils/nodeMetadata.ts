@@ -0,0 +1,97 @@
+import type { NodeKind, SourceLanguage } from '../types';
+import { splitPath } from './nodePath';
+
+/** Display names of the recognized languages. */
+export const LANGUAGE_LABELS: Record<SourceLanguage, string> = {
+  c: 'C',
+  asm: 'Assembly',
+  rust: 'Rust',
+  kconfig: 'Kconfig',
+  makefile: 'Makefile',
+  rst: 'reStructuredText',
+};
+
+/** Display names of the node kinds. */
+export const KIND_LABELS: Record<NodeKind, string> = {
+  dir: 'Directory',
+  file: 'File',
+  symlink: 'Symbolic link',
+};
+
+/** The tag given to everything under each top-level directory. */
+const AREA_TAGS: Record<string, string> = {
+  'arch/': 'arch',
+  'block/': 'block',
+  'certs/': 'security',
+  'crypto/': 'crypto',
+  'Documentation/': 'docs',
+  'drivers/': 'drivers',
+  'fs/': 'filesystems',
+  'include/': 'headers',
+  'init/': 'boot',
+  'io_uring/': 'io_uring',
+  'ipc/': 'ipc',
+  'kernel/': 'core',
+  'lib/': 'library',
+  'mm/': 'memory',
+  'net/': 'networking',
+  'rust/': 'rust',
+  'samples/': 'samples',
+  'scripts/': 'build',
+  'security/': 'security',
+  'sound/': 'sound',
+  'tools/': 'tools',
+  'usr/': 'initramfs',
+  'virt/': 'virtualization',
+};
+
+/** Where the rendered kernel documentation is published. */
+const DOCS_BASE_URL = 'https://docs.kernel.org/';
+
+/**
+ * Recognizes the language of a file from its name.
+ * @param {string} name - The file name, e.g. `fair.c` or `Kconfig.debug`.
+ * @returns {SourceLanguage | undefined} The language, or undefined if it is not recognized.
+ */
+export const detectLanguage = (name: string): SourceLanguage | undefined => {
+  if (/^Kconfig/.test(name)) {
+    return 'kconfig';
+  }
+  if (/^(Makefile|Kbuild)|\.mk$/.test(name)) {
+    return 'makefile';
+  }
+  if (/\.[ch]$/.test(name)) {
+    return 'c';
+  }
+  if (/\.[sS]$/.test(name)) {
+    return 'asm';
+  }
+  if (/\.rs$/.test(name)) {
+    return 'rust';
+  }
+  return /\.rst$/.test(name) ? 'rst' : undefined;
+};
+
+/**
+ * Derives the tags every node gets from its location, e.g. `networking` for anything under `net/`.
+ * @param {string} relativePath - The node's path relative to the root.
+ * @returns {string[]} The tags; empty for the root and unknown top-level directories.
+ */
+export const deriveTags = (relativePath: string): string[] => {
+  const area = AREA_TAGS[splitPath(relativePath)[0] ?? ''];
+  return area ? [area] : [];
+};
+
+/**
+ * Turns a documentation link into a URL. Paths under `Documentation/` point to the
+ * rendered page on docs.kernel.org; absolute URLs are returned unchanged.
+ * @param {string} link - A `docLinks` entry.
+ * @returns {string} The URL to open.
+ */
+export const docLinkUrl = (link: string): string => {
+  if (/^https?:\/\//.test(link)) {
+    return link;
+  }
+  const page = link.replace(/^Documentation\//, '').replace(/(index)?\.rst$/, (_, index) => (index ? '' : '.html'));
+  return DOCS_BASE_URL + page;
+};
@@ -0,0 +1,52 @@
+/**
+ * Helpers for canonical node paths.
+ *
+ * Every node is identified by its canonical path: the names from the root down to the
+ * node, concatenated. Directory names end with `/`, so `linux/drivers/net/` is a directory
+ * and `linux/kernel/sched/fair.c` is a file. The root's path is its own name (`linux/`).
+ * A relative path is the same path without the root segment (`drivers/net/`); it is used
+ * for chunk files, the search index and URLs.
+ */
+
+/**
+ * Splits a node path into the names of its segments.
+ * Directory segments keep their trailing slash, matching `KernelNode.name`.
+ * @param {string} path - A node path, e.g. `linux/kernel/sched/fair.c`.
+ * @returns {string[]} The segment names, e.g. `['linux/', 'kernel/', 'sched/', 'fair.c']`.
+ */
+export const splitPath = (path: string): string[] => path.match(/[^/]+\/?/g) ?? [];
+
+/**
+ * Drops the root segment of a canonical path.
+ * @param {string} path - A canonical path, e.g. `linux/drivers/net/`.
+ * @returns {string} The path relative to the root, e.g. `drivers/net/` (`''` for the root).
+ */
+export const toRelativePath = (path: string): string => splitPath(path).slice(1).join('');
+
+/**
+ * Prefixes a relative path with the root's name.
+ * @param {string} rootName - The name of the root node, e.g. `linux/`.
+ * @param {string} relativePath - A path relative to the root, e.g. `drivers/net/`.
+ * @returns {string} The canonical path, e.g. `linux/drivers/net/`.
+ */
+export const toCanonicalPath = (rootName: string, relativePath: string): string => rootName + relativePath;
+
+/**
+ * Lists the canonical paths of a node's ancestors, from the root down to its parent.
+ * @param {string} path - A canonical path.
+ * @returns {string[]} The ancestor paths, e.g. `['linux/', 'linux/kernel/']` for `linux/kernel/fork.c`.
+ */
+export const getAncestorPaths = (path: string): string[] => {
+  const segments = splitPath(path);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join(''));
+};
+
+/**
+ * Checks whether a node name matches a path segment. Directory segments may omit the
+ * trailing slash, so hand-typed links such as `#/kernel/sched` still resolve.
+ * @param {string} name - The node's name.
+ * @param {string} segment - The path segment.
+ * @returns {boolean} True if the segment refers to the node.
+ */
+export const nameMatchesSegment = (name: string, segment: string): boolean =>
+  name === segment || name === `${segment}/`;
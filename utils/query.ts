@@ -0,0 +1,360 @@
+import type { NodeKind } from '../types';
+import { annotationOf, type AnnotationMap } from './annotations';
+import { findSectionsByTerm, sectionCovers, type MaintainerSection } from './maintainers';
+
+/**
+ * The search query language.
+ *
+ * A query is a list of space-separated terms; a node must match every term.
+ * - `sched` matches the name, summary, description or the user's note (case-insensitive substring).
+ * - `"page cache"` matches a phrase.
+ * - `name:`, `summary:`, `desc:` and `path:` restrict a term to one field, e.g. `path:drivers/`.
+ * - `note:` matches only the user's notes.
+ * - `tag:networking` matches nodes with that tag, given in the data or by the user; `kind:dir`, `kind:file` and `kind:symlink` filter by kind.
+ * - `maintainer:torvalds` and `list:netdev` match paths covered by a MAINTAINERS section with that
+ *   maintainer or reviewer (name or address) or mailing list.
+ * - `-term` excludes nodes that match the term.
+ * - `/^sched_.*\.c$/` matches a regular expression (add `i` after the closing slash to ignore case).
+ * - `~schdfair` matches names fuzzily (the letters in order, with gaps).
+ */
+
+/** The fields a term can be restricted to; `any` means name, summary, description or note. */
+export type QueryField = 'any' | 'name' | 'summary' | 'desc' | 'note' | 'path' | 'tag' | 'kind' | 'maintainer' | 'list';
+
+/**
+ * A single term of a parsed query.
+ */
+export interface QueryClause {
+  field: QueryField;
+  /** True for `-term`: nodes matching the clause are excluded. */
+  negate: boolean;
+  /** How the term is matched. */
+  kind: 'text' | 'regex' | 'fuzzy';
+  /** The lower-case term for `text` and `fuzzy` clauses, or the regex source. */
+  value: string;
+  /** The compiled expression for `regex` clauses. */
+  regex?: RegExp;
+}
+
+/**
+ * A parsed query.
+ */
+export interface ParsedQuery {
+  clauses: QueryClause[];
+}
+
+/**
+ * The searchable text of a node.
+ */
+export interface SearchableNode {
+  /** The path relative to the root, e.g. `kernel/sched/fair.c`. */
+  path: string;
+  /** The node's name, e.g. `fair.c` or `sched/`. */
+  name: string;
+  summary: string;
+  description: string;
+  kind: NodeKind;
+  tags: string[];
+}
+
+/**
+ * Data some fields are matched against besides the node's own text.
+ */
+export interface QueryContext {
+  /** The MAINTAINERS sections, for `maintainer:` and `list:`; those terms match nothing until they are loaded. */
+  maintainers?: MaintainerSection[] | null;
+  /** The user's annotations by relative path, for `note:`, `tag:` and plain terms. */
+  annotations?: AnnotationMap | null;
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  name: 'name',
+  summary: 'summary',
+  desc: 'desc',
+  description: 'desc',
+  note: 'note',
+  notes: 'note',
+  path: 'path',
+  tag: 'tag',
+  kind: 'kind',
+  maintainer: 'maintainer',
+  list: 'list',
+};
+
+/** Accepted spellings of each kind in `kind:` terms. */
+const KIND_ALIASES: Record<string, NodeKind> = {
+  dir: 'dir',
+  directory: 'dir',
+  folder: 'dir',
+  file: 'file',
+  symlink: 'symlink',
+  link: 'symlink',
+};
+
+/** Splits a query into terms: an optional `-`, an optional `field:`, then a phrase, regex or word. */
+const TOKEN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|\/((?:\\.|[^\\/])+)\/([a-z]*)|(\S+))/gi;
+
+let lastInput: string | null = null;
+let lastParsed: ParsedQuery = { clauses: [] };
+
+/**
+ * Parses a query string. The last result is cached, since every highlighted row parses the same query.
+ * @param {string} input - The raw query typed by the user.
+ * @returns {ParsedQuery} The parsed query; invalid regular expressions are treated as plain text.
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  if (input === lastInput) {
+    return lastParsed;
+  }
+  const clauses: QueryClause[] = [];
+  for (const match of input.matchAll(TOKEN)) {
+    const [, minus, rawField, phrase, regexSource, regexFlags, word] = match;
+    const field = rawField ? FIELD_ALIASES[rawField.toLowerCase()] : 'any';
+    if (rawField && !field) {
+      // Not a known field, e.g. `CONFIG_FOO:`; search for the whole token as text.
+      clauses.push({ field: 'any', negate: Boolean(minus), kind: 'text', value: match[0].replace(/^-/, '').toLowerCase() });
+      continue;
+    }
+    const negate = Boolean(minus);
+    if (regexSource !== undefined) {
+      try {
+        const flags = regexFlags.replace(/[^imsu]/g, '');
+        clauses.push({ field, negate, kind: 'regex', value: regexSource, regex: new RegExp(regexSource, flags) });
+      } catch {
+        clauses.push({ field, negate, kind: 'text', value: regexSource.toLowerCase() });
+      }
+      continue;
+    }
+    const text = phrase ?? word ?? '';
+    if (text.startsWith('~') && text.length > 1 && phrase === undefined) {
+      clauses.push({ field: field === 'any' ? 'name' : field, negate, kind: 'fuzzy', value: text.slice(1).toLowerCase() });
+    } else if (text !== '') {
+      clauses.push({ field, negate, kind: 'text', value: text.toLowerCase() });
+    }
+  }
+  lastInput = input;
+  lastParsed = { clauses };
+  return lastParsed;
+};
+
+/**
+ * Scores a fuzzy match: the letters of `term` must appear in `text` in order.
+ * Tighter matches (fewer gaps) score higher.
+ * @param {string} text - The lower-case text to search in.
+ * @param {string} term - The lower-case term.
+ * @returns {number} A score between 0 (no match) and 30.
+ */
+const fuzzyScore = (text: string, term: string): number => {
+  let position = -1;
+  let first = -1;
+  for (const char of term) {
+    position = text.indexOf(char, position + 1);
+    if (position < 0) {
+      return 0;
+    }
+    if (first < 0) {
+      first = position;
+    }
+  }
+  const span = position - first + 1;
+  return 30 * (term.length / span);
+};
+
+/**
+ * Scores a text or regex match against one field.
+ * @param {QueryClause} clause - The clause to match.
+ * @param {string} text - The field's text.
+ * @param {number} weight - The score for a match in this field.
+ * @returns {number} The score, or 0 if the field does not match.
+ */
+const scoreField = (clause: QueryClause, text: string, weight: number): number => {
+  if (clause.kind === 'regex') {
+    return clause.regex!.test(text) ? weight : 0;
+  }
+  return text.toLowerCase().includes(clause.value) ? weight : 0;
+};
+
+/**
+ * Scores a clause against a node's name, rewarding exact and prefix matches.
+ * @param {QueryClause} clause - The clause to match.
+ * @param {string} name - The node's name.
+ * @returns {number} The score, or 0 if the name does not match.
+ */
+const scoreName = (clause: QueryClause, name: string): number => {
+  const lowerName = name.toLowerCase();
+  const bareName = lowerName.replace(/\/$/, '');
+  if (clause.kind === 'fuzzy') {
+    return fuzzyScore(bareName, clause.value);
+  }
+  if (clause.kind === 'regex') {
+    return clause.regex!.test(name) || clause.regex!.test(name.replace(/\/$/, '')) ? 50 : 0;
+  }
+  if (bareName === clause.value || lowerName === clause.value) {
+    return 100;
+  }
+  if (lowerName.startsWith(clause.value)) {
+    return 60;
+  }
+  return lowerName.includes(clause.value) ? 40 : 0;
+};
+
+/**
+ * Scores a clause against a node's tags, rewarding exact tag matches.
+ * @param {QueryClause} clause - The clause to match.
+ * @param {string[]} tags - The node's tags.
+ * @returns {number} The score, or 0 if no tag matches.
+ */
+const scoreTags = (clause: QueryClause, tags: string[]): number => {
+  if (clause.kind === 'regex') {
+    return tags.some(tag => clause.regex!.test(tag)) ? 20 : 0;
+  }
+  if (clause.kind === 'fuzzy') {
+    return Math.max(0, ...tags.map(tag => fuzzyScore(tag.toLowerCase(), clause.value)));
+  }
+  const lowerTags = tags.map(tag => tag.toLowerCase());
+  if (lowerTags.includes(clause.value)) {
+    return 20;
+  }
+  return lowerTags.some(tag => tag.includes(clause.value)) ? 10 : 0;
+};
+
+/**
+ * Checks whether a node is covered by a MAINTAINERS section whose maintainers or lists match a clause.
+ * @param {QueryClause} clause - A `maintainer:` or `list:` clause; fuzzy terms are matched as substrings.
+ * @param {string} path - The node's path relative to the root.
+ * @param {MaintainerSection[] | null | undefined} sections - The MAINTAINERS sections, if loaded.
+ * @returns {number} 1 if the node is covered, or 0.
+ */
+const scoreOwnership = (clause: QueryClause, path: string, sections: MaintainerSection[] | null | undefined): number => {
+  if (!sections) {
+    return 0;
+  }
+  const field = clause.field === 'list' ? 'list' : 'maintainer';
+  const matching = findSectionsByTerm(sections, field, clause.kind === 'regex' ? clause.regex! : clause.value);
+  return matching.some(section => sectionCovers(section, path)) ? 1 : 0;
+};
+
+/**
+ * Scores a single clause against a node.
+ * @param {QueryClause} clause - The clause to match.
+ * @param {SearchableNode} node - The node's searchable text.
+ * @param {QueryContext} context - Data matched by `maintainer:` and `list:`, and the user's annotations.
+ * @returns {number} The score, or 0 if the clause does not match.
+ */
+const scoreClause = (clause: QueryClause, node: SearchableNode, context: QueryContext): number => {
+  const annotation = context.annotations ? annotationOf(context.annotations, node.path) : undefined;
+  switch (clause.field) {
+    case 'name':
+      return scoreName(clause, node.name);
+    case 'summary':
+      return clause.kind === 'fuzzy' ? fuzzyScore(node.summary.toLowerCase(), clause.value) : scoreField(clause, node.summary, 15);
+    case 'desc':
+      return clause.kind === 'fuzzy' ? fuzzyScore(node.description.toLowerCase(), clause.value) : scoreField(clause, node.description, 5);
+    case 'note':
+      if (!annotation) {
+        return 0;
+      }
+      return clause.kind === 'fuzzy' ? fuzzyScore(annotation.note.toLowerCase(), clause.value) : scoreField(clause, annotation.note, 5);
+    case 'tag':
+      return scoreTags(clause, annotation ? [...node.tags, ...annotation.tags] : node.tags);
+    case 'kind':
+      // A pure filter: it decides whether a node matches without changing the ranking.
+      if (clause.kind === 'regex') {
+        return clause.regex!.test(node.kind) ? 1 : 0;
+      }
+      return KIND_ALIASES[clause.value] === node.kind ? 1 : 0;
+    case 'maintainer':
+    case 'list':
+      // Also a pure filter.
+      return scoreOwnership(clause, node.path, context.maintainers);
+    case 'path':
+      if (clause.kind === 'fuzzy') {
+        return fuzzyScore(node.path.toLowerCase(), clause.value);
+      }
+      if (clause.kind === 'text' && node.path.toLowerCase().startsWith(clause.value)) {
+        return 30;
+      }
+      return scoreField(clause, node.path, 25);
+    default:
+      return Math.max(
+        scoreName(clause, node.name),
+        scoreField(clause, node.summary, 15),
+        scoreField(clause, node.description, 5),
+        annotation ? scoreField(clause, annotation.note, 5) : 0,
+      );
+  }
+};
+
+/**
+ * Builds a query term restricted to a field, quoting the value if it contains spaces.
+ * @param {QueryField} field - The field, e.g. `tag`.
+ * @param {string} value - The value to match, e.g. `networking` or `Linus Torvalds`.
+ * @returns {string} The term, e.g. `tag:networking` or `maintainer:"Linus Torvalds"`.
+ */
+export const formatFieldTerm = (field: QueryField, value: string): string => {
+  const text = value.replace(/"/g, '');
+  return `${field}:${/\s/.test(text) ? `"${text}"` : text}`;
+};
+
+/**
+ * Checks whether a query has no clauses, i.e. no search is active.
+ * @param {ParsedQuery} query - The parsed query.
+ * @returns {boolean} True if the query is empty.
+ */
+export const isEmptyQuery = (query: ParsedQuery): boolean => query.clauses.length === 0;
+
+/**
+ * Scores a node against a query. Every positive clause must match and no negated clause may match.
+ * Matches in the name count most, then the path, the summary, and the description or note.
+ * @param {ParsedQuery} query - The parsed query.
+ * @param {SearchableNode} node - The node's searchable text.
+ * @param {QueryContext} [context={}] - Data matched by `maintainer:` and `list:`, and the user's annotations.
+ * @returns {number | null} The score (higher is better), or null if the node does not match.
+ */
+export const scoreNode = (query: ParsedQuery, node: SearchableNode, context: QueryContext = {}): number | null => {
+  let score = 0;
+  for (const clause of query.clauses) {
+    const clauseScore = scoreClause(clause, node, context);
+    if (clause.negate) {
+      if (clauseScore > 0) {
+        return null;
+      }
+    } else if (clauseScore <= 0) {
+      return null;
+    } else {
+      score += clauseScore;
+    }
+  }
+  // Prefer shallower nodes when scores tie, e.g. `sched/` over `tools/sched/`.
+  const depth = node.path.split('/').filter(Boolean).length;
+  return score - depth * 0.1;
+};
+
+/** Fields whose terms match metadata or notes rather than the text of the tree, so they are never highlighted. */
+const FILTER_FIELDS: QueryField[] = ['note', 'tag', 'kind', 'maintainer', 'list'];
+
+let lastHighlightInput: string | null = null;
+let lastPatterns: RegExp[] = [];
+
+/**
+ * Builds the expressions used to highlight a query's matches in text.
+ * Positive text terms become case-insensitive literal patterns; regex terms are used as typed.
+ * Fuzzy and negated terms, `note:` terms, and `tag:`, `kind:`, `maintainer:` and `list:` filters, are not highlighted.
+ * The last result is cached.
+ * @param {string} input - The raw query.
+ * @returns {RegExp[]} Global expressions to highlight.
+ */
+export const getHighlightPatterns = (input: string): RegExp[] => {
+  if (input === lastHighlightInput) {
+    return lastPatterns;
+  }
+  lastHighlightInput = input;
+  lastPatterns = parseQuery(input).clauses
+    .filter(clause => !clause.negate && clause.kind !== 'fuzzy' && clause.value !== '' && !FILTER_FIELDS.includes(clause.field))
+    .map(clause =>
+      clause.kind === 'regex'
+        ? new RegExp(clause.regex!.source, `${clause.regex!.flags.replace('g', '')}g`)
+        : new RegExp(clause.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'),
+    );
+  return lastPatterns;
+};
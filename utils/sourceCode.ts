@@ -0,0 +1,337 @@
+import type { SourceLanguage } from '../types';
+
+/**
+ * Syntax highlighting and folding for the source view. The highlighters are deliberately
+ * small: they work line by line (carrying only whether a block comment or Kconfig help text is
+ * open) so a file of tens of thousands of lines is tokenized in one quick pass.
+ */
+
+/** What a piece of source text is, which decides its color. */
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'type' | 'preprocessor' | 'directive' | 'variable' | 'heading' | 'markup';
+
+/**
+ * A run of text on one line with a single color.
+ */
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+/**
+ * A function body that can be collapsed: from the line with its opening brace to the line
+ * with its closing brace (0-based line numbers).
+ */
+export interface FoldRegion {
+  start: number;
+  end: number;
+}
+
+const C_KEYWORDS = new Set([
+  'asm', 'auto', 'break', 'case', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extern', 'for', 'goto', 'if',
+  'inline', 'register', 'restrict', 'return', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'typeof', 'union',
+  'volatile', 'while', '__always_inline', '__init', '__exit', '__user', '__iomem', '__rcu', '__percpu', '__must_check',
+  'noinline', 'notrace', 'likely', 'unlikely',
+]);
+
+const C_TYPES = new Set([
+  'void', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'bool', '_Bool', 'size_t', 'ssize_t',
+  'u8', 'u16', 'u32', 'u64', 's8', 's16', 's32', 's64', '__u8', '__u16', '__u32', '__u64', '__s8', '__s16', '__s32',
+  '__s64', '__le16', '__le32', '__le64', '__be16', '__be32', '__be64', 'loff_t', 'pid_t', 'gfp_t', 'atomic_t',
+  'atomic64_t', 'refcount_t', 'spinlock_t', 'raw_spinlock_t', 'uintptr_t', 'phys_addr_t', 'dma_addr_t',
+]);
+
+const RUST_KEYWORDS = new Set([
+  'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn', 'for', 'if',
+  'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static',
+  'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while',
+]);
+
+const KCONFIG_KEYWORDS = new Set([
+  'config', 'menuconfig', 'choice', 'endchoice', 'menu', 'endmenu', 'if', 'endif', 'source', 'rsource', 'osource',
+  'mainmenu', 'comment', 'bool', 'tristate', 'string', 'int', 'hex', 'def_bool', 'def_tristate', 'prompt', 'depends',
+  'on', 'select', 'imply', 'default', 'range', 'visible', 'option', 'modules', 'transitional',
+]);
+
+const MAKE_KEYWORDS = new Set([
+  'ifeq', 'ifneq', 'ifdef', 'ifndef', 'else', 'endif', 'include', '-include', 'sinclude', 'define', 'endef', 'export',
+  'unexport', 'override', 'vpath',
+]);
+
+/** Tokenizer state carried from one line to the next. */
+interface LineState {
+  /** Inside a C `/* ... *\/` comment. */
+  blockComment: boolean;
+  /** Inside Kconfig help text: the indentation of the `help` line, or -1. */
+  helpIndent: number;
+}
+
+/**
+ * Appends text to a line's tokens, merging it into the last token if that has the same type.
+ * @param {Token[]} tokens - The tokens so far.
+ * @param {TokenType} type - The type of the text.
+ * @param {string} text - The text.
+ */
+const pushToken = (tokens: Token[], type: TokenType, text: string) => {
+  if (!text) {
+    return;
+  }
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    tokens.push({ type, text });
+  }
+};
+
+/** A quoted string with backslash escapes, or an unterminated one running to the end of the line. */
+const STRING = /^"(?:[^"\\]|\\.)*"?/;
+
+/**
+ * The tokens of C-like code, matched at a position (sticky): a comment opener, a line comment,
+ * a string, a character, a number, an identifier, an assembler directive or register, or a
+ * run of other characters.
+ */
+const C_TOKEN = /(\/\*)|(\/\/.*)|("(?:[^"\\]|\\.)*"?)|('(?:[^'\\]|\\.)*'?)|((?:0[xX][0-9a-fA-F]+|\d+(?:\.\d+)?)[uUlLfF]*)|([A-Za-z_][A-Za-z0-9_]*)|([.%$][A-Za-z0-9_]+)|([^/"'A-Za-z0-9_.%$]+|.)/y;
+
+/**
+ * Tokenizes a line of C, assembly (`.S` files go through the C preprocessor) or Rust.
+ * @param {string} line - The line.
+ * @param {LineState} state - The state before the line; updated in place.
+ * @param {SourceLanguage} language - `c`, `asm` or `rust`.
+ * @returns {Token[]} The tokens.
+ */
+const tokenizeCLike = (line: string, state: LineState, language: SourceLanguage): Token[] => {
+  const tokens: Token[] = [];
+  const keywords = language === 'rust' ? RUST_KEYWORDS : C_KEYWORDS;
+  let position = 0;
+
+  // A preprocessor directive colors its keyword; `#include <...>` also its file name.
+  const directive = language !== 'rust' && !state.blockComment ? line.match(/^\s*#\s*[a-z]+(\s*<[^>]*>)?/) : null;
+  if (directive) {
+    pushToken(tokens, 'preprocessor', directive[0].slice(0, directive[0].length - (directive[1]?.length ?? 0)));
+    pushToken(tokens, 'string', directive[1] ?? '');
+    position = directive[0].length;
+  }
+
+  while (position < line.length) {
+    if (state.blockComment) {
+      const end = line.indexOf('*/', position);
+      const next = end < 0 ? line.length : end + 2;
+      pushToken(tokens, 'comment', line.slice(position, next));
+      state.blockComment = end < 0;
+      position = next;
+      continue;
+    }
+    C_TOKEN.lastIndex = position;
+    const match = C_TOKEN.exec(line)!;
+    const text = match[0];
+    let type: TokenType = 'plain';
+    if (match[1]) {
+      state.blockComment = true;
+      type = 'comment';
+    } else if (match[2]) {
+      type = 'comment';
+    } else if (match[3] || (match[4] && language !== 'rust')) {
+      type = 'string';
+    } else if (match[5]) {
+      type = 'number';
+    } else if (match[6]) {
+      type = keywords.has(text) ? 'keyword' : language !== 'rust' && C_TYPES.has(text) ? 'type' : 'plain';
+    } else if (match[7] && language === 'asm') {
+      type = text[0] === '.' ? 'directive' : 'variable';
+    }
+    // Outside assembly, `.` and `%` only start operators; keep the rest for the next match.
+    const length = match[7] && language !== 'asm' ? 1 : match[4] && language === 'rust' ? 1 : text.length;
+    pushToken(tokens, type, text.slice(0, length));
+    position += length;
+  }
+  return tokens;
+};
+
+/**
+ * Tokenizes a line of a Kconfig file. Help text, the indented block after `help`, is shown as a comment.
+ * @param {string} line - The line.
+ * @param {LineState} state - The state before the line; updated in place.
+ * @returns {Token[]} The tokens.
+ */
+const tokenizeKconfig = (line: string, state: LineState): Token[] => {
+  const indent = line.replace(/\t/g, '        ').search(/\S/);
+  if (state.helpIndent >= 0) {
+    if (indent < 0 || indent > state.helpIndent) {
+      return line ? [{ type: 'comment', text: line }] : [];
+    }
+    state.helpIndent = -1;
+  }
+  if (/^\s*(---)?help(---)?\s*$/.test(line)) {
+    state.helpIndent = indent;
+    return [{ type: 'keyword', text: line }];
+  }
+
+  const tokens: Token[] = [];
+  let rest = line;
+  while (rest) {
+    if (rest[0] === '#') {
+      pushToken(tokens, 'comment', rest);
+      break;
+    }
+    const match = (rest[0] === '"' && rest.match(STRING)) || rest.match(/^[A-Za-z0-9_]+/);
+    if (!match) {
+      pushToken(tokens, 'plain', rest[0]);
+      rest = rest.slice(1);
+      continue;
+    }
+    const text = match[0];
+    let type: TokenType = 'plain';
+    if (text[0] === '"') {
+      type = 'string';
+    } else if (KCONFIG_KEYWORDS.has(text)) {
+      type = 'keyword';
+    } else if (/^[A-Z0-9_]+$/.test(text) && /[A-Z]/.test(text)) {
+      type = 'variable';
+    } else if (/^\d+$/.test(text)) {
+      type = 'number';
+    }
+    pushToken(tokens, type, text);
+    rest = rest.slice(text.length);
+  }
+  return tokens;
+};
+
+/**
+ * Tokenizes a line of a Makefile or Kbuild file.
+ * @param {string} line - The line.
+ * @returns {Token[]} The tokens.
+ */
+const tokenizeMakefile = (line: string): Token[] => {
+  const tokens: Token[] = [];
+  let rest = line;
+  const target = rest.match(/^[A-Za-z0-9_.%/$(){}-]+(?=\s*::?(?!=))/);
+  const assignment = rest.match(/^\s*[A-Za-z0-9_.$(){}-]+(?=\s*(?:[:+?!]?=))/);
+  if (target || assignment) {
+    const text = (target ?? assignment)![0];
+    pushToken(tokens, 'type', text);
+    rest = rest.slice(text.length);
+  }
+  while (rest) {
+    if (rest[0] === '#') {
+      pushToken(tokens, 'comment', rest);
+      break;
+    }
+    const variable = rest.match(/^\$(?:\([^()]*\)|\{[^{}]*\}|[@<^*?%])/);
+    if (variable) {
+      pushToken(tokens, 'variable', variable[0]);
+      rest = rest.slice(variable[0].length);
+      continue;
+    }
+    const word = rest.match(/^-?[A-Za-z_][A-Za-z0-9_]*/) ?? (rest[0] === '"' ? rest.match(STRING) : null);
+    if (word) {
+      const text = word[0];
+      pushToken(tokens, text[0] === '"' ? 'string' : MAKE_KEYWORDS.has(text) && tokens.every(t => !t.text.trim()) ? 'keyword' : 'plain', text);
+      rest = rest.slice(text.length);
+      continue;
+    }
+    pushToken(tokens, 'plain', rest[0]);
+    rest = rest.slice(1);
+  }
+  return tokens;
+};
+
+/**
+ * Tokenizes a line of reStructuredText.
+ * @param {string} line - The line.
+ * @param {string | undefined} next - The following line, to recognize titles underlined by it.
+ * @returns {Token[]} The tokens.
+ */
+const tokenizeRst = (line: string, next: string | undefined): Token[] => {
+  const isAdornment = (text: string | undefined) => !!text && /^([=\-~^"'`#*+:.])\1{2,}\s*$/.test(text);
+  if (isAdornment(line) || (line.trim() && isAdornment(next))) {
+    return [{ type: 'heading', text: line }];
+  }
+  const directive = line.match(/^(\s*\.\. )([A-Za-z0-9_:-]+::)(.*)$/);
+  if (directive) {
+    const tokens: Token[] = [{ type: 'directive', text: directive[1] + directive[2] }];
+    pushToken(tokens, 'plain', directive[3]);
+    return tokens;
+  }
+  if (/^\.\.(\s|$)/.test(line)) {
+    return [{ type: 'comment', text: line }];
+  }
+  const tokens: Token[] = [];
+  let rest = line;
+  while (rest) {
+    const match = rest.match(/^``[^`]+``/) ?? rest.match(/^:[A-Za-z0-9_:-]+:`[^`]*`/) ?? rest.match(/^\*\*[^*]+\*\*|^\*[^*\s][^*]*\*/);
+    if (match) {
+      const text = match[0];
+      pushToken(tokens, text.startsWith('``') ? 'string' : text.startsWith(':') ? 'keyword' : 'markup', text);
+      rest = rest.slice(text.length);
+    } else {
+      pushToken(tokens, 'plain', rest[0]);
+      rest = rest.slice(1);
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Splits every line of a file into colored tokens.
+ * @param {string[]} lines - The file's lines.
+ * @param {SourceLanguage | undefined} language - The file's language; unknown languages are not highlighted.
+ * @returns {Token[][]} The tokens of each line.
+ */
+export const highlightLines = (lines: string[], language: SourceLanguage | undefined): Token[][] => {
+  const state: LineState = { blockComment: false, helpIndent: -1 };
+  return lines.map((line, index) => {
+    switch (language) {
+      case 'c':
+      case 'asm':
+      case 'rust':
+        return tokenizeCLike(line, state, language);
+      case 'kconfig':
+        return tokenizeKconfig(line, state);
+      case 'makefile':
+        return tokenizeMakefile(line);
+      case 'rst':
+        return tokenizeRst(line, lines[index + 1]);
+      default:
+        return line ? [{ type: 'plain', text: line }] : [];
+    }
+  });
+};
+
+/**
+ * Finds the function bodies of a C file: top-level brace blocks whose opening brace follows a
+ * closing parenthesis, on the same line or the line before, as in
+ * `static int foo(void)\n{`. Structures, enums and initializers are left alone.
+ * @param {Token[][]} tokens - The highlighted lines, so braces in comments and strings are ignored.
+ * @returns {FoldRegion[]} The regions, in order.
+ */
+export const findFunctionBodies = (tokens: Token[][]): FoldRegion[] => {
+  const regions: FoldRegion[] = [];
+  const code = (line: Token[]) => line.filter(t => t.type !== 'comment' && t.type !== 'string' && t.type !== 'preprocessor').map(t => t.text).join('');
+  let depth = 0;
+  let start = -1;
+  let previousCode = '';
+
+  tokens.forEach((line, index) => {
+    const text = code(line);
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '{') {
+        if (depth === 0) {
+          const before = text.slice(0, i).trim() || previousCode.trim();
+          start = /\)\s*$/.test(before) ? index : -1;
+        }
+        depth++;
+      } else if (text[i] === '}' && depth > 0) {
+        depth--;
+        if (depth === 0 && start >= 0 && index > start) {
+          regions.push({ start, end: index });
+          start = -1;
+        }
+      }
+    }
+    if (text.trim()) {
+      previousCode = text;
+    }
+  });
+  return regions;
+};
@@ -0,0 +1,75 @@
+/**
+ * Guided tours: ordered walks through the tree with narration for each stop, such as the
+ * path of a system call from `arch/x86/entry/` to the VFS. Tours are JSON files; the format
+ * is described in `data/tours/README.md`.
+ */
+
+/**
+ * A stop of a tour.
+ */
+export interface TourStep {
+  /** The node's path relative to the root, e.g. `fs/open.c`; directories end with `/`. */
+  path: string;
+  /** A short heading for the step; the node's name is shown when there is none. */
+  title?: string;
+  /** What to look at here, in Markdown. */
+  narration: string;
+}
+
+/**
+ * A tour.
+ */
+export interface Tour {
+  /** A unique name, e.g. `life-of-a-syscall`; defaults to the file name. */
+  id: string;
+  title: string;
+  /** What the tour covers, shown in the list of tours. */
+  description?: string;
+  steps: TourStep[];
+}
+
+/**
+ * The tours as served to the app.
+ */
+export interface TourCatalog {
+  tours: Tour[];
+}
+
+/**
+ * Validates a tour read from JSON.
+ * @param {unknown} raw - The parsed file.
+ * @param {string} fallbackId - The id used when the tour has none, e.g. the file name without `.json`.
+ * @returns {Tour} The tour, with paths stripped of leading slashes.
+ * @throws {Error} If a required field is missing or has the wrong type.
+ */
+export const parseTour = (raw: unknown, fallbackId: string): Tour => {
+  const data = raw as Partial<Tour> | null;
+  if (!data || typeof data !== 'object') {
+    throw new Error('A tour must be a JSON object');
+  }
+  if (typeof data.title !== 'string' || data.title.trim() === '') {
+    throw new Error('A tour needs a "title"');
+  }
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    throw new Error('A tour needs at least one entry in "steps"');
+  }
+  const steps = data.steps.map((step: Partial<TourStep> | null, index): TourStep => {
+    if (!step || typeof step.path !== 'string') {
+      throw new Error(`Step ${index + 1} needs a "path"`);
+    }
+    if (typeof step.narration !== 'string') {
+      throw new Error(`Step ${index + 1} needs a "narration"`);
+    }
+    return {
+      path: step.path.replace(/^\/+/, ''),
+      ...(typeof step.title === 'string' && step.title !== '' ? { title: step.title } : {}),
+      narration: step.narration,
+    };
+  });
+  return {
+    id: typeof data.id === 'string' && data.id !== '' ? data.id : fallbackId,
+    title: data.title,
+    ...(typeof data.description === 'string' ? { description: data.description } : {}),
+    steps,
+  };
+};
@@ -0,0 +1,289 @@
+import type { KernelNode } from '../types';
+import { isDirectoryNode } from './treeUtils';
+
+/**
+ * How a node differs between two versions of the tree.
+ * `moved` covers renames within a directory as well as moves to another directory.
+ */
+export type DiffStatus = 'added' | 'removed' | 'moved' | 'changed' | 'unchanged';
+
+/**
+ * A node of the merged tree with its two versions.
+ */
+export interface DiffEntry {
+  status: DiffStatus;
+  /** The node in the older tree, without children; missing for added nodes. */
+  before?: KernelNode;
+  /** The node in the newer tree, without children; missing for removed nodes. */
+  after?: KernelNode;
+  /** The node's path in the older tree relative to the root, if it differs from its path in the merged tree. */
+  from?: string;
+  /** For moved nodes, whether the summary or description changed as well. */
+  textChanged?: boolean;
+}
+
+/**
+ * The result of comparing two trees.
+ */
+export interface TreeDiff {
+  /**
+   * The newer tree with the removed nodes put back where they were. Nodes that moved appear
+   * once, at their new location; nodes removed from a moved directory stay inside it.
+   */
+  tree: KernelNode;
+  /** Every node of the merged tree, keyed by its path relative to the root (`''` for the root). */
+  entries: Map<string, DiffEntry>;
+  /** The number of nodes with each status, apart from `unchanged`. */
+  counts: Record<Exclude<DiffStatus, 'unchanged'>, number>;
+}
+
+/**
+ * The share of child names a removed and an added directory must have in common (out of
+ * all the names in either) to count as the same directory, moved.
+ */
+const MOVE_SIMILARITY = 0.5;
+
+/**
+ * Collects every node of a tree by its path relative to the root.
+ * @param {KernelNode} root - The root of the tree.
+ * @returns {Map<string, KernelNode>} The nodes in tree (pre-)order, the root under `''`.
+ */
+const collectNodes = (root: KernelNode): Map<string, KernelNode> => {
+  const nodes = new Map<string, KernelNode>([['', root]]);
+  const visit = (node: KernelNode, path: string) => {
+    node.children?.forEach(child => {
+      nodes.set(path + child.name, child);
+      visit(child, path + child.name);
+    });
+  };
+  visit(root, '');
+  return nodes;
+};
+
+/**
+ * The directory part of a relative path.
+ * @param {string} path - A relative path, e.g. `fs/cifs/cifsfs.c` or `fs/cifs/`.
+ * @returns {string} The parent's path, e.g. `fs/cifs/` or `fs/`.
+ */
+const parentPath = (path: string): string => path.replace(/[^/]+\/?$/, '');
+
+/**
+ * Checks whether two versions of a node have different text.
+ * @param {KernelNode} before - The older version.
+ * @param {KernelNode} after - The newer version.
+ * @returns {boolean} True if the summary or description differ.
+ */
+const textDiffers = (before: KernelNode, after: KernelNode): boolean =>
+  before.summary !== after.summary || before.description !== after.description;
+
+/**
+ * Pairs nodes that were removed from one place and added in another, e.g. `fs/cifs/` becoming
+ * `fs/smb/client/` in v6.4:
+ *
+ * - A removed directory and an added directory are the same directory if most of their
+ *   children have the same names; their children are then paired by name, recursively.
+ * - A removed file and an added file are the same file if no other removed or added file has
+ *   that name, or if they are in the same directory with the same non-empty description.
+ *
+ * @param {Map<string, KernelNode>} oldNodes - The older tree's nodes by relative path.
+ * @param {Map<string, KernelNode>} newNodes - The newer tree's nodes by relative path.
+ * @returns {Map<string, string>} The older path of each moved node, keyed by its newer path.
+ */
+const findMoves = (oldNodes: Map<string, KernelNode>, newNodes: Map<string, KernelNode>): Map<string, string> => {
+  const removed = [...oldNodes.keys()].filter(path => !newNodes.has(path));
+  const added = new Set([...newNodes.keys()].filter(path => !oldNodes.has(path)));
+  const moves = new Map<string, string>();
+  const movedFrom = new Set<string>();
+
+  const pair = (oldPath: string, newPath: string) => {
+    moves.set(newPath, oldPath);
+    movedFrom.add(oldPath);
+    const newNode = newNodes.get(newPath)!;
+    if (!isDirectoryNode(newNode)) {
+      return;
+    }
+    oldNodes.get(oldPath)!.children?.forEach(child => {
+      const newChild = newPath + child.name;
+      if (added.has(newChild) && !moves.has(newChild) && !movedFrom.has(oldPath + child.name)) {
+        pair(oldPath + child.name, newChild);
+      }
+    });
+  };
+
+  // Added directories, indexed by the names of their children.
+  const addedDirsByChild = new Map<string, string[]>();
+  added.forEach(path => {
+    const node = newNodes.get(path)!;
+    if (isDirectoryNode(node)) {
+      node.children?.forEach(child => {
+        const dirs = addedDirsByChild.get(child.name) ?? [];
+        dirs.push(path);
+        addedDirsByChild.set(child.name, dirs);
+      });
+    }
+  });
+
+  // Parents come before their children, so a moved directory is paired as a whole.
+  removed.forEach(oldPath => {
+    const oldNode = oldNodes.get(oldPath)!;
+    if (movedFrom.has(oldPath) || !isDirectoryNode(oldNode) || !oldNode.children?.length) {
+      return;
+    }
+    const shared = new Map<string, number>();
+    oldNode.children.forEach(child => {
+      addedDirsByChild.get(child.name)?.forEach(dir => shared.set(dir, (shared.get(dir) ?? 0) + 1));
+    });
+    let best: { path: string; similarity: number } | null = null;
+    for (const [newPath, count] of shared) {
+      const newNode = newNodes.get(newPath)!;
+      const sameName = newNode.name === oldNode.name;
+      if (moves.has(newPath) || (count < 2 && !sameName)) {
+        continue;
+      }
+      const similarity = count / (oldNode.children.length + (newNode.children?.length ?? 0) - count);
+      if (similarity >= MOVE_SIMILARITY && (!best || similarity > best.similarity || (similarity === best.similarity && sameName))) {
+        best = { path: newPath, similarity };
+      }
+    }
+    if (best) {
+      pair(oldPath, best.path);
+    }
+  });
+
+  // Files that are still unpaired: match unique names, then same-directory renames by description.
+  const isFile = (node: KernelNode) => !isDirectoryNode(node);
+  const remainingOld = removed.filter(path => !movedFrom.has(path) && isFile(oldNodes.get(path)!));
+  const remainingNew = [...added].filter(path => !moves.has(path) && isFile(newNodes.get(path)!));
+  const groupBy = (paths: string[], nodes: Map<string, KernelNode>, key: (path: string, node: KernelNode) => string | null) => {
+    const groups = new Map<string, string[]>();
+    paths.forEach(path => {
+      const groupKey = key(path, nodes.get(path)!);
+      if (groupKey === null) {
+        return;
+      }
+      const group = groups.get(groupKey);
+      if (group) {
+        group.push(path);
+      } else {
+        groups.set(groupKey, [path]);
+      }
+    });
+    return groups;
+  };
+  const pairUnique = (key: (path: string, node: KernelNode) => string | null) => {
+    const oldGroups = groupBy(remainingOld.filter(path => !movedFrom.has(path)), oldNodes, key);
+    const newGroups = groupBy(remainingNew.filter(path => !moves.has(path)), newNodes, key);
+    oldGroups.forEach((oldPaths, groupKey) => {
+      const newPaths = newGroups.get(groupKey);
+      if (oldPaths.length === 1 && newPaths?.length === 1) {
+        pair(oldPaths[0], newPaths[0]);
+      }
+    });
+  };
+  pairUnique((_path, node) => node.name);
+  pairUnique((path, node) => (node.description ? `${parentPath(path)}\0${node.description}` : null));
+
+  return moves;
+};
+
+/**
+ * Compares two versions of the kernel tree, e.g. generated from v6.1 and v6.6 checkouts.
+ * Nodes are matched by their path relative to the root, so the roots may have different names;
+ * nodes that moved are matched as described in `findMoves`.
+ * @param {KernelNode} before - The root of the older tree, fully loaded.
+ * @param {KernelNode} after - The root of the newer tree, fully loaded.
+ * @returns {TreeDiff} The merged tree and the status of each of its nodes.
+ */
+export const diffTrees = (before: KernelNode, after: KernelNode): TreeDiff => {
+  const oldNodes = collectNodes(before);
+  const newNodes = collectNodes(after);
+  const moves = findMoves(oldNodes, newNodes);
+  const movedFrom = new Set(moves.values());
+  const entries = new Map<string, DiffEntry>();
+  const counts = { added: 0, removed: 0, moved: 0, changed: 0 };
+
+  const merge = (newNode: KernelNode | undefined, oldNode: KernelNode | undefined, path: string, oldPath: string): KernelNode => {
+    const { children: newChildren, ...afterFields } = newNode ?? {};
+    const { children: oldChildren, ...beforeFields } = oldNode ?? {};
+    const entry: DiffEntry = { status: 'unchanged' };
+    if (newNode) {
+      entry.after = afterFields as KernelNode;
+    }
+    if (oldNode) {
+      entry.before = beforeFields as KernelNode;
+      if (oldPath !== path) {
+        entry.from = oldPath;
+      }
+    }
+    if (!oldNode) {
+      entry.status = 'added';
+    } else if (!newNode) {
+      entry.status = 'removed';
+    } else if (oldPath !== path) {
+      entry.status = 'moved';
+      entry.textChanged = textDiffers(oldNode, newNode);
+    } else if (textDiffers(oldNode, newNode)) {
+      entry.status = 'changed';
+    }
+    if (entry.status !== 'unchanged') {
+      counts[entry.status]++;
+    }
+    entries.set(path, entry);
+
+    const merged: KernelNode = { ...(newNode ?? oldNode)!, lazyChildren: undefined };
+    if (!newChildren && !oldChildren) {
+      return merged;
+    }
+    const children: KernelNode[] = [];
+    const names = new Set<string>();
+    newChildren?.forEach(child => {
+      const childPath = path + child.name;
+      const childOldPath = moves.get(childPath) ?? (oldNodes.has(childPath) ? childPath : undefined);
+      children.push(merge(child, childOldPath === undefined ? undefined : oldNodes.get(childOldPath), childPath, childOldPath ?? childPath));
+      names.add(child.name);
+    });
+    oldChildren?.forEach(child => {
+      const childOldPath = oldPath + child.name;
+      if (names.has(child.name) || newNodes.has(childOldPath) || movedFrom.has(childOldPath)) {
+        return;
+      }
+      children.push(merge(undefined, child, path + child.name, childOldPath));
+    });
+    merged.children = children;
+    return merged;
+  };
+
+  const tree = merge(after, before, '', '');
+  return { tree, entries, counts };
+};
+
+/**
+ * Keeps only the nodes that differ between the two versions, and their ancestors.
+ * @param {KernelNode} root - The root of the merged tree.
+ * @param {Map<string, DiffEntry>} entries - The entries of the diff.
+ * @returns {KernelNode | null} The filtered tree, or null if nothing differs.
+ */
+export const filterChangedNodes = (root: KernelNode, entries: Map<string, DiffEntry>): KernelNode | null => {
+  const filter = (node: KernelNode, path: string): KernelNode | null => {
+    const children = (node.children ?? [])
+      .map(child => filter(child, path + child.name))
+      .filter((child): child is KernelNode => child !== null);
+    const changed = (entries.get(path)?.status ?? 'unchanged') !== 'unchanged';
+    if (!changed && children.length === 0 && path !== '') {
+      return null;
+    }
+    return node.children ? { ...node, children } : node;
+  };
+  const tree = filter(root, '');
+  return tree && (tree.children?.length || entries.get('')?.status !== 'unchanged') ? tree : null;
+};
+
+/**
+ * Checks whether a moved node stayed in its directory under another name, e.g. a file renamed
+ * from `a.c` to `b.c`, rather than moving elsewhere.
+ * @param {string} path - The node's path in the merged tree relative to the root.
+ * @param {DiffEntry} entry - The node's entry.
+ * @returns {boolean} True if the node was renamed in place.
+ */
+export const isRename = (path: string, entry: DiffEntry): boolean =>
+  entry.status === 'moved' && entry.from !== undefined && parentPath(entry.from) === parentPath(path);
@@ -0,0 +1,275 @@
+import type { KernelNode, NodeKind } from '../types';
+import type { SearchIndex, SearchIndexEntry } from '../data/treeChunks';
+import { nameMatchesSegment, splitPath } from './nodePath';
+import { isEmptyQuery, scoreNode, type ParsedQuery, type QueryContext } from './query';
+
+/**
+ * Checks whether a node is a directory, including empty directories and directories whose
+ * children are not loaded yet.
+ * @param {KernelNode} node - The node to check.
+ * @returns {boolean} True if the node is a directory.
+ */
+export const isDirectoryNode = (node: KernelNode): boolean => node.kind === 'dir';
+
+/**
+ * Reads the kind of an index entry; older indexes only mark directories with a trailing `/`.
+ * @param {SearchIndexEntry} entry - The index entry.
+ * @returns {NodeKind} The node's kind.
+ */
+export const entryKind = (entry: SearchIndexEntry): NodeKind => entry[3] ?? (entry[0].endsWith('/') ? 'dir' : 'file');
+
+/**
+ * Creates a node from its search index entry. It has no children; directories are marked
+ * `lazyChildren` when `lazy` is set, so their chunk can be loaded.
+ * @param {SearchIndexEntry} entry - The index entry.
+ * @param {boolean} [lazy=false] - Whether directories should be marked as not loaded.
+ * @returns {KernelNode} The node, without the metadata the index does not carry.
+ */
+const nodeFromEntry = (entry: SearchIndexEntry, lazy = false): KernelNode => {
+  const [path, summary, description, , tags] = entry;
+  const kind = entryKind(entry);
+  const node: KernelNode = { name: splitPath(path).pop() ?? '', kind, summary, description };
+  if (tags) {
+    node.tags = tags;
+  }
+  if (lazy && kind === 'dir') {
+    node.lazyChildren = true;
+  }
+  return node;
+};
+
+/**
+ * A node that matched a search, with its rank.
+ */
+export interface SearchHit {
+  /** The node's path relative to the root. */
+  path: string;
+  /** The node's name. */
+  name: string;
+  kind: NodeKind;
+  summary: string;
+  /** The match score; hits are sorted by it, highest first. */
+  score: number;
+}
+
+/**
+ * The result of searching the tree.
+ */
+export interface SearchResult {
+  /** The matching nodes plus their ancestors, or null if nothing matches. */
+  tree: KernelNode | null;
+  /** Every matching node, best first. */
+  hits: SearchHit[];
+}
+
+/**
+ * Builds a flat search index from a tree, in tree (pre-)order. The root itself is not included.
+ * Used by the chunk builder, and by the app for the loaded part of the tree until the
+ * full index has been fetched.
+ * @param {KernelNode} root - The root of the tree.
+ * @returns {SearchIndex} The search index.
+ */
+export const buildSearchIndex = (root: KernelNode): SearchIndex => {
+  const entries: SearchIndexEntry[] = [];
+  const visit = (node: KernelNode, path: string) => {
+    node.children?.forEach(child => {
+      const childPath = path + child.name;
+      entries.push(child.tags?.length
+        ? [childPath, child.summary, child.description, child.kind, child.tags]
+        : [childPath, child.summary, child.description, child.kind]);
+      visit(child, childPath);
+    });
+  };
+  visit(root, '');
+  return { entries };
+};
+
+/**
+ * Creates an empty copy of the root and a function that inserts index entries into it.
+ * @param {KernelNode} root - The root node.
+ * @param {SearchIndex} index - The search index.
+ * @returns {{ tree: KernelNode, insert: (path: string) => KernelNode | undefined }} The new root and
+ *   the insert function, which adds the node at a relative path with any missing ancestors.
+ */
+const createIndexTree = (root: KernelNode, index: SearchIndex) => {
+  const tree: KernelNode = { ...root, children: [], lazyChildren: undefined };
+  const nodesByPath = new Map<string, KernelNode>([['', tree]]);
+  const entriesByPath = new Map(index.entries.map(entry => [entry[0], entry]));
+
+  const insert = (path: string): KernelNode | undefined => {
+    const existing = nodesByPath.get(path);
+    if (existing) {
+      return existing;
+    }
+    const entry = entriesByPath.get(path);
+    const segments = splitPath(path);
+    const parent = insert(segments.slice(0, -1).join(''));
+    if (!entry || !parent) {
+      return undefined;
+    }
+    const node = nodeFromEntry(entry);
+    (parent.children ??= []).push(node);
+    nodesByPath.set(path, node);
+    return node;
+  };
+
+  return { tree, insert };
+};
+
+/**
+ * Builds the complete tree from the search index, without loading any directory chunks.
+ * Used by views that need the whole shape of the tree at once, such as the charts.
+ * @param {KernelNode} root - The root node (always loaded).
+ * @param {SearchIndex} index - The search index covering every other node.
+ * @returns {KernelNode} A fully loaded copy of the tree.
+ */
+export const buildTreeFromIndex = (root: KernelNode, index: SearchIndex): KernelNode => {
+  const { tree, insert } = createIndexTree(root, index);
+  index.entries.forEach(([path]) => insert(path));
+  return tree;
+};
+
+/**
+ * Searches every node in the index and builds the filtered tree: matching nodes plus their
+ * ancestors, in tree order. The index covers unloaded directories too, so the result
+ * includes nodes that have not been fetched yet.
+ * @param {KernelNode} root - The root node (always loaded).
+ * @param {SearchIndex} index - The search index covering every other node.
+ * @param {ParsedQuery} query - The parsed search query.
+ * @param {QueryContext} [context={}] - Data matched by `maintainer:` and `list:`, and the user's annotations.
+ * @returns {SearchResult} The filtered tree and the ranked hits.
+ */
+export const searchTree = (root: KernelNode, index: SearchIndex, query: ParsedQuery, context: QueryContext = {}): SearchResult => {
+  if (isEmptyQuery(query)) {
+    return { tree: root, hits: [] };
+  }
+
+  const { tree: filteredRoot, insert } = createIndexTree(root, index);
+  const hits: SearchHit[] = [];
+
+  for (const entry of index.entries) {
+    const [path, summary, description, , tags = []] = entry;
+    const name = splitPath(path).pop() ?? '';
+    const kind = entryKind(entry);
+    const score = scoreNode(query, { path, name, summary, description, kind, tags }, context);
+    if (score !== null && insert(path)) {
+      hits.push({ path, name, kind, summary, score });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  return { tree: hits.length > 0 ? filteredRoot : null, hits };
+};
+
+/** The entries of each search index keyed by path, built the first time a path is looked up in it. */
+const entriesByPath = new WeakMap<SearchIndex, Map<string, SearchIndexEntry>>();
+
+/**
+ * Looks up the search index entry of a path without scanning the whole index.
+ * @param {SearchIndex} index - The search index.
+ * @param {string} path - The node's path relative to the root, e.g. `kernel/sched/`.
+ * @returns {SearchIndexEntry | undefined} The first entry for the path, if the index has one.
+ */
+const findIndexEntry = (index: SearchIndex, path: string): SearchIndexEntry | undefined => {
+  let entries = entriesByPath.get(index);
+  if (!entries) {
+    entries = new Map();
+    for (const entry of index.entries) {
+      if (!entries.has(entry[0])) {
+        entries.set(entry[0], entry);
+      }
+    }
+    entriesByPath.set(index, entries);
+  }
+  return entries.get(path);
+};
+
+/**
+ * Finds the chain of nodes from the root to the node at a given canonical path.
+ * Loaded children are used where available; nodes in directories that have not been
+ * loaded yet are reconstructed from the search index when one is given.
+ * @param {KernelNode} root - The root of the tree to search in.
+ * @param {string} path - The canonical path of the target node, e.g. `linux/kernel/sched/fair.c`.
+ * @param {SearchIndex | null} [index] - The search index, used for unloaded parts of the tree.
+ * @returns {KernelNode[]} The nodes from the root to the target, or as far as the path could be resolved.
+ */
+export const findNodePath = (root: KernelNode, path: string, index?: SearchIndex | null): KernelNode[] => {
+  const [rootSegment, ...segments] = splitPath(path);
+  if (!rootSegment || !nameMatchesSegment(root.name, rootSegment)) {
+    return [];
+  }
+  const result: KernelNode[] = [root];
+  let current: KernelNode | undefined = root;
+  let currentPath = '';
+
+  for (const segment of segments) {
+    let next: KernelNode | undefined = current?.children?.find(child => nameMatchesSegment(child.name, segment));
+    if (!next && index) {
+      const entry = findIndexEntry(index, currentPath + segment) ?? findIndexEntry(index, `${currentPath}${segment}/`);
+      if (entry) {
+        next = nodeFromEntry(entry, true);
+      }
+    }
+    if (!next) {
+      break;
+    }
+    result.push(next);
+    current = next;
+    currentPath += next.name;
+  }
+
+  return result;
+};
+
+/**
+ * Returns a copy of the tree with the children of the directory at `path` replaced.
+ * Only the nodes along the path are copied; all other subtrees are shared.
+ * @param {KernelNode} root - The root of the tree.
+ * @param {string} path - The canonical path of the directory.
+ * @param {KernelNode[]} children - The loaded children.
+ * @returns {KernelNode} The updated root.
+ */
+export const replaceChildren = (root: KernelNode, path: string, children: KernelNode[]): KernelNode => {
+  const update = (node: KernelNode, segments: string[]): KernelNode => {
+    if (segments.length === 0) {
+      return { ...node, children, lazyChildren: undefined };
+    }
+    const [head, ...rest] = segments;
+    return {
+      ...node,
+      children: node.children?.map(child => (child.name === head ? update(child, rest) : child)),
+    };
+  };
+  return update(root, splitPath(path).slice(1));
+};
+
+/**
+ * Returns a copy of the tree without the nodes a predicate rejects, and without their
+ * descendants. Directories whose children are not loaded yet are kept as they are and
+ * pruned once loaded; the root is always kept.
+ * @param {KernelNode} root - The root of the tree.
+ * @param {(path: string) => boolean} keep - Decides by a node's path relative to the root whether it stays.
+ * @returns {KernelNode} The pruned tree.
+ */
+export const pruneTree = (root: KernelNode, keep: (path: string) => boolean): KernelNode => {
+  const prune = (node: KernelNode, path: string): KernelNode => (node.children
+    ? {
+      ...node,
+      children: node.children
+        .filter(child => keep(path + child.name))
+        .map(child => prune(child, path + child.name)),
+    }
+    : node);
+  return prune(root, '');
+};
+
+/**
+ * Returns the entries of a search index a predicate keeps, matching `pruneTree`.
+ * @param {SearchIndex} index - The search index.
+ * @param {(path: string) => boolean} keep - Decides by an entry's path whether it stays; it
+ *   must reject the descendants of a rejected directory too.
+ * @returns {SearchIndex} The pruned index.
+ */
+export const pruneIndex = (index: SearchIndex, keep: (path: string) => boolean): SearchIndex => ({
+  entries: index.entries.filter(([path]) => keep(path)),
+});
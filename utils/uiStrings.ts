@@ -0,0 +1,79 @@
+/**
+ * The text of the app's own interface, in English. Locale files translate any of these
+ * strings under `strings`; those they leave out are shown in English. `{name}` marks a value
+ * filled in when the string is shown (see `formatString`).
+ */
+export const UI_STRINGS = {
+  title: 'Linux Kernel Visualizer v0.1',
+  subtitle: "An interactive visualization of the Linux kernel's directory structure. Click on any directory to expand or collapse its contents.",
+  language: 'Language',
+  offline: 'Offline',
+  offlineReady: 'Available offline',
+  datasetVersion: 'Dataset {version}',
+  datasetBuilt: 'Built on {date}',
+  updateReady: 'A new version is ready.',
+  reload: 'Reload',
+  searchLabel: 'Search kernel tree',
+  searchIn: 'Search in',
+  back: 'Back (Alt+Left)',
+  forward: 'Forward (Alt+Right)',
+  searchModeTree: 'Files',
+  searchModeSymbols: 'Symbols',
+  searchPlaceholder: 'Search files and descriptions... (name: path:drivers/ "phrase" -exclude /regex/ ~fuzzy)',
+  symbolSearchPlaceholder: 'Search functions, structs, system calls and exports... (schedule, struct task, sys_read)',
+  expandAll: 'Expand All',
+  expandAllLabel: 'Expand all directories',
+  collapseAll: 'Collapse All',
+  collapseAllLabel: 'Collapse all directories',
+  depth: 'Depth…',
+  depthLabel: 'Expand directories to depth',
+  depthLevel: '{count} level',
+  depthLevels: '{count} levels',
+  revealSelected: 'Reveal Selected',
+  revealSelectedLabel: 'Reveal the selected node',
+  compareVersions: 'Compare versions',
+  notes: 'Notes',
+  notesToResolve: 'Notes ({count} to resolve)',
+  tours: 'Tours',
+  export: 'Export',
+  translations: 'Translations',
+  buildConfig: 'Build config',
+  buildConfigArch: 'Build config: {arch}',
+  history: 'History',
+  loadError: 'Could not load the kernel tree.',
+  loading: 'Loading kernel tree…',
+  pathNotFound: 'There is no {path} in this tree.',
+  loadingVersions: 'Loading both versions…',
+  chooseVersions: 'Choose two versions to compare.',
+  versionsIdentical: 'The two versions have the same files and text.',
+  noResults: 'No results found for "{query}"',
+  noResultsHint: 'Try a different search term.',
+  searchIndexError: 'The search index could not be loaded, so only the directories opened so far are searched.',
+  retry: 'Retry',
+  selectFileForSource: 'Select a file to see its source.',
+  detailsTitle: 'View Details',
+  detailsHint: 'Select an item to see its description.',
+  copyLink: 'Copy link',
+  copyLinkTitle: 'Copy a link to this node',
+  pin: 'Pin',
+  unpin: 'Unpin',
+  pinTitle: 'Keep this node in the sidebar',
+  viewSource: 'View source',
+  footerBuiltWith: 'Built with React, TypeScript, and Tailwind CSS.',
+  footerSource: 'View original source on GitHub',
+};
+
+/** The interface strings, by key. */
+export type UiStrings = typeof UI_STRINGS;
+
+/** The key of an interface string. */
+export type UiStringKey = keyof UiStrings;
+
+/**
+ * Fills in the `{name}` placeholders of a string.
+ * @param {string} template - The string, e.g. `No results found for "{query}"`.
+ * @param {Record<string, string | number>} values - The values by placeholder name.
+ * @returns {string} The string with every known placeholder replaced.
+ */
+export const formatString = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
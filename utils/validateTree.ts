@@ -0,0 +1,199 @@
+import type { KernelNode, LegacyKernelNode, NodeKind } from '../types';
+
+/**
+ * Checks on tree data, run by `npm run validate-tree` and when the dev server starts.
+ * They work on trees in either schema, before migration, so they see names as written.
+ */
+
+/**
+ * What an issue is about.
+ * - `duplicate-sibling`: two children of a directory have the same name (with or without the
+ *   trailing `/`). Rows, selection and links are keyed by path, so one of them is unreachable.
+ * - `placeholder`: a name, summary or description is a stand-in such as `...` or `TODO`.
+ * - `empty-summary`, `empty-description`: the text is missing.
+ * - `name-kind-mismatch`: a directory's name does not end with `/`, a file's does, or a name has a `/` inside.
+ * - `long-summary`: the summary is too long to read in a tree row.
+ * - `missing-in-checkout`: the path does not exist in the checkout the tree was checked against.
+ * - `checkout-kind-mismatch`: the path is a directory in the tree but not in the checkout, or the reverse.
+ */
+export type ValidationRule =
+  | 'duplicate-sibling'
+  | 'placeholder'
+  | 'empty-summary'
+  | 'empty-description'
+  | 'name-kind-mismatch'
+  | 'long-summary'
+  | 'missing-in-checkout'
+  | 'checkout-kind-mismatch';
+
+/** Errors make the data wrong to ship; warnings are worth fixing but do not break the app. */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in the data.
+ */
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  /** The node's path relative to the root, as written in the data; `''` for the root. */
+  path: string;
+  message: string;
+}
+
+/**
+ * The result of validating a tree, as printed by `validate-tree --format json`.
+ */
+export interface ValidationReport {
+  /** Where the tree was read from. */
+  source: string;
+  /** The number of nodes checked, including the root. */
+  nodes: number;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Options of `validateTree`.
+ */
+export interface ValidationOptions {
+  /** Summaries longer than this many characters are reported. */
+  maxSummaryLength?: number;
+}
+
+/** The default limit on summaries: about what fits next to a name in a tree row. */
+export const MAX_SUMMARY_LENGTH = 120;
+
+/** The severity of each rule. */
+export const RULE_SEVERITIES: Record<ValidationRule, ValidationSeverity> = {
+  'duplicate-sibling': 'error',
+  placeholder: 'warning',
+  'empty-summary': 'warning',
+  'empty-description': 'warning',
+  'name-kind-mismatch': 'error',
+  'long-summary': 'warning',
+  'missing-in-checkout': 'error',
+  'checkout-kind-mismatch': 'error',
+};
+
+/** Text that stands in for real content. */
+const PLACEHOLDER = /^(\.{2,}|…|todo|tbd|fixme|xxx|placeholder|n\/a|-+|\?+)$/i;
+
+/**
+ * Checks whether a name or text is a placeholder.
+ * @param {string} text - The name, summary or description.
+ * @returns {boolean} True for stand-ins such as `...`, `…` or `TODO`.
+ */
+export const isPlaceholder = (text: string): boolean => PLACEHOLDER.test(text.trim().replace(/\/$/, ''));
+
+/**
+ * Works out what a node is, from its `kind` if it has one, else from its children and name.
+ * @param {LegacyKernelNode | KernelNode} node - The node.
+ * @returns {NodeKind} The node's kind.
+ */
+const kindOf = (node: LegacyKernelNode | KernelNode): NodeKind => {
+  if ('kind' in node && node.kind) {
+    return node.kind;
+  }
+  return node.lazyChildren || (node.children && node.children.length > 0) || node.name.endsWith('/') ? 'dir' : 'file';
+};
+
+/**
+ * Creates an issue.
+ * @param {ValidationRule} rule - The rule broken.
+ * @param {string} path - The node's relative path.
+ * @param {string} message - What is wrong.
+ * @returns {ValidationIssue} The issue.
+ */
+export const createIssue = (rule: ValidationRule, path: string, message: string): ValidationIssue => ({
+  rule,
+  severity: RULE_SEVERITIES[rule],
+  path,
+  message,
+});
+
+/**
+ * Validates a tree's names and text.
+ * @param {LegacyKernelNode | KernelNode} root - The root of the tree, in either schema.
+ * @param {ValidationOptions} [options={}] - Limits.
+ * @returns {{ issues: ValidationIssue[], nodes: number }} The issues, in tree order, and the number of nodes checked.
+ */
+export const validateTree = (
+  root: LegacyKernelNode | KernelNode,
+  options: ValidationOptions = {},
+): { issues: ValidationIssue[]; nodes: number } => {
+  const maxSummaryLength = options.maxSummaryLength ?? MAX_SUMMARY_LENGTH;
+  const issues: ValidationIssue[] = [];
+  let nodes = 0;
+
+  const visit = (node: LegacyKernelNode | KernelNode, path: string) => {
+    nodes++;
+    const kind = kindOf(node);
+    const bareName = node.name.replace(/\/$/, '');
+
+    if (isPlaceholder(node.name)) {
+      issues.push(createIssue('placeholder', path, `The name "${node.name}" is a placeholder`));
+    }
+    if (path !== '' && bareName.includes('/')) {
+      issues.push(createIssue('name-kind-mismatch', path, `The name "${node.name}" contains a "/"`));
+    } else if (kind === 'dir' && !node.name.endsWith('/')) {
+      issues.push(createIssue('name-kind-mismatch', path, `The directory "${node.name}" should be named "${node.name}/"`));
+    } else if (kind !== 'dir' && node.name.endsWith('/')) {
+      issues.push(createIssue('name-kind-mismatch', path, `The ${kind === 'symlink' ? 'symbolic link' : 'file'} "${node.name}" should not end with "/"`));
+    }
+
+    const summary = node.summary ?? '';
+    if (summary.trim() === '') {
+      issues.push(createIssue('empty-summary', path, 'The summary is empty'));
+    } else if (isPlaceholder(summary)) {
+      issues.push(createIssue('placeholder', path, `The summary "${summary.trim()}" is a placeholder`));
+    } else if ([...summary].length > maxSummaryLength) {
+      issues.push(createIssue('long-summary', path, `The summary is ${[...summary].length} characters long (at most ${maxSummaryLength})`));
+    }
+    const description = node.description ?? '';
+    if (description.trim() === '') {
+      issues.push(createIssue('empty-description', path, 'The description is empty'));
+    } else if (isPlaceholder(description)) {
+      issues.push(createIssue('placeholder', path, `The description "${description.trim()}" is a placeholder`));
+    }
+
+    const seen = new Map<string, string>();
+    (node.children ?? []).forEach(child => {
+      const key = child.name.replace(/\/$/, '');
+      const earlier = seen.get(key);
+      if (earlier !== undefined) {
+        issues.push(createIssue('duplicate-sibling', path + child.name, `"${child.name}" has the same name as its sibling "${earlier}"`));
+      } else {
+        seen.set(key, child.name);
+      }
+    });
+    // Descendants of a directory missing its `/` still get the paths the app would give them.
+    (node.children ?? []).forEach(child => visit(child, path + child.name + (kindOf(child) === 'dir' && !child.name.endsWith('/') ? '/' : '')));
+  };
+  visit(root, '');
+
+  return { issues, nodes };
+};
+
+/**
+ * Builds the report of a validation.
+ * @param {string} source - Where the tree was read from.
+ * @param {number} nodes - The number of nodes checked.
+ * @param {ValidationIssue[]} issues - The issues found.
+ * @returns {ValidationReport} The report.
+ */
+export const buildValidationReport = (source: string, nodes: number, issues: ValidationIssue[]): ValidationReport => ({
+  source,
+  nodes,
+  errors: issues.filter(issue => issue.severity === 'error').length,
+  warnings: issues.filter(issue => issue.severity === 'warning').length,
+  issues,
+});
+
+/**
+ * Formats an issue as one line of text, e.g. `error   duplicate-sibling  fs/open.c: ...`.
+ * @param {ValidationIssue} issue - The issue.
+ * @returns {string} The line.
+ */
+export const formatIssue = (issue: ValidationIssue): string =>
+  `${issue.severity.padEnd(7)} ${issue.rule.padEnd(22)} ${issue.path || '(root)'}: ${issue.message}`;
@@ -1,9 +1,14 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import tailwindcss from '@tailwindcss/vite';
+import { kernelSourcePlugin } from './scripts/lib/kernelSourcePlugin';
+import { serviceWorkerPlugin } from './scripts/lib/serviceWorkerPlugin';
+import { treeValidationPlugin } from './scripts/lib/treeValidationPlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [tailwindcss(), kernelSourcePlugin(env.KERNEL_SOURCE), treeValidationPlugin(env.KERNEL_SOURCE), serviceWorkerPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
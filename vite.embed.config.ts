@@ -0,0 +1,30 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import tailwindcss from '@tailwindcss/vite';
+
+/**
+ * The library build of `embed.tsx`: the `<kernel-tree>` element and the components behind it, as
+ * one ES module with the styles included. React stays a peer of the page (through its bundler or
+ * an import map), so the exported components can be rendered by the page's own React.
+ */
+export default defineConfig({
+  plugins: [tailwindcss()],
+  // The chunk folder is published on its own and passed in through `dataset-url`.
+  publicDir: false,
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    },
+  },
+  build: {
+    outDir: 'dist-embed',
+    lib: {
+      entry: path.resolve(__dirname, 'embed.tsx'),
+      formats: ['es'],
+      fileName: () => 'kernel-tree.js',
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react-dom/client', 'react/jsx-runtime'],
+    },
+  },
+});